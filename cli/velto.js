@@ -0,0 +1,536 @@
+#!/usr/bin/env node
+
+/**
+ * velto - command-line tool for operators and traders
+ *
+ * Drives local and testnet markets through the SDK instead of raw `cast` calls:
+ * - List and inspect markets
+ * - Deposit / withdraw, open / close, liquidate
+ * - Inspect a position's health, equity and liquidation price
+ * - Mint MockUSDC and create markets
+ *
+ * RPC and keys come from the environment (.env is loaded); every command prints a table,
+ * or JSON with --json (amounts as raw integer strings)
+ */
+
+import { parseArgs } from 'node:util';
+import { createPublicClient, createWalletClient, http, isAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import dotenv from 'dotenv';
+import {
+  PerpClient,
+  perpFactoryAbi,
+  mockUsdcAbi,
+  executeTransaction,
+  findProtocolEvent,
+  readMarketSnapshots,
+  getDeployment,
+  toProtocolError,
+  ProtocolError,
+  SlippageError,
+  MAX_LEVERAGE,
+  parseAmount,
+  formatAmount,
+  formatUsd,
+  formatPercent,
+  formatLeverage,
+  asUsdc,
+  asInternal,
+  asLeverage,
+} from '@velto/contracts';
+
+dotenv.config();
+
+const USAGE = `Usage: velto <command> [arguments] [options]
+
+Markets
+  markets                                      List markets from PerpFactory.getAllMarkets
+  market <engine>                              Market state (reserves, open interest, funds)
+  create-market <baseReserve> <quoteReserve>   Create a market (reserves in whole units)
+      [--max-leverage <x>] [--collateral <token>]
+
+Collateral
+  faucet [--token <usdc>]                      Mint MockUSDC to the signer
+  deposit <engine> <usdc> [--permit]           Deposit USDC (approves first unless --permit)
+  withdraw <engine> <amount>                   Withdraw from the engine wallet
+
+Trading
+  open <engine> <long|short> <amount> <leverage> [--max-slippage-bps <bps>]
+  close <engine> <positionId> [--max-slippage-bps <bps>]
+  positions <engine> [--account <address>]     Open positions of an account
+  position <engine> <positionId>               Health, equity and liquidation price
+  liquidate <engine> <positionId>
+
+Options
+  --json                  Print JSON instead of tables
+  --rpc-url <url>         Default: $RPC_URL or http://127.0.0.1:8545
+  --factory <address>     Default: $FACTORY_ADDRESS or deployments.json for the chain
+  --deployment <name>     Named deployment in deployments.json (default: $DEPLOYMENT or "default")
+  -h, --help              Show this help
+
+Transactions are signed with $PRIVATE_KEY.`;
+
+const POSITION_STATUS = ['OPEN', 'CLOSED', 'LIQUIDATED'];
+
+/**
+ * CLI errors: printed without a stack trace
+ */
+class UsageError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Parse arguments
+let parsed;
+try {
+  parsed = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+      'rpc-url': { type: 'string' },
+      factory: { type: 'string' },
+      deployment: { type: 'string' },
+      token: { type: 'string' },
+      collateral: { type: 'string' },
+      account: { type: 'string' },
+      permit: { type: 'boolean', default: false },
+      'max-leverage': { type: 'string' },
+      'max-slippage-bps': { type: 'string' },
+    },
+  });
+} catch (error) {
+  console.error(`ERROR: ${error.message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+const { values: options, positionals } = parsed;
+const [command, ...args] = positionals;
+
+// Configuration
+const config = {
+  rpcUrl: options['rpc-url'] || process.env.RPC_URL || 'http://127.0.0.1:8545',
+  privateKey: process.env.PRIVATE_KEY,
+  factory: options.factory || process.env.FACTORY_ADDRESS,
+  usdc: options.token || process.env.USDC_ADDRESS,
+  deployment: options.deployment || process.env.DEPLOYMENT || 'default',
+};
+
+const account = config.privateKey ? privateKeyToAccount(config.privateKey) : undefined;
+const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+const walletClient = account ? createWalletClient({ account, transport: http(config.rpcUrl) }) : undefined;
+const perp = new PerpClient({ publicClient, walletClient });
+
+/**
+ * Commands
+ */
+
+const commands = {
+  async markets() {
+    const factory = await resolveFactory();
+    const engines = await publicClient.readContract({ address: factory, abi: perpFactoryAbi, functionName: 'getAllMarkets' });
+    const snapshots = await readMarketSnapshots(publicClient, engines);
+
+    output(snapshots, () => {
+      if (snapshots.length === 0) return console.log('No markets');
+      printTable(
+        ['Engine', 'Market', 'Mark Price', 'Long OI', 'Short OI', 'Trade Fund'],
+        snapshots.map((s) => [
+          s.engineAddress,
+          s.marketAddress,
+          formatUsd(s.markPrice, { digits: 4 }),
+          formatUsd(s.longOI),
+          formatUsd(s.shortOI),
+          formatUsd(s.tradeFund),
+        ])
+      );
+    });
+  },
+
+  async market(engine) {
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const [addresses, snapshot] = await Promise.all([market.addresses(), market.getSnapshot()]);
+
+    output({ ...addresses, ...snapshot }, () =>
+      printFields([
+        ['Engine', addresses.engine],
+        ['Market', addresses.market],
+        ['Position Manager', addresses.positionManager],
+        ['Collateral', addresses.collateralToken],
+        ['Block', snapshot.blockNumber],
+        ['Mark Price', formatUsd(snapshot.markPrice, { digits: 4 })],
+        ['Base Reserve', formatAmount(snapshot.baseReserve, { digits: 4 })],
+        ['Quote Reserve', formatAmount(snapshot.quoteReserve)],
+        ['Long OI', formatUsd(snapshot.longOI)],
+        ['Short OI', formatUsd(snapshot.shortOI)],
+        ['Net OI', formatUsd(snapshot.netOI, { signDisplay: 'exceptZero' })],
+        ['Carry Index', formatAmount(snapshot.carryIndex, { digits: 8, signDisplay: 'exceptZero' })],
+        ['Trade Fund', formatUsd(snapshot.tradeFund)],
+        ['Insurance Fund', formatUsd(snapshot.insuranceFund)],
+        ['Protocol Fees', formatUsd(snapshot.protocolFees)],
+      ])
+    );
+  },
+
+  async 'create-market'(baseReserve, quoteReserve) {
+    const signer = requireSigner();
+    const factory = await resolveFactory();
+    const collateral = options.collateral ? requireAddress(options.collateral, '--collateral') : await resolveUsdc();
+    const marketConfig = {
+      baseReserve: parseArg(baseReserve, 18, 'baseReserve'),
+      quoteReserve: parseArg(quoteReserve, 18, 'quoteReserve'),
+      maxLeverage: options['max-leverage'] ? parseArg(options['max-leverage'], 18, '--max-leverage') : MAX_LEVERAGE,
+    };
+
+    const { hash, receipt } = await executeTransaction({
+      ...signer,
+      address: factory,
+      abi: perpFactoryAbi,
+      functionName: 'createMarket',
+      args: [collateral, marketConfig],
+    });
+    const event = findProtocolEvent(receipt.logs, 'MarketCreated');
+
+    output({ hash, engine: event?.engine, market: event?.market, marketIndex: event?.marketIndex, ...marketConfig }, () =>
+      printFields([
+        ['Transaction', hash],
+        ['Engine', event?.engine ?? '-'],
+        ['Market', event?.market ?? '-'],
+        ['Index', event?.marketIndex ?? '-'],
+        ['Mark Price', formatUsd((marketConfig.quoteReserve * 10n ** 18n) / marketConfig.baseReserve, { digits: 4 })],
+        ['Max Leverage', formatLeverage(marketConfig.maxLeverage)],
+      ])
+    );
+  },
+
+  async faucet() {
+    const signer = requireSigner();
+    const token = await resolveUsdc();
+    const { hash } = await executeTransaction({ ...signer, address: token, abi: mockUsdcAbi, functionName: 'faucet' });
+    const balance = await publicClient.readContract({
+      address: token,
+      abi: mockUsdcAbi,
+      functionName: 'balanceOf',
+      args: [account.address],
+    });
+
+    output({ hash, token, balance }, () =>
+      printFields([
+        ['Transaction', hash],
+        ['Token', token],
+        ['Balance', `${formatAmount(balance, { decimals: 6 })} USDC`],
+      ])
+    );
+  },
+
+  async deposit(engine, usdc) {
+    requireSigner();
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const amount = asUsdc(parseArg(usdc, 6, 'usdc'));
+
+    let hash;
+    if (options.permit) {
+      ({ hash } = await market.depositWithPermit(amount));
+    } else {
+      const { collateralToken } = await market.addresses();
+      const allowance = await publicClient.readContract({
+        address: collateralToken,
+        abi: mockUsdcAbi,
+        functionName: 'allowance',
+        args: [account.address, market.engine],
+      });
+      if (allowance < amount) {
+        log(`Approving ${formatAmount(amount, { decimals: 6 })} USDC...`);
+        await market.approve(amount);
+      }
+      ({ hash } = await market.deposit(amount));
+    }
+
+    const walletBalance = await market.getWalletBalance();
+    output({ hash, amount, walletBalance }, () =>
+      printFields([
+        ['Transaction', hash],
+        ['Deposited', `${formatAmount(amount, { decimals: 6 })} USDC`],
+        ['Engine Balance', `${formatAmount(walletBalance)} USDC`],
+      ])
+    );
+  },
+
+  async withdraw(engine, value) {
+    requireSigner();
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const amount = asInternal(parseArg(value, 18, 'amount'));
+
+    const { hash } = await market.withdraw(amount);
+    const walletBalance = await market.getWalletBalance();
+
+    output({ hash, amount, walletBalance }, () =>
+      printFields([
+        ['Transaction', hash],
+        ['Withdrawn', `${formatAmount(amount)} USDC`],
+        ['Engine Balance', `${formatAmount(walletBalance)} USDC`],
+      ])
+    );
+  },
+
+  async open(engine, side, value, leverageValue) {
+    requireSigner();
+    const market = perp.market(requireAddress(engine, 'engine'));
+    if (side !== 'long' && side !== 'short') throw new UsageError('side must be "long" or "short"');
+    const isLong = side === 'long';
+    const totalToUse = asInternal(parseArg(value, 18, 'amount'));
+    const leverage = asLeverage(parseArg(leverageValue, 18, 'leverage'));
+
+    // The quote is what the slippage bound is measured from
+    const quote = await market.quoteOpen({ isLong, totalToUse, leverage });
+    log(`Quote: ${formatAmount(quote.baseSize, { digits: 4 })} @ ~${formatUsd(quote.entryPrice, { digits: 4 })}, fee ${formatUsd(quote.fee, { digits: 4 })}`);
+
+    const result = await market.openPosition(isLong, totalToUse, leverage, slippageOptions(quote.entryPrice));
+    const event = findProtocolEvent(result.receipt.logs, 'PositionOpened');
+
+    output({ hash: result.hash, positionId: result.positionId, quote, fill: event, slippage: result.slippage }, () =>
+      printFields([
+        ['Transaction', result.hash],
+        ['Position', result.positionId ?? '-'],
+        ['Side', isLong ? 'LONG' : 'SHORT'],
+        ['Margin', event ? `${formatAmount(event.margin)} USDC` : '-'],
+        ['Leverage', formatLeverage(leverage)],
+        ['Entry Price', event ? formatUsd(event.entryPrice, { digits: 4 }) : '-'],
+        ['Quoted Price', formatUsd(quote.entryPrice, { digits: 4 })],
+        ...slippageRows(result.slippage),
+      ])
+    );
+  },
+
+  async close(engine, positionId) {
+    requireSigner();
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const id = parsePositionId(positionId);
+
+    // Measured from the current close price when bounded by bps
+    const slippage = options['max-slippage-bps'] ? slippageOptions() : undefined;
+    const result = await market.closePosition(id, slippage);
+    const event = findProtocolEvent(result.receipt.logs, 'PositionClosed');
+
+    output({ hash: result.hash, positionId: id, fill: event, slippage: result.slippage }, () =>
+      printFields([
+        ['Transaction', result.hash],
+        ['Position', id],
+        ['Close Price', event ? formatUsd(event.avgClosePrice, { digits: 4 }) : '-'],
+        ['Total PnL', event ? `${formatAmount(event.totalPnl, { signDisplay: 'exceptZero' })} USDC` : '-'],
+        ...slippageRows(result.slippage),
+      ])
+    );
+  },
+
+  async positions(engine) {
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const owner = options.account ? requireAddress(options.account, '--account') : account?.address;
+    if (!owner) throw new UsageError('--account or PRIVATE_KEY required');
+
+    const positions = await market.getUserPositions(owner);
+    output(positions, () => {
+      if (positions.length === 0) return console.log(`No open positions for ${owner}`);
+      printTable(
+        ['ID', 'Side', 'Margin', 'Size', 'Entry Price', 'Leverage'],
+        positions.map((p) => [
+          p.id,
+          p.isLong ? 'LONG' : 'SHORT',
+          formatUsd(p.margin),
+          formatAmount(p.baseSize, { digits: 4 }),
+          formatUsd(p.entryPrice, { digits: 4 }),
+          formatLeverage((p.entryNotional * 10n ** 18n) / p.margin),
+        ])
+      );
+    });
+  },
+
+  async position(engine, positionId) {
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const id = parsePositionId(positionId);
+
+    const blockNumber = await publicClient.getBlockNumber();
+    const analytics = await market.getPositionAnalytics(id, { blockNumber });
+    const liquidation = analytics.isOpen ? await market.getLiquidationPrice(id, { blockNumber }) : null;
+    const { position, equity, liquidationInfo } = analytics;
+
+    output({ blockNumber, ...analytics, liquidation }, () => {
+      const rows = [
+        ['Position', position.id],
+        ['Owner', position.user],
+        ['Status', POSITION_STATUS[position.status] ?? position.status],
+        ['Side', position.isLong ? 'LONG' : 'SHORT'],
+        ['Margin', formatUsd(position.margin)],
+        ['Size', formatAmount(position.baseSize, { digits: 4 })],
+        ['Entry Price', formatUsd(position.entryPrice, { digits: 4 })],
+        ['Opened At Block', position.openBlock],
+      ];
+      if (analytics.isOpen) {
+        rows.push(
+          ['Close Price', formatUsd(equity.avgClosePrice, { digits: 4 })],
+          ['Trade PnL', formatUsd(equity.pnlTrade, { signDisplay: 'exceptZero' })],
+          ['Carry PnL', formatUsd(equity.carryPnl, { signDisplay: 'exceptZero' })],
+          ['Equity', formatUsd(equity.equityIfClosed)],
+          ['Leverage', formatLeverage(liquidationInfo.leverage)],
+          ['Loss / Allowed', `${formatUsd(liquidationInfo.currentLoss)} / ${formatUsd(liquidationInfo.allowedLoss)}`],
+          ['Liquidatable', liquidationInfo.isLiquidatable ? 'YES' : 'no'],
+          ['Liquidation Price', liquidation ? formatUsd(liquidation.liquidationPrice, { digits: 4 }) : '-'],
+          ['Distance', liquidation ? formatPercent(liquidation.distance) : '-']
+        );
+      } else {
+        rows.push(['Realized PnL', formatUsd(position.realizedPnl, { signDisplay: 'exceptZero' })]);
+      }
+      rows.push(['Block', blockNumber]);
+      printFields(rows);
+    });
+  },
+
+  async liquidate(engine, positionId) {
+    requireSigner();
+    const market = perp.market(requireAddress(engine, 'engine'));
+    const id = parsePositionId(positionId);
+
+    const { hash, receipt } = await market.liquidate(id);
+    const event = findProtocolEvent(receipt.logs, 'PositionLiquidated');
+
+    output({ hash, positionId: id, liquidationFee: event?.liquidationFee }, () =>
+      printFields([
+        ['Transaction', hash],
+        ['Position', id],
+        ['Liquidation Fee', event ? formatUsd(event.liquidationFee) : '-'],
+      ])
+    );
+  },
+};
+
+/**
+ * Helpers
+ */
+
+async function resolveFactory() {
+  if (config.factory) return requireAddress(config.factory, '--factory');
+  const deployment = await resolveDeployment();
+  return deployment.factory;
+}
+
+async function resolveUsdc() {
+  if (config.usdc) return requireAddress(config.usdc, '--token');
+  const deployment = await resolveDeployment();
+  if (!deployment.usdc) throw new UsageError('No USDC in deployments.json for this chain: pass --token or set USDC_ADDRESS');
+  return deployment.usdc;
+}
+
+async function resolveDeployment() {
+  const chainId = await publicClient.getChainId();
+  const deployment = getDeployment(chainId, config.deployment);
+  if (!deployment) {
+    throw new UsageError(`No "${config.deployment}" deployment for chain ${chainId}: pass --factory or set FACTORY_ADDRESS`);
+  }
+  return deployment;
+}
+
+function requireSigner() {
+  if (!walletClient) throw new UsageError('PRIVATE_KEY not set in environment');
+  return { publicClient, walletClient };
+}
+
+function requireAddress(value, name) {
+  if (!value || !isAddress(value)) throw new UsageError(`${name} must be an address`);
+  return value;
+}
+
+function parseArg(value, decimals, name) {
+  if (value === undefined) throw new UsageError(`missing <${name}>`);
+  try {
+    return parseAmount(value, decimals);
+  } catch (error) {
+    throw new UsageError(`${name}: ${error.message}`);
+  }
+}
+
+function parsePositionId(value) {
+  if (!value || !/^\d+$/.test(value)) throw new UsageError('positionId must be an integer');
+  return BigInt(value);
+}
+
+function slippageOptions(referencePrice) {
+  const bps = options['max-slippage-bps'];
+  if (bps === undefined) return undefined;
+  if (!/^\d+$/.test(bps)) throw new UsageError('--max-slippage-bps must be an integer');
+  return { maxSlippageBps: BigInt(bps), referencePrice };
+}
+
+function slippageRows(slippage) {
+  if (!slippage) return [];
+  const { minAvgPrice, maxAvgPrice } = slippage.bounds;
+  return [
+    ['Price Bound', [
+      minAvgPrice !== undefined ? `>= ${formatUsd(minAvgPrice, { digits: 4 })}` : null,
+      maxAvgPrice !== undefined ? `<= ${formatUsd(maxAvgPrice, { digits: 4 })}` : null,
+    ].filter(Boolean).join(', ') || '-'],
+    ['Within Bound', slippage.withinBounds ? 'yes' : 'NO - fill broke the bound'],
+  ];
+}
+
+/**
+ * Output
+ */
+
+// Progress lines go to stderr so --json output stays parseable
+function log(message) {
+  console.error(message);
+}
+
+function output(data, render) {
+  if (options.json) {
+    console.log(JSON.stringify(data, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2));
+  } else {
+    render();
+  }
+}
+
+function printFields(rows) {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  for (const [label, value] of rows) {
+    console.log(`${`${label}:`.padEnd(width + 2)}${value}`);
+  }
+}
+
+function printTable(headers, rows) {
+  const cells = rows.map((row) => row.map(String));
+  const widths = headers.map((header, i) => Math.max(header.length, ...cells.map((row) => row[i].length)));
+  const line = (row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(line(headers));
+  console.log(line(widths.map((width) => '-'.repeat(width))));
+  cells.forEach((row) => console.log(line(row)));
+}
+
+/**
+ * Main
+ */
+
+async function main() {
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const run = commands[command];
+  if (!run) throw new UsageError(`unknown command "${command}"`);
+  await run(...args);
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`ERROR: ${error.message}\n\nRun "velto --help" for usage.`);
+  } else if (error instanceof SlippageError) {
+    console.error(`Not sent: ${error.message}`);
+  } else {
+    const decoded = toProtocolError(error);
+    console.error(decoded instanceof ProtocolError ? `Reverted: ${decoded.errorName} - ${decoded.message}` : `ERROR: ${decoded.message}`);
+  }
+  process.exit(1);
+});
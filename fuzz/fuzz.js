@@ -0,0 +1,696 @@
+#!/usr/bin/env node
+
+/**
+ * Differential fuzzer: SDK reference model vs the contracts on Anvil
+ *
+ * Starts Anvil, deploys the protocol from the Foundry artifacts (out/) and applies random operation
+ * sequences - deposits, withdrawals, opens at random leverage, closes, block advances, liquidations -
+ * to a fresh market and to createProtocolModel side by side. After every step it compares:
+ * - the outcome (success, or the revert name) and the emitted events
+ * - reserves, k, open interest, carry index, fund balances, wallets and the engine's USDC
+ * - every position, with its equity if closed and liquidation info
+ *
+ * The first divergence is shrunk to a minimal reproducing sequence and saved to failures/
+ * (replay it with --replay)
+ */
+
+import { parseArgs } from 'node:util';
+import { spawn } from 'node:child_process';
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import {
+  createPublicClient,
+  createWalletClient,
+  createTestClient,
+  defineChain,
+  decodeEventLog,
+  http,
+  maxUint256,
+  BaseError,
+  ContractFunctionRevertedError,
+} from 'viem';
+import { mnemonicToAccount } from 'viem/accounts';
+import { anvil } from 'viem/chains';
+import {
+  createProtocolModel,
+  perpEngineAbi,
+  perpMarketAbi,
+  positionManagerAbi,
+  liquidationEngineAbi,
+  perpFactoryAbi,
+  mockUsdcAbi,
+  findProtocolEvent,
+  decodeProtocolError,
+  ProtocolError,
+  VammError,
+  MAX_LEVERAGE,
+} from '@velto/contracts';
+
+const USAGE = `Usage: node fuzz.js [options]
+
+  --runs <n>          Sequences to run (default 20)
+  --steps <n>         Operations per sequence (default 40)
+  --seed <n>          Seed of the first sequence; sequence i uses seed + i (default: random)
+  --replay <file>     Re-run a saved failure step by step
+  --rpc-url <url>     Use a running Anvil instead of starting one (its state is snapshotted and restored)
+  --port <n>          Port of the spawned Anvil (default 8546)
+  --no-shrink         Save the first divergence as found
+  -h, --help          Show this help
+
+Requires \`forge build\` (reads the artifacts in out/) and anvil on the PATH.`;
+
+const ANVIL_MNEMONIC = 'test test test test test test test test test test test junk';
+const ACTOR_COUNT = 4;
+const ARTIFACTS_DIR = new URL('../out/', import.meta.url);
+const FAILURES_DIR = new URL('./failures/', import.meta.url);
+
+const USDC = 10n ** 6n;
+
+// Relative weights of the generated operations
+const OPERATION_WEIGHTS = [
+  ['deposit', 15],
+  ['withdraw', 10],
+  ['open', 35],
+  ['close', 20],
+  ['advance', 10],
+  ['liquidate', 10],
+];
+
+// Op fields stored as bigint (strings in saved failures)
+const BIGINT_FIELDS = ['amount', 'totalToUse', 'leverage', 'positionId', 'blocks', 'baseReserve', 'quoteReserve'];
+
+/**
+ * Fuzzer errors: printed without a stack trace
+ */
+class UsageError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// ============ Random sequences ============
+
+/**
+ * Seeded PRNG (mulberry32): same seed, same sequence
+ */
+function createRng(seed) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (n) => Math.floor(next() * n);
+  return {
+    int,
+    chance: (p) => next() < p,
+    pick: (items) => items[int(items.length)],
+    // Uniform in [0, max], max a bigint
+    below: (max) => (max <= 0n ? 0n : (max * BigInt(int(1_000_001))) / 1_000_000n),
+  };
+}
+
+function randomMarket(rng) {
+  const baseReserve = BigInt(1 + rng.int(9)) * 10n ** BigInt(18 + rng.int(6));
+  // Mark price between 0.01 and 100,000
+  const quoteReserve = (baseReserve * BigInt(1 + rng.int(10_000_000))) / 100n;
+  return { baseReserve, quoteReserve };
+}
+
+/**
+ * Next operation for the current model state
+ * Mostly valid calls, with a share of edge cases (zero amounts, over-balance, foreign or stale ids)
+ */
+function randomOperation(rng, model, actors) {
+  const actor = rng.int(actors.length);
+  const wallet = model.getWalletBalance(actors[actor].address);
+  const state = model.getState();
+  const open = [...state.positions.values()].filter((p) => p.status === 0);
+  const anyId = () => BigInt(rng.int(Number(state.nextPositionId) + 1));
+
+  const total = OPERATION_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = rng.int(total);
+  const type = OPERATION_WEIGHTS.find(([, weight]) => (roll -= weight) < 0)[0];
+
+  switch (type) {
+    case 'deposit':
+      return { type, actor, amount: rng.chance(0.05) ? 0n : BigInt(1 + rng.int(100_000)) * USDC + BigInt(rng.int(1_000_000)) };
+    case 'withdraw':
+      return { type, actor, amount: rng.chance(0.1) ? wallet + 1n : rng.chance(0.05) ? 0n : rng.below(wallet) };
+    case 'open': {
+      const totalToUse = rng.chance(0.05) ? 0n : rng.chance(0.05) ? wallet + 1n : rng.below(wallet);
+      const leverage = rng.chance(0.03) ? 0n : rng.chance(0.03) ? MAX_LEVERAGE + 1n : BigInt(1 + rng.int(30_000)) * 10n ** 15n;
+      return { type, actor, isLong: rng.chance(0.5), totalToUse, leverage };
+    }
+    case 'close': {
+      const owned = open.filter((p) => p.user === actors[actor].address);
+      const positionId = owned.length && rng.chance(0.8) ? rng.pick(owned).id : open.length && rng.chance(0.5) ? rng.pick(open).id : anyId();
+      return { type, actor, positionId };
+    }
+    case 'advance':
+      return { type, blocks: BigInt(1 + rng.int(20)) };
+    case 'liquidate':
+      return { type, actor, positionId: open.length && rng.chance(0.9) ? rng.pick(open).id : anyId() };
+  }
+}
+
+// ============ Chain ============
+
+function loadArtifact(name) {
+  const url = new URL(`${name}.sol/${name}.json`, ARTIFACTS_DIR);
+  try {
+    const artifact = JSON.parse(readFileSync(url, 'utf8'));
+    return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+  } catch {
+    throw new UsageError(`Missing artifact ${url.pathname}; run \`forge build\` first`);
+  }
+}
+
+async function startAnvil(port) {
+  const child = spawn('anvil', ['--port', String(port), '--silent'], { stdio: 'ignore' });
+  const failed = new Promise((_, reject) => {
+    child.once('error', (error) => reject(error.code === 'ENOENT' ? new UsageError('anvil not found; install Foundry') : error));
+    child.once('exit', (code) => reject(new Error(`anvil exited with code ${code}`)));
+  });
+  // Only awaited while starting; the exit after stop() is expected
+  failed.catch(() => {});
+
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const client = createPublicClient({ transport: http(rpcUrl, { retryCount: 0 }) });
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const ready = await Promise.race([client.getChainId().then(() => true, () => false), failed]);
+    if (ready) return { rpcUrl, stop: () => child.kill() };
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  child.kill();
+  throw new Error(`anvil did not answer on ${rpcUrl}`);
+}
+
+/**
+ * Deploy the protocol once; every sequence starts from a snapshot of this state
+ */
+async function setup(rpcUrl) {
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const chain = defineChain({ ...anvil, id: await publicClient.getChainId() });
+  const testClient = createTestClient({ mode: 'anvil', chain, transport: http(rpcUrl) });
+  const walletOf = (account) => createWalletClient({ account, chain, transport: http(rpcUrl) });
+
+  const deployer = walletOf(mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: 0 }));
+  const actors = Array.from({ length: ACTOR_COUNT }, (_, i) => {
+    const wallet = walletOf(mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: i + 1 }));
+    return { address: wallet.account.address, wallet };
+  });
+
+  const waitFor = (hash) => publicClient.waitForTransactionReceipt({ hash, pollingInterval: 50 });
+  const send = async (wallet, request) => waitFor(await wallet.writeContract(request));
+  const deploy = async (name, args = []) => {
+    const { abi, bytecode } = loadArtifact(name);
+    return (await waitFor(await deployer.deployContract({ abi, bytecode, args }))).contractAddress;
+  };
+
+  // Taken before deploying, so a borrowed node can be put back as it was
+  const baselineId = await testClient.snapshot();
+
+  const perpMarketImpl = await deploy('PerpMarket');
+  const positionManagerImpl = await deploy('PositionManager');
+  const perpEngineImpl = await deploy('PerpEngine');
+  const liquidationEngine = await deploy('LiquidationEngine');
+  const fundingManager = await deploy('FundingManager');
+  const factory = await deploy('PerpFactory', [perpMarketImpl, positionManagerImpl, perpEngineImpl, liquidationEngine, fundingManager]);
+  const usdc = await deploy('MockUSDC');
+
+  return {
+    publicClient,
+    testClient,
+    deployer,
+    actors,
+    send,
+    addresses: { factory, usdc, liquidationEngine },
+    baselineId,
+    snapshotId: await testClient.snapshot(),
+  };
+}
+
+/**
+ * Restore the deployed state and create the sequence's market; actors get USDC and a max approval
+ */
+async function createMarket(env, config) {
+  await env.testClient.revert({ id: env.snapshotId });
+  env.snapshotId = await env.testClient.snapshot();
+
+  const receipt = await env.send(env.deployer, {
+    address: env.addresses.factory,
+    abi: perpFactoryAbi,
+    functionName: 'createMarket',
+    args: [env.addresses.usdc, { baseReserve: config.baseReserve, quoteReserve: config.quoteReserve, maxLeverage: MAX_LEVERAGE }],
+  });
+  const created = findProtocolEvent(receipt.logs, 'MarketCreated');
+  const positionManager = await env.publicClient.readContract({
+    address: created.engine,
+    abi: perpEngineAbi,
+    functionName: 'positionManager',
+  });
+
+  for (const actor of env.actors) {
+    await env.send(actor.wallet, { address: env.addresses.usdc, abi: mockUsdcAbi, functionName: 'mint', args: [actor.address, 10n ** 9n * USDC] });
+    await env.send(actor.wallet, { address: env.addresses.usdc, abi: mockUsdcAbi, functionName: 'approve', args: [created.engine, maxUint256] });
+  }
+
+  return { engine: created.engine, market: created.market, positionManager };
+}
+
+async function applyToChain(env, market, op) {
+  if (op.type === 'advance') {
+    await env.testClient.mine({ blocks: Number(op.blocks) });
+    return { ok: true, events: [] };
+  }
+
+  const request = { address: market.engine, abi: perpEngineAbi, ...engineCall(op) };
+  try {
+    const receipt = await env.send(env.actors[op.actor].wallet, request);
+    if (receipt.status !== 'success') return { ok: false, error: 'Reverted' };
+    return { ok: true, events: decodeMarketEvents(market, receipt.logs) };
+  } catch (error) {
+    const name = revertName(error);
+    if (!name) throw error;
+    return { ok: false, error: name };
+  }
+}
+
+function engineCall(op) {
+  switch (op.type) {
+    case 'deposit': return { functionName: 'deposit', args: [op.amount] };
+    case 'withdraw': return { functionName: 'withdraw', args: [op.amount] };
+    case 'open': return { functionName: 'openPosition', args: [op.isLong, op.totalToUse, op.leverage] };
+    case 'close': return { functionName: 'closePosition', args: [op.positionId] };
+    case 'liquidate': return { functionName: 'liquidate', args: [op.positionId] };
+  }
+}
+
+function decodeMarketEvents(market, logs) {
+  const abis = new Map([
+    [market.engine.toLowerCase(), perpEngineAbi],
+    [market.market.toLowerCase(), perpMarketAbi],
+    [market.positionManager.toLowerCase(), positionManagerAbi],
+  ]);
+  return logs
+    .filter((log) => abis.has(log.address.toLowerCase()))
+    .map((log) => {
+      const { eventName, args } = decodeEventLog({ abi: abis.get(log.address.toLowerCase()), topics: log.topics, data: log.data });
+      return { eventName, args };
+    });
+}
+
+/** Protocol error name, 'Panic' for checked arithmetic, null when the error is not a revert */
+function revertName(error) {
+  const decoded = decodeProtocolError(error);
+  if (decoded) return decoded.errorName;
+  const reverted = error instanceof BaseError && error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted) return reverted.data?.errorName === 'Panic' ? 'Panic' : 'Reverted';
+  return null;
+}
+
+async function readChainState(env, market, actors) {
+  const read = (address, abi, functionName, args) => env.publicClient.readContract({ address, abi, functionName, args });
+  const readMarket = (functionName) => read(market.market, perpMarketAbi, functionName);
+
+  const [baseReserve, quoteReserve, k, longOI, shortOI, carryIndex, currentBlock, lastFundingBlock, funds, nextPositionId, engineUsdc, ...wallets] =
+    await Promise.all([
+      readMarket('baseReserve'),
+      readMarket('quoteReserve'),
+      readMarket('k'),
+      readMarket('longOpenInterest'),
+      readMarket('shortOpenInterest'),
+      readMarket('cumulativeCarryIndex'),
+      readMarket('currentBlock'),
+      readMarket('lastFundingBlock'),
+      read(market.engine, perpEngineAbi, 'getFundBalances'),
+      read(market.positionManager, positionManagerAbi, 'nextPositionId'),
+      read(env.addresses.usdc, mockUsdcAbi, 'balanceOf', [market.engine]),
+      ...actors.map((actor) => read(market.engine, perpEngineAbi, 'getWalletBalance', [actor.address])),
+    ]);
+
+  const positions = [];
+  for (let id = 1n; id < nextPositionId; id++) {
+    const [position, isOpen] = await Promise.all([
+      read(market.positionManager, positionManagerAbi, 'getPosition', [id]),
+      read(market.positionManager, positionManagerAbi, 'isPositionOpen', [id]),
+    ]);
+    const liquidationArgs = [market.positionManager, market.market, id];
+    const [equity, info, isLiquidatable] = isOpen
+      ? await Promise.all([
+        outcome(read(market.positionManager, positionManagerAbi, 'simulateEquityIfClosed', [id])),
+        outcome(read(env.addresses.liquidationEngine, liquidationEngineAbi, 'getLiquidationInfo', liquidationArgs)),
+        outcome(read(env.addresses.liquidationEngine, liquidationEngineAbi, 'isLiquidatable', liquidationArgs)),
+      ])
+      : [];
+    positions.push({ position, isOpen, equity, info, isLiquidatable });
+  }
+
+  return flattenState({
+    baseReserve, quoteReserve, k, longOI, shortOI, carryIndex, currentBlock, lastFundingBlock,
+    tradeFund: funds[0], insuranceFund: funds[1], protocolFees: funds[2],
+    nextPositionId, engineUsdc, wallets, positions,
+  });
+}
+
+/** Settles a view call to its value, or 'revert:<name>' */
+async function outcome(promise) {
+  try {
+    return await promise;
+  } catch (error) {
+    const name = revertName(error);
+    if (!name) throw error;
+    return `revert:${name}`;
+  }
+}
+
+// ============ Model ============
+
+function applyToModel(model, actors, op) {
+  const user = op.actor === undefined ? undefined : actors[op.actor].address;
+  try {
+    switch (op.type) {
+      case 'deposit': return succeeded(model.deposit(user, op.amount));
+      case 'withdraw': return succeeded(model.withdraw(user, op.amount));
+      case 'open': return succeeded(model.openPosition(user, op.isLong, op.totalToUse, op.leverage));
+      case 'close': return succeeded(model.closePosition(user, op.positionId));
+      case 'liquidate': return succeeded(model.liquidate(user, op.positionId));
+      // Chain blocks do not move PerpMarket.currentBlock; the model has nothing to do
+      case 'advance': return { ok: true, events: [] };
+    }
+  } catch (error) {
+    if (error instanceof ProtocolError) return { ok: false, error: error.errorName };
+    if (error instanceof VammError || error instanceof RangeError) return { ok: false, error: 'Panic' };
+    throw error;
+  }
+}
+
+function succeeded(call) {
+  return { ok: true, events: call.events.map(({ eventName, args }) => ({ eventName, args })) };
+}
+
+function readModelState(model, actors) {
+  const state = model.getState();
+  const modelOutcome = (fn) => {
+    try {
+      return fn();
+    } catch (error) {
+      if (error instanceof ProtocolError) return `revert:${error.errorName}`;
+      if (error instanceof VammError || error instanceof RangeError) return 'revert:Panic';
+      throw error;
+    }
+  };
+
+  const positions = [];
+  for (let id = 1n; id < state.nextPositionId; id++) {
+    const isOpen = model.isPositionOpen(id);
+    positions.push({
+      position: model.getPosition(id),
+      isOpen,
+      equity: isOpen ? modelOutcome(() => model.simulateEquityIfClosed(id)) : undefined,
+      info: isOpen ? modelOutcome(() => model.getLiquidationInfo(id)) : undefined,
+      isLiquidatable: isOpen ? modelOutcome(() => model.isLiquidatable(id)) : undefined,
+    });
+  }
+
+  return flattenState({
+    ...state,
+    engineUsdc: state.collateralBalance,
+    wallets: actors.map((actor) => model.getWalletBalance(actor.address)),
+    positions,
+  });
+}
+
+// ============ Comparison ============
+
+const EQUITY_FIELDS = ['closeNotional', 'avgClosePrice', 'pnlTrade', 'carryPnl', 'totalPnl', 'equityIfClosed'];
+const INFO_FIELDS = ['isLiquidatable', 'currentLoss', 'allowedLoss', 'equity', 'leverage'];
+const POSITION_FIELDS = ['user', 'isLong', 'baseSize', 'entryPrice', 'entryNotional', 'margin', 'carrySnapshot', 'openBlock', 'status', 'realizedPnl'];
+
+/**
+ * One flat key -> string map per side; chain tuples and model objects land on the same keys
+ */
+function flattenState(state) {
+  const flat = new Map();
+  const set = (key, value) => flat.set(key, typeof value === 'string' ? value.toLowerCase() : String(value));
+  const setFields = (prefix, value, fields) => {
+    if (typeof value === 'string') return set(prefix, value);
+    fields.forEach((field, i) => set(`${prefix}.${field}`, Array.isArray(value) ? value[i] : value[field]));
+  };
+
+  for (const key of ['baseReserve', 'quoteReserve', 'k', 'longOI', 'shortOI', 'carryIndex', 'currentBlock', 'lastFundingBlock',
+    'tradeFund', 'insuranceFund', 'protocolFees', 'nextPositionId', 'engineUsdc']) {
+    set(key, state[key]);
+  }
+  state.wallets.forEach((balance, i) => set(`wallet[${i}]`, balance));
+
+  state.positions.forEach(({ position, isOpen, equity, info, isLiquidatable }, i) => {
+    const prefix = `position[${i + 1}]`;
+    setFields(prefix, position, POSITION_FIELDS);
+    set(`${prefix}.isOpen`, isOpen);
+    if (!isOpen) return;
+    setFields(`${prefix}.equity`, equity, EQUITY_FIELDS);
+    setFields(`${prefix}.liquidationInfo`, info, INFO_FIELDS);
+    set(`${prefix}.isLiquidatable`, isLiquidatable);
+  });
+  return flat;
+}
+
+function diffStates(chain, model) {
+  const keys = new Set([...chain.keys(), ...model.keys()]);
+  return [...keys]
+    .filter((key) => chain.get(key) !== model.get(key))
+    .map((key) => ({ key, chain: chain.get(key), model: model.get(key) }));
+}
+
+function diffOutcomes(chain, model) {
+  if (chain.ok !== model.ok || chain.error !== model.error) {
+    return [{ key: 'outcome', chain: chain.ok ? 'ok' : chain.error, model: model.ok ? 'ok' : model.error }];
+  }
+  const chainEvents = canonical(chain.events);
+  const modelEvents = canonical(model.events);
+  return chainEvents === modelEvents ? [] : [{ key: 'events', chain: chainEvents, model: modelEvents }];
+}
+
+/** JSON with sorted keys, bigints as strings and addresses lowercased */
+function canonical(value) {
+  return JSON.stringify(value, (_, v) => {
+    if (typeof v === 'bigint') return v.toString();
+    if (typeof v === 'string') return v.toLowerCase();
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(Object.keys(v).sort().map((key) => [key, v[key]]));
+    }
+    return v;
+  });
+}
+
+/** What kind of divergence this is, ignoring position numbers: shrinking keeps the same kind */
+function divergenceKind(divergence) {
+  const first = divergence.diff[0].key.replace(/\[\d+\]/g, '[*]');
+  return first === 'outcome' || first === 'events' ? `${first}:${divergence.op?.type}` : first;
+}
+
+// ============ Sequences ============
+
+/**
+ * Apply operations to a fresh market and a fresh model, comparing after every step
+ * nextOp(step, model) returns the next operation or null; resolves to the divergence or null
+ */
+async function runSequence(env, config, nextOp, onStep) {
+  const market = await createMarket(env, config);
+  const model = createProtocolModel({ ...config, engineAddress: market.engine, marketAddress: market.market });
+  const ops = [];
+
+  const initial = diffStates(await readChainState(env, market, env.actors), readModelState(model, env.actors));
+  if (initial.length) return { step: -1, op: null, ops, diff: initial };
+
+  for (let step = 0; ; step++) {
+    const op = nextOp(step, model);
+    if (!op) return null;
+    ops.push(op);
+
+    const chainResult = await applyToChain(env, market, op);
+    const modelResult = applyToModel(model, env.actors, op);
+    let diff = diffOutcomes(chainResult, modelResult);
+    if (!diff.length) diff = diffStates(await readChainState(env, market, env.actors), readModelState(model, env.actors));
+
+    onStep?.(step, op, chainResult);
+    if (diff.length) return { step, op, ops, diff };
+  }
+}
+
+function replaySequence(env, config, ops, onStep) {
+  return runSequence(env, config, (step) => ops[step] ?? null, onStep);
+}
+
+/**
+ * Shrink a failing sequence
+ * 1. Drop chunks of operations (halving the chunk size) while the same kind of divergence remains
+ * 2. Halve numeric arguments while it still reproduces
+ */
+async function shrink(env, config, divergence) {
+  const kind = divergenceKind(divergence);
+  let best = divergence;
+  let ops = divergence.ops;
+  let attempts = 0;
+
+  const check = async (candidate) => {
+    attempts++;
+    const result = await replaySequence(env, config, candidate);
+    if (!result || divergenceKind(result) !== kind) return false;
+    best = result;
+    ops = result.ops;
+    return true;
+  };
+
+  for (let chunk = Math.max(1, ops.length >> 1); chunk >= 1; chunk >>= 1) {
+    for (let i = 0; i < ops.length;) {
+      const candidate = [...ops.slice(0, i), ...ops.slice(i + chunk)];
+      if (!candidate.length || !(await check(candidate))) i += chunk;
+    }
+  }
+
+  for (let i = 0; i < ops.length; i++) {
+    for (const field of ['amount', 'totalToUse', 'blocks']) {
+      for (let tries = 0; tries < 16 && ops[i]?.[field] > 1n; tries++) {
+        const candidate = ops.map((op, j) => (j === i ? { ...op, [field]: op[field] / 2n } : op));
+        if (!(await check(candidate))) break;
+      }
+    }
+  }
+
+  process.stderr.write(`Shrunk to ${best.ops.length} operations in ${attempts} replays\n`);
+  return best;
+}
+
+// ============ Reporting ============
+
+function describeOp(op, actors) {
+  const who = op.actor === undefined ? '' : ` actor[${op.actor}] ${actors[op.actor].address.slice(0, 10)}`;
+  const args = Object.entries(op)
+    .filter(([key]) => key !== 'type' && key !== 'actor')
+    .map(([key, value]) => `${key}=${value}`)
+    .join(' ');
+  return `${op.type}${who} ${args}`;
+}
+
+function printDivergence(divergence, env) {
+  console.log(`Divergence at step ${divergence.step}${divergence.op ? `: ${describeOp(divergence.op, env.actors)}` : ' (market creation)'}`);
+  for (const { key, chain, model } of divergence.diff.slice(0, 20)) {
+    console.log(`  ${key}\n    chain: ${chain}\n    model: ${model}`);
+  }
+  if (divergence.diff.length > 20) console.log(`  ... ${divergence.diff.length - 20} more`);
+  console.log('Sequence:');
+  divergence.ops.forEach((op, i) => console.log(`  ${String(i).padStart(3)} ${describeOp(op, env.actors)}`));
+}
+
+function saveFailure(seed, config, divergence) {
+  mkdirSync(FAILURES_DIR, { recursive: true });
+  const url = new URL(`seed-${seed}.json`, FAILURES_DIR);
+  const failure = { seed, market: config, ops: divergence.ops, step: divergence.step, diff: divergence.diff };
+  writeFileSync(url, JSON.stringify(failure, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2) + '\n');
+  return url.pathname;
+}
+
+function loadFailure(path) {
+  const revive = (object) => {
+    const out = { ...object };
+    for (const field of BIGINT_FIELDS) if (out[field] !== undefined) out[field] = BigInt(out[field]);
+    return out;
+  };
+  const failure = JSON.parse(readFileSync(path, 'utf8'));
+  return { ...failure, market: revive(failure.market), ops: failure.ops.map(revive) };
+}
+
+// ============ Main ============
+
+function nonNegativeInt(value, name) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new UsageError(`--${name} must be a non-negative integer`);
+  return n;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      runs: { type: 'string', default: '20' },
+      steps: { type: 'string', default: '40' },
+      seed: { type: 'string' },
+      replay: { type: 'string' },
+      'rpc-url': { type: 'string' },
+      port: { type: 'string', default: '8546' },
+      'no-shrink': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const runs = nonNegativeInt(values.runs, 'runs');
+  const steps = nonNegativeInt(values.steps, 'steps');
+  const firstSeed = values.seed === undefined ? Math.floor(Math.random() * 2 ** 31) : nonNegativeInt(values.seed, 'seed');
+  const replay = values.replay && loadFailure(values.replay);
+
+  const node = values['rpc-url'] ? null : await startAnvil(nonNegativeInt(values.port, 'port'));
+  let env;
+  try {
+    env = await setup(values['rpc-url'] ?? node.rpcUrl);
+
+    if (replay) {
+      const divergence = await replaySequence(env, replay.market, replay.ops, (step, op, result) => {
+        console.log(`${String(step).padStart(3)} ${describeOp(op, env.actors)} -> ${result.ok ? 'ok' : result.error}`);
+      });
+      if (!divergence) {
+        console.log('No divergence: chain and model agree on every step');
+        return 0;
+      }
+      printDivergence(divergence, env);
+      return 1;
+    }
+
+    for (let run = 0; run < runs; run++) {
+      const seed = firstSeed + run;
+      const rng = createRng(seed);
+      const config = randomMarket(rng);
+      process.stderr.write(`Run ${run + 1}/${runs} seed ${seed} `);
+
+      // Every actor deposits first so opens have something to use
+      const nextOp = (step, model) => {
+        if (step >= steps) return null;
+        if (step < env.actors.length) return { type: 'deposit', actor: step, amount: BigInt(1 + rng.int(100_000)) * USDC };
+        return randomOperation(rng, model, env.actors);
+      };
+
+      let divergence = await runSequence(env, config, nextOp);
+      if (!divergence) {
+        process.stderr.write('ok\n');
+        continue;
+      }
+
+      process.stderr.write(`diverged at step ${divergence.step}\n`);
+      if (!values['no-shrink'] && divergence.op) divergence = await shrink(env, config, divergence);
+      printDivergence(divergence, env);
+      console.log(`Saved ${saveFailure(seed, config, divergence)}; replay with --replay`);
+      return 1;
+    }
+
+    console.log(`${runs} sequences x ${steps} steps: chain and model agree (seeds ${firstSeed}-${firstSeed + runs - 1})`);
+    return 0;
+  } finally {
+    if (node) node.stop();
+    else if (env) await env.testClient.revert({ id: env.baselineId });
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof UsageError ? error.message : error);
+    process.exit(1);
+  }
+);
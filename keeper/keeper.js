@@ -6,14 +6,34 @@
  * Monitors perpetual futures positions and liquidates unhealthy ones
  *
  * Features:
- * - Polls every block for new positions and health checks
  * - Tracks all open positions in memory
+ * - Re-values every tracked position at each new block (SDK health watcher)
  * - Liquidates positions when they become unhealthy
  * - Simple profitability check: liquidation fee > gas cost
+ * - Tries the most underwater positions first
  */
 
+import { readFileSync, writeFileSync } from 'node:fs';
 import { ethers } from 'ethers';
+import { createPublicClient, createWalletClient, http } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 import dotenv from 'dotenv';
+import {
+  watchPositionHealth,
+  parseUsdcAmount,
+  usdcToInternal,
+  formatInternalAmount,
+  formatLeverage18,
+  formatPercent,
+  backfillProtocolEvents,
+  watchProtocolEvents,
+  DEFAULT_CONFIRMATIONS,
+  encodeBackfillCursor,
+  decodeBackfillCursor,
+  createTransactionManager,
+  PerpClient,
+  NotLiquidatableError,
+} from '@velto/contracts';
 
 dotenv.config();
 
@@ -22,10 +42,15 @@ const config = {
   rpcUrl: process.env.RPC_URL || 'http://127.0.0.1:8545',
   privateKey: process.env.PRIVATE_KEY,
   engineAddress: process.env.ENGINE_ADDRESS,
-  positionManagerAddress: process.env.POSITION_MANAGER_ADDRESS,
-  liquidationEngineAddress: process.env.LIQUIDATION_ENGINE_ADDRESS,
   pollInterval: parseInt(process.env.POLL_INTERVAL || '12000'), // 12 seconds default
-  minLiquidationProfit: ethers.parseUnits(process.env.MIN_PROFIT || '1', 6), // 1 USDC minimum profit
+  // MIN_PROFIT is in USDC; profit estimates are engine amounts (18 decimals)
+  minLiquidationProfit: usdcToInternal(parseUsdcAmount(process.env.MIN_PROFIT || '1')),
+  // Margin ratios (fraction of the allowed loss used) logged when a position crosses them
+  healthThresholds: (process.env.HEALTH_THRESHOLDS || '0.5,0.8').split(',').map((value) => ethers.parseUnits(value.trim(), 18)),
+  stateFile: process.env.STATE_FILE || '.keeper-state.json', // Backfill cursor + tracked positions
+  confirmations: parseInt(process.env.CONFIRMATIONS || String(DEFAULT_CONFIRMATIONS)), // Blocks before an event is applied
+  bumpAfterMs: parseInt(process.env.BUMP_AFTER_MS || '30000'), // Resend a pending liquidation with higher fees after this long
+  maxFeeGwei: process.env.MAX_FEE_GWEI, // Fee cap for speed-ups (optional)
 };
 
 // Validate configuration
@@ -42,6 +67,25 @@ if (!config.engineAddress) {
 // Setup provider and wallet
 const provider = new ethers.JsonRpcProvider(config.rpcUrl);
 const wallet = new ethers.Wallet(config.privateKey, provider);
+// viem clients for the SDK's log backfill, event stream and transaction manager
+const publicClient = createPublicClient({ transport: http(config.rpcUrl) });
+const walletClient = createWalletClient({
+  account: privateKeyToAccount(config.privateKey),
+  transport: http(config.rpcUrl),
+});
+
+// Liquidations go through the transaction manager: local nonces, so back-to-back
+// liquidations don't collide, and fee bumps when one sits in the mempool
+const transactionManager = createTransactionManager({
+  publicClient,
+  feePolicy: {
+    bumpAfterMs: config.bumpAfterMs,
+    maxFeePerGas: config.maxFeeGwei ? ethers.parseUnits(config.maxFeeGwei, 'gwei') : undefined,
+  },
+  onUpdate: (tx) => {
+    if (tx.state === 'replaced') console.log(`  ⏫ ${tx.functionName} resent with higher fees: ${tx.hash}`);
+  },
+});
 
 console.log('🤖 Liquidation Keeper Bot Starting...');
 console.log('Keeper address:', wallet.address);
@@ -49,73 +93,113 @@ console.log('Engine address:', config.engineAddress);
 console.log('RPC URL:', config.rpcUrl);
 console.log('Poll interval:', config.pollInterval, 'ms');
 
-// ABIs (minimal, only what we need)
-const ENGINE_ABI = [
-  'event PositionOpened(uint256 indexed positionId, address indexed user, bool indexed isLong, uint256 totalToUse, uint256 margin, uint256 fee, uint256 leverage, uint256 baseSize, uint256 entryPrice)',
-  'event PositionClosed(uint256 indexed positionId, address indexed user, int256 totalPnl, uint256 avgClosePrice)',
-  'event PositionLiquidated(uint256 indexed positionId, address indexed user, address indexed liquidator, uint256 liqFee)',
-  'function liquidate(uint256 positionId) external',
-];
-
-const POSITION_MANAGER_ABI = [
-  'function isPositionOpen(uint256 positionId) external view returns (bool)',
-  'function getPosition(uint256 positionId) external view returns (tuple(uint256 id, address user, bool isLong, uint256 baseSize, uint256 entryPrice, uint256 entryNotional, uint256 margin, int256 carrySnapshot, uint256 openBlock, uint8 status, int256 realizedPnl))',
-];
-
-const LIQUIDATION_ENGINE_ABI = [
-  'function isLiquidatable(uint256 positionId) external view returns (bool)',
-  'function getLiquidationInfo(uint256 positionId) external view returns (bool isLiq, uint256 currentLoss, uint256 allowedLoss, int256 equity, uint256 leverage)',
-  'function calculateLiquidationFee(uint256 positionId) external view returns (uint256 liqFee)',
-];
-
-// Contract instances
-const engine = new ethers.Contract(config.engineAddress, ENGINE_ABI, wallet);
-const positionManager = config.positionManagerAddress
-  ? new ethers.Contract(config.positionManagerAddress, POSITION_MANAGER_ABI, provider)
-  : null;
-const liquidationEngine = config.liquidationEngineAddress
-  ? new ethers.Contract(config.liquidationEngineAddress, LIQUIDATION_ENGINE_ABI, provider)
-  : null;
+// Market-bound SDK client: the market, PositionManager and LiquidationEngine
+// are resolved from the engine once; liquidations go through the transaction manager
+const perp = new PerpClient({ publicClient, walletClient, transactionManager }).market(config.engineAddress);
 
 // State
 const trackedPositions = new Set();
-let lastProcessedBlock = 0;
+let healthWatcher = null;
+
+// The health watcher follows the tracked set
+function syncWatchedPositions() {
+  healthWatcher?.setPositions(
+    Array.from(trackedPositions, (positionId) => ({ engine: config.engineAddress, positionId: BigInt(positionId) }))
+  );
+}
+
+function trackPosition(positionId) {
+  trackedPositions.add(positionId.toString());
+  syncWatchedPositions();
+}
+
+function untrackPosition(positionId) {
+  trackedPositions.delete(positionId.toString());
+  syncWatchedPositions();
+}
 
 /**
- * Listen for new positions being opened
+ * Apply a decoded engine event to the tracked set
  */
-async function setupEventListeners() {
-  console.log('📡 Setting up event listeners...');
-
-  // Listen for new positions
-  engine.on('PositionOpened', (positionId, user, isLong, totalToUse, margin, fee, leverage, baseSize, entryPrice, event) => {
-    console.log(`\n✅ New position opened:`);
-    console.log(`  Position ID: ${positionId}`);
-    console.log(`  User: ${user}`);
-    console.log(`  Side: ${isLong ? 'LONG' : 'SHORT'}`);
-    console.log(`  Leverage: ${ethers.formatUnits(leverage, 18)}x`);
-    console.log(`  Margin: ${ethers.formatUnits(margin, 18)} USDC`);
-
-    trackedPositions.add(positionId.toString());
-  });
+function handleEngineEvent(event, { verbose }) {
+  switch (event.eventName) {
+    case 'PositionOpened':
+      if (verbose) {
+        console.log(`\n✅ New position opened:`);
+        console.log(`  Position ID: ${event.positionId}`);
+        console.log(`  User: ${event.user}`);
+        console.log(`  Side: ${event.isLong ? 'LONG' : 'SHORT'}`);
+        console.log(`  Leverage: ${formatLeverage18(event.leverage)}x`);
+        console.log(`  Margin: ${formatInternalAmount(event.margin)} USDC`);
+      }
+      trackPosition(event.positionId);
+      break;
 
-  // Listen for positions being closed
-  engine.on('PositionClosed', (positionId, user, totalPnl, avgClosePrice, event) => {
-    console.log(`\n📕 Position closed: ${positionId}`);
-    trackedPositions.delete(positionId.toString());
-  });
+    case 'PositionClosed':
+      if (verbose) {
+        console.log(`\n📕 Position closed: ${event.positionId}`);
+      }
+      untrackPosition(event.positionId);
+      break;
+
+    // Includes liquidations by other keepers
+    case 'PositionLiquidated': {
+      if (verbose) {
+        const isUs = event.liquidator.toLowerCase() === wallet.address.toLowerCase();
+        console.log(`\n⚡ Position liquidated: ${event.positionId}`);
+        console.log(`  Liquidator: ${event.liquidator} ${isUs ? '(US!)' : ''}`);
+        console.log(`  Fee: ${formatInternalAmount(event.liquidationFee)} USDC`);
+      }
+      untrackPosition(event.positionId);
+      break;
+    }
+  }
+}
 
-  // Listen for liquidations (including by other keepers)
-  engine.on('PositionLiquidated', (positionId, user, liquidator, liqFee, event) => {
-    const isUs = liquidator.toLowerCase() === wallet.address.toLowerCase();
-    console.log(`\n⚡ Position liquidated: ${positionId}`);
-    console.log(`  Liquidator: ${liquidator} ${isUs ? '(US!)' : ''}`);
-    console.log(`  Fee: ${ethers.formatUnits(liqFee, 18)} USDC`);
+/**
+ * Undo an engine event orphaned by a reorg
+ * A reverted close/liquidation re-tracks the position; checkPosition drops it if it is not open
+ */
+function revertEngineEvent(event) {
+  switch (event.eventName) {
+    case 'PositionOpened':
+      console.log(`\n↩️  Reorg: position ${event.positionId} was never opened`);
+      untrackPosition(event.positionId);
+      break;
+
+    case 'PositionClosed':
+    case 'PositionLiquidated':
+      console.log(`\n↩️  Reorg: position ${event.positionId} is open again`);
+      trackPosition(event.positionId);
+      break;
+  }
+}
 
-    trackedPositions.delete(positionId.toString());
+/**
+ * Follow engine events from fromBlock, CONFIRMATIONS blocks behind the head
+ * Without a synced cursor the stream starts at the head and leaves the state file alone
+ */
+function setupEventListeners(fromBlock) {
+  console.log(`📡 Watching engine events (${config.confirmations} confirmations)...`);
+
+  watchProtocolEvents(publicClient, {
+    addresses: [config.engineAddress],
+    confirmations: config.confirmations,
+    fromBlock,
+    store: fromBlock === undefined ? undefined : stateStore,
+    onUpdates: (updates) => {
+      for (const update of updates) {
+        if (update.type === 'apply') {
+          handleEngineEvent(update.event, { verbose: true });
+        } else {
+          revertEngineEvent(update.event);
+        }
+      }
+    },
+    onError: (error) => console.error('Event stream error:', error.message),
   });
 
-  console.log('✅ Event listeners active');
+  console.log('✅ Event stream active');
 }
 
 /**
@@ -123,32 +207,23 @@ async function setupEventListeners() {
  */
 async function checkPosition(positionId) {
   try {
-    // Check if still open
-    if (positionManager) {
-      const isOpen = await positionManager.isPositionOpen(positionId);
-      if (!isOpen) {
-        trackedPositions.delete(positionId.toString());
-        return null;
-      }
-    }
+    const id = BigInt(positionId);
 
-    // Check if liquidatable
-    if (!liquidationEngine) {
-      console.warn('⚠️  LiquidationEngine not configured, skipping liquidation checks');
+    // Check if still open
+    const isOpen = await perp.isPositionOpen(id);
+    if (!isOpen) {
+      untrackPosition(positionId);
       return null;
     }
 
-    const isLiquidatable = await liquidationEngine.isLiquidatable(positionId);
+    // Check if liquidatable
+    const { isLiquidatable, currentLoss, allowedLoss, equity, leverage } = await perp.getLiquidationInfo(id);
 
     if (!isLiquidatable) {
       return null; // Position is healthy
     }
 
-    // Get liquidation info
-    const [, currentLoss, allowedLoss, equity, leverage] =
-      await liquidationEngine.getLiquidationInfo(positionId);
-
-    const liqFee = await liquidationEngine.calculateLiquidationFee(positionId);
+    const liqFee = await perp.getLiquidationFee(id);
 
     // Estimate gas cost (rough estimate: 350k gas)
     const gasPrice = (await provider.getFeeData()).gasPrice;
@@ -184,37 +259,29 @@ async function checkPosition(positionId) {
 async function liquidatePosition(positionId, info) {
   try {
     console.log(`\n🔨 Attempting to liquidate position ${positionId}...`);
-    console.log(`  Current loss: ${ethers.formatUnits(info.currentLoss, 18)}`);
-    console.log(`  Allowed loss: ${ethers.formatUnits(info.allowedLoss, 18)}`);
-    console.log(`  Liquidation fee: ${ethers.formatUnits(info.liqFee, 18)}`);
-    console.log(`  Estimated profit: ${ethers.formatUnits(info.profitEstimate, 18)}`);
-
-    // Estimate gas
-    const gasEstimate = await engine.liquidate.estimateGas(positionId);
-    console.log(`  Gas estimate: ${gasEstimate}`);
-
-    // Execute liquidation
-    const tx = await engine.liquidate(positionId, {
-      gasLimit: gasEstimate * 120n / 100n, // 20% buffer
-    });
+    console.log(`  Current loss: ${formatInternalAmount(info.currentLoss)} USDC`);
+    console.log(`  Allowed loss: ${formatInternalAmount(info.allowedLoss)} USDC`);
+    console.log(`  Liquidation fee: ${formatInternalAmount(info.liqFee)} USDC`);
+    console.log(`  Estimated profit: ${formatInternalAmount(info.profitEstimate)} USDC`);
 
-    console.log(`  Transaction sent: ${tx.hash}`);
+    // Execute liquidation (simulated first, then queued on the keeper's nonce)
     console.log(`  Waiting for confirmation...`);
 
-    const receipt = await tx.wait();
+    const { hash, receipt } = await perp.liquidate(BigInt(positionId));
 
     console.log(`  ✅ Liquidation successful!`);
+    console.log(`  Transaction: ${hash}`);
     console.log(`  Gas used: ${receipt.gasUsed}`);
     console.log(`  Block: ${receipt.blockNumber}`);
 
-    trackedPositions.delete(positionId.toString());
+    untrackPosition(positionId);
 
     return true;
   } catch (error) {
     // Check if it's a revert with specific error
-    if (error.message.includes('NotLiquidatable')) {
+    if (error instanceof NotLiquidatableError) {
       console.log(`  ℹ️  Position no longer liquidatable (already liquidated by someone else?)`);
-      trackedPositions.delete(positionId.toString());
+      untrackPosition(positionId);
     } else {
       console.error(`  ❌ Liquidation failed: ${error.message}`);
     }
@@ -223,82 +290,129 @@ async function liquidatePosition(positionId, info) {
 }
 
 /**
- * Main loop - check all tracked positions
+ * Log a position crossing a health threshold
  */
-async function checkAllPositions() {
-  if (trackedPositions.size === 0) {
-    return;
-  }
+function logHealthEvent(event) {
+  if (event.type === 'closed') return; // Logged from the engine events
+
+  const { positionId, marginRatio, liquidationDistance } = event.health;
+  const level = (value) => value === null ? 'healthy' : value === 'liquidatable' ? 'liquidatable' : formatPercent(value);
+  const distance = liquidationDistance !== null ? `, ${formatPercent(liquidationDistance)} from liquidation price` : '';
+  console.log(
+    `\n${event.worsened ? '📉' : '📈'} Position ${positionId}: ${level(event.from)} → ${level(event.to)}` +
+    ` (${formatPercent(marginRatio)} of allowed loss used${distance})`
+  );
+}
 
-  console.log(`\n🔍 Checking ${trackedPositions.size} positions...`);
+/**
+ * Liquidate what the watcher found liquidatable at this block, largest loss relative to the allowed loss first
+ * The LiquidationEngine is asked again before sending, so an offline mismatch only costs a read
+ */
+async function liquidateUnhealthy(health) {
+  const candidates = health
+    .filter(({ level }) => level === 'liquidatable')
+    .sort((a, b) => (a.marginRatio > b.marginRatio ? -1 : a.marginRatio < b.marginRatio ? 1 : 0));
 
-  const checks = Array.from(trackedPositions).map(async (positionId) => {
+  for (const { positionId } of candidates) {
     const info = await checkPosition(positionId);
 
     if (!info) {
-      return;
+      continue;
     }
 
-    if (info.isLiquidatable) {
-      console.log(`\n⚠️  Position ${positionId} is liquidatable!`);
+    console.log(`\n⚠️  Position ${positionId} is liquidatable!`);
 
-      if (info.isProfitable) {
-        await liquidatePosition(positionId, info);
-      } else {
-        console.log(`  ⏭️  Skipping - not profitable enough`);
-        console.log(`  Estimated profit: ${ethers.formatUnits(info.profitEstimate, 18)} USDC`);
-      }
+    if (info.isProfitable) {
+      await liquidatePosition(positionId, info);
+    } else {
+      console.log(`  ⏭️  Skipping - not profitable enough`);
+      console.log(`  Estimated profit: ${formatInternalAmount(info.profitEstimate)} USDC`);
     }
-  });
-
-  await Promise.all(checks);
+  }
 }
 
 /**
- * Historical sync - fetch past PositionOpened events
+ * Re-value tracked positions at every new block, offline from one market snapshot
  */
-async function syncHistoricalPositions() {
-  console.log('🔄 Syncing historical positions...');
+function startHealthWatcher() {
+  healthWatcher = watchPositionHealth(publicClient, {
+    pollingInterval: config.pollInterval,
+    thresholds: config.healthThresholds,
+    onEvents: (events) => events.forEach(logHealthEvent),
+    onHealth: liquidateUnhealthy,
+    onError: (error) => console.error('Health watcher error:', error.message),
+  });
+  syncWatchedPositions();
+}
 
+/**
+ * Keeper state file: the backfill cursor is saved together with the tracked set,
+ * so a restart resumes the backfill without losing positions seen before the cursor
+ */
+function readState() {
   try {
-    const currentBlock = await provider.getBlockNumber();
-    const fromBlock = Math.max(0, currentBlock - 10000); // Last ~10k blocks
-
-    console.log(`  Fetching events from block ${fromBlock} to ${currentBlock}...`);
-
-    const filter = engine.filters.PositionOpened();
-    const events = await engine.queryFilter(filter, fromBlock, currentBlock);
-
-    console.log(`  Found ${events.length} PositionOpened events`);
-
-    // Add all to tracked positions
-    events.forEach(event => {
-      const positionId = event.args[0].toString();
-      trackedPositions.add(positionId);
-    });
+    const state = JSON.parse(readFileSync(config.stateFile, 'utf8'));
+    const cursor = decodeBackfillCursor(state.cursor ?? '');
+    // Different engine or unreadable cursor: start over
+    if (!cursor || state.engine?.toLowerCase() !== config.engineAddress.toLowerCase()) {
+      return null;
+    }
+    return { cursor, positions: state.positions ?? [] };
+  } catch {
+    return null;
+  }
+}
 
-    // Remove any that were closed
-    const closedFilter = engine.filters.PositionClosed();
-    const closedEvents = await engine.queryFilter(closedFilter, fromBlock, currentBlock);
+const stateStore = {
+  load() {
+    return readState()?.cursor ?? null;
+  },
+
+  save(cursor) {
+    writeFileSync(config.stateFile, JSON.stringify({
+      engine: config.engineAddress,
+      cursor: encodeBackfillCursor(cursor),
+      positions: Array.from(trackedPositions),
+    }));
+  },
+};
 
-    closedEvents.forEach(event => {
-      const positionId = event.args[0].toString();
-      trackedPositions.delete(positionId);
-    });
+/**
+ * Historical sync - replay engine events since its deployment block
+ * Resumes from the state file; ranges shrink automatically when the RPC rejects them
+ * Returns the first block the event stream should apply, or undefined when the sync failed
+ */
+async function syncHistoricalPositions() {
+  console.log('🔄 Syncing historical positions...');
 
-    // Remove any that were liquidated
-    const liqFilter = engine.filters.PositionLiquidated();
-    const liqEvents = await engine.queryFilter(liqFilter, fromBlock, currentBlock);
+  readState()?.positions.forEach((positionId) => trackPosition(positionId));
 
-    liqEvents.forEach(event => {
-      const positionId = event.args[0].toString();
-      trackedPositions.delete(positionId);
+  try {
+    let opened = 0;
+    const head = await publicClient.getBlockNumber();
+    const confirmations = BigInt(config.confirmations);
+    const result = await backfillProtocolEvents(publicClient, {
+      engine: config.engineAddress,
+      store: stateStore,
+      // The event stream takes over from here; a chain younger than the confirmation depth starts at genesis
+      toBlock: head > confirmations ? head - confirmations : 0n,
+      // Replay in order: opens add, closes and liquidations remove
+      onPage: ({ fromBlock, toBlock, events }) => {
+        console.log(`  Blocks ${fromBlock}-${toBlock}: ${events.length} events`);
+        for (const event of events) {
+          if (event.eventName === 'PositionOpened') opened++;
+          handleEngineEvent(event, { verbose: false });
+        }
+      },
     });
 
+    console.log(`  Found ${opened} PositionOpened events in ${result.pages} pages (synced to block ${result.toBlock})`);
     console.log(`  Currently tracking ${trackedPositions.size} open positions`);
-    lastProcessedBlock = currentBlock;
+    return result.cursor.nextBlock;
   } catch (error) {
+    // The cursor of the last completed page is saved: the next start resumes from there
     console.error('Error syncing historical positions:', error);
+    return undefined;
   }
 }
 
@@ -319,19 +433,20 @@ async function main() {
       console.warn('⚠️  WARNING: Keeper has 0 balance! Cannot send transactions.');
     }
 
-    // Setup event listeners
-    await setupEventListeners();
+    // Resolve the market's contracts from the engine
+    const { positionManager, liquidationEngine } = await perp.addresses();
+    console.log('PositionManager:', positionManager);
+    console.log('LiquidationEngine:', liquidationEngine);
 
-    // Sync historical positions
-    await syncHistoricalPositions();
+    // Sync historical positions, then follow new events from where the sync stopped
+    const nextBlock = await syncHistoricalPositions();
+    setupEventListeners(nextBlock);
 
     // Start monitoring loop
     console.log('\n🚀 Keeper bot is now running...');
     console.log('Press Ctrl+C to stop\n');
 
-    setInterval(async () => {
-      await checkAllPositions();
-    }, config.pollInterval);
+    startHealthWatcher();
 
   } catch (error) {
     console.error('Fatal error:', error);
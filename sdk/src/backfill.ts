@@ -0,0 +1,205 @@
+import type { Address, PublicClient } from 'viem'
+import { perpEngineAbi } from './generated.js'
+import { decodeProtocolEvents, type ProtocolEvent } from './events.js'
+
+/**
+ * Historical log backfill
+ * Pages through getLogs from the engine's deploymentBlock, shrinking the range when the RPC rejects it,
+ * and saves a cursor after every page so an interrupted backfill resumes where it stopped
+ */
+
+export const DEFAULT_BACKFILL_CHUNK_SIZE = 2_000n
+export const MIN_BACKFILL_CHUNK_SIZE = 1n
+export const MAX_BACKFILL_CHUNK_SIZE = 50_000n
+
+export interface BackfillCursor {
+  fromBlock: bigint   // where the backfill started
+  nextBlock: bigint   // first block not yet fetched
+  chunkSize: bigint   // last range size the RPC accepted
+}
+
+/** Where the cursor lives between runs (localStorage, a file, a database row...) */
+export interface BackfillCursorStore {
+  load(): BackfillCursor | null | Promise<BackfillCursor | null>
+  save(cursor: BackfillCursor): void | Promise<void>
+}
+
+export interface BackfillPage {
+  fromBlock: bigint
+  toBlock: bigint
+  events: ProtocolEvent[]
+  cursor: BackfillCursor  // cursor after this page, saved once onPage resolves
+}
+
+export interface BackfillOptions {
+  engine: Address
+  /** Contracts to pull logs from; defaults to [engine] */
+  addresses?: readonly Address[]
+  /** First block; defaults to engine.deploymentBlock(). Ignored when the store holds a cursor */
+  fromBlock?: bigint
+  /** Last block (inclusive); defaults to the latest block when the backfill starts */
+  toBlock?: bigint
+  store?: BackfillCursorStore
+  /** Starting range size; a stored cursor's chunkSize wins */
+  chunkSize?: bigint
+  minChunkSize?: bigint
+  maxChunkSize?: bigint
+  /** Called once per page, in block order, before the cursor is saved */
+  onPage?: (page: BackfillPage) => void | Promise<void>
+  signal?: AbortSignal
+}
+
+export interface BackfillResult {
+  cursor: BackfillCursor
+  toBlock: bigint
+  pages: number
+  eventCount: number
+}
+
+/**
+ * Backfill every protocol event of an engine up to toBlock
+ * Ranges double after each accepted page and halve on "too many results" / "range too large" errors;
+ * any other error is rethrown with the cursor of the last completed page already saved
+ */
+export async function backfillProtocolEvents(
+  publicClient: PublicClient,
+  options: BackfillOptions
+): Promise<BackfillResult> {
+  const minChunkSize = options.minChunkSize ?? MIN_BACKFILL_CHUNK_SIZE
+  const maxChunkSize = options.maxChunkSize ?? MAX_BACKFILL_CHUNK_SIZE
+  const addresses = options.addresses ?? [options.engine]
+
+  const stored = await options.store?.load()
+  let cursor: BackfillCursor = stored ?? await startCursor(publicClient, options)
+  const toBlock = options.toBlock ?? await publicClient.getBlockNumber()
+
+  let chunkSize = clamp(cursor.chunkSize, minChunkSize, maxChunkSize)
+  let pages = 0
+  let eventCount = 0
+
+  while (cursor.nextBlock <= toBlock) {
+    options.signal?.throwIfAborted()
+
+    const fromBlock = cursor.nextBlock
+    const pageEnd = min(fromBlock + chunkSize - 1n, toBlock)
+
+    let logs
+    try {
+      logs = await publicClient.getLogs({ address: [...addresses], fromBlock, toBlock: pageEnd })
+    } catch (error) {
+      if (!isRangeTooLargeError(error) || chunkSize <= minChunkSize) throw error
+      chunkSize = clamp(chunkSize / 2n, minChunkSize, maxChunkSize)
+      continue
+    }
+
+    const events = decodeProtocolEvents(logs)
+    cursor = { fromBlock: cursor.fromBlock, nextBlock: pageEnd + 1n, chunkSize }
+
+    await options.onPage?.({ fromBlock, toBlock: pageEnd, events, cursor })
+    await options.store?.save(cursor)
+
+    pages++
+    eventCount += events.length
+    chunkSize = clamp(chunkSize * 2n, minChunkSize, maxChunkSize)
+  }
+
+  return { cursor, toBlock, pages, eventCount }
+}
+
+/**
+ * True when an RPC error means the getLogs range (or its result set) is too large
+ * Covers EIP-1474 limit exceeded (-32005) and the messages of common providers
+ */
+export function isRangeTooLargeError(error: unknown): boolean {
+  let current: unknown = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    const { code, message, details, cause } = current as {
+      code?: unknown
+      message?: unknown
+      details?: unknown
+      cause?: unknown
+    }
+    if (code === -32005) return true
+    for (const text of [message, details]) {
+      if (typeof text === 'string' && RANGE_ERROR_PATTERN.test(text)) return true
+    }
+    current = cause
+  }
+  return false
+}
+
+const RANGE_ERROR_PATTERN =
+  /too many (results|logs)|more than \d+ results|response size (is larger|exceeded)|(block )?range (is )?too (large|wide|big)|exceed(s|ed)? (the )?max(imum)? (block )?range|query timeout/i
+
+/**
+ * Cursor stores
+ */
+
+export function createMemoryCursorStore(initial: BackfillCursor | null = null): BackfillCursorStore {
+  let cursor = initial
+  return {
+    load: () => cursor,
+    save: (next) => {
+      cursor = next
+    },
+  }
+}
+
+/** Web Storage backed store (e.g. localStorage), one key per engine */
+export function createStorageCursorStore(
+  storage: Pick<Storage, 'getItem' | 'setItem'>,
+  key: string
+): BackfillCursorStore {
+  return {
+    load: () => {
+      const raw = storage.getItem(key)
+      return raw ? decodeBackfillCursor(raw) : null
+    },
+    save: (cursor) => storage.setItem(key, encodeBackfillCursor(cursor)),
+  }
+}
+
+/** Storage key for one engine's cursor */
+export function getBackfillCursorKey(chainId: number, engine: Address): string {
+  return `velto:backfill:${chainId}:${engine.toLowerCase()}`
+}
+
+export function encodeBackfillCursor(cursor: BackfillCursor): string {
+  return JSON.stringify({
+    fromBlock: cursor.fromBlock.toString(),
+    nextBlock: cursor.nextBlock.toString(),
+    chunkSize: cursor.chunkSize.toString(),
+  })
+}
+
+/** Null when the stored value is missing fields or not a cursor at all */
+export function decodeBackfillCursor(raw: string): BackfillCursor | null {
+  try {
+    const { fromBlock, nextBlock, chunkSize } = JSON.parse(raw)
+    const cursor = { fromBlock: BigInt(fromBlock), nextBlock: BigInt(nextBlock), chunkSize: BigInt(chunkSize) }
+    return cursor.nextBlock >= cursor.fromBlock && cursor.chunkSize > 0n ? cursor : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Helpers
+ */
+
+async function startCursor(publicClient: PublicClient, options: BackfillOptions): Promise<BackfillCursor> {
+  const fromBlock = options.fromBlock ?? await publicClient.readContract({
+    address: options.engine,
+    abi: perpEngineAbi,
+    functionName: 'deploymentBlock',
+  })
+  return { fromBlock, nextBlock: fromBlock, chunkSize: options.chunkSize ?? DEFAULT_BACKFILL_CHUNK_SIZE }
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b
+}
+
+function clamp(value: bigint, lo: bigint, hi: bigint): bigint {
+  return value < lo ? lo : value > hi ? hi : value
+}
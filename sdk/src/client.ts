@@ -0,0 +1,550 @@
+import type { Address, PublicClient, WalletClient } from 'viem'
+import { liquidationEngineAbi, mockUsdcAbi, perpEngineAbi, positionManagerAbi } from './generated.js'
+import { executeTransaction, type TransactionResult } from './utils.js'
+import { depositWithPermit, depositAndOpenPositionWithPermit, type PermitTransactionResult } from './permit.js'
+import { readMarketSnapshot, type MarketSnapshot, type ReadMarketSnapshotOptions } from './snapshot.js'
+import { quoteOpenPosition, type OpenQuote, type OpenQuoteParams } from './orders.js'
+import { solveLiquidationPrice, type LiquidationPriceResult } from './liquidation.js'
+import { previewTransaction, type PreviewAction, type PreviewTransactionParams, type TransactionPreview } from './preview.js'
+import { backfillProtocolEvents, type BackfillOptions, type BackfillResult } from './backfill.js'
+import { watchProtocolEvents, type WatchProtocolEventsOptions } from './stream.js'
+import { findProtocolEvent } from './events.js'
+import { readPortfolio, type Portfolio, type ReadPortfolioOptions } from './portfolio.js'
+import {
+  getUserPositions,
+  getAllOpenPositions,
+  type GetUserPositionsOptions,
+  type GetAllOpenPositionsOptions,
+} from './positions.js'
+import {
+  openPositionWithSlippage,
+  closePositionWithSlippage,
+  type SlippageOptions,
+  type SlippageCheck,
+} from './slippage.js'
+import { toProtocolError } from './errors.js'
+import type { TransactionManager } from './transactions.js'
+import type { Position, PositionEquity, LiquidationInfo } from './types.js'
+import { asInternal, asUsdc, type InternalAmount, type UsdcAmount, type Leverage18 } from './units.js'
+
+/**
+ * High-level client
+ * One PerpClient per connection; client.market(engine) binds every call to a market whose
+ * sibling contracts are resolved once and cached. All calls throw typed ProtocolErrors.
+ */
+
+export interface PerpClientOptions {
+  publicClient: PublicClient
+  /** Required for trading; read-only without it */
+  walletClient?: WalletClient
+  /** Send trades through a transaction manager (queued nonces, fee bumping) */
+  transactionManager?: TransactionManager
+}
+
+/** Contracts and deployment block behind one engine */
+export interface MarketAddresses {
+  engine: Address
+  market: Address
+  positionManager: Address
+  fundingManager: Address
+  liquidationEngine: Address
+  collateralToken: Address
+  deploymentBlock: bigint
+}
+
+export interface OpenPositionResult extends TransactionResult {
+  /** From the PositionOpened event */
+  positionId?: bigint
+  /** Set when the trade was sent with slippage options */
+  slippage?: SlippageCheck
+}
+
+export interface DepositAndOpenResult extends PermitTransactionResult {
+  positionId?: bigint
+}
+
+export interface ClosePositionResult extends TransactionResult {
+  /** From the PositionClosed event */
+  totalPnl?: bigint
+  /** Set when the trade was sent with slippage options */
+  slippage?: SlippageCheck
+}
+
+export interface PositionAnalytics {
+  position: Position
+  equity: PositionEquity
+  liquidationInfo: LiquidationInfo
+  isOpen: boolean
+}
+
+export interface ReadOptions {
+  /** Block to read at; defaults to the latest block */
+  blockNumber?: bigint
+}
+
+export interface QuoteOpenOptions extends ReadOptions {
+  /** Check the open against this account's engine wallet; defaults to the wallet client's account */
+  account?: Address
+}
+
+export class PerpClient {
+  readonly publicClient: PublicClient
+  readonly walletClient?: WalletClient
+  readonly transactionManager?: TransactionManager
+  private readonly markets = new Map<string, PerpMarketClient>()
+
+  constructor(options: PerpClientOptions) {
+    this.publicClient = options.publicClient
+    this.walletClient = options.walletClient
+    this.transactionManager = options.transactionManager
+  }
+
+  /**
+   * Client bound to one market, cached per engine address
+   */
+  market(engine: Address): PerpMarketClient {
+    const key = engine.toLowerCase()
+    let market = this.markets.get(key)
+    if (!market) {
+      market = new PerpMarketClient(this, engine)
+      this.markets.set(key, market)
+    }
+    return market
+  }
+
+  /**
+   * Balances, open positions and PnL across every market the user touched
+   * The user defaults to the wallet client's account
+   */
+  getPortfolio(options: Omit<ReadPortfolioOptions, 'user'> & { user?: Address }): Promise<Portfolio> {
+    return protocolCall(async () => {
+      const user = options.user ?? this.account
+      if (!user) throw new Error('No account connected')
+      return readPortfolio(this.publicClient, { ...options, user })
+    })
+  }
+
+  /** Account of the wallet client, if any */
+  get account(): Address | undefined {
+    return this.walletClient?.account?.address
+  }
+}
+
+export class PerpMarketClient {
+  private resolved?: Promise<MarketAddresses>
+
+  constructor(
+    readonly client: PerpClient,
+    readonly engine: Address
+  ) {}
+
+  /**
+   * Sibling contract addresses, read from the engine on first use
+   * A failed lookup is not cached
+   */
+  addresses(): Promise<MarketAddresses> {
+    if (!this.resolved) {
+      this.resolved = this.resolveAddresses()
+      this.resolved.catch(() => {
+        this.resolved = undefined
+      })
+    }
+    return this.resolved
+  }
+
+  /**
+   * Trading
+   */
+
+  /** Approve the engine to pull collateral (USDC) for deposit() */
+  approve(amount: UsdcAmount): Promise<TransactionResult> {
+    return protocolCall(async () => {
+      const { collateralToken } = await this.addresses()
+      return this.write(collateralToken, mockUsdcAbi, 'approve', [this.engine, amount])
+    })
+  }
+
+  /** Deposit approved collateral into the caller's engine wallet */
+  deposit(amount: UsdcAmount): Promise<TransactionResult> {
+    return protocolCall(() => this.write(this.engine, perpEngineAbi, 'deposit', [amount]))
+  }
+
+  /** Sign a permit and deposit in one transaction */
+  depositWithPermit(amount: UsdcAmount, permitAmount?: UsdcAmount): Promise<PermitTransactionResult> {
+    return protocolCall(async () => {
+      const { collateralToken } = await this.addresses()
+      return depositWithPermit({
+        ...this.signer(),
+        engine: this.engine,
+        token: collateralToken,
+        amount,
+        permitAmount,
+      })
+    })
+  }
+
+  /** Sign a permit, deposit and open a position in one transaction */
+  depositAndOpenPositionWithPermit(
+    amount: UsdcAmount,
+    isLong: boolean,
+    totalToUse: InternalAmount,
+    leverage: Leverage18,
+    permitAmount?: UsdcAmount
+  ): Promise<DepositAndOpenResult> {
+    return protocolCall(async () => {
+      const { collateralToken } = await this.addresses()
+      const result = await depositAndOpenPositionWithPermit({
+        ...this.signer(),
+        engine: this.engine,
+        token: collateralToken,
+        amount,
+        permitAmount,
+        isLong,
+        totalToUse,
+        leverage,
+      })
+      return { ...result, positionId: findProtocolEvent(result.receipt.logs, 'PositionOpened')?.positionId }
+    })
+  }
+
+  withdraw(amount: InternalAmount): Promise<TransactionResult> {
+    return protocolCall(() => this.write(this.engine, perpEngineAbi, 'withdraw', [amount]))
+  }
+
+  /** With slippage options: re-quoted at the latest block, refused with SlippageError when out of bounds */
+  openPosition(
+    isLong: boolean,
+    totalToUse: InternalAmount,
+    leverage: Leverage18,
+    slippage?: SlippageOptions
+  ): Promise<OpenPositionResult> {
+    return protocolCall(async () => {
+      if (slippage) {
+        return openPositionWithSlippage({ ...this.signer(), engine: this.engine, isLong, totalToUse, leverage, slippage })
+      }
+      const result = await this.write(this.engine, perpEngineAbi, 'openPosition', [isLong, totalToUse, leverage])
+      return { ...result, positionId: findProtocolEvent(result.receipt.logs, 'PositionOpened')?.positionId }
+    })
+  }
+
+  /** With slippage options: re-quoted at the latest block, refused with SlippageError when out of bounds */
+  closePosition(positionId: bigint, slippage?: SlippageOptions): Promise<ClosePositionResult> {
+    return protocolCall(async () => {
+      if (slippage) {
+        return closePositionWithSlippage({ ...this.signer(), engine: this.engine, positionId, slippage })
+      }
+      const result = await this.write(this.engine, perpEngineAbi, 'closePosition', [positionId])
+      return { ...result, totalPnl: findProtocolEvent(result.receipt.logs, 'PositionClosed')?.totalPnl }
+    })
+  }
+
+  liquidate(positionId: bigint): Promise<TransactionResult> {
+    return protocolCall(() => this.write(this.engine, perpEngineAbi, 'liquidate', [positionId]))
+  }
+
+  /**
+   * Reads
+   */
+
+  /** Full MarketData, every field read at the same block */
+  getSnapshot(options: Omit<ReadMarketSnapshotOptions, 'marketAddresses'> = {}): Promise<MarketSnapshot> {
+    return protocolCall(async () => {
+      const { market } = await this.addresses()
+      return readMarketSnapshot(this.client.publicClient, this.engine, {
+        ...options,
+        marketAddresses: { [this.engine]: market },
+      })
+    })
+  }
+
+  /** Engine wallet balance; defaults to the wallet client's account */
+  getWalletBalance(account?: Address, options: ReadOptions = {}): Promise<InternalAmount> {
+    return protocolCall(async () => {
+      const balance = await this.client.publicClient.readContract({
+        address: this.engine,
+        abi: perpEngineAbi,
+        functionName: 'getWalletBalance',
+        args: [this.accountOf(account)],
+        blockNumber: options.blockNumber,
+      })
+      return asInternal(balance)
+    })
+  }
+
+  /** Collateral (USDC) held outside the engine; defaults to the wallet client's account */
+  getCollateralBalance(account?: Address, options: ReadOptions = {}): Promise<UsdcAmount> {
+    return protocolCall(async () => {
+      const { collateralToken } = await this.addresses()
+      const balance = await this.client.publicClient.readContract({
+        address: collateralToken,
+        abi: mockUsdcAbi,
+        functionName: 'balanceOf',
+        args: [this.accountOf(account)],
+        blockNumber: options.blockNumber,
+      })
+      return asUsdc(balance)
+    })
+  }
+
+  getFundBalances(
+    options: ReadOptions = {}
+  ): Promise<{ trade: InternalAmount; insurance: InternalAmount; protocol: InternalAmount }> {
+    return protocolCall(async () => {
+      const [trade, insurance, protocol] = await this.client.publicClient.readContract({
+        address: this.engine,
+        abi: perpEngineAbi,
+        functionName: 'getFundBalances',
+        blockNumber: options.blockNumber,
+      })
+      return { trade: asInternal(trade), insurance: asInternal(insurance), protocol: asInternal(protocol) }
+    })
+  }
+
+  getPosition(positionId: bigint, options: ReadOptions = {}): Promise<Position> {
+    return protocolCall(async () => {
+      const { positionManager } = await this.addresses()
+      const position = await this.client.publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'getPosition',
+        args: [positionId],
+        blockNumber: options.blockNumber,
+      })
+      return position as Position
+    })
+  }
+
+  isPositionOpen(positionId: bigint, options: ReadOptions = {}): Promise<boolean> {
+    return protocolCall(async () => {
+      const { positionManager } = await this.addresses()
+      return this.client.publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'isPositionOpen',
+        args: [positionId],
+        blockNumber: options.blockNumber,
+      })
+    })
+  }
+
+  /** Positions a user opened here (open only by default); defaults to the wallet client's account */
+  getUserPositions(account?: Address, options: GetUserPositionsOptions = {}): Promise<Position[]> {
+    return protocolCall(() => getUserPositions(this.client.publicClient, this.engine, this.accountOf(account), options))
+  }
+
+  /** Every open position of this market, cached per block */
+  getAllOpenPositions(options: GetAllOpenPositionsOptions = {}): Promise<Position[]> {
+    return protocolCall(() => getAllOpenPositions(this.client.publicClient, this.engine, options))
+  }
+
+  /** Id the next opened position will get */
+  getNextPositionId(options: ReadOptions = {}): Promise<bigint> {
+    return protocolCall(async () => {
+      const { positionManager } = await this.addresses()
+      return this.client.publicClient.readContract({
+        address: positionManager,
+        abi: positionManagerAbi,
+        functionName: 'nextPositionId',
+        blockNumber: options.blockNumber,
+      })
+    })
+  }
+
+  /** PositionManager.simulateEquityIfClosed */
+  getPositionEquity(positionId: bigint, options: ReadOptions = {}): Promise<PositionEquity> {
+    return protocolCall(async () => {
+      const { positionManager } = await this.addresses()
+      const [closeNotional, avgClosePrice, pnlTrade, carryPnl, totalPnl, equityIfClosed] =
+        await this.client.publicClient.readContract({
+          address: positionManager,
+          abi: positionManagerAbi,
+          functionName: 'simulateEquityIfClosed',
+          args: [positionId],
+          blockNumber: options.blockNumber,
+        })
+      return { closeNotional, avgClosePrice, pnlTrade, carryPnl, totalPnl, equityIfClosed }
+    })
+  }
+
+  /** LiquidationEngine.getLiquidationInfo */
+  getLiquidationInfo(positionId: bigint, options: ReadOptions = {}): Promise<LiquidationInfo> {
+    return protocolCall(async () => {
+      const { liquidationEngine, positionManager, market } = await this.addresses()
+      const [isLiquidatable, currentLoss, allowedLoss, equity, leverage] =
+        await this.client.publicClient.readContract({
+          address: liquidationEngine,
+          abi: liquidationEngineAbi,
+          functionName: 'getLiquidationInfo',
+          args: [positionManager, market, positionId],
+          blockNumber: options.blockNumber,
+        })
+      return { isLiquidatable, currentLoss, allowedLoss, equity, leverage }
+    })
+  }
+
+  /** LiquidationEngine.calculateLiquidationFee */
+  getLiquidationFee(positionId: bigint, options: ReadOptions = {}): Promise<bigint> {
+    return protocolCall(async () => {
+      const { liquidationEngine, positionManager, market } = await this.addresses()
+      return this.client.publicClient.readContract({
+        address: liquidationEngine,
+        abi: liquidationEngineAbi,
+        functionName: 'calculateLiquidationFee',
+        args: [positionManager, market, positionId],
+        blockNumber: options.blockNumber,
+      })
+    })
+  }
+
+  /**
+   * Position, equity, liquidation state and status, all read at the same block
+   */
+  getPositionAnalytics(positionId: bigint, options: ReadOptions = {}): Promise<PositionAnalytics> {
+    return protocolCall(async () => {
+      const blockNumber = options.blockNumber ?? await this.client.publicClient.getBlockNumber()
+      const [position, equity, liquidationInfo, isOpen] = await Promise.all([
+        this.getPosition(positionId, { blockNumber }),
+        this.getPositionEquity(positionId, { blockNumber }),
+        this.getLiquidationInfo(positionId, { blockNumber }),
+        this.isPositionOpen(positionId, { blockNumber }),
+      ])
+      return { position, equity, liquidationInfo, isOpen }
+    })
+  }
+
+  /**
+   * Quotes
+   */
+
+  /**
+   * Quote an open against the market at one block (offline math, no call is sent)
+   * Checks the wallet balance too when an account is known
+   */
+  quoteOpen(params: Omit<OpenQuoteParams, 'walletBalance'>, options: QuoteOpenOptions = {}): Promise<OpenQuote> {
+    return protocolCall(async () => {
+      const blockNumber = options.blockNumber ?? await this.client.publicClient.getBlockNumber()
+      const account = options.account ?? this.client.account
+      const [snapshot, walletBalance] = await Promise.all([
+        this.getSnapshot({ blockNumber }),
+        account ? this.getWalletBalance(account, { blockNumber }) : undefined,
+      ])
+      return quoteOpenPosition(snapshot, { ...params, walletBalance })
+    })
+  }
+
+  /** Mark price at which an open position becomes liquidatable; null when no reachable price does */
+  getLiquidationPrice(positionId: bigint, options: ReadOptions = {}): Promise<LiquidationPriceResult | null> {
+    return protocolCall(async () => {
+      const blockNumber = options.blockNumber ?? await this.client.publicClient.getBlockNumber()
+      const [position, snapshot] = await Promise.all([
+        this.getPosition(positionId, { blockNumber }),
+        this.getSnapshot({ blockNumber }),
+      ])
+      return solveLiquidationPrice(position, snapshot)
+    })
+  }
+
+  /** Before/after state of an engine call; the account defaults to the wallet client's */
+  preview(
+    action: PreviewAction,
+    options: Partial<Pick<PreviewTransactionParams, 'account' | 'blockNumber' | 'mode'>> = {}
+  ): Promise<TransactionPreview> {
+    return protocolCall(() =>
+      previewTransaction(this.client.publicClient, {
+        ...options,
+        engine: this.engine,
+        account: this.accountOf(options.account),
+        action,
+      })
+    )
+  }
+
+  /**
+   * Events
+   */
+
+  /** Chunked, resumable backfill of this engine's events (from its deployment block by default) */
+  backfillEvents(options: Omit<BackfillOptions, 'engine'> = {}): Promise<BackfillResult> {
+    return protocolCall(async () => {
+      const { deploymentBlock } = await this.addresses()
+      return backfillProtocolEvents(this.client.publicClient, {
+        fromBlock: deploymentBlock,
+        ...options,
+        engine: this.engine,
+      })
+    })
+  }
+
+  /** Live engine events with confirmations and reorg reverts; returns an unwatch function */
+  watchEvents(
+    options: Omit<WatchProtocolEventsOptions, 'addresses'> & { addresses?: readonly Address[] }
+  ): () => void {
+    return watchProtocolEvents(this.client.publicClient, {
+      ...options,
+      addresses: options.addresses ?? [this.engine],
+    })
+  }
+
+  /**
+   * Helpers
+   */
+
+  private async resolveAddresses(): Promise<MarketAddresses> {
+    const read = <F extends 'market' | 'positionManager' | 'fundingManager' | 'liquidationEngine' | 'collateralToken' | 'deploymentBlock'>(
+      functionName: F
+    ) => this.client.publicClient.readContract({ address: this.engine, abi: perpEngineAbi, functionName })
+
+    const [market, positionManager, fundingManager, liquidationEngine, collateralToken, deploymentBlock] =
+      await Promise.all([
+        read('market'),
+        read('positionManager'),
+        read('fundingManager'),
+        read('liquidationEngine'),
+        read('collateralToken'),
+        read('deploymentBlock'),
+      ])
+
+    return {
+      engine: this.engine,
+      market: market as Address,
+      positionManager: positionManager as Address,
+      fundingManager: fundingManager as Address,
+      liquidationEngine: liquidationEngine as Address,
+      collateralToken: collateralToken as Address,
+      deploymentBlock: deploymentBlock as bigint,
+    }
+  }
+
+  private signer(): { publicClient: PublicClient; walletClient: WalletClient; transactionManager?: TransactionManager } {
+    const { publicClient, walletClient, transactionManager } = this.client
+    if (!walletClient) throw new Error('Wallet client required')
+    return { publicClient, walletClient, transactionManager }
+  }
+
+  private write(
+    address: Address,
+    abi: typeof perpEngineAbi | typeof mockUsdcAbi,
+    functionName: string,
+    args: readonly unknown[]
+  ): Promise<TransactionResult> {
+    return executeTransaction({ ...this.signer(), address, abi, functionName, args })
+  }
+
+  private accountOf(account?: Address): Address {
+    const resolved = account ?? this.client.account
+    if (!resolved) throw new Error('No account connected')
+    return resolved
+  }
+}
+
+/**
+ * Helpers
+ */
+
+async function protocolCall<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call()
+  } catch (error) {
+    throw toProtocolError(error)
+  }
+}
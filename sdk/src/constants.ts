@@ -0,0 +1,40 @@
+/**
+ * Protocol constants
+ * Values mirror the Solidity contracts; keep in sync when they change
+ */
+
+/** 18 decimal fixed-point scale used by every contract */
+export const PRECISION = 10n ** 18n
+
+/** PerpEngine: USDC has 6 decimals, engine accounting uses 18 */
+export const USDC_TO_INTERNAL = 10n ** 12n
+
+/** PerpEngine: maximum leverage (30x) */
+export const MAX_LEVERAGE = 30n * PRECISION
+
+/** PositionManager: base open fee rate (0.1%) */
+export const BASE_OPEN_FEE_RATE = PRECISION / 1000n
+
+/** PositionManager: fee multiplier applied to the OI imbalance ratio */
+export const OI_SKEW_FEE_MULTIPLIER = 1n * PRECISION
+
+/** PositionManager: leverage bucket upper bounds */
+export const LEVERAGE_BUCKET_1_MAX = 10n * PRECISION
+export const LEVERAGE_BUCKET_2_MAX = 20n * PRECISION
+
+/** PositionManager: liquidation buffer ratio per leverage bucket */
+export const BUFFER_RATIO_1 = PRECISION / 10n       // 10% for 0-10x
+export const BUFFER_RATIO_2 = PRECISION / 5n        // 20% for 10-20x
+export const BUFFER_RATIO_3 = 3n * PRECISION / 10n  // 30% for 20-30x
+
+/** LiquidationEngine: tolerance added to allowedLoss (1e-6) */
+export const LIQUIDATION_EPSILON = 10n ** 12n
+
+/** LiquidationEngine: share of close notional paid to the liquidator (0.5%) */
+export const LIQUIDATION_FEE_RATIO = PRECISION / 200n
+
+/** FundingManager: base carry rate per block (0.01%) */
+export const BASE_CARRY_RATE_PER_BLOCK = PRECISION / 10000n
+
+/** FundingManager: carry sensitivity multiplier */
+export const CARRY_SENSITIVITY = 1n * PRECISION
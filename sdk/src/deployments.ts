@@ -1,5 +1,7 @@
-import rawDeployments from '../../deployments.json'
-import type { Address } from 'viem'
+import rawDeployments from '../../deployments.json' with { type: 'json' }
+import type { Address, PublicClient } from 'viem'
+import { isAddress, isAddressEqual } from 'viem'
+import { perpFactoryAbi } from './generated.js'
 
 export interface CoreDeployment {
   factory: Address
@@ -19,18 +21,341 @@ export interface ExtendedDeployment extends CoreDeployment {
 
 export type DeploymentConfig = ExtendedDeployment
 
-const deployments = rawDeployments as Record<string, DeploymentConfig>
+/**
+ * Deployment registry
+ * Named deployments per chain (e.g. "staging" and "prod" on 84532). deployments.json entries are
+ * registered at load time: a chain maps either to one config (named "default") or to { name: config }.
+ * Invalid entries are skipped and reported by getDeploymentDiagnostics(), so a bad file never breaks the import
+ */
 
-export function getDeployment(chainId: number): DeploymentConfig | null {
-  return deployments[chainId.toString()] || null
+export const DEFAULT_DEPLOYMENT_NAME = 'default'
+
+export interface RegisteredDeployment {
+  chainId: number
+  name: string
+  config: DeploymentConfig
+}
+
+export interface RegisterDeploymentOptions {
+  name?: string       // default: DEFAULT_DEPLOYMENT_NAME
+  replace?: boolean   // overwrite an existing entry instead of throwing
+}
+
+export type DeploymentDiagnosticCode =
+  | 'MISSING_FIELD'           // required field absent
+  | 'INVALID_FIELD'           // field present with the wrong type / not an address
+  | 'CHAIN_MISMATCH'          // client is connected to another chain
+  | 'NO_BYTECODE'             // nothing deployed at the address
+  | 'IMPLEMENTATION_MISMATCH' // factory clones a different implementation
+  | 'ADDRESS_MISMATCH'        // factory points at a different shared contract
+  | 'READ_FAILED'             // the check itself could not run
+
+export interface DeploymentDiagnostic {
+  code: DeploymentDiagnosticCode
+  field: string
+  message: string
+  expected?: string
+  actual?: string
+}
+
+/** A deployments.json entry skipped at load */
+export interface SkippedDeployment {
+  chainKey: string
+  name: string
+  diagnostics: DeploymentDiagnostic[]
+}
+
+export interface DeploymentVerification {
+  chainId: number
+  ok: boolean
+  diagnostics: DeploymentDiagnostic[]
+}
+
+/**
+ * Thrown when registering a config that fails validation
+ */
+export class InvalidDeploymentError extends Error {
+  readonly chainId: number
+  readonly deploymentName: string
+  readonly diagnostics: readonly DeploymentDiagnostic[]
+
+  constructor(chainId: number, deploymentName: string, diagnostics: readonly DeploymentDiagnostic[]) {
+    super(
+      `Invalid deployment "${deploymentName}" for chain ${chainId}: ` +
+      diagnostics.map((d) => d.message).join('; ')
+    )
+    this.name = 'InvalidDeploymentError'
+    this.chainId = chainId
+    this.deploymentName = deploymentName
+    this.diagnostics = diagnostics
+  }
+}
+
+const REQUIRED_ADDRESS_FIELDS = ['factory', 'liquidationEngine', 'fundingManager', 'deployer'] as const
+const OPTIONAL_ADDRESS_FIELDS = ['perpMarketImpl', 'positionManagerImpl', 'perpEngineImpl', 'usdc'] as const
+
+// chainId -> name -> config
+const registry = new Map<number, Map<string, DeploymentConfig>>()
+// deployments.json entries that failed validation
+const skipped: SkippedDeployment[] = []
+
+/**
+ * Check the shape of a deployment config (no RPC)
+ * Returns one diagnostic per problem; empty when valid
+ */
+export function validateDeploymentConfig(value: unknown): DeploymentDiagnostic[] {
+  if (typeof value !== 'object' || value === null) {
+    return [{ code: 'INVALID_FIELD', field: '', message: 'Deployment config must be an object' }]
+  }
+
+  const config = value as Record<string, unknown>
+  const diagnostics: DeploymentDiagnostic[] = []
+
+  for (const field of REQUIRED_ADDRESS_FIELDS) {
+    if (config[field] === undefined || config[field] === '') {
+      diagnostics.push({ code: 'MISSING_FIELD', field, message: `${field} is required` })
+    } else if (!isAddressValue(config[field])) {
+      diagnostics.push(invalidAddress(field, config[field]))
+    }
+  }
+
+  for (const field of OPTIONAL_ADDRESS_FIELDS) {
+    if (config[field] !== undefined && !isAddressValue(config[field])) {
+      diagnostics.push(invalidAddress(field, config[field]))
+    }
+  }
+
+  if (config.timestamp === undefined) {
+    diagnostics.push({ code: 'MISSING_FIELD', field: 'timestamp', message: 'timestamp is required' })
+  } else if (!isNonNegativeInteger(config.timestamp)) {
+    diagnostics.push({ code: 'INVALID_FIELD', field: 'timestamp', message: 'timestamp must be a non-negative integer', actual: String(config.timestamp) })
+  }
+
+  if (config.deploymentBlock !== undefined && !isNonNegativeInteger(config.deploymentBlock)) {
+    diagnostics.push({ code: 'INVALID_FIELD', field: 'deploymentBlock', message: 'deploymentBlock must be a non-negative integer', actual: String(config.deploymentBlock) })
+  }
+
+  return diagnostics
+}
+
+/**
+ * Add a deployment to the registry
+ * Throws InvalidDeploymentError when the config fails validation, or when the name is taken and replace is not set
+ */
+export function registerDeployment(
+  chainId: number,
+  config: DeploymentConfig,
+  options: RegisterDeploymentOptions = {}
+): RegisteredDeployment {
+  const name = options.name ?? DEFAULT_DEPLOYMENT_NAME
+  const diagnostics = validateDeploymentConfig(config)
+  if (diagnostics.length > 0) {
+    throw new InvalidDeploymentError(chainId, name, diagnostics)
+  }
+
+  let named = registry.get(chainId)
+  if (!named) {
+    named = new Map()
+    registry.set(chainId, named)
+  }
+  if (named.has(name) && !options.replace) {
+    throw new Error(`Deployment "${name}" is already registered for chain ${chainId}`)
+  }
+
+  named.set(name, config)
+  return { chainId, name, config }
+}
+
+export function unregisterDeployment(chainId: number, name: string = DEFAULT_DEPLOYMENT_NAME): boolean {
+  const named = registry.get(chainId)
+  if (!named?.delete(name)) return false
+  if (named.size === 0) registry.delete(chainId)
+  return true
+}
+
+export function getDeployment(chainId: number, name: string = DEFAULT_DEPLOYMENT_NAME): DeploymentConfig | null {
+  return registry.get(chainId)?.get(name) ?? null
 }
 
+/**
+ * Like getDeployment, but throws when the deployment is not registered
+ */
+export function requireDeployment(chainId: number, name: string = DEFAULT_DEPLOYMENT_NAME): DeploymentConfig {
+  const deployment = getDeployment(chainId, name)
+  if (!deployment) {
+    const names = getDeploymentNames(chainId)
+    throw new Error(
+      `No deployment "${name}" for chain ${chainId}` +
+      (names.length > 0 ? ` (registered: ${names.join(', ')})` : '')
+    )
+  }
+  return deployment
+}
+
+export function getDeploymentNames(chainId: number): string[] {
+  return Array.from(registry.get(chainId)?.keys() ?? [])
+}
+
+/** Default deployment of every chain, keyed by chain id */
 export function getDeployments(): Record<string, DeploymentConfig> {
+  const deployments: Record<string, DeploymentConfig> = {}
+  for (const [chainId, named] of registry) {
+    const deployment = named.get(DEFAULT_DEPLOYMENT_NAME)
+    if (deployment) deployments[chainId.toString()] = deployment
+  }
   return deployments
 }
 
-export const SUPPORTED_CHAINS = Object.keys(deployments).map(Number)
+export function listDeployments(): RegisteredDeployment[] {
+  return Array.from(registry, ([chainId, named]) =>
+    Array.from(named, ([name, config]) => ({ chainId, name, config }))
+  ).flat()
+}
+
+/**
+ * deployments.json entries that were skipped at load, with the reason for each
+ * Empty when every entry registered
+ */
+export function getDeploymentDiagnostics(): SkippedDeployment[] {
+  return skipped.map((entry) => ({ ...entry, diagnostics: [...entry.diagnostics] }))
+}
+
+export function getSupportedChains(): number[] {
+  return Array.from(registry.keys())
+}
 
 export function isChainSupported(chainId: number): boolean {
-  return chainId.toString() in deployments
+  return registry.has(chainId)
+}
+
+/**
+ * Check a deployment against the chain
+ * Every address must have bytecode, and the factory's implementation and shared contract
+ * addresses must match the config
+ */
+export async function verifyDeployment(
+  publicClient: PublicClient,
+  deployment: DeploymentConfig,
+  options: { chainId?: number } = {}
+): Promise<DeploymentVerification> {
+  const diagnostics = validateDeploymentConfig(deployment)
+  const chainId = await publicClient.getChainId()
+
+  if (options.chainId !== undefined && options.chainId !== chainId) {
+    diagnostics.push({
+      code: 'CHAIN_MISMATCH',
+      field: 'chainId',
+      message: `Client is connected to chain ${chainId}, deployment is for chain ${options.chainId}`,
+      expected: options.chainId.toString(),
+      actual: chainId.toString(),
+    })
+    return { chainId, ok: false, diagnostics }
+  }
+
+  // Bytecode (the deployer is an EOA)
+  const contractFields = (['factory', 'liquidationEngine', 'fundingManager', ...OPTIONAL_ADDRESS_FIELDS] as const)
+    .filter((field) => isAddressValue(deployment[field]))
+  const codeChecks = contractFields.map(async (field): Promise<DeploymentDiagnostic | null> => {
+    const address = deployment[field]!
+    try {
+      const code = await publicClient.getCode({ address })
+      return code && code !== '0x'
+        ? null
+        : { code: 'NO_BYTECODE', field, message: `No contract deployed at ${field} (${address})`, actual: address }
+    } catch (error) {
+      return readFailed(field, error)
+    }
+  })
+
+  // Factory wiring
+  const wiring = [
+    { field: 'perpMarketImpl', functionName: 'perpMarketImplementation', code: 'IMPLEMENTATION_MISMATCH' },
+    { field: 'positionManagerImpl', functionName: 'positionManagerImplementation', code: 'IMPLEMENTATION_MISMATCH' },
+    { field: 'perpEngineImpl', functionName: 'perpEngineImplementation', code: 'IMPLEMENTATION_MISMATCH' },
+    { field: 'liquidationEngine', functionName: 'liquidationEngine', code: 'ADDRESS_MISMATCH' },
+    { field: 'fundingManager', functionName: 'fundingManager', code: 'ADDRESS_MISMATCH' },
+  ] as const
+  const wiringChecks = isAddressValue(deployment.factory)
+    ? wiring
+      .filter(({ field }) => isAddressValue(deployment[field]))
+      .map(async ({ field, functionName, code }): Promise<DeploymentDiagnostic | null> => {
+        const expected = deployment[field]!
+        try {
+          const actual = await publicClient.readContract({
+            address: deployment.factory,
+            abi: perpFactoryAbi,
+            functionName,
+          })
+          return isAddressEqual(actual, expected)
+            ? null
+            : { code, field, message: `Factory ${functionName}() is ${actual}, config has ${expected}`, expected, actual }
+        } catch (error) {
+          return readFailed(field, error)
+        }
+      })
+    : []
+
+  const results = await Promise.all([...codeChecks, ...wiringChecks])
+  for (const result of results) {
+    if (result) diagnostics.push(result)
+  }
+
+  return { chainId, ok: diagnostics.length === 0, diagnostics }
+}
+
+/**
+ * deployments.json
+ */
+
+// The deploy script writes this file; a bad entry is skipped instead of throwing at import
+for (const [chainKey, entry] of Object.entries(rawDeployments as Record<string, unknown>)) {
+  const chainId = Number(chainKey)
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    skipped.push({
+      chainKey,
+      name: DEFAULT_DEPLOYMENT_NAME,
+      diagnostics: [{ code: 'INVALID_FIELD', field: 'chainId', message: `"${chainKey}" is not a chain id`, actual: chainKey }],
+    })
+    continue
+  }
+
+  const named = isSingleConfig(entry) || typeof entry !== 'object' || entry === null
+    ? { [DEFAULT_DEPLOYMENT_NAME]: entry }
+    : (entry as Record<string, unknown>)
+  for (const [name, config] of Object.entries(named)) {
+    const diagnostics = validateDeploymentConfig(config)
+    if (diagnostics.length > 0) {
+      skipped.push({ chainKey, name, diagnostics })
+    } else {
+      registerDeployment(chainId, config as DeploymentConfig, { name })
+    }
+  }
+}
+
+/** Chains in deployments.json; use getSupportedChains() to include runtime registrations */
+export const SUPPORTED_CHAINS = getSupportedChains()
+
+/**
+ * Helpers
+ */
+
+function isSingleConfig(entry: unknown): boolean {
+  return typeof entry === 'object' && entry !== null && 'factory' in entry
+}
+
+function isAddressValue(value: unknown): value is Address {
+  return typeof value === 'string' && isAddress(value, { strict: false })
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function invalidAddress(field: string, value: unknown): DeploymentDiagnostic {
+  return { code: 'INVALID_FIELD', field, message: `${field} is not an address`, actual: String(value) }
+}
+
+function readFailed(field: string, error: unknown): DeploymentDiagnostic {
+  const reason = error instanceof Error ? error.message.split('\n')[0] : String(error)
+  return { code: 'READ_FAILED', field, message: `Could not check ${field}: ${reason}` }
 }
@@ -0,0 +1,446 @@
+import type { Abi, Hex } from 'viem'
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, toFunctionSelector } from 'viem'
+import {
+  perpEngineAbi,
+  perpMarketAbi,
+  positionManagerAbi,
+  liquidationEngineAbi,
+  perpFactoryAbi,
+  mockUsdcAbi,
+} from './generated.js'
+
+/**
+ * Protocol error registry
+ * Every custom error of the protocol ABIs, keyed by selector, with a typed class,
+ * a user-facing explanation and a suggested remedy
+ */
+
+type AbiError = Extract<Abi[number], { type: 'error' }>
+
+export type ProtocolContractName =
+  | 'PerpEngine'
+  | 'PerpMarket'
+  | 'PositionManager'
+  | 'LiquidationEngine'
+  | 'PerpFactory'
+  | 'MockUSDC'
+
+export interface ProtocolErrorEntry {
+  name: string
+  signature: string          // e.g. "InsufficientBalance()"
+  selector: Hex
+  contracts: ProtocolContractName[]
+  explanation: string
+  remedy: string
+  ErrorClass: ProtocolErrorClass
+}
+
+export type ProtocolErrorClass = new (
+  entry: ProtocolErrorEntry,
+  args?: readonly unknown[],
+  cause?: unknown
+) => ProtocolError
+
+/**
+ * Base class for decoded protocol reverts
+ * message = explanation + remedy, ready to show to a user
+ */
+export class ProtocolError extends Error {
+  readonly errorName: string
+  readonly signature: string
+  readonly selector: Hex
+  readonly contracts: readonly ProtocolContractName[]
+  readonly explanation: string
+  readonly remedy: string
+  readonly args: readonly unknown[]
+  readonly cause?: unknown
+
+  constructor(entry: ProtocolErrorEntry, args: readonly unknown[] = [], cause?: unknown) {
+    super(`${entry.explanation} ${entry.remedy}`)
+    this.name = new.target.name
+    this.errorName = entry.name
+    this.signature = entry.signature
+    this.selector = entry.selector
+    this.contracts = entry.contracts
+    this.explanation = entry.explanation
+    this.remedy = entry.remedy
+    this.args = args
+    this.cause = cause
+  }
+}
+
+// Engine and trading
+export class InsufficientBalanceError extends ProtocolError {}
+export class InvalidAmountError extends ProtocolError {}
+export class InvalidLeverageError extends ProtocolError {}
+export class PositionNotFoundError extends ProtocolError {}
+export class PositionNotOpenError extends ProtocolError {}
+export class NotPositionOwnerError extends ProtocolError {}
+export class NotLiquidatableError extends ProtocolError {}
+export class InsufficientLiquidityError extends ProtocolError {}
+export class InvalidReservesError extends ProtocolError {}
+
+// Access control
+export class UnauthorizedError extends ProtocolError {}
+export class OwnableUnauthorizedAccountError extends ProtocolError {}
+export class OwnableInvalidOwnerError extends ProtocolError {}
+
+// Deployment and initialization
+export class EngineAlreadySetError extends ProtocolError {}
+export class InitializationError extends ProtocolError {}
+export class FailedDeploymentError extends ProtocolError {}
+export class DeploymentBalanceError extends ProtocolError {}
+export class ReentrantCallError extends ProtocolError {}
+
+// Token transfers and permits
+export class TokenTransferFailedError extends ProtocolError {}
+export class InsufficientAllowanceError extends ProtocolError {}
+export class InsufficientTokenBalanceError extends ProtocolError {}
+export class InvalidTokenAddressError extends ProtocolError {}
+export class PermitExpiredError extends ProtocolError {}
+export class InvalidPermitError extends ProtocolError {}
+export class InvalidSignatureError extends ProtocolError {}
+export class TokenMetadataError extends ProtocolError {}
+
+type ErrorDefinition = Pick<ProtocolErrorEntry, 'explanation' | 'remedy' | 'ErrorClass'>
+
+const DEPLOYMENT_REMEDY = 'This is a deployment issue; contact the market operator.'
+
+/** Explanations and remedies by error signature */
+const ERROR_DEFINITIONS: Record<string, ErrorDefinition> = {
+  // PerpEngine
+  'InsufficientBalance()': {
+    explanation: 'Your engine wallet balance is lower than the amount requested.',
+    remedy: 'Deposit more collateral or reduce the amount.',
+    ErrorClass: InsufficientBalanceError,
+  },
+  'InvalidAmount()': {
+    explanation: 'The amount must be greater than zero.',
+    remedy: 'Enter a non-zero amount.',
+    ErrorClass: InvalidAmountError,
+  },
+  'InvalidLeverage()': {
+    explanation: 'Leverage must be greater than zero and at most 30x.',
+    remedy: 'Choose a leverage between 1x and 30x (max is 30x).',
+    ErrorClass: InvalidLeverageError,
+  },
+  'PositionNotFound()': {
+    explanation: 'The position does not exist or is no longer open.',
+    remedy: 'Check the position ID and market, then refresh your positions.',
+    ErrorClass: PositionNotFoundError,
+  },
+  'NotPositionOwner()': {
+    explanation: 'Only the account that opened the position can close it.',
+    remedy: 'Switch to the account that owns the position.',
+    ErrorClass: NotPositionOwnerError,
+  },
+  'NotLiquidatable()': {
+    explanation: 'The position is not below its liquidation threshold.',
+    remedy: 'Wait until its loss exceeds the allowed loss; positions cannot be liquidated in their opening block.',
+    ErrorClass: NotLiquidatableError,
+  },
+  'ReentrancyGuardReentrantCall()': {
+    explanation: 'A reentrant call into the engine was blocked.',
+    remedy: 'Send the transaction on its own, not from a contract callback.',
+    ErrorClass: ReentrantCallError,
+  },
+  'SafeERC20FailedOperation(address)': {
+    explanation: 'The USDC transfer failed.',
+    remedy: 'Check your USDC balance and the engine allowance.',
+    ErrorClass: TokenTransferFailedError,
+  },
+  'InvalidInitialization()': {
+    explanation: 'The contract is already initialized.',
+    remedy: DEPLOYMENT_REMEDY,
+    ErrorClass: InitializationError,
+  },
+  'NotInitializing()': {
+    explanation: 'An initializer was called outside of initialization.',
+    remedy: DEPLOYMENT_REMEDY,
+    ErrorClass: InitializationError,
+  },
+
+  // PerpMarket
+  'InsufficientLiquidity()': {
+    explanation: 'The trade is larger than the vAMM reserves can fill.',
+    remedy: 'Reduce the position size.',
+    ErrorClass: InsufficientLiquidityError,
+  },
+  'InvalidReserves()': {
+    explanation: 'Base and quote reserves must both be greater than zero.',
+    remedy: 'Use positive initial reserves.',
+    ErrorClass: InvalidReservesError,
+  },
+  'Unauthorized()': {
+    explanation: 'This account is not allowed to perform this action.',
+    remedy: 'Use the factory owner or an authorized market creator; engine-only calls cannot be made directly.',
+    ErrorClass: UnauthorizedError,
+  },
+  'EngineAlreadySet()': {
+    explanation: 'The engine for this market is already set.',
+    remedy: DEPLOYMENT_REMEDY,
+    ErrorClass: EngineAlreadySetError,
+  },
+
+  // PositionManager / LiquidationEngine
+  'PositionNotOpen()': {
+    explanation: 'The position is already closed or liquidated.',
+    remedy: 'Refresh your positions.',
+    ErrorClass: PositionNotOpenError,
+  },
+  'PositionNotLiquidatable()': {
+    explanation: 'The position is not below its liquidation threshold.',
+    remedy: 'Wait until its loss exceeds the allowed loss.',
+    ErrorClass: NotLiquidatableError,
+  },
+
+  // PerpFactory
+  'FailedDeployment()': {
+    explanation: 'Deploying the market clones failed.',
+    remedy: 'Retry; if it persists, check the factory implementation addresses.',
+    ErrorClass: FailedDeploymentError,
+  },
+  'InsufficientBalance(uint256,uint256)': {
+    explanation: 'The factory does not hold enough native balance for the deployment.',
+    remedy: DEPLOYMENT_REMEDY,
+    ErrorClass: DeploymentBalanceError,
+  },
+  'OwnableUnauthorizedAccount(address)': {
+    explanation: 'Only the factory owner can perform this action.',
+    remedy: 'Switch to the factory owner account.',
+    ErrorClass: OwnableUnauthorizedAccountError,
+  },
+  'OwnableInvalidOwner(address)': {
+    explanation: 'The new owner address is invalid.',
+    remedy: 'Provide a non-zero owner address.',
+    ErrorClass: OwnableInvalidOwnerError,
+  },
+
+  // MockUSDC (ERC20 + ERC2612)
+  'ERC20InsufficientAllowance(address,uint256,uint256)': {
+    explanation: 'The engine is not approved to spend this much USDC.',
+    remedy: 'Approve a larger USDC allowance or deposit with a permit.',
+    ErrorClass: InsufficientAllowanceError,
+  },
+  'ERC20InsufficientBalance(address,uint256,uint256)': {
+    explanation: 'Your wallet does not hold enough USDC.',
+    remedy: 'Get USDC from the faucet or reduce the amount.',
+    ErrorClass: InsufficientTokenBalanceError,
+  },
+  'ERC20InvalidApprover(address)': {
+    explanation: 'The approver address is invalid.',
+    remedy: 'Use a non-zero address.',
+    ErrorClass: InvalidTokenAddressError,
+  },
+  'ERC20InvalidReceiver(address)': {
+    explanation: 'The receiver address is invalid.',
+    remedy: 'Use a non-zero address.',
+    ErrorClass: InvalidTokenAddressError,
+  },
+  'ERC20InvalidSender(address)': {
+    explanation: 'The sender address is invalid.',
+    remedy: 'Use a non-zero address.',
+    ErrorClass: InvalidTokenAddressError,
+  },
+  'ERC20InvalidSpender(address)': {
+    explanation: 'The spender address is invalid.',
+    remedy: 'Use a non-zero address.',
+    ErrorClass: InvalidTokenAddressError,
+  },
+  'ERC2612ExpiredSignature(uint256)': {
+    explanation: 'The permit signature has expired.',
+    remedy: 'Sign a new permit with a later deadline.',
+    ErrorClass: PermitExpiredError,
+  },
+  'ERC2612InvalidSigner(address,address)': {
+    explanation: 'The permit was not signed by the token owner.',
+    remedy: 'Sign the permit with the account that owns the USDC.',
+    ErrorClass: InvalidPermitError,
+  },
+  'InvalidAccountNonce(address,uint256)': {
+    explanation: 'The permit nonce is stale.',
+    remedy: 'Sign a new permit with the current nonce.',
+    ErrorClass: InvalidPermitError,
+  },
+  'ECDSAInvalidSignature()': {
+    explanation: 'The signature is invalid.',
+    remedy: 'Sign the message again.',
+    ErrorClass: InvalidSignatureError,
+  },
+  'ECDSAInvalidSignatureLength(uint256)': {
+    explanation: 'The signature has an invalid length.',
+    remedy: 'Sign the message again.',
+    ErrorClass: InvalidSignatureError,
+  },
+  'ECDSAInvalidSignatureS(bytes32)': {
+    explanation: 'The signature has an invalid s value.',
+    remedy: 'Sign the message again.',
+    ErrorClass: InvalidSignatureError,
+  },
+  'InvalidShortString()': {
+    explanation: 'Token metadata is invalid.',
+    remedy: DEPLOYMENT_REMEDY,
+    ErrorClass: TokenMetadataError,
+  },
+  'StringTooLong(string)': {
+    explanation: 'Token metadata is too long.',
+    remedy: DEPLOYMENT_REMEDY,
+    ErrorClass: TokenMetadataError,
+  },
+}
+
+const PROTOCOL_ABIS: Record<ProtocolContractName, Abi> = {
+  PerpEngine: perpEngineAbi,
+  PerpMarket: perpMarketAbi,
+  PositionManager: positionManagerAbi,
+  LiquidationEngine: liquidationEngineAbi,
+  PerpFactory: perpFactoryAbi,
+  MockUSDC: mockUsdcAbi,
+}
+
+function errorSignature(item: AbiError): string {
+  return `${item.name}(${item.inputs.map((input) => input.type).join(',')})`
+}
+
+function buildRegistry(): { registry: Map<Hex, ProtocolErrorEntry>; abi: AbiError[] } {
+  const registry = new Map<Hex, ProtocolErrorEntry>()
+  const abi: AbiError[] = []
+
+  for (const [contract, contractAbi] of Object.entries(PROTOCOL_ABIS) as [ProtocolContractName, Abi][]) {
+    for (const item of contractAbi) {
+      if (item.type !== 'error') continue
+
+      const signature = errorSignature(item)
+      const selector = toFunctionSelector(signature)
+      const existing = registry.get(selector)
+      if (existing) {
+        existing.contracts.push(contract)
+        continue
+      }
+
+      const definition = ERROR_DEFINITIONS[signature] ?? {
+        explanation: `The contract reverted with ${item.name}.`,
+        remedy: 'Check the transaction parameters.',
+        ErrorClass: ProtocolError,
+      }
+      registry.set(selector, { name: item.name, signature, selector, contracts: [contract], ...definition })
+      abi.push(item)
+    }
+  }
+
+  return { registry, abi }
+}
+
+const { registry: PROTOCOL_ERRORS, abi: errorAbi } = buildRegistry()
+
+/** Every protocol custom error as a single ABI (one entry per selector) */
+export const PROTOCOL_ERROR_ABI: readonly AbiError[] = errorAbi
+
+/**
+ * Look up a registry entry by selector (0x + 4 bytes) or full revert data
+ */
+export function getProtocolErrorEntry(selectorOrData: Hex): ProtocolErrorEntry | undefined {
+  return PROTOCOL_ERRORS.get(selectorOrData.slice(0, 10).toLowerCase() as Hex)
+}
+
+/**
+ * All registry entries
+ */
+export function getProtocolErrorEntries(): ProtocolErrorEntry[] {
+  return Array.from(PROTOCOL_ERRORS.values())
+}
+
+/**
+ * Typed error for a revert the SDK predicts itself, by signature ("InvalidAmount()") or bare name
+ * Bare names are argument-less errors
+ */
+export function createProtocolError(signature: string, args: readonly unknown[] = []): ProtocolError {
+  const entry = getProtocolErrorEntries().find((e) => e.signature === (signature.includes('(') ? signature : `${signature}()`))
+  if (!entry) throw new Error(`Unknown protocol error: ${signature}`)
+  return new entry.ErrorClass(entry, args)
+}
+
+/**
+ * Decode a thrown error (viem, JSON-RPC or raw revert data) into a typed ProtocolError
+ * Returns null when the error is not a protocol revert
+ */
+export function decodeProtocolError(error: unknown): ProtocolError | null {
+  if (error instanceof ProtocolError) return error
+
+  const data = extractRevertData(error)
+  if (data) {
+    const entry = getProtocolErrorEntry(data)
+    if (entry) {
+      let args: readonly unknown[] = []
+      try {
+        args = decodeErrorResult({ abi: PROTOCOL_ERROR_ABI, data }).args ?? []
+      } catch {
+        // Selector matched but arguments are malformed; keep the typed error without args
+      }
+      return new entry.ErrorClass(entry, args, error)
+    }
+  }
+
+  // Nodes that only return the error name in the message
+  const name = extractRevertName(error)
+  if (name) {
+    const entry = getProtocolErrorEntries().find((e) => e.name === name)
+    if (entry) return new entry.ErrorClass(entry, [], error)
+  }
+
+  // Wrappers that keep the RPC error as cause (e.g. TransactionFailedError)
+  const cause = (error as { cause?: unknown } | null)?.cause
+  if (error instanceof Error && !(error instanceof BaseError) && cause !== undefined) {
+    return decodeProtocolError(cause)
+  }
+
+  return null
+}
+
+/**
+ * Typed ProtocolError when the error is a protocol revert, otherwise an Error with a readable message
+ * Use in catch blocks: `throw toProtocolError(error)`
+ */
+export function toProtocolError(error: unknown): Error {
+  const decoded = decodeProtocolError(error)
+  if (decoded) return decoded
+  if (error instanceof BaseError) return new Error(error.shortMessage)
+  if (error instanceof Error) return error
+  return new Error(String(error))
+}
+
+/**
+ * Revert data extraction
+ */
+
+function extractRevertData(error: unknown): Hex | undefined {
+  if (typeof error === 'string') return isRevertData(error) ? error : undefined
+  if (!error || typeof error !== 'object') return undefined
+
+  if (error instanceof BaseError) {
+    const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError)
+    if (reverted instanceof ContractFunctionRevertedError && reverted.raw) return reverted.raw
+
+    const withData = error.walk((e) => isRevertData((e as { data?: unknown }).data))
+    if (withData) return (withData as unknown as { data: Hex }).data
+  }
+
+  // JSON-RPC / ethers shapes: { data }, { data: { data } }, { error: { data } }
+  const candidate = error as { data?: unknown; error?: { data?: unknown } }
+  if (isRevertData(candidate.data)) return candidate.data
+  const nested = candidate.data as { data?: unknown } | undefined
+  if (nested && isRevertData(nested.data)) return nested.data
+  if (isRevertData(candidate.error?.data)) return candidate.error.data
+
+  return undefined
+}
+
+function extractRevertName(error: unknown): string | undefined {
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : undefined
+  const match = message?.match(/custom error ['"]?(\w+)\(/)
+  return match?.[1]
+}
+
+function isRevertData(value: unknown): value is Hex {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{8}/.test(value)
+}
@@ -0,0 +1,382 @@
+import type { Abi, Address, Hash, Hex, Log } from 'viem'
+import { decodeEventLog, toEventSelector } from 'viem'
+import {
+  perpEngineAbi,
+  perpMarketAbi,
+  positionManagerAbi,
+  fundingManagerAbi,
+  perpFactoryAbi,
+} from './generated.js'
+import {
+  asInternal,
+  asLeverage,
+  asPrice,
+  type InternalAmount,
+  type Leverage18,
+  type Price18,
+} from './units.js'
+
+/**
+ * Typed domain event decoder
+ * Turns raw logs from any protocol contract into one discriminated union (on eventName),
+ * with normalized field names, unit-tagged amounts and block/tx metadata
+ */
+
+type AbiEvent = Extract<Abi[number], { type: 'event' }>
+
+/** Raw log fields the decoder needs (viem Log, or any provider log mapped to this shape) */
+export type ProtocolLog = Pick<
+  Log,
+  'address' | 'topics' | 'data' | 'blockNumber' | 'blockHash' | 'transactionHash' | 'transactionIndex' | 'logIndex' | 'removed'
+>
+
+export type ProtocolEventContract =
+  | 'PerpEngine'
+  | 'PositionManager'
+  | 'PerpMarket'
+  | 'FundingManager'
+  | 'PerpFactory'
+
+export interface ProtocolEventMeta {
+  contract: ProtocolEventContract
+  address: Address          // emitting contract
+  blockNumber: bigint
+  blockHash: Hash
+  transactionHash: Hash
+  transactionIndex: number
+  logIndex: number
+  removed: boolean          // true when the log was dropped by a reorg
+}
+
+// PerpEngine
+
+export interface DepositEvent extends ProtocolEventMeta {
+  eventName: 'Deposit'
+  user: Address
+  amount: InternalAmount    // credited to the engine wallet (USDC x 1e12)
+}
+
+export interface WithdrawEvent extends ProtocolEventMeta {
+  eventName: 'Withdraw'
+  user: Address
+  amount: InternalAmount
+}
+
+export interface PositionOpenedEvent extends ProtocolEventMeta {
+  eventName: 'PositionOpened'
+  positionId: bigint
+  user: Address
+  isLong: boolean
+  totalToUse: InternalAmount
+  margin: InternalAmount
+  fee: InternalAmount
+  leverage: Leverage18
+  baseSize: bigint
+  entryPrice: Price18
+}
+
+export interface PositionClosedEvent extends ProtocolEventMeta {
+  eventName: 'PositionClosed'
+  positionId: bigint
+  user: Address
+  totalPnl: InternalAmount  // signed
+  avgClosePrice: Price18
+}
+
+export interface PositionLiquidatedEvent extends ProtocolEventMeta {
+  eventName: 'PositionLiquidated'
+  positionId: bigint
+  user: Address
+  liquidator: Address
+  liquidationFee: InternalAmount
+}
+
+// PositionManager
+
+export interface PositionCreatedEvent extends ProtocolEventMeta {
+  eventName: 'PositionCreated'
+  positionId: bigint
+  user: Address
+  isLong: boolean
+  baseSize: bigint
+  entryPrice: Price18
+  entryNotional: InternalAmount
+  margin: InternalAmount
+  carrySnapshot: bigint
+  openBlock: bigint
+}
+
+// PerpMarket
+
+export interface ReservesUpdatedEvent extends ProtocolEventMeta {
+  eventName: 'ReservesUpdated'
+  baseReserve: bigint
+  quoteReserve: InternalAmount
+  markPrice: Price18
+}
+
+export interface OpenInterestUpdatedEvent extends ProtocolEventMeta {
+  eventName: 'OpenInterestUpdated'
+  longOI: InternalAmount    // notional
+  shortOI: InternalAmount
+}
+
+// FundingManager
+
+export interface CarryUpdatedEvent extends ProtocolEventMeta {
+  eventName: 'CarryUpdated'
+  carryBlock: bigint        // block the carry index was advanced to
+  carryIndex: bigint
+  carryPerBlock: bigint
+  longOI: InternalAmount
+  shortOI: InternalAmount
+}
+
+// PerpFactory
+
+export interface MarketCreatedEvent extends ProtocolEventMeta {
+  eventName: 'MarketCreated'
+  marketIndex: bigint
+  engine: Address
+  market: Address
+  collateralToken: Address
+}
+
+export interface MarketCreatorUpdatedEvent extends ProtocolEventMeta {
+  eventName: 'MarketCreatorUpdated'
+  creator: Address
+  authorized: boolean
+}
+
+export type ProtocolEvent =
+  | DepositEvent
+  | WithdrawEvent
+  | PositionOpenedEvent
+  | PositionClosedEvent
+  | PositionLiquidatedEvent
+  | PositionCreatedEvent
+  | ReservesUpdatedEvent
+  | OpenInterestUpdatedEvent
+  | CarryUpdatedEvent
+  | MarketCreatedEvent
+  | MarketCreatorUpdatedEvent
+
+export type ProtocolEventName = ProtocolEvent['eventName']
+
+export type ProtocolEventOf<N extends ProtocolEventName> = Extract<ProtocolEvent, { eventName: N }>
+
+// LiquidationEngine declares its own PositionLiquidated but never emits it; the engine's event is canonical
+const EVENT_SOURCES = [
+  { contract: 'PerpEngine', abi: perpEngineAbi },
+  { contract: 'PositionManager', abi: positionManagerAbi },
+  { contract: 'PerpMarket', abi: perpMarketAbi },
+  { contract: 'FundingManager', abi: fundingManagerAbi },
+  { contract: 'PerpFactory', abi: perpFactoryAbi },
+] as const satisfies readonly { contract: ProtocolEventContract; abi: Abi }[]
+
+const PROTOCOL_EVENT_NAMES: ReadonlySet<string> = new Set<ProtocolEventName>([
+  'Deposit',
+  'Withdraw',
+  'PositionOpened',
+  'PositionClosed',
+  'PositionLiquidated',
+  'PositionCreated',
+  'ReservesUpdated',
+  'OpenInterestUpdated',
+  'CarryUpdated',
+  'MarketCreated',
+  'MarketCreatorUpdated',
+])
+
+/** Every decodable event ABI item (e.g. for getLogs({ events: PROTOCOL_EVENT_ABI })) */
+export const PROTOCOL_EVENT_ABI: readonly AbiEvent[] = EVENT_SOURCES.flatMap(({ abi }) =>
+  (abi as Abi).filter((item): item is AbiEvent => item.type === 'event' && PROTOCOL_EVENT_NAMES.has(item.name))
+)
+
+const CONTRACT_BY_TOPIC = new Map<Hex, (typeof EVENT_SOURCES)[number]>()
+for (const source of EVENT_SOURCES) {
+  for (const item of source.abi as Abi) {
+    if (item.type === 'event' && PROTOCOL_EVENT_NAMES.has(item.name)) {
+      CONTRACT_BY_TOPIC.set(toEventSelector(item), source)
+    }
+  }
+}
+
+/**
+ * Decode one log
+ * Returns null for pending logs, logs of other contracts/events and logs that do not match the ABI
+ */
+export function decodeProtocolEvent(log: ProtocolLog): ProtocolEvent | null {
+  const topic = log.topics[0]
+  const source = topic && CONTRACT_BY_TOPIC.get(topic)
+  if (
+    !source ||
+    log.blockNumber === null ||
+    log.blockHash === null ||
+    log.transactionHash === null ||
+    log.transactionIndex === null ||
+    log.logIndex === null
+  ) {
+    return null
+  }
+
+  const meta: ProtocolEventMeta = {
+    contract: source.contract,
+    address: log.address,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: log.transactionIndex,
+    logIndex: log.logIndex,
+    removed: log.removed,
+  }
+
+  try {
+    switch (source.contract) {
+      case 'PerpEngine': {
+        const event = decodeEventLog({ abi: perpEngineAbi, topics: log.topics, data: log.data })
+        switch (event.eventName) {
+          case 'Deposit':
+          case 'Withdraw':
+            return { ...meta, eventName: event.eventName, user: event.args.user, amount: asInternal(event.args.amount) }
+          case 'PositionOpened':
+            return {
+              ...meta,
+              eventName: 'PositionOpened',
+              positionId: event.args.positionId,
+              user: event.args.user,
+              isLong: event.args.isLong,
+              totalToUse: asInternal(event.args.totalToUse),
+              margin: asInternal(event.args.margin),
+              fee: asInternal(event.args.fee),
+              leverage: asLeverage(event.args.leverage),
+              baseSize: event.args.baseSize,
+              entryPrice: asPrice(event.args.entryPrice),
+            }
+          case 'PositionClosed':
+            return {
+              ...meta,
+              eventName: 'PositionClosed',
+              positionId: event.args.positionId,
+              user: event.args.user,
+              totalPnl: asInternal(event.args.totalPnl),
+              avgClosePrice: asPrice(event.args.avgClosePrice),
+            }
+          case 'PositionLiquidated':
+            return {
+              ...meta,
+              eventName: 'PositionLiquidated',
+              positionId: event.args.positionId,
+              user: event.args.user,
+              liquidator: event.args.liquidator,
+              liquidationFee: asInternal(event.args.liqFee),
+            }
+        }
+        return null
+      }
+      case 'PositionManager': {
+        const event = decodeEventLog({ abi: positionManagerAbi, topics: log.topics, data: log.data })
+        if (event.eventName !== 'PositionCreated') return null
+        return {
+          ...meta,
+          eventName: 'PositionCreated',
+          positionId: event.args.positionId,
+          user: event.args.user,
+          isLong: event.args.isLong,
+          baseSize: event.args.baseSize,
+          entryPrice: asPrice(event.args.entryPrice),
+          entryNotional: asInternal(event.args.entryNotional),
+          margin: asInternal(event.args.margin),
+          carrySnapshot: event.args.carrySnapshot,
+          openBlock: event.args.openBlock,
+        }
+      }
+      case 'PerpMarket': {
+        const event = decodeEventLog({ abi: perpMarketAbi, topics: log.topics, data: log.data })
+        switch (event.eventName) {
+          case 'ReservesUpdated':
+            return {
+              ...meta,
+              eventName: 'ReservesUpdated',
+              baseReserve: event.args.baseReserve,
+              quoteReserve: asInternal(event.args.quoteReserve),
+              markPrice: asPrice(event.args.markPrice),
+            }
+          case 'OpenInterestUpdated':
+            return {
+              ...meta,
+              eventName: 'OpenInterestUpdated',
+              longOI: asInternal(event.args.longOpenInterest),
+              shortOI: asInternal(event.args.shortOpenInterest),
+            }
+        }
+        return null
+      }
+      case 'FundingManager': {
+        const event = decodeEventLog({ abi: fundingManagerAbi, topics: log.topics, data: log.data })
+        if (event.eventName !== 'CarryUpdated') return null
+        return {
+          ...meta,
+          eventName: 'CarryUpdated',
+          carryBlock: event.args.blockNumber,
+          carryIndex: event.args.cumulativeCarryIndex,
+          carryPerBlock: event.args.carryPerBlock,
+          longOI: asInternal(event.args.longOI),
+          shortOI: asInternal(event.args.shortOI),
+        }
+      }
+      case 'PerpFactory': {
+        const event = decodeEventLog({ abi: perpFactoryAbi, topics: log.topics, data: log.data })
+        switch (event.eventName) {
+          case 'MarketCreated':
+            return {
+              ...meta,
+              eventName: 'MarketCreated',
+              marketIndex: event.args.marketIndex,
+              engine: event.args.engine,
+              market: event.args.market,
+              collateralToken: event.args.collateralToken,
+            }
+          case 'MarketCreatorUpdated':
+            return {
+              ...meta,
+              eventName: 'MarketCreatorUpdated',
+              creator: event.args.creator,
+              authorized: event.args.authorized,
+            }
+        }
+        return null
+      }
+    }
+  } catch {
+    // Selector collision with a foreign event or malformed data
+    return null
+  }
+}
+
+/**
+ * Decode a batch of logs, dropping anything that is not a protocol event
+ * Keeps input order
+ */
+export function decodeProtocolEvents(logs: readonly ProtocolLog[]): ProtocolEvent[] {
+  const events: ProtocolEvent[] = []
+  for (const log of logs) {
+    const event = decodeProtocolEvent(log)
+    if (event) events.push(event)
+  }
+  return events
+}
+
+/**
+ * First event of the given name in a batch of logs (e.g. a transaction receipt)
+ */
+export function findProtocolEvent<N extends ProtocolEventName>(
+  logs: readonly ProtocolLog[],
+  eventName: N
+): ProtocolEventOf<N> | undefined {
+  for (const log of logs) {
+    const event = decodeProtocolEvent(log)
+    if (event?.eventName === eventName) return event as ProtocolEventOf<N>
+  }
+  return undefined
+}
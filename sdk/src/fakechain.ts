@@ -0,0 +1,1605 @@
+import type {
+  Abi,
+  AbiEvent,
+  AbiStateMutability,
+  Address,
+  Chain,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  CustomTransport,
+  Hash,
+  Hex,
+  RpcLog,
+  TransactionSerialized,
+} from 'viem'
+import {
+  concatHex,
+  custom,
+  decodeFunctionData,
+  decodeFunctionResult,
+  defineChain,
+  domainSeparator,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionData,
+  encodeFunctionResult,
+  getAbiItem,
+  getAddress,
+  getContractAddress,
+  hashTypedData,
+  hexToBigInt,
+  isAddressEqual,
+  keccak256,
+  maxUint256,
+  multicall3Abi,
+  numberToHex,
+  parseTransaction,
+  recoverAddress,
+  recoverTransactionAddress,
+  toFunctionSelector,
+  zeroAddress,
+  zeroHash,
+} from 'viem'
+import {
+  fundingManagerAbi,
+  liquidationEngineAbi,
+  mockUsdcAbi,
+  perpEngineAbi,
+  perpFactoryAbi,
+  perpMarketAbi,
+  positionManagerAbi,
+} from './generated.js'
+import {
+  PRECISION,
+  USDC_TO_INTERNAL,
+  MAX_LEVERAGE,
+  LEVERAGE_BUCKET_1_MAX,
+  LEVERAGE_BUCKET_2_MAX,
+  BUFFER_RATIO_1,
+  BUFFER_RATIO_2,
+  BUFFER_RATIO_3,
+  LIQUIDATION_EPSILON,
+  LIQUIDATION_FEE_RATIO,
+  BASE_CARRY_RATE_PER_BLOCK,
+  CARRY_SENSITIVITY,
+} from './constants.js'
+import { VammError, simulateOpenLong, simulateOpenShort, simulateCloseLong, simulateCloseShort } from './vamm.js'
+import { calculateCarryPnl, getBlockTime } from './funding.js'
+import { getLiquidationBufferRatio } from './liquidation.js'
+import { ProtocolError, decodeProtocolError } from './errors.js'
+import { createProtocolModel, type ProtocolModel, type ModelEvent } from './model.js'
+import { MULTICALL3_ADDRESS } from './snapshot.js'
+import { PERMIT_TYPES } from './permit.js'
+import type { MarketAddresses } from './client.js'
+import { asInternal, asLeverage, asUsdc, type UsdcAmount } from './units.js'
+
+/**
+ * In-memory fake chain
+ * A viem custom transport that serves the protocol's contracts from the reference model: eth_call,
+ * eth_estimateGas, eth_sendTransaction / eth_sendRawTransaction, eth_getLogs, blocks, receipts and
+ * the Anvil mining methods. Services, bots and keepers run against it in plain Node, with no node process.
+ *
+ * The core contracts (factory, shared FundingManager and LiquidationEngine, MockUSDC) exist at genesis,
+ * deployed by Anvil's first account in the order of the deploy scripts, so their addresses match a fresh
+ * local deployment. Every market is a ProtocolModel; MockUSDC is a plain ERC20 ledger with permits.
+ * Multicall3 answers aggregate3, so readMarketSnapshot batches as on a real chain.
+ *
+ * Any sender is accepted (as with Anvil's auto-impersonation). Engine-only and factory-only functions of
+ * PerpMarket and PositionManager revert with Unauthorized: the fake chain runs them only through the engine.
+ * Collateral sent straight to an engine with transfer() is held but invisible to its model.
+ */
+
+/** Anvil's first account, the deployer of a local deployment */
+const ANVIL_DEPLOYER: Address = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'
+
+/** Deploy order of 01_DeployCore and 02_SetupLocal (deployer nonces 0-6) */
+const CORE_CONTRACTS = [
+  'perpMarketImpl',
+  'positionManagerImpl',
+  'perpEngineImpl',
+  'liquidationEngine',
+  'fundingManager',
+  'factory',
+  'usdc',
+] as const
+
+const DEFAULT_GENESIS_TIMESTAMP = 1_700_000_000n
+const DEPLOYER_USDC = 1_000_000n * 10n ** 6n
+const FAUCET_AMOUNT = 10_000n * 10n ** 6n
+const USDC_NAME = 'Mock USDC'
+/** Native balance of every account (gas is not charged) */
+const ETH_BALANCE = 10_000n * 10n ** 18n
+
+const BASE_FEE_PER_GAS = 1_000_000_000n
+const PRIORITY_FEE_PER_GAS = 1_000_000_000n
+const BLOCK_GAS_LIMIT = 30_000_000n
+/** Gas estimated for, and charged to, every transaction */
+const TRANSACTION_GAS = 500_000n
+
+const EMPTY_BLOOM: Hex = `0x${'00'.repeat(256)}`
+/** Stand-in bytecode for accounts that are contracts (getCode only checks for presence) */
+const CONTRACT_CODE: Hex = '0xfe'
+const SECP256K1_HALF_N = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n
+
+const PANIC_ARITHMETIC = 0x11n
+const PANIC_DIVISION_BY_ZERO = 0x12n
+const PANIC_ARRAY_INDEX = 0x32n
+
+export interface FakeChainOptions {
+  /** Default 31337 (Anvil) */
+  chainId?: number
+  /** Deployer of the core contracts and owner of the factory; default Anvil's first account */
+  deployer?: Address
+  /** Returned by eth_accounts; transactions are accepted from any address */
+  accounts?: readonly Address[]
+  /** Mine a block per transaction (default true); otherwise transactions wait for mine() */
+  automine?: boolean
+  /** Genesis block timestamp (seconds) */
+  timestamp?: bigint
+  /** Seconds between blocks; default getBlockTime(chainId), else 1 */
+  blockTime?: number
+}
+
+/** Core contract addresses, shaped like a deployments.json entry */
+export interface FakeChainAddresses {
+  deployer: Address
+  factory: Address
+  usdc: Address
+  fundingManager: Address
+  liquidationEngine: Address
+  perpMarketImpl: Address
+  positionManagerImpl: Address
+  perpEngineImpl: Address
+}
+
+export interface FakeMarketConfig {
+  baseReserve: bigint
+  quoteReserve: bigint
+  /** Validated by the factory, not stored (default MAX_LEVERAGE) */
+  maxLeverage?: bigint
+  /** Default the fake chain's MockUSDC */
+  collateralToken?: Address
+}
+
+/** A log appended to the next block by emitEvent */
+export interface FakeEventParams {
+  address: Address
+  abi: Abi
+  eventName: string
+  args?: Record<string, unknown>
+}
+
+export interface FakeChain {
+  /** Pass to createPublicClient / createWalletClient / createTestClient */
+  transport: CustomTransport
+  /** Chain definition with Multicall3 configured */
+  chain: Chain
+  addresses: FakeChainAddresses
+  getBlockNumber(): bigint
+  /** Mine blocks; pending transactions go into the first one. Resolves to the new head */
+  mine(blocks?: number): Promise<bigint>
+  setAutomine(enabled: boolean): void
+  /** Shift the timestamps of the blocks that follow */
+  increaseTime(seconds: number): void
+  /** PerpFactory.createMarket from the deployer, mined at once */
+  createMarket(config: FakeMarketConfig): Promise<MarketAddresses>
+  /** MockUSDC.mint, mined at once */
+  mint(to: Address, amount: UsdcAmount): Promise<void>
+  /**
+   * PerpMarket.advanceBlocks on one market, mined at once. No contract calls it, so this moves the market off
+   * the deployed behavior: it is the only way to make a position liquidatable
+   */
+  advanceMarketBlocks(engine: Address, blocks: bigint): Promise<void>
+  /** Append an arbitrary log to the next block (mined at once with automine) */
+  emitEvent(params: FakeEventParams): Promise<void>
+  /** Copy of a market's model at the head block */
+  getModel(engine: Address): ProtocolModel
+}
+
+/**
+ * Chain state
+ */
+
+interface TokenState {
+  balances: Map<string, bigint>
+  allowances: Map<string, bigint>
+  nonces: Map<string, bigint>
+  totalSupply: bigint
+}
+
+interface WorldMarket {
+  addresses: MarketAddresses
+  model: ProtocolModel
+}
+
+/** Contract state after a block; treated as immutable once committed */
+interface World {
+  token: TokenState
+  owner: Address
+  marketCreators: Set<string>
+  markets: WorldMarket[]
+  /** CREATE nonce of the factory (clone addresses) */
+  factoryNonce: bigint
+}
+
+interface FakeBlock {
+  number: bigint
+  hash: Hash
+  parentHash: Hash
+  timestamp: bigint
+  transactions: Hash[]
+  logs: RpcLog[]
+  world: World
+}
+
+interface FakeTransaction {
+  hash: Hash
+  from: Address
+  to: Address | null
+  nonce: bigint
+  input: Hex
+  value: bigint
+  gas: bigint
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  // Set when mined
+  blockNumber?: bigint
+  transactionIndex?: number
+  status?: 'success' | 'reverted'
+  returnData?: Hex
+  logs: RpcLog[]
+}
+
+interface BlockEnv {
+  number: bigint
+  timestamp: bigint
+}
+
+interface PendingLog {
+  address: Address
+  topics: Hex[]
+  data: Hex
+}
+
+interface CallContext {
+  world: World
+  from: Address
+  block: BlockEnv
+  logs: PendingLog[]
+}
+
+/** A contract's functions, typed from its ABI; a missing one reverts like an unknown selector */
+type Functions<abi extends Abi> = {
+  [name in ContractFunctionName<abi>]?: (
+    ...args: Extract<ContractFunctionArgs<abi, AbiStateMutability, name>, readonly unknown[]>
+  ) => unknown
+}
+
+/** A contract as execute dispatches to it */
+interface FakeContract {
+  abi: Abi
+  functions: Partial<Record<string, (...args: readonly unknown[]) => unknown>>
+}
+
+/** PerpFactory.MarketConfig */
+interface MarketConfig {
+  baseReserve: bigint
+  quoteReserve: bigint
+  maxLeverage: bigint
+}
+
+interface Snapshot {
+  blocks: FakeBlock[]
+  transactions: Map<Hash, FakeTransaction>
+  pending: Hash[]
+  pendingLogs: PendingLog[]
+  nonces: Map<string, bigint>
+  timeOffset: bigint
+}
+
+/** Call that reverted; data is the revert payload (custom error, Error(string) or Panic) */
+class ExecutionReverted extends Error {
+  constructor(readonly data: Hex) {
+    super('execution reverted')
+  }
+}
+
+/** JSON-RPC error as a node returns it; viem maps the code to its RPC error classes */
+class JsonRpcError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: Hex) {
+    super(message)
+  }
+}
+
+/**
+ * Create a fake chain with the core contracts deployed and no markets
+ */
+export function createFakeChain(options: FakeChainOptions = {}): FakeChain {
+  const chainId = options.chainId ?? 31337
+  const deployer = options.deployer ?? ANVIL_DEPLOYER
+  const blockTime = BigInt(options.blockTime ?? getBlockTime(chainId) ?? 1)
+  const genesisTimestamp = options.timestamp ?? DEFAULT_GENESIS_TIMESTAMP
+
+  const addresses = { deployer } as FakeChainAddresses
+  CORE_CONTRACTS.forEach((name, nonce) => {
+    addresses[name] = getContractAddress({ from: deployer, nonce: BigInt(nonce) })
+  })
+
+  const permitDomain = { name: USDC_NAME, version: '1', chainId, verifyingContract: addresses.usdc } as const
+
+  let blocks: FakeBlock[] = []
+  let transactions = new Map<Hash, FakeTransaction>()
+  let pending: FakeTransaction[] = []
+  let pendingLogs: PendingLog[] = []
+  // Next nonce per sender, counting mined transactions only
+  let nonces = new Map<string, bigint>([[key(deployer), BigInt(CORE_CONTRACTS.length)]])
+  let timeOffset = 0n
+  let nextTimestamp: bigint | undefined
+  let automine = options.automine ?? true
+  // Block hashes differ whenever a height is mined again after evm_revert
+  let blockSerial = 0n
+  // Hashes of transactions sent unsigned and of emitted logs
+  let hashSerial = 0n
+  const snapshots = new Map<bigint, Snapshot>()
+  let nextSnapshotId = 1n
+
+  const head = () => blocks[blocks.length - 1]
+
+  const blockHash = (number: bigint): Hash =>
+    keccak256(encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [number, blockSerial++]))
+
+  blocks.push({
+    number: 0n,
+    hash: blockHash(0n),
+    parentHash: zeroHash,
+    timestamp: genesisTimestamp,
+    transactions: [],
+    logs: [],
+    world: {
+      token: {
+        balances: new Map([[key(deployer), DEPLOYER_USDC]]),
+        allowances: new Map(),
+        nonces: new Map(),
+        totalSupply: DEPLOYER_USDC,
+      },
+      owner: deployer,
+      marketCreators: new Set([key(deployer)]),
+      markets: [],
+      factoryNonce: 1n,
+    },
+  })
+
+  /**
+   * Contracts
+   */
+
+  const findMarket = (world: World, address: Address, field: 'engine' | 'market' | 'positionManager') =>
+    world.markets.find((entry) => isAddressEqual(entry.addresses[field], address))
+
+  // Market behind an address argument; a call to an address without code reverts with no data
+  const requireMarket = (world: World, address: Address, field: 'market' | 'positionManager') => {
+    const entry = findMarket(world, address, field)
+    if (!entry) throw new ExecutionReverted('0x')
+    return entry
+  }
+
+  const pushLog = (ctx: CallContext, address: Address, abi: Abi, eventName: string, args: Record<string, unknown> = {}) => {
+    const event = getAbiItem({ abi, name: eventName }) as AbiEvent | undefined
+    if (!event || event.type !== 'event') throw new Error(`Event ${eventName} is not in the ABI`)
+    const topics = encodeEventTopics({ abi: [event], eventName, args }) as Hex[]
+    const data = encodeAbiParameters(
+      event.inputs.filter((input) => !input.indexed),
+      event.inputs.filter((input) => !input.indexed).map((input) => args[input.name!])
+    )
+    ctx.logs.push({ address, topics, data })
+  }
+
+  const pushModelEvents = (ctx: CallContext, entry: WorldMarket, events: readonly ModelEvent[]) => {
+    for (const event of events) {
+      const [address, abi] =
+        event.contract === 'PerpEngine' ? [entry.addresses.engine, perpEngineAbi]
+        : event.contract === 'PositionManager' ? [entry.addresses.positionManager, positionManagerAbi]
+        : [entry.addresses.market, perpMarketAbi]
+      pushLog(ctx, address, abi as Abi, event.eventName, event.args)
+    }
+  }
+
+  // MockUSDC (OpenZeppelin ERC20 + ERC20Permit)
+
+  const balanceOf = (world: World, account: Address) => {
+    const held = world.token.balances.get(key(account)) ?? 0n
+    const engine = findMarket(world, account, 'engine')
+    return engine ? held + engine.model.getState().collateralBalance : held
+  }
+
+  const allowanceOf = (world: World, owner: Address, spender: Address) =>
+    world.token.allowances.get(`${key(owner)}:${key(spender)}`) ?? 0n
+
+  const approve = (ctx: CallContext, owner: Address, spender: Address, value: bigint) => {
+    if (isAddressEqual(spender, zeroAddress)) throw revertWith('ERC20InvalidSpender(address)', [zeroAddress])
+    ctx.world.token.allowances.set(`${key(owner)}:${key(spender)}`, value)
+    pushLog(ctx, addresses.usdc, mockUsdcAbi as Abi, 'Approval', { owner, spender, value })
+  }
+
+  const spendAllowance = (ctx: CallContext, owner: Address, spender: Address, value: bigint) => {
+    const current = allowanceOf(ctx.world, owner, spender)
+    if (current === maxUint256) return
+    if (current < value) {
+      throw revertWith('ERC20InsufficientAllowance(address,uint256,uint256)', [spender, current, value])
+    }
+    ctx.world.token.allowances.set(`${key(owner)}:${key(spender)}`, current - value)
+  }
+
+  const debit = (ctx: CallContext, account: Address, value: bigint) => {
+    const balance = ctx.world.token.balances.get(key(account)) ?? 0n
+    if (balance < value) throw revertWith('ERC20InsufficientBalance(address,uint256,uint256)', [account, balance, value])
+    ctx.world.token.balances.set(key(account), balance - value)
+  }
+
+  const credit = (ctx: CallContext, account: Address, value: bigint) => {
+    ctx.world.token.balances.set(key(account), (ctx.world.token.balances.get(key(account)) ?? 0n) + value)
+  }
+
+  const transfer = (ctx: CallContext, from: Address, to: Address, value: bigint) => {
+    if (isAddressEqual(from, zeroAddress)) throw revertWith('ERC20InvalidSender(address)', [zeroAddress])
+    if (isAddressEqual(to, zeroAddress)) throw revertWith('ERC20InvalidReceiver(address)', [zeroAddress])
+    debit(ctx, from, value)
+    credit(ctx, to, value)
+    pushLog(ctx, addresses.usdc, mockUsdcAbi as Abi, 'Transfer', { from, to, value })
+  }
+
+  const mint = (ctx: CallContext, to: Address, value: bigint) => {
+    if (isAddressEqual(to, zeroAddress)) throw revertWith('ERC20InvalidReceiver(address)', [zeroAddress])
+    ctx.world.token.totalSupply += value
+    credit(ctx, to, value)
+    pushLog(ctx, addresses.usdc, mockUsdcAbi as Abi, 'Transfer', { from: zeroAddress, to, value })
+  }
+
+  const permit = async (
+    ctx: CallContext,
+    owner: Address,
+    spender: Address,
+    value: bigint,
+    deadline: bigint,
+    v: number,
+    r: Hex,
+    s: Hex
+  ) => {
+    if (ctx.block.timestamp > deadline) throw revertWith('ERC2612ExpiredSignature(uint256)', [deadline])
+
+    const nonce = ctx.world.token.nonces.get(key(owner)) ?? 0n
+    ctx.world.token.nonces.set(key(owner), nonce + 1n)
+
+    const hash = hashTypedData({
+      domain: permitDomain,
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: { owner, spender, value, nonce, deadline },
+    })
+    const signer = await recoverSigner(hash, v, r, s)
+    if (!isAddressEqual(signer, owner)) throw revertWith('ERC2612InvalidSigner(address,address)', [signer, owner])
+
+    approve(ctx, owner, spender, value)
+  }
+
+  // SafeERC20 transfers of an engine; only the fake MockUSDC has code. The engine side of the
+  // balance is the model's collateral, which the model call has already moved
+  const requireCollateralToken = (entry: WorldMarket) => {
+    const { collateralToken } = entry.addresses
+    if (!isAddressEqual(collateralToken, addresses.usdc)) {
+      throw revertWith('SafeERC20FailedOperation(address)', [collateralToken])
+    }
+  }
+
+  const pullCollateral = (ctx: CallContext, entry: WorldMarket, amount: bigint) => {
+    const { engine } = entry.addresses
+    requireCollateralToken(entry)
+    spendAllowance(ctx, ctx.from, engine, amount)
+    debit(ctx, ctx.from, amount)
+    pushLog(ctx, addresses.usdc, mockUsdcAbi as Abi, 'Transfer', { from: ctx.from, to: engine, value: amount })
+  }
+
+  const pushCollateral = (ctx: CallContext, entry: WorldMarket, amount: bigint) => {
+    const { engine } = entry.addresses
+    requireCollateralToken(entry)
+    credit(ctx, ctx.from, amount)
+    pushLog(ctx, addresses.usdc, mockUsdcAbi as Abi, 'Transfer', { from: engine, to: ctx.from, value: amount })
+  }
+
+  const tokenFunctions = (ctx: CallContext): Functions<typeof mockUsdcAbi> => ({
+    name: () => USDC_NAME,
+    symbol: () => 'USDC',
+    decimals: () => 6,
+    totalSupply: () => ctx.world.token.totalSupply,
+    balanceOf: (account: Address) => balanceOf(ctx.world, account),
+    allowance: (owner: Address, spender: Address) => allowanceOf(ctx.world, owner, spender),
+    nonces: (owner: Address) => ctx.world.token.nonces.get(key(owner)) ?? 0n,
+    DOMAIN_SEPARATOR: () => domainSeparator({ domain: permitDomain }),
+    eip712Domain: () => ['0x0f', USDC_NAME, '1', BigInt(chainId), addresses.usdc, zeroHash, []],
+    approve: (spender: Address, value: bigint) => {
+      approve(ctx, ctx.from, spender, value)
+      return true
+    },
+    transfer: (to: Address, value: bigint) => {
+      transfer(ctx, ctx.from, to, value)
+      return true
+    },
+    transferFrom: (from: Address, to: Address, value: bigint) => {
+      spendAllowance(ctx, from, ctx.from, value)
+      transfer(ctx, from, to, value)
+      return true
+    },
+    mint: (to: Address, amount: bigint) => mint(ctx, to, amount),
+    faucet: () => mint(ctx, ctx.from, FAUCET_AMOUNT),
+    permit: (owner: Address, spender: Address, value: bigint, deadline: bigint, v: number, r: Hex, s: Hex) =>
+      permit(ctx, owner, spender, value, deadline, v, r, s),
+  })
+
+  // PerpFactory
+
+  const createMarket = (ctx: CallContext, collateralToken: Address, config: MarketConfig): Address => {
+    const { world } = ctx
+    if (!world.marketCreators.has(key(ctx.from)) && !isAddressEqual(ctx.from, world.owner)) {
+      throw revertWith('Unauthorized()')
+    }
+    if (config.baseReserve === 0n || config.quoteReserve === 0n) throw revertWith('InvalidReserves()')
+    if (config.maxLeverage === 0n || config.maxLeverage > MAX_LEVERAGE) throw revertWith('InvalidLeverage()')
+
+    // Clones in creation order: PerpMarket, PositionManager, PerpEngine
+    const [market, positionManager, engine] = [0n, 1n, 2n].map((offset) =>
+      getContractAddress({ from: addresses.factory, nonce: world.factoryNonce + offset })
+    )
+    world.factoryNonce += 3n
+
+    const entry: WorldMarket = {
+      addresses: {
+        engine,
+        market,
+        positionManager,
+        fundingManager: addresses.fundingManager,
+        liquidationEngine: addresses.liquidationEngine,
+        collateralToken,
+        deploymentBlock: ctx.block.number,
+      },
+      model: createProtocolModel({
+        baseReserve: config.baseReserve,
+        quoteReserve: config.quoteReserve,
+        engineAddress: engine,
+        marketAddress: market,
+      }),
+    }
+    world.markets.push(entry)
+
+    pushLog(ctx, market, perpMarketAbi as Abi, 'Initialized', { version: 1n })
+    pushLog(ctx, positionManager, positionManagerAbi as Abi, 'Initialized', { version: 1n })
+    pushLog(ctx, engine, perpEngineAbi as Abi, 'Initialized', { version: 1n })
+    pushLog(ctx, addresses.factory, perpFactoryAbi as Abi, 'MarketCreated', {
+      marketIndex: BigInt(world.markets.length - 1),
+      engine,
+      market,
+      collateralToken,
+    })
+    return engine
+  }
+
+  const onlyOwner = (ctx: CallContext) => {
+    if (!isAddressEqual(ctx.from, ctx.world.owner)) throw revertWith('OwnableUnauthorizedAccount(address)', [ctx.from])
+  }
+
+  const setOwner = (ctx: CallContext, newOwner: Address) => {
+    pushLog(ctx, addresses.factory, perpFactoryAbi as Abi, 'OwnershipTransferred', {
+      previousOwner: ctx.world.owner,
+      newOwner,
+    })
+    ctx.world.owner = newOwner
+  }
+
+  const marketAt = (ctx: CallContext, index: bigint) => {
+    const entry = ctx.world.markets[Number(index)]
+    if (!entry) throw panic(PANIC_ARRAY_INDEX)
+    return entry.addresses.engine
+  }
+
+  const factoryFunctions = (ctx: CallContext): Functions<typeof perpFactoryAbi> => ({
+    owner: () => ctx.world.owner,
+    fundingManager: () => addresses.fundingManager,
+    liquidationEngine: () => addresses.liquidationEngine,
+    perpMarketImplementation: () => addresses.perpMarketImpl,
+    positionManagerImplementation: () => addresses.positionManagerImpl,
+    perpEngineImplementation: () => addresses.perpEngineImpl,
+    getAllMarkets: () => ctx.world.markets.map((entry) => entry.addresses.engine),
+    getMarketCount: () => BigInt(ctx.world.markets.length),
+    getMarket: (index: bigint) => marketAt(ctx, index),
+    markets: (index: bigint) => marketAt(ctx, index),
+    isEngine: (address: Address) => findMarket(ctx.world, address, 'engine') !== undefined,
+    isMarketCreator: (address: Address) => ctx.world.marketCreators.has(key(address)),
+    createMarket: (collateralToken: Address, config: MarketConfig) => createMarket(ctx, collateralToken, config),
+    setMarketCreator: (creator: Address, authorized: boolean) => {
+      onlyOwner(ctx)
+      if (authorized) ctx.world.marketCreators.add(key(creator))
+      else ctx.world.marketCreators.delete(key(creator))
+      pushLog(ctx, addresses.factory, perpFactoryAbi as Abi, 'MarketCreatorUpdated', { creator, authorized })
+    },
+    transferOwnership: (newOwner: Address) => {
+      onlyOwner(ctx)
+      if (isAddressEqual(newOwner, zeroAddress)) throw revertWith('OwnableInvalidOwner(address)', [zeroAddress])
+      setOwner(ctx, newOwner)
+    },
+    renounceOwnership: () => {
+      onlyOwner(ctx)
+      setOwner(ctx, zeroAddress)
+    },
+  })
+
+  // PerpEngine
+
+  const engineFunctions = (ctx: CallContext, entry: WorldMarket): Functions<typeof perpEngineAbi> => {
+    const { model } = entry
+    const { from } = ctx
+
+    // Deposit leg: amount check, token pull, then the Deposit event
+    const deposit = (amount: bigint) => {
+      const call = model.deposit(from, asUsdc(amount))
+      pullCollateral(ctx, entry, amount)
+      pushModelEvents(ctx, entry, call.events)
+    }
+
+    const open = (isLong: boolean, totalToUse: bigint, leverage: bigint) => {
+      const call = model.openPosition(from, isLong, asInternal(totalToUse), asLeverage(leverage))
+      pushModelEvents(ctx, entry, call.events)
+      return call.returnValue
+    }
+
+    return {
+      PRECISION: () => PRECISION,
+      USDC_TO_INTERNAL: () => USDC_TO_INTERNAL,
+      MAX_LEVERAGE: () => MAX_LEVERAGE,
+      collateralToken: () => entry.addresses.collateralToken,
+      market: () => entry.addresses.market,
+      positionManager: () => entry.addresses.positionManager,
+      fundingManager: () => addresses.fundingManager,
+      liquidationEngine: () => addresses.liquidationEngine,
+      deploymentBlock: () => entry.addresses.deploymentBlock,
+      getMarketInfo: () => [
+        entry.addresses.engine,
+        entry.addresses.market,
+        entry.addresses.positionManager,
+        BigInt(chainId),
+        entry.addresses.deploymentBlock,
+      ],
+      getWalletBalance: (user: Address) => model.getWalletBalance(user),
+      userWallets: (user: Address) => model.getWalletBalance(user),
+      getFundBalances: () => {
+        const { trade, insurance, protocol } = model.getFundBalances()
+        return [trade, insurance, protocol]
+      },
+      tradeFund: () => model.getFundBalances().trade,
+      insuranceFund: () => model.getFundBalances().insurance,
+      protocolFees: () => model.getFundBalances().protocol,
+      initialize: () => {
+        throw revertWith('InvalidInitialization()')
+      },
+      deposit,
+      depositWithPermit: async (depositAmount: bigint, permitAmount: bigint, deadline: bigint, v: number, r: Hex, s: Hex) => {
+        if (depositAmount === 0n) throw revertWith('InvalidAmount()')
+        await permit(ctx, from, entry.addresses.engine, permitAmount, deadline, v, r, s)
+        deposit(depositAmount)
+      },
+      withdraw: (amount: bigint) => {
+        const call = model.withdraw(from, asInternal(amount))
+        pushCollateral(ctx, entry, amount / USDC_TO_INTERNAL)
+        pushModelEvents(ctx, entry, call.events)
+      },
+      openPosition: open,
+      depositAndOpenPosition: (depositAmount: bigint, isLong: boolean, totalToUse: bigint, leverage: bigint) => {
+        deposit(depositAmount)
+        return open(isLong, totalToUse, leverage)
+      },
+      depositAndOpenPositionWithPermit: async (
+        depositAmount: bigint,
+        permitAmount: bigint,
+        isLong: boolean,
+        totalToUse: bigint,
+        leverage: bigint,
+        deadline: bigint,
+        v: number,
+        r: Hex,
+        s: Hex
+      ) => {
+        await permit(ctx, from, entry.addresses.engine, permitAmount, deadline, v, r, s)
+        deposit(depositAmount)
+        return open(isLong, totalToUse, leverage)
+      },
+      closePosition: (positionId: bigint) => {
+        const call = model.closePosition(from, positionId)
+        pushModelEvents(ctx, entry, call.events)
+        return call.returnValue
+      },
+      liquidate: (positionId: bigint) => {
+        pushModelEvents(ctx, entry, model.liquidate(from, positionId).events)
+      },
+    }
+  }
+
+  // PerpMarket
+
+  const marketFunctions = (ctx: CallContext, entry: WorldMarket): Functions<typeof perpMarketAbi> => {
+    const { model } = entry
+    const reserves = () => {
+      const { baseReserve, quoteReserve, k } = model.getState()
+      return { baseReserve, quoteReserve, k }
+    }
+    const unauthorized = () => {
+      throw revertWith('Unauthorized()')
+    }
+
+    return {
+      PRECISION: () => PRECISION,
+      baseReserve: () => model.getState().baseReserve,
+      quoteReserve: () => model.getState().quoteReserve,
+      k: () => model.getState().k,
+      longOpenInterest: () => model.getState().longOI,
+      shortOpenInterest: () => model.getState().shortOI,
+      cumulativeCarryIndex: () => model.getState().carryIndex,
+      currentBlock: () => model.getState().currentBlock,
+      lastFundingBlock: () => model.getState().lastFundingBlock,
+      engine: () => entry.addresses.engine,
+      factory: () => addresses.factory,
+      getMarkPrice: () => model.getMarkPrice(),
+      simulateOpenLong: (quoteIn: bigint) => {
+        const { baseOut, avgPrice } = simulateOpenLong(reserves(), quoteIn)
+        return [baseOut, avgPrice]
+      },
+      simulateOpenShort: (quoteOut: bigint) => {
+        const { baseIn, avgPrice } = simulateOpenShort(reserves(), quoteOut)
+        return [baseIn, avgPrice]
+      },
+      simulateCloseLong: (baseSize: bigint) => {
+        const { quoteOut, avgPrice } = simulateCloseLong(reserves(), baseSize)
+        return [quoteOut, avgPrice]
+      },
+      simulateCloseShort: (baseSize: bigint) => {
+        const { quoteIn, avgPrice } = simulateCloseShort(reserves(), baseSize)
+        return [quoteIn, avgPrice]
+      },
+      initialize: () => {
+        throw revertWith('InvalidInitialization()')
+      },
+      setEngine: () => {
+        throw revertWith(isAddressEqual(ctx.from, addresses.factory) ? 'EngineAlreadySet()' : 'Unauthorized()')
+      },
+      executeOpenLong: unauthorized,
+      executeOpenShort: unauthorized,
+      executeCloseLong: unauthorized,
+      executeCloseShort: unauthorized,
+      increaseOpenInterest: unauthorized,
+      decreaseOpenInterest: unauthorized,
+      advanceBlocks: unauthorized,
+      updateFundingState: unauthorized,
+    }
+  }
+
+  // PositionManager
+
+  const positionManagerFunctions = (ctx: CallContext, entry: WorldMarket): Functions<typeof positionManagerAbi> => {
+    const { model } = entry
+    const unauthorized = () => {
+      throw revertWith('Unauthorized()')
+    }
+
+    return {
+      PRECISION: () => PRECISION,
+      LEVERAGE_BUCKET_1_MAX: () => LEVERAGE_BUCKET_1_MAX,
+      LEVERAGE_BUCKET_2_MAX: () => LEVERAGE_BUCKET_2_MAX,
+      LEVERAGE_BUCKET_3_MAX: () => MAX_LEVERAGE,
+      BUFFER_RATIO_1: () => BUFFER_RATIO_1,
+      BUFFER_RATIO_2: () => BUFFER_RATIO_2,
+      BUFFER_RATIO_3: () => BUFFER_RATIO_3,
+      engine: () => entry.addresses.engine,
+      factory: () => addresses.factory,
+      market: () => entry.addresses.market,
+      nextPositionId: () => model.getState().nextPositionId,
+      // Public mapping getter: unset ids read as zeroed structs
+      positions: (positionId: bigint) => {
+        const p = model.getState().positions.get(positionId)
+        if (!p) return [0n, zeroAddress, false, 0n, 0n, 0n, 0n, 0n, 0n, 0, 0n]
+        return [
+          p.id, p.user, p.isLong, p.baseSize, p.entryPrice, p.entryNotional,
+          p.margin, p.carrySnapshot, p.openBlock, p.status, p.realizedPnl,
+        ]
+      },
+      getPosition: (positionId: bigint) => model.getPosition(positionId),
+      isPositionOpen: (positionId: bigint) => model.isPositionOpen(positionId),
+      getEffectiveOpenFeeRate: () => model.getEffectiveOpenFeeRate(),
+      getLiquidationBufferRatio: (leverage: bigint) => getLiquidationBufferRatio(leverage),
+      simulateEquityIfClosed: (positionId: bigint) => {
+        const equity = model.simulateEquityIfClosed(positionId)
+        return [
+          equity.closeNotional,
+          equity.avgClosePrice,
+          equity.pnlTrade,
+          equity.carryPnl,
+          equity.totalPnl,
+          equity.equityIfClosed,
+        ]
+      },
+      initialize: () => {
+        throw revertWith('InvalidInitialization()')
+      },
+      setEngine: () => {
+        throw revertWith(isAddressEqual(ctx.from, addresses.factory) ? 'EngineAlreadySet()' : 'Unauthorized()')
+      },
+      createPosition: unauthorized,
+      updatePositionStatus: unauthorized,
+    }
+  }
+
+  // FundingManager and LiquidationEngine (shared, stateless: they read the market passed in)
+
+  const fundingManagerFunctions = (ctx: CallContext): Functions<typeof fundingManagerAbi> => ({
+    PRECISION: () => PRECISION,
+    BASE_CARRY_RATE_PER_BLOCK: () => BASE_CARRY_RATE_PER_BLOCK,
+    CARRY_SENSITIVITY: () => CARRY_SENSITIVITY,
+    calculateUpdatedCarry: (market: Address) => {
+      const { newCarryIndex, carryPerBlock } = requireMarket(ctx.world, market, 'market').model.calculateUpdatedCarry()
+      return [newCarryIndex, carryPerBlock]
+    },
+    getCurrentCarryIndex: (market: Address) => requireMarket(ctx.world, market, 'market').model.getState().carryIndex,
+    calculateCarryPnl: (market: Address, isLong: boolean, notional: bigint, carrySnapshot: bigint) => {
+      const { carryIndex } = requireMarket(ctx.world, market, 'market').model.getState()
+      return calculateCarryPnl(isLong, notional, carryIndex - carrySnapshot)
+    },
+  })
+
+  const liquidationEngineFunctions = (ctx: CallContext): Functions<typeof liquidationEngineAbi> => ({
+    PRECISION: () => PRECISION,
+    EPSILON: () => LIQUIDATION_EPSILON,
+    LIQUIDATION_FEE_RATIO: () => LIQUIDATION_FEE_RATIO,
+    isLiquidatable: (positionManager: Address, market: Address, positionId: bigint) => {
+      requireMarket(ctx.world, market, 'market')
+      return requireMarket(ctx.world, positionManager, 'positionManager').model.isLiquidatable(positionId)
+    },
+    getLiquidationInfo: (positionManager: Address, market: Address, positionId: bigint) => {
+      requireMarket(ctx.world, market, 'market')
+      const info = requireMarket(ctx.world, positionManager, 'positionManager').model.getLiquidationInfo(positionId)
+      return [info.isLiquidatable, info.currentLoss, info.allowedLoss, info.equity, info.leverage]
+    },
+    calculateLiquidationFee: (positionManager: Address, market: Address, positionId: bigint) => {
+      requireMarket(ctx.world, market, 'market')
+      return requireMarket(ctx.world, positionManager, 'positionManager').model.calculateLiquidationFee(positionId)
+    },
+  })
+
+  // Multicall3 (viem batches through aggregate3 only)
+
+  const multicallFunctions = (ctx: CallContext): Functions<typeof multicall3Abi> => ({
+    getCurrentBlockTimestamp: () => ctx.block.timestamp,
+    getEthBalance: () => ETH_BALANCE,
+    aggregate3: async (calls: readonly { target: Address; allowFailure: boolean; callData: Hex }[]) => {
+      const results = []
+      for (const call of calls) {
+        const inner: CallContext = { ...ctx, from: MULTICALL3_ADDRESS, logs: [] }
+        try {
+          const returnData = await execute(inner, call.target, call.callData)
+          ctx.logs.push(...inner.logs)
+          results.push({ success: true, returnData })
+        } catch (error) {
+          if (!(error instanceof ExecutionReverted)) throw error
+          if (!call.allowFailure) throw revertWith('Error(string)', ['Multicall3: call failed'])
+          results.push({ success: false, returnData: error.data })
+        }
+      }
+      return results
+    },
+  })
+
+  const contractAt = (ctx: CallContext, address: Address): FakeContract | undefined => {
+    if (isAddressEqual(address, addresses.usdc)) return fakeContract(mockUsdcAbi, tokenFunctions(ctx))
+    if (isAddressEqual(address, addresses.factory)) return fakeContract(perpFactoryAbi, factoryFunctions(ctx))
+    if (isAddressEqual(address, addresses.fundingManager)) {
+      return fakeContract(fundingManagerAbi, fundingManagerFunctions(ctx))
+    }
+    if (isAddressEqual(address, addresses.liquidationEngine)) {
+      return fakeContract(liquidationEngineAbi, liquidationEngineFunctions(ctx))
+    }
+    if (isAddressEqual(address, MULTICALL3_ADDRESS)) return fakeContract(multicall3Abi, multicallFunctions(ctx))
+
+    for (const entry of ctx.world.markets) {
+      const { engine, market, positionManager } = entry.addresses
+      if (isAddressEqual(address, engine)) return fakeContract(perpEngineAbi, engineFunctions(ctx, entry))
+      if (isAddressEqual(address, market)) return fakeContract(perpMarketAbi, marketFunctions(ctx, entry))
+      if (isAddressEqual(address, positionManager)) {
+        return fakeContract(positionManagerAbi, positionManagerFunctions(ctx, entry))
+      }
+    }
+    return undefined
+  }
+
+  const codeAt = (world: World, address: Address): Hex => {
+    const implementation = (
+      [['market', 'perpMarketImpl'], ['positionManager', 'positionManagerImpl'], ['engine', 'perpEngineImpl']] as const
+    ).find(([field]) => findMarket(world, address, field))
+    // Clones.clone deploys EIP-1167 minimal proxies
+    if (implementation) {
+      return concatHex(['0x363d3d373d3d3d363d73', addresses[implementation[1]], '0x5af43d82803e903d91602b57fd5bf3'])
+    }
+    const core = [...CORE_CONTRACTS.map((name) => addresses[name]), MULTICALL3_ADDRESS]
+    return core.some((contract) => isAddressEqual(contract, address)) ? CONTRACT_CODE : '0x'
+  }
+
+  // One message call: decode, run, encode. Throws ExecutionReverted; the caller owns ctx.world and discards it
+  async function execute(ctx: CallContext, to: Address, data: Hex): Promise<Hex> {
+    const contract = contractAt(ctx, to)
+    // Plain value transfer, or a call to an account without code
+    if (!contract) return '0x'
+
+    let call: { functionName: string; args?: readonly unknown[] }
+    try {
+      call = decodeFunctionData({ abi: contract.abi, data })
+    } catch {
+      // Unknown selector and no fallback function
+      throw new ExecutionReverted('0x')
+    }
+    const fn = contract.functions[call.functionName]
+    if (!fn) throw new ExecutionReverted('0x')
+
+    let result: unknown
+    try {
+      result = await fn(...(call.args ?? []))
+    } catch (error) {
+      throw toRevert(error)
+    }
+    return encodeFunctionResult({ abi: contract.abi, functionName: call.functionName, result })
+  }
+
+  /**
+   * Blocks and transactions
+   */
+
+  const envOf = (block: FakeBlock): BlockEnv => ({ number: block.number, timestamp: block.timestamp })
+
+  const findBlock = (tag: unknown): FakeBlock | undefined => {
+    if (tag === undefined || tag === null || tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+      return head()
+    }
+    if (tag === 'earliest') return blocks[0]
+    if (typeof tag === 'object') {
+      const { blockHash, blockNumber } = tag as { blockHash?: Hash; blockNumber?: Hex }
+      return blockHash ? blocks.find((block) => block.hash === blockHash) : findBlock(blockNumber)
+    }
+    return blocks[Number(quantity(tag))]
+  }
+
+  const requireBlock = (tag: unknown): FakeBlock => {
+    const block = findBlock(tag)
+    if (!block) throw new JsonRpcError(-32000, 'header not found')
+    return block
+  }
+
+  const pendingCount = (from: Address) => pending.filter((tx) => isAddressEqual(tx.from, from)).length
+
+  const minedNonce = (from: Address) => nonces.get(key(from)) ?? 0n
+
+  // Queue a transaction; same-nonce transactions replace the pending one when they pay more
+  const submit = async (tx: Omit<FakeTransaction, 'logs' | 'nonce'> & { nonce?: bigint }): Promise<Hash> => {
+    if (!tx.to) throw new JsonRpcError(-32602, 'Contract creation is not supported by the fake chain')
+
+    const mined = minedNonce(tx.from)
+    const next = mined + BigInt(pendingCount(tx.from))
+    const nonce = tx.nonce ?? next
+    if (nonce < mined) throw new JsonRpcError(-32003, `nonce too low: next nonce ${mined}, tx nonce ${nonce}`)
+    if (nonce > next) throw new JsonRpcError(-32003, `nonce too high: next nonce ${next}, tx nonce ${nonce}`)
+
+    const record: FakeTransaction = { ...tx, nonce, logs: [] }
+    const replaced = pending.findIndex((queued) => isAddressEqual(queued.from, tx.from) && queued.nonce === nonce)
+    if (replaced >= 0) {
+      if (record.maxFeePerGas <= pending[replaced].maxFeePerGas) {
+        throw new JsonRpcError(-32003, 'replacement transaction underpriced')
+      }
+      transactions.delete(pending[replaced].hash)
+      pending[replaced] = record
+    } else {
+      pending.push(record)
+    }
+    transactions.set(record.hash, record)
+
+    if (automine) await mineBlocks(1)
+    return record.hash
+  }
+
+  // Mine one block: the state change of a control call, then pending transactions, then emitted logs
+  const mineBlock = async (prepare?: (world: World) => void) => {
+    const parent = head()
+    const number = parent.number + 1n
+    const timestamp = nextTimestamp ?? genesisTimestamp + number * blockTime + timeOffset
+    nextTimestamp = undefined
+    const block: FakeBlock = {
+      number,
+      hash: blockHash(number),
+      parentHash: parent.hash,
+      timestamp,
+      transactions: [],
+      logs: [],
+      world: parent.world,
+    }
+
+    if (prepare) {
+      block.world = cloneWorld(block.world)
+      prepare(block.world)
+    }
+
+    const included = pending
+    pending = []
+    for (const tx of included) {
+      const ctx: CallContext = { world: cloneWorld(block.world), from: tx.from, block: envOf(block), logs: [] }
+      try {
+        tx.returnData = await execute(ctx, tx.to!, tx.input)
+        tx.status = 'success'
+        block.world = ctx.world
+      } catch (error) {
+        if (!(error instanceof ExecutionReverted)) throw error
+        tx.returnData = error.data
+        tx.status = 'reverted'
+        ctx.logs = []
+      }
+      tx.blockNumber = number
+      tx.transactionIndex = block.transactions.length
+      tx.logs = ctx.logs.map((log) => formatLog(block, tx.hash, tx.transactionIndex!, block.logs.length, log))
+      block.logs.push(...tx.logs)
+      block.transactions.push(tx.hash)
+      nonces.set(key(tx.from), tx.nonce + 1n)
+    }
+
+    for (const log of pendingLogs) {
+      const hash = keccak256(encodeAbiParameters([{ type: 'string' }, { type: 'uint256' }], ['event', hashSerial++]))
+      block.logs.push(formatLog(block, hash, block.transactions.length, block.logs.length, log))
+    }
+    pendingLogs = []
+
+    blocks.push(block)
+  }
+
+  const mineBlocks = async (count: number) => {
+    for (let i = 0; i < count; i++) await mineBlock()
+    return head().number
+  }
+
+  // Run one call against a copy of the state at a block
+  const call = (request: RpcCallRequest, tag: unknown) => {
+    if (!request.to) throw new JsonRpcError(-32602, 'Contract creation is not supported by the fake chain')
+    const block = requireBlock(tag)
+    const ctx: CallContext = {
+      world: cloneWorld(block.world),
+      from: request.from ?? zeroAddress,
+      block: envOf(block),
+      logs: [],
+    }
+    return execute(ctx, request.to, request.data ?? request.input ?? '0x')
+  }
+
+  const callOrRevert = async (request: RpcCallRequest, tag: unknown) => {
+    try {
+      return await call(request, tag)
+    } catch (error) {
+      if (error instanceof ExecutionReverted) throw new JsonRpcError(3, 'execution reverted', error.data)
+      throw error
+    }
+  }
+
+  /**
+   * JSON-RPC
+   */
+
+  const formatTransaction = (tx: FakeTransaction) => {
+    const block = tx.blockNumber === undefined ? undefined : blocks[Number(tx.blockNumber)]
+    return {
+      hash: tx.hash,
+      type: '0x2',
+      chainId: numberToHex(chainId),
+      from: tx.from,
+      to: tx.to,
+      nonce: numberToHex(tx.nonce),
+      input: tx.input,
+      value: numberToHex(tx.value),
+      gas: numberToHex(tx.gas),
+      gasPrice: numberToHex(effectiveGasPrice(tx)),
+      maxFeePerGas: numberToHex(tx.maxFeePerGas),
+      maxPriorityFeePerGas: numberToHex(tx.maxPriorityFeePerGas),
+      accessList: [],
+      blockHash: block?.hash ?? null,
+      blockNumber: block ? numberToHex(block.number) : null,
+      transactionIndex: tx.transactionIndex === undefined ? null : numberToHex(tx.transactionIndex),
+      v: '0x0',
+      yParity: '0x0',
+      r: zeroHash,
+      s: zeroHash,
+    }
+  }
+
+  const formatReceipt = (tx: FakeTransaction) => {
+    const block = blocks[Number(tx.blockNumber!)]
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: numberToHex(tx.transactionIndex!),
+      blockHash: block.hash,
+      blockNumber: numberToHex(block.number),
+      from: tx.from,
+      to: tx.to,
+      type: '0x2',
+      status: tx.status === 'success' ? '0x1' : '0x0',
+      gasUsed: numberToHex(TRANSACTION_GAS),
+      cumulativeGasUsed: numberToHex(TRANSACTION_GAS * BigInt(tx.transactionIndex! + 1)),
+      effectiveGasPrice: numberToHex(effectiveGasPrice(tx)),
+      contractAddress: null,
+      logs: tx.logs,
+      logsBloom: EMPTY_BLOOM,
+    }
+  }
+
+  const formatBlock = (block: FakeBlock, includeTransactions: boolean) => ({
+    number: numberToHex(block.number),
+    hash: block.hash,
+    parentHash: block.parentHash,
+    timestamp: numberToHex(block.timestamp),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    totalDifficulty: '0x0',
+    extraData: '0x',
+    size: '0x0',
+    miner: zeroAddress,
+    mixHash: zeroHash,
+    sha3Uncles: zeroHash,
+    stateRoot: zeroHash,
+    transactionsRoot: zeroHash,
+    receiptsRoot: zeroHash,
+    logsBloom: EMPTY_BLOOM,
+    gasLimit: numberToHex(BLOCK_GAS_LIMIT),
+    gasUsed: numberToHex(TRANSACTION_GAS * BigInt(block.transactions.length)),
+    baseFeePerGas: numberToHex(BASE_FEE_PER_GAS),
+    uncles: [],
+    transactions: includeTransactions
+      ? block.transactions.map((hash) => formatTransaction(transactions.get(hash)!))
+      : block.transactions,
+  })
+
+  const getLogs = (filter: RpcLogFilter): RpcLog[] => {
+    let range: FakeBlock[]
+    if (filter.blockHash) {
+      const block = blocks.find((candidate) => candidate.hash === filter.blockHash)
+      if (!block) throw new JsonRpcError(-32000, 'unknown block')
+      range = [block]
+    } else {
+      const fromBlock = findBlock(filter.fromBlock ?? 'latest')?.number ?? head().number + 1n
+      const toBlock = findBlock(filter.toBlock ?? 'latest')?.number ?? head().number
+      range = blocks.slice(Number(fromBlock), Number(toBlock) + 1)
+    }
+
+    const addressFilter = filter.address === undefined || filter.address === null
+      ? undefined
+      : [filter.address].flat().map(key)
+    return range.flatMap((block) => block.logs).filter((log) => {
+      if (addressFilter && !addressFilter.includes(key(log.address))) return false
+      return (filter.topics ?? []).every((expected, index) => {
+        if (expected === null || expected === undefined) return true
+        const topic = log.topics[index]?.toLowerCase()
+        return [expected].flat().some((candidate) => candidate === null || candidate.toLowerCase() === topic)
+      })
+    })
+  }
+
+  const takeSnapshot = (): Hex => {
+    const id = nextSnapshotId++
+    snapshots.set(id, {
+      blocks: [...blocks],
+      transactions: new Map([...transactions].map(([hash, tx]) => [hash, { ...tx }])),
+      pending: pending.map((tx) => tx.hash),
+      pendingLogs: [...pendingLogs],
+      nonces: new Map(nonces),
+      timeOffset,
+    })
+    return numberToHex(id)
+  }
+
+  // evm_revert: restores the snapshot and drops it along with every later one
+  const revertToSnapshot = (id: Hex): boolean => {
+    const snapshot = snapshots.get(hexToBigInt(id))
+    if (!snapshot) return false
+    for (const later of [...snapshots.keys()]) if (later >= hexToBigInt(id)) snapshots.delete(later)
+
+    blocks = snapshot.blocks
+    transactions = snapshot.transactions
+    pending = snapshot.pending.map((hash) => transactions.get(hash)!)
+    pendingLogs = snapshot.pendingLogs
+    nonces = snapshot.nonces
+    timeOffset = snapshot.timeOffset
+    return true
+  }
+
+  const handlers: RpcHandlers = {
+    web3_clientVersion: () => 'velto-fakechain/0.1.0',
+    net_version: () => String(chainId),
+    eth_chainId: () => numberToHex(chainId),
+    eth_accounts: () => options.accounts ?? [],
+    eth_requestAccounts: () => options.accounts ?? [],
+    eth_blockNumber: () => numberToHex(head().number),
+    eth_gasPrice: () => numberToHex(BASE_FEE_PER_GAS + PRIORITY_FEE_PER_GAS),
+    eth_maxPriorityFeePerGas: () => numberToHex(PRIORITY_FEE_PER_GAS),
+    eth_getBalance: () => numberToHex(ETH_BALANCE),
+    eth_getCode: ([address, tag]) => codeAt(requireBlock(tag).world, address),
+    eth_getTransactionCount: ([address, tag]) =>
+      numberToHex(tag === 'pending' ? minedNonce(address) + BigInt(pendingCount(address)) : minedNonce(address)),
+
+    eth_getBlockByNumber: ([tag, includeTransactions]) => {
+      const block = findBlock(tag)
+      return block ? formatBlock(block, Boolean(includeTransactions)) : null
+    },
+    eth_getBlockByHash: ([hash, includeTransactions]) => {
+      const block = blocks.find((candidate) => candidate.hash === hash)
+      return block ? formatBlock(block, Boolean(includeTransactions)) : null
+    },
+    eth_getTransactionByHash: ([hash]) => {
+      const tx = transactions.get(hash)
+      return tx ? formatTransaction(tx) : null
+    },
+    eth_getTransactionReceipt: ([hash]) => {
+      const tx = transactions.get(hash)
+      return tx?.blockNumber === undefined ? null : formatReceipt(tx)
+    },
+    eth_getLogs: ([filter]) => getLogs(filter ?? {}),
+
+    eth_call: async ([request, tag, stateOverride]) => {
+      if (stateOverride && Object.keys(stateOverride).length > 0) {
+        throw new JsonRpcError(-32602, 'State overrides are not supported by the fake chain')
+      }
+      return callOrRevert(request, tag)
+    },
+    eth_estimateGas: async ([request, tag]) => {
+      await callOrRevert(request, tag)
+      return numberToHex(TRANSACTION_GAS)
+    },
+    eth_sendTransaction: async ([request]) => {
+      if (!request.from) throw new JsonRpcError(-32602, 'from is required')
+      const nonce = request.nonce === undefined ? undefined : quantity(request.nonce)
+      const gasPrice = request.gasPrice === undefined ? undefined : quantity(request.gasPrice)
+      return submit({
+        hash: keccak256(
+          encodeAbiParameters(
+            [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }],
+            [request.from, nonce ?? minedNonce(request.from) + BigInt(pendingCount(request.from)), hashSerial++]
+          )
+        ),
+        from: getAddress(request.from),
+        to: request.to ? getAddress(request.to) : null,
+        nonce,
+        input: request.data ?? request.input ?? '0x',
+        value: request.value === undefined ? 0n : quantity(request.value),
+        gas: request.gas === undefined ? TRANSACTION_GAS : quantity(request.gas),
+        maxFeePerGas: request.maxFeePerGas === undefined
+          ? gasPrice ?? BASE_FEE_PER_GAS + PRIORITY_FEE_PER_GAS
+          : quantity(request.maxFeePerGas),
+        maxPriorityFeePerGas: request.maxPriorityFeePerGas === undefined
+          ? gasPrice ?? PRIORITY_FEE_PER_GAS
+          : quantity(request.maxPriorityFeePerGas),
+      })
+    },
+    eth_sendRawTransaction: async ([serializedTransaction]) => {
+      const tx = parseTransaction(serializedTransaction)
+      if (tx.chainId !== undefined && tx.chainId !== chainId) {
+        throw new JsonRpcError(-32000, `invalid chain id: expected ${chainId}, got ${tx.chainId}`)
+      }
+      const gasPrice = 'gasPrice' in tx ? tx.gasPrice : undefined
+      return submit({
+        hash: keccak256(serializedTransaction),
+        from: await recoverTransactionAddress({ serializedTransaction }),
+        to: tx.to ?? null,
+        nonce: BigInt(tx.nonce ?? 0),
+        input: tx.data ?? '0x',
+        value: tx.value ?? 0n,
+        gas: tx.gas ?? TRANSACTION_GAS,
+        maxFeePerGas: ('maxFeePerGas' in tx ? tx.maxFeePerGas : undefined) ?? gasPrice ?? 0n,
+        maxPriorityFeePerGas: ('maxPriorityFeePerGas' in tx ? tx.maxPriorityFeePerGas : undefined) ?? gasPrice ?? 0n,
+      })
+    },
+
+    // Anvil / Hardhat test methods
+    evm_mine: async ([timestamp]) => {
+      if (timestamp !== undefined) nextTimestamp = quantity(timestamp)
+      await mineBlocks(1)
+      return '0x0'
+    },
+    anvil_mine: async ([count, interval]) => {
+      const blocksToMine = count === undefined ? 1 : Number(quantity(count))
+      for (let i = 0; i < blocksToMine; i++) {
+        if (interval !== undefined && i > 0) nextTimestamp = head().timestamp + quantity(interval)
+        await mineBlock()
+      }
+      return null
+    },
+    evm_setAutomine: ([enabled]) => {
+      automine = Boolean(enabled)
+      return null
+    },
+    anvil_getAutomine: () => automine,
+    evm_increaseTime: ([seconds]) => {
+      timeOffset += quantity(seconds)
+      return numberToHex(timeOffset)
+    },
+    evm_setNextBlockTimestamp: ([timestamp]) => {
+      nextTimestamp = quantity(timestamp)
+      return null
+    },
+    evm_snapshot: () => takeSnapshot(),
+    evm_revert: ([id]) => revertToSnapshot(id),
+    // Every sender is already accepted
+    anvil_impersonateAccount: () => null,
+    anvil_stopImpersonatingAccount: () => null,
+    anvil_autoImpersonateAccount: () => null,
+  }
+
+  const request = async ({ method, params }: { method: string; params?: unknown }) => {
+    const name = RPC_ALIASES[method] ?? method
+    if (!Object.prototype.hasOwnProperty.call(handlers, name)) {
+      throw new JsonRpcError(-32601, `Method ${method} is not supported by the fake chain`)
+    }
+    // Params arrive as untyped JSON; each handler reads them as its method's positional params
+    const handler = handlers[name as RpcMethod] as (params: readonly unknown[]) => unknown
+    return handler(Array.isArray(params) ? params : [])
+  }
+
+  /**
+   * Controls
+   */
+
+  // Send from an account and mine at once; reverts throw the typed protocol error
+  const sendAndMine = async (from: Address, to: Address, data: Hex): Promise<Hex> => {
+    const hash = await request({ method: 'eth_sendTransaction', params: [{ from, to, data }] }) as Hash
+    if (!automine) await mineBlocks(1)
+    const tx = transactions.get(hash)!
+    if (tx.status === 'reverted') {
+      throw decodeProtocolError({ data: tx.returnData }) ?? new Error(`Transaction ${hash} reverted`)
+    }
+    return tx.returnData!
+  }
+
+  const requireEngine = (world: World, engine: Address) => {
+    const entry = findMarket(world, engine, 'engine')
+    if (!entry) throw new Error(`No market with engine ${engine} on the fake chain`)
+    return entry
+  }
+
+  const chain = defineChain({
+    id: chainId,
+    name: 'Velto Fake Chain',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [] } },
+    contracts: { multicall3: { address: MULTICALL3_ADDRESS } },
+  })
+
+  return {
+    transport: custom({ request }, { key: 'fakeChain', name: 'Fake Chain', retryCount: 0 }),
+    chain,
+    addresses,
+
+    getBlockNumber: () => head().number,
+
+    mine: (count = 1) => mineBlocks(count),
+
+    setAutomine: (enabled) => {
+      automine = enabled
+    },
+
+    increaseTime: (seconds) => {
+      timeOffset += BigInt(seconds)
+    },
+
+    createMarket: async (config) => {
+      const collateralToken = config.collateralToken ?? addresses.usdc
+      const data = encodeFunctionData({
+        abi: perpFactoryAbi,
+        functionName: 'createMarket',
+        args: [
+          collateralToken,
+          {
+            baseReserve: config.baseReserve,
+            quoteReserve: config.quoteReserve,
+            maxLeverage: config.maxLeverage ?? MAX_LEVERAGE,
+          },
+        ],
+      })
+      const engine = decodeFunctionResult({
+        abi: perpFactoryAbi,
+        functionName: 'createMarket',
+        data: await sendAndMine(deployer, addresses.factory, data),
+      })
+      return { ...requireEngine(head().world, engine).addresses }
+    },
+
+    mint: async (to, amount) => {
+      const data = encodeFunctionData({ abi: mockUsdcAbi, functionName: 'mint', args: [to, amount] })
+      await sendAndMine(deployer, addresses.usdc, data)
+    },
+
+    advanceMarketBlocks: async (engine, count) => {
+      requireEngine(head().world, engine)
+      await mineBlock((world) => requireEngine(world, engine).model.advanceBlocks(count))
+    },
+
+    emitEvent: async ({ address, abi, eventName, args }) => {
+      const ctx: CallContext = { world: head().world, from: zeroAddress, block: envOf(head()), logs: [] }
+      pushLog(ctx, address, abi, eventName, args)
+      pendingLogs.push(...ctx.logs)
+      if (automine) await mineBlocks(1)
+    },
+
+    getModel: (engine) => requireEngine(head().world, engine).model.clone(),
+  }
+}
+
+/**
+ * Helpers
+ */
+
+interface RpcCallRequest {
+  from?: Address
+  to?: Address | null
+  data?: Hex
+  input?: Hex
+  value?: Hex
+  gas?: Hex
+  nonce?: Hex
+  gasPrice?: Hex
+  maxFeePerGas?: Hex
+  maxPriorityFeePerGas?: Hex
+}
+
+interface RpcLogFilter {
+  address?: Address | Address[] | null
+  topics?: (Hex | (Hex | null)[] | null)[]
+  fromBlock?: Hex | string
+  toBlock?: Hex | string
+  blockHash?: Hash
+}
+
+/** Block tag, hex number or EIP-1898 block object */
+type RpcBlockParameter = string | { blockHash?: Hash; blockNumber?: Hex } | null
+
+/** Hex quantity; some callers send plain numbers */
+type RpcQuantity = Hex | number
+
+/** Positional params of each supported method */
+interface RpcMethods {
+  web3_clientVersion: []
+  net_version: []
+  eth_chainId: []
+  eth_accounts: []
+  eth_requestAccounts: []
+  eth_blockNumber: []
+  eth_gasPrice: []
+  eth_maxPriorityFeePerGas: []
+  eth_getBalance: [address: Address, block?: RpcBlockParameter]
+  eth_getCode: [address: Address, block?: RpcBlockParameter]
+  eth_getTransactionCount: [address: Address, block?: RpcBlockParameter]
+  eth_getBlockByNumber: [block: RpcBlockParameter, includeTransactions?: boolean]
+  eth_getBlockByHash: [hash: Hash, includeTransactions?: boolean]
+  eth_getTransactionByHash: [hash: Hash]
+  eth_getTransactionReceipt: [hash: Hash]
+  eth_getLogs: [filter?: RpcLogFilter]
+  eth_call: [request: RpcCallRequest, block?: RpcBlockParameter, stateOverride?: Record<string, unknown>]
+  eth_estimateGas: [request: RpcCallRequest, block?: RpcBlockParameter]
+  eth_sendTransaction: [request: RpcCallRequest]
+  eth_sendRawTransaction: [serializedTransaction: TransactionSerialized]
+  evm_mine: [timestamp?: RpcQuantity]
+  anvil_mine: [count?: RpcQuantity, interval?: RpcQuantity]
+  evm_setAutomine: [enabled: boolean]
+  anvil_getAutomine: []
+  evm_increaseTime: [seconds: RpcQuantity]
+  evm_setNextBlockTimestamp: [timestamp: RpcQuantity]
+  evm_snapshot: []
+  evm_revert: [id: Hex]
+  anvil_impersonateAccount: [address: Address]
+  anvil_stopImpersonatingAccount: [address: Address]
+  anvil_autoImpersonateAccount: [enabled: boolean]
+}
+
+type RpcMethod = keyof RpcMethods
+
+type RpcHandlers = { [method in RpcMethod]: (params: RpcMethods[method]) => unknown }
+
+/** Hardhat and Anvil names of the same methods */
+const RPC_ALIASES: Readonly<Record<string, RpcMethod>> = {
+  hardhat_mine: 'anvil_mine',
+  hardhat_getAutomine: 'anvil_getAutomine',
+  anvil_setAutomine: 'evm_setAutomine',
+  anvil_snapshot: 'evm_snapshot',
+  anvil_revert: 'evm_revert',
+  anvil_increaseTime: 'evm_increaseTime',
+  anvil_setNextBlockTimestamp: 'evm_setNextBlockTimestamp',
+  hardhat_impersonateAccount: 'anvil_impersonateAccount',
+  hardhat_stopImpersonatingAccount: 'anvil_stopImpersonatingAccount',
+}
+
+// Calldata is decoded with the same ABI, so each function receives the argument types it declares
+function fakeContract<const abi extends Abi>(abi: abi, functions: Functions<abi>): FakeContract {
+  return { abi, functions: functions as FakeContract['functions'] }
+}
+
+function key(address: string): string {
+  return address.toLowerCase()
+}
+
+/** Accepts hex quantities and plain numbers (some callers send anvil_mine counts as numbers) */
+function quantity(value: unknown): bigint {
+  if (typeof value === 'bigint') return value
+  if (typeof value === 'number') return BigInt(value)
+  return hexToBigInt(value as Hex)
+}
+
+function effectiveGasPrice(tx: FakeTransaction): bigint {
+  const price = BASE_FEE_PER_GAS + tx.maxPriorityFeePerGas
+  return price < tx.maxFeePerGas ? price : tx.maxFeePerGas
+}
+
+function cloneWorld(world: World): World {
+  return {
+    token: {
+      balances: new Map(world.token.balances),
+      allowances: new Map(world.token.allowances),
+      nonces: new Map(world.token.nonces),
+      totalSupply: world.token.totalSupply,
+    },
+    owner: world.owner,
+    marketCreators: new Set(world.marketCreators),
+    markets: world.markets.map((entry) => ({ addresses: entry.addresses, model: entry.model.clone() })),
+    factoryNonce: world.factoryNonce,
+  }
+}
+
+function formatLog(block: FakeBlock, transactionHash: Hash, transactionIndex: number, logIndex: number, log: PendingLog): RpcLog {
+  return {
+    address: log.address,
+    topics: log.topics as RpcLog['topics'],
+    data: log.data,
+    blockNumber: numberToHex(block.number),
+    blockHash: block.hash,
+    transactionHash,
+    transactionIndex: numberToHex(transactionIndex),
+    logIndex: numberToHex(logIndex),
+    removed: false,
+  }
+}
+
+/** Revert payload for an error signature, e.g. "ERC20InsufficientBalance(address,uint256,uint256)" */
+function revertWith(signature: string, args: readonly unknown[] = []): ExecutionReverted {
+  const types = signature.slice(signature.indexOf('(') + 1, -1)
+  const params = types ? types.split(',').map((type) => ({ type })) : []
+  return new ExecutionReverted(concatHex([toFunctionSelector(signature), encodeAbiParameters(params, args)]))
+}
+
+function panic(code: bigint): ExecutionReverted {
+  return revertWith('Panic(uint256)', [code])
+}
+
+// Model and vAMM errors to the revert the contracts produce
+function toRevert(error: unknown): ExecutionReverted {
+  if (error instanceof ExecutionReverted) return error
+  if (error instanceof ProtocolError) return revertWith(error.signature, error.args)
+  if (error instanceof VammError && error.reason !== 'ArithmeticError') return revertWith(`${error.reason}()`)
+  if (error instanceof VammError) return panic(PANIC_ARITHMETIC)
+  if (error instanceof RangeError) {
+    return panic(error.message.includes('Division by zero') ? PANIC_DIVISION_BY_ZERO : PANIC_ARITHMETIC)
+  }
+  throw error
+}
+
+// ECDSA.recover as in OpenZeppelin: malleable or malformed signatures revert
+async function recoverSigner(hash: Hash, v: number, r: Hex, s: Hex): Promise<Address> {
+  if (hexToBigInt(s) > SECP256K1_HALF_N) throw revertWith('ECDSAInvalidSignatureS(bytes32)', [s])
+  if (v !== 27 && v !== 28) throw revertWith('ECDSAInvalidSignature()')
+  try {
+    const signer = await recoverAddress({ hash, signature: { r, s, yParity: v - 27 } })
+    if (isAddressEqual(signer, zeroAddress)) throw new Error('zero signer')
+    return signer
+  } catch {
+    throw revertWith('ECDSAInvalidSignature()')
+  }
+}
@@ -0,0 +1,265 @@
+import { INTERNAL_DECIMALS } from './units.js'
+
+/**
+ * Amount formatting and parsing
+ * Fixed-point bigints are rounded exactly (no float round-trip), negative values keep their sign,
+ * and separators follow the locale. Parsing is strict: malformed input throws ParseAmountError.
+ */
+
+/** Same names as Intl.NumberFormat roundingMode */
+export type RoundingMode = 'halfExpand' | 'halfEven' | 'trunc' | 'floor' | 'ceil'
+
+export type SignDisplay = 'auto' | 'always' | 'exceptZero' | 'never'
+
+export interface FormatAmountOptions {
+  /** Decimals of the raw value (default 18) */
+  decimals?: number
+  /** Maximum fraction digits shown (default 2) */
+  digits?: number
+  /** Minimum fraction digits; trailing zeros beyond it are trimmed (default digits) */
+  minDigits?: number
+  /** Default halfExpand (half away from zero) */
+  rounding?: RoundingMode
+  /** auto: '-' only; always: '+'/'-'; exceptZero: no sign on zero; never (default auto) */
+  signDisplay?: SignDisplay
+  /** Thousands separators (default true) */
+  grouping?: boolean
+  /** BCP 47 locale for separators and digits (default 'en-US') */
+  locale?: string
+  /** compact: 1.23K, 4.5M (locale-aware, rounds half away from zero) */
+  notation?: 'standard' | 'compact'
+  /** Placed after the sign: '-$12.50' */
+  prefix?: string
+  suffix?: string
+}
+
+export interface ParseAmountOptions {
+  /**
+   * Accept the locale's decimal separator, digits and group separators (default: '.' and no grouping)
+   * Grouped input must be grouped the way the locale formats it: '1,234' but not '1,2,3'
+   */
+  locale?: string
+  /** Accept a leading '-' (default false) */
+  allowNegative?: boolean
+  /** Round input with more fraction digits than decimals instead of rejecting it */
+  rounding?: RoundingMode
+}
+
+export type ParseAmountErrorReason = 'empty' | 'invalid' | 'negative' | 'tooManyDecimals'
+
+const PARSE_ERROR_MESSAGES: Record<ParseAmountErrorReason, string> = {
+  empty: 'Amount is empty',
+  invalid: 'Amount is not a valid number',
+  negative: 'Amount must not be negative',
+  tooManyDecimals: 'Amount has too many decimal places',
+}
+
+/**
+ * Error thrown by parseAmount (and parseUsdc) for malformed input
+ */
+export class ParseAmountError extends Error {
+  constructor(
+    public readonly reason: ParseAmountErrorReason,
+    public readonly input: string
+  ) {
+    super(`${PARSE_ERROR_MESSAGES[reason]}: "${input}"`)
+    this.name = 'ParseAmountError'
+  }
+}
+
+const DEFAULT_LOCALE = 'en-US'
+
+/**
+ * Format a fixed-point bigint
+ */
+export function formatAmount(value: bigint, options: FormatAmountOptions = {}): string {
+  const decimals = options.decimals ?? INTERNAL_DECIMALS
+  const digits = options.digits ?? 2
+  const minDigits = Math.min(options.minDigits ?? digits, digits)
+  const locale = options.locale ?? DEFAULT_LOCALE
+
+  const rounded = roundToDigits(value, decimals, digits, options.rounding ?? 'halfExpand')
+  const negative = rounded < 0n
+  const abs = negative ? -rounded : rounded
+  const scale = 10n ** BigInt(digits)
+
+  let body: string
+  if (options.notation === 'compact' && abs / scale >= 1000n) {
+    body = new Intl.NumberFormat(locale, {
+      notation: 'compact',
+      maximumFractionDigits: digits,
+      minimumFractionDigits: minDigits,
+      useGrouping: options.grouping ?? true,
+    }).format(Number(abs) / Number(scale))
+  } else {
+    const { decimal, digits: localeDigits } = getLocaleInfo(locale)
+    const integer = new Intl.NumberFormat(locale, {
+      useGrouping: options.grouping ?? true,
+      maximumFractionDigits: 0,
+    }).format(abs / scale)
+
+    let fraction = digits > 0 ? (abs % scale).toString().padStart(digits, '0') : ''
+    while (fraction.length > minDigits && fraction.endsWith('0')) fraction = fraction.slice(0, -1)
+    fraction = fraction.replace(/\d/g, (digit) => localeDigits[Number(digit)])
+
+    body = fraction ? `${integer}${decimal}${fraction}` : integer
+  }
+
+  return `${signOf(negative, abs === 0n, options.signDisplay ?? 'auto')}${options.prefix ?? ''}${body}${options.suffix ?? ''}`
+}
+
+/**
+ * Dollar value: '$1,234.56', '-$0.42'
+ */
+export function formatUsd(value: bigint, options: FormatAmountOptions = {}): string {
+  return formatAmount(value, { prefix: '$', ...options })
+}
+
+/**
+ * 18-decimal ratio as a percentage (1e18 = 100%): '12.34%'
+ */
+export function formatPercent(ratio: bigint, options: FormatAmountOptions = {}): string {
+  const decimals = options.decimals ?? INTERNAL_DECIMALS
+  return formatAmount(ratio * 100n, { suffix: '%', ...options, decimals })
+}
+
+/**
+ * 18-decimal leverage: '10x', '12.5x'
+ */
+export function formatLeverage(leverage: bigint, options: FormatAmountOptions = {}): string {
+  return formatAmount(leverage, { minDigits: 0, suffix: 'x', ...options })
+}
+
+/**
+ * Parse a decimal string into a fixed-point bigint
+ * Accepts an optional sign, digits and one decimal separator; anything else throws ParseAmountError
+ */
+export function parseAmount(input: string, decimals: number, options: ParseAmountOptions = {}): bigint {
+  let text = input.trim()
+  if (!text) throw new ParseAmountError('empty', input)
+
+  if (options.locale) text = delocalize(text, options.locale, input)
+
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text)
+  if (!match || (!match[2] && !match[3])) throw new ParseAmountError('invalid', input)
+
+  const [, sign, integer, fraction = ''] = match
+  if (sign === '-' && !options.allowNegative) throw new ParseAmountError('negative', input)
+
+  let scaled: bigint
+  if (fraction.length <= decimals) {
+    scaled = BigInt((integer || '0') + fraction.padEnd(decimals, '0'))
+  } else {
+    if (!options.rounding) throw new ParseAmountError('tooManyDecimals', input)
+    scaled = roundToDigits(BigInt((integer || '0') + fraction), fraction.length, decimals, options.rounding)
+  }
+
+  return sign === '-' ? -scaled : scaled
+}
+
+/**
+ * Helpers
+ */
+
+/**
+ * Re-scale value from `decimals` to `digits` fraction digits, rounding what is dropped
+ */
+function roundToDigits(value: bigint, decimals: number, digits: number, mode: RoundingMode): bigint {
+  if (digits >= decimals) return value * 10n ** BigInt(digits - decimals)
+
+  const divisor = 10n ** BigInt(decimals - digits)
+  const quotient = value / divisor   // truncated toward zero
+  const remainder = value % divisor  // same sign as value
+  if (remainder === 0n) return quotient
+
+  const step = value < 0n ? -1n : 1n
+  const twice = (remainder < 0n ? -remainder : remainder) * 2n
+
+  switch (mode) {
+    case 'trunc':
+      return quotient
+    case 'floor':
+      return value < 0n ? quotient - 1n : quotient
+    case 'ceil':
+      return value > 0n ? quotient + 1n : quotient
+    case 'halfExpand':
+      return twice >= divisor ? quotient + step : quotient
+    case 'halfEven':
+      return twice > divisor || (twice === divisor && quotient % 2n !== 0n) ? quotient + step : quotient
+  }
+}
+
+function signOf(negative: boolean, zero: boolean, display: SignDisplay): string {
+  switch (display) {
+    case 'never':
+      return ''
+    case 'always':
+      return negative ? '-' : '+'
+    case 'exceptZero':
+      return zero ? '' : negative ? '-' : '+'
+    case 'auto':
+      return negative && !zero ? '-' : ''
+  }
+}
+
+/**
+ * Rewrite locale input as '-1234.5': locale digits to ASCII, the decimal separator to '.',
+ * group separators dropped once the integer part matches the locale's own grouping
+ */
+function delocalize(text: string, locale: string, input: string): string {
+  const { decimal, group, digits } = getLocaleInfo(locale)
+  const ascii = toAsciiDigits(text, digits)
+
+  const sign = /^[+-]/.test(ascii) ? ascii[0] : ''
+  const body = ascii.slice(sign.length)
+  const point = body.indexOf(decimal)
+  const integer = point === -1 ? body : body.slice(0, point)
+  const fraction = point === -1 ? '' : `.${body.slice(point + decimal.length)}`
+
+  // Space group separators vary (NBSP, narrow NBSP): accept any whitespace
+  const spaceGroup = group.trim() === ''
+  const grouped = spaceGroup ? /\s/.test(integer) : integer.includes(group)
+  if (!grouped) {
+    // '.' is only valid as the locale's decimal separator
+    if (integer.includes('.') && decimal !== '.') throw new ParseAmountError('invalid', input)
+    return `${sign}${integer}${fraction}`
+  }
+
+  const plain = spaceGroup ? integer.replace(/\s/g, '') : integer.split(group).join('')
+  if (!/^\d+$/.test(plain)) throw new ParseAmountError('invalid', input)
+  const expected = toAsciiDigits(new Intl.NumberFormat(locale, { useGrouping: true }).format(BigInt(plain)), digits)
+  if (expected.replace(/\s/g, ' ') !== integer.replace(/\s/g, ' ')) throw new ParseAmountError('invalid', input)
+
+  return `${sign}${plain}${fraction}`
+}
+
+function toAsciiDigits(text: string, digits: readonly string[]): string {
+  return [...text].map((char) => {
+    const digit = digits.indexOf(char)
+    return digit === -1 ? char : String(digit)
+  }).join('')
+}
+
+interface LocaleInfo {
+  decimal: string
+  group: string
+  digits: string[]
+}
+
+const localeCache = new Map<string, LocaleInfo>()
+
+function getLocaleInfo(locale: string): LocaleInfo {
+  const cached = localeCache.get(locale)
+  if (cached) return cached
+
+  const format = new Intl.NumberFormat(locale)
+  const parts = format.formatToParts(11111.1)
+  const info: LocaleInfo = {
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    digits: Array.from({ length: 10 }, (_, digit) => format.format(digit)),
+  }
+
+  localeCache.set(locale, info)
+  return info
+}
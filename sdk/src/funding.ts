@@ -0,0 +1,117 @@
+import { PRECISION, BASE_CARRY_RATE_PER_BLOCK, CARRY_SENSITIVITY } from './constants.js'
+
+/**
+ * Carry projection
+ * Mirrors FundingManager.calculateUpdatedCarry and FundingManager.calculateCarryPnl
+ *
+ * Positive carry index growth means longs pay shorts; negative means shorts pay longs.
+ * Projections hold open interest fixed, so the per-block rate stays constant.
+ * PerpEngine applies one step per carry update (open, close, liquidate), so a block with several
+ * trades takes several steps; a projection over N blocks takes one step per block, an estimate.
+ */
+
+/**
+ * Market state needed to project carry
+ * MarketData satisfies this shape
+ */
+export interface CarryMarket {
+  carryIndex: bigint
+  longOI: bigint
+  shortOI: bigint
+}
+
+export interface CarryProjection {
+  carryPerBlock: bigint   // 18 decimals, signed
+  carryIndex: bigint      // projected cumulative carry index
+  blocks: bigint
+}
+
+export interface CarryEstimateParams {
+  isLong: boolean
+  notional: bigint         // 18 decimals
+  blocks: bigint           // holding period
+  carrySnapshot?: bigint   // defaults to the current index (a position opened now)
+}
+
+export interface CarryEstimate extends CarryProjection {
+  carryPnl: bigint         // signed; negative = the position pays
+}
+
+/** Average block time in seconds per chain */
+export const BLOCK_TIME_SECONDS: Record<number, number> = {
+  31337: 1,  // Anvil (dev-start.sh runs --block-time 1)
+  84532: 2,  // Base Sepolia
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60
+
+/**
+ * Block time for a chain, or null when unknown
+ */
+export function getBlockTime(chainId: number): number | null {
+  return BLOCK_TIME_SECONDS[chainId] ?? null
+}
+
+/**
+ * Mirror of FundingManager.calculateUpdatedCarry's per-block rate
+ * carryPerBlock = BASE_CARRY_RATE * CARRY_SENSITIVITY * imbalanceRatio
+ */
+export function calculateCarryPerBlock(longOI: bigint, shortOI: bigint): bigint {
+  const totalOI = longOI + shortOI
+  if (totalOI === 0n) return 0n
+
+  const imbalanceRatio = ((longOI - shortOI) * PRECISION) / totalOI
+  return (BASE_CARRY_RATE_PER_BLOCK * CARRY_SENSITIVITY * imbalanceRatio) / (PRECISION * PRECISION)
+}
+
+/**
+ * Project the cumulative carry index `blocks` carry updates ahead at the current skew
+ */
+export function projectCarryIndex(market: CarryMarket, blocks: bigint): CarryProjection {
+  const carryPerBlock = calculateCarryPerBlock(market.longOI, market.shortOI)
+  return {
+    carryPerBlock,
+    carryIndex: market.carryIndex + carryPerBlock * blocks,
+    blocks,
+  }
+}
+
+/**
+ * Mirror of FundingManager.calculateCarryPnl for a given index delta
+ */
+export function calculateCarryPnl(isLong: boolean, notional: bigint, deltaCarry: bigint): bigint {
+  const sideSign = isLong ? -1n : 1n
+  return (sideSign * notional * deltaCarry) / PRECISION
+}
+
+/**
+ * Estimate carry PnL for a position held `blocks` more blocks at the current skew
+ * For a position about to open, pass the post-trade OI (e.g. OpenQuote.longOIAfter / shortOIAfter)
+ */
+export function estimateCarryPnl(market: CarryMarket, params: CarryEstimateParams): CarryEstimate {
+  const projection = projectCarryIndex(market, params.blocks)
+  const carrySnapshot = params.carrySnapshot ?? market.carryIndex
+
+  return {
+    ...projection,
+    carryPnl: calculateCarryPnl(params.isLong, params.notional, projection.carryIndex - carrySnapshot),
+  }
+}
+
+/**
+ * Annualize a per-block carry rate (18 decimals, signed; 1e18 = 100% of notional per year)
+ */
+export function annualizeCarryRate(carryPerBlock: bigint, blockTimeSeconds: number): bigint {
+  if (blockTimeSeconds <= 0) throw new Error(`Invalid block time: ${blockTimeSeconds}`)
+  const blocksPerYear = BigInt(Math.round(SECONDS_PER_YEAR / blockTimeSeconds))
+  return carryPerBlock * blocksPerYear
+}
+
+/**
+ * Annualized carry rate for a chain, or null when the chain's block time is unknown
+ */
+export function getAnnualizedCarryRate(market: Pick<CarryMarket, 'longOI' | 'shortOI'>, chainId: number): bigint | null {
+  const blockTime = getBlockTime(chainId)
+  if (blockTime === null) return null
+  return annualizeCarryRate(calculateCarryPerBlock(market.longOI, market.shortOI), blockTime)
+}
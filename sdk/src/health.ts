@@ -0,0 +1,329 @@
+import type { Address, PublicClient } from 'viem'
+import { perpEngineAbi, positionManagerAbi } from './generated.js'
+import { PRECISION } from './constants.js'
+import { VammError } from './vamm.js'
+import { simulateEquityIfClosed, getLiquidationInfo, solveLiquidationPrice } from './liquidation.js'
+import { batchRead, readMarketSnapshots, type MarketSnapshot, type ReadMarketSnapshotOptions } from './snapshot.js'
+import { getAllOpenPositions } from './positions.js'
+import type { LiquidationInfo, Position, PositionEquity } from './types.js'
+
+/**
+ * Position health watcher
+ * Re-values every watched position offline at each new block (one snapshot read per market,
+ * position structs cached while open) and reports margin-ratio threshold crossings
+ */
+
+/** Margin ratios that raise events by default: 50% and 80% of the allowed loss used */
+export const DEFAULT_HEALTH_THRESHOLDS: readonly bigint[] = [PRECISION / 2n, (PRECISION * 8n) / 10n]
+
+export interface PositionRef {
+  engine: Address
+  positionId: bigint
+}
+
+/**
+ * Highest threshold a position has reached; null below the first one,
+ * 'liquidatable' once LiquidationEngine would accept the liquidation
+ */
+export type PositionHealthLevel = bigint | 'liquidatable' | null
+
+export interface PositionHealth {
+  engine: Address
+  positionId: bigint
+  position: Position
+  blockNumber: bigint
+  markPrice: bigint
+  equity: PositionEquity
+  liquidation: LiquidationInfo
+  /** currentLoss / allowedLoss (18 decimals): 0 without a loss, 1e18 at the liquidation line */
+  marginRatio: bigint
+  /** Mark price at which the position becomes liquidatable; null when no reachable price does */
+  liquidationPrice: bigint | null
+  /** |liquidationPrice - markPrice| / markPrice (18 decimals) */
+  liquidationDistance: bigint | null
+  level: PositionHealthLevel
+}
+
+export type PositionHealthEvent =
+  /** Level changed; on the first block a position is seen, from is null */
+  | { type: 'crossed'; from: PositionHealthLevel; to: PositionHealthLevel; worsened: boolean; health: PositionHealth }
+  /** Position is no longer open (closed or liquidated); health is the last one reported */
+  | { type: 'closed'; engine: Address; positionId: bigint; blockNumber: bigint; health: PositionHealth }
+
+export interface WatchPositionHealthOptions extends Pick<ReadMarketSnapshotOptions, 'mode' | 'multicallAddress'> {
+  /** Engines whose every open position is watched (keepers) */
+  engines?: readonly Address[]
+  /** Individual positions to watch; replace the set later with setPositions */
+  positions?: readonly PositionRef[]
+  /** Margin ratios (18 decimals) that raise events; defaults to DEFAULT_HEALTH_THRESHOLDS */
+  thresholds?: readonly bigint[]
+  /** Defaults to the client's pollingInterval */
+  pollingInterval?: number
+  /** Crossings and closes of one block, in position order; errors go to onError and are not retried */
+  onEvents?: (events: PositionHealthEvent[], blockNumber: bigint) => void | Promise<void>
+  /** Health of every open watched position, once per evaluated block */
+  onHealth?: (health: PositionHealth[], blockNumber: bigint) => void | Promise<void>
+  onError?: (error: unknown) => void
+}
+
+export interface PositionHealthWatcher {
+  /** Replace the individually watched positions; dropped ones are forgotten without a closed event, new ones are read at the next poll */
+  setPositions(positions: readonly PositionRef[]): void
+  /** Latest health per watched open position */
+  getHealth(): PositionHealth[]
+  unwatch(): void
+}
+
+interface EngineAddresses {
+  positionManager: Address
+  market: Address
+}
+
+/**
+ * Watch many positions' health and report threshold crossings at each new block
+ */
+export function watchPositionHealth(
+  publicClient: PublicClient,
+  options: WatchPositionHealthOptions
+): PositionHealthWatcher {
+  const thresholds = [...(options.thresholds ?? DEFAULT_HEALTH_THRESHOLDS)].sort(compare)
+  const pollingInterval = options.pollingInterval ?? publicClient.pollingInterval
+  const readOptions = { mode: options.mode, multicallAddress: options.multicallAddress }
+  const allOpen = new Set((options.engines ?? []).map((engine) => engine.toLowerCase()))
+
+  let refs = new Map<string, PositionRef>()
+  // Last health per open position, by key
+  const tracked = new Map<string, PositionHealth>()
+  // Position structs never change while open
+  const cached = new Map<string, Position>()
+  const engineAddresses = new Map<string, EngineAddresses>()
+  let lastBlock: bigint | null = null
+  // Bumped by setPositions: a changed set is evaluated at the next poll, even without a new block
+  let version = 0
+
+  let active = true
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const setPositions = (positions: readonly PositionRef[]) => {
+    refs = new Map(positions.map((ref) => [keyOf(ref.engine, ref.positionId), ref]))
+    lastBlock = null
+    version++
+    for (const [key, health] of tracked) {
+      if (!refs.has(key) && !allOpen.has(health.engine.toLowerCase())) {
+        tracked.delete(key)
+        cached.delete(key)
+      }
+    }
+  }
+
+  const resolveEngines = async (engines: readonly Address[], blockNumber: bigint) => {
+    const missing = engines.filter((engine) => !engineAddresses.has(engine.toLowerCase()))
+    const results = await batchRead(
+      publicClient,
+      missing.flatMap((engine) => [
+        { address: engine, abi: perpEngineAbi, functionName: 'positionManager' } as const,
+        { address: engine, abi: perpEngineAbi, functionName: 'market' } as const,
+      ]),
+      blockNumber,
+      readOptions
+    )
+    missing.forEach((engine, i) => {
+      engineAddresses.set(engine.toLowerCase(), {
+        positionManager: results[i * 2] as Address,
+        market: results[i * 2 + 1] as Address,
+      })
+    })
+  }
+
+  // Open watched positions at blockNumber, with their engine
+  const readOpenPositions = async (blockNumber: bigint): Promise<(PositionRef & { position: Position })[]> => {
+    const open: (PositionRef & { position: Position })[] = []
+
+    for (const engine of options.engines ?? []) {
+      const positions = await getAllOpenPositions(publicClient, engine, { ...readOptions, blockNumber })
+      positions.forEach((position) => open.push({ engine, positionId: position.id, position }))
+    }
+
+    const byEngine = new Map<string, PositionRef[]>()
+    for (const ref of refs.values()) {
+      const key = ref.engine.toLowerCase()
+      if (allOpen.has(key)) continue
+      byEngine.set(key, [...(byEngine.get(key) ?? []), ref])
+    }
+
+    for (const engineRefs of byEngine.values()) {
+      const { positionManager } = engineAddresses.get(engineRefs[0].engine.toLowerCase())!
+      const uncached = engineRefs.filter((ref) => !cached.has(keyOf(ref.engine, ref.positionId)))
+      const results = await batchRead(
+        publicClient,
+        [
+          ...engineRefs.map((ref) => ({
+            address: positionManager,
+            abi: positionManagerAbi,
+            functionName: 'isPositionOpen',
+            args: [ref.positionId],
+          } as const)),
+          ...uncached.map((ref) => ({
+            address: positionManager,
+            abi: positionManagerAbi,
+            functionName: 'getPosition',
+            args: [ref.positionId],
+          } as const)),
+        ],
+        blockNumber,
+        readOptions
+      )
+      const fetched = new Map(uncached.map((ref, i) => [ref, results[engineRefs.length + i] as Position]))
+      engineRefs.forEach((ref, i) => {
+        if (results[i] !== true) return
+        const key = keyOf(ref.engine, ref.positionId)
+        if (!cached.has(key)) cached.set(key, fetched.get(ref)!)
+        open.push({ ...ref, position: cached.get(key)! })
+      })
+    }
+
+    return open
+  }
+
+  const poll = async () => {
+    const blockNumber = await publicClient.getBlockNumber()
+    if (blockNumber === lastBlock) return
+    const polled = version
+
+    const engines = unique([...(options.engines ?? []), ...[...refs.values()].map((ref) => ref.engine)])
+    await resolveEngines(engines, blockNumber)
+
+    const open = await readOpenPositions(blockNumber)
+    const snapshotEngines = unique(open.map((entry) => entry.engine))
+    const snapshots = new Map<string, MarketSnapshot>()
+    const markets = Object.fromEntries(
+      snapshotEngines.map((engine) => [engine, engineAddresses.get(engine.toLowerCase())!.market])
+    )
+    const read = await readMarketSnapshots(publicClient, snapshotEngines, {
+      ...readOptions,
+      blockNumber,
+      marketAddresses: markets,
+    })
+    read.forEach((snapshot) => snapshots.set(snapshot.engineAddress.toLowerCase(), snapshot))
+
+    const events: PositionHealthEvent[] = []
+    const seen = new Set<string>()
+    for (const { engine, positionId, position } of open) {
+      const key = keyOf(engine, positionId)
+      const snapshot = snapshots.get(engine.toLowerCase())!
+      const health = evaluate(engine, position, snapshot, blockNumber, thresholds)
+      // The vAMM cannot value it at this block: keep the last health
+      if (!health) {
+        seen.add(key)
+        continue
+      }
+
+      const previous = tracked.get(key)
+      const from = previous ? previous.level : null
+      if (health.level !== from) {
+        const worsened = rank(health.level, thresholds) > rank(from, thresholds)
+        events.push({ type: 'crossed', from, to: health.level, worsened, health })
+      }
+      tracked.set(key, health)
+      seen.add(key)
+    }
+
+    for (const [key, health] of tracked) {
+      if (seen.has(key)) continue
+      events.push({ type: 'closed', engine: health.engine, positionId: health.positionId, blockNumber, health })
+      tracked.delete(key)
+      cached.delete(key)
+    }
+
+    lastBlock = polled === version ? blockNumber : null
+    if (events.length > 0) await options.onEvents?.(events, blockNumber)
+    await options.onHealth?.([...tracked.values()], blockNumber)
+  }
+
+  const loop = async () => {
+    try {
+      await poll()
+    } catch (error) {
+      options.onError?.(error)
+    }
+    if (active) timer = setTimeout(loop, pollingInterval)
+  }
+
+  setPositions(options.positions ?? [])
+  loop()
+
+  return {
+    setPositions,
+    getHealth: () => [...tracked.values()],
+    unwatch: () => {
+      active = false
+      clearTimeout(timer)
+    },
+  }
+}
+
+/**
+ * Helpers
+ */
+
+function evaluate(
+  engine: Address,
+  position: Position,
+  snapshot: MarketSnapshot,
+  blockNumber: bigint,
+  thresholds: readonly bigint[]
+): PositionHealth | null {
+  try {
+    const equity = simulateEquityIfClosed(position, snapshot)
+    const liquidation = getLiquidationInfo(position, snapshot)
+    const solved = solveLiquidationPrice(position, snapshot)
+    const marginRatio = liquidation.allowedLoss > 0n
+      ? (liquidation.currentLoss * PRECISION) / liquidation.allowedLoss
+      : liquidation.currentLoss > 0n ? PRECISION : 0n
+
+    return {
+      engine,
+      positionId: position.id,
+      position,
+      blockNumber,
+      markPrice: snapshot.markPrice,
+      equity,
+      liquidation,
+      marginRatio,
+      liquidationPrice: solved?.liquidationPrice ?? null,
+      liquidationDistance: solved?.distance ?? null,
+      level: levelOf(liquidation.isLiquidatable, marginRatio, thresholds),
+    }
+  } catch (error) {
+    if (error instanceof VammError) return null
+    throw error
+  }
+}
+
+function levelOf(isLiquidatable: boolean, marginRatio: bigint, thresholds: readonly bigint[]): PositionHealthLevel {
+  if (isLiquidatable) return 'liquidatable'
+  let level: PositionHealthLevel = null
+  for (const threshold of thresholds) {
+    if (marginRatio >= threshold) level = threshold
+  }
+  return level
+}
+
+function rank(level: PositionHealthLevel, thresholds: readonly bigint[]): number {
+  if (level === null) return 0
+  if (level === 'liquidatable') return thresholds.length + 1
+  return thresholds.indexOf(level) + 1
+}
+
+function keyOf(engine: Address, positionId: bigint): string {
+  return `${engine.toLowerCase()}:${positionId}`
+}
+
+function unique(addresses: readonly Address[]): Address[] {
+  const byKey = new Map(addresses.map((address) => [address.toLowerCase(), address]))
+  return [...byKey.values()]
+}
+
+function compare(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
@@ -1,25 +1,43 @@
 // Generated types and ABIs from wagmi
-export * from './generated'
+export * from './generated.js'
 
 // Deployment addresses and helpers
 export {
+  DEFAULT_DEPLOYMENT_NAME,
   getDeployment,
+  requireDeployment,
   getDeployments,
+  getDeploymentNames,
+  listDeployments,
+  registerDeployment,
+  unregisterDeployment,
+  validateDeploymentConfig,
+  verifyDeployment,
+  getDeploymentDiagnostics,
+  getSupportedChains,
   isChainSupported,
   SUPPORTED_CHAINS,
+  InvalidDeploymentError,
   type DeploymentConfig,
   type CoreDeployment,
   type ExtendedDeployment,
-} from './deployments'
+  type RegisteredDeployment,
+  type RegisterDeploymentOptions,
+  type DeploymentDiagnostic,
+  type DeploymentDiagnosticCode,
+  type DeploymentVerification,
+  type SkippedDeployment,
+} from './deployments.js'
 
 // Common contract types
-export type {
-  ContractError,
-  Position,
-  MarketData,
-  LiquidationInfo,
-  PositionEquity,
-} from './types'
+export {
+  PositionStatus,
+  type ContractError,
+  type Position,
+  type MarketData,
+  type LiquidationInfo,
+  type PositionEquity,
+} from './types.js'
 
 // Transaction and error handling utilities
 export {
@@ -32,7 +50,375 @@ export {
   calculatePnlPercentage,
   type ExecuteTransactionParams,
   type TransactionResult,
-} from './utils'
+} from './utils.js'
+
+// Protocol constants (mirrors Solidity)
+export {
+  PRECISION,
+  USDC_TO_INTERNAL,
+  MAX_LEVERAGE,
+  BASE_OPEN_FEE_RATE,
+  OI_SKEW_FEE_MULTIPLIER,
+  LEVERAGE_BUCKET_1_MAX,
+  LEVERAGE_BUCKET_2_MAX,
+  BUFFER_RATIO_1,
+  BUFFER_RATIO_2,
+  BUFFER_RATIO_3,
+  LIQUIDATION_EPSILON,
+  LIQUIDATION_FEE_RATIO,
+  BASE_CARRY_RATE_PER_BLOCK,
+  CARRY_SENSITIVITY,
+} from './constants.js'
+
+// Branded amount types (6-decimal USDC vs 18-decimal internal units)
+export {
+  USDC_DECIMALS,
+  INTERNAL_DECIMALS,
+  asUsdc,
+  asInternal,
+  asPrice,
+  asLeverage,
+  parseUsdcAmount,
+  parseInternalAmount,
+  parsePrice18,
+  parseLeverage18,
+  usdcToInternal,
+  internalToUsdc,
+  formatUsdcAmount,
+  formatInternalAmount,
+  formatLeverage18,
+  type UsdcAmount,
+  type InternalAmount,
+  type Price18,
+  type Leverage18,
+} from './units.js'
+
+// Offline vAMM quotes (mirrors PerpMarket simulate/execute math)
+export {
+  VammError,
+  reservesFromMarketData,
+  getMarkPrice,
+  simulateOpenLong,
+  simulateOpenShort,
+  simulateCloseLong,
+  simulateCloseShort,
+  executeOpenLong,
+  executeOpenShort,
+  executeCloseLong,
+  executeCloseShort,
+  type VammReserves,
+  type VammExecution,
+  type OpenLongQuote,
+  type OpenShortQuote,
+  type CloseLongQuote,
+  type CloseShortQuote,
+} from './vamm.js'
+
+// Pre-trade calculator (mirrors PerpEngine._openPosition Mode 3)
+export {
+  QuoteError,
+  getEffectiveOpenFeeRate,
+  quoteOpenPosition,
+  type OpenQuote,
+  type OpenQuoteMarket,
+  type OpenQuoteParams,
+} from './orders.js'
+
+// Position health and liquidation price solver
+export {
+  getLiquidationBufferRatio,
+  simulateEquityIfClosed,
+  getLiquidationInfo,
+  calculateLiquidationFee,
+  solveLiquidationPrice,
+  type LiquidationPosition,
+  type LiquidationMarket,
+  type LiquidationPriceResult,
+} from './liquidation.js'
+
+// Carry projection (mirrors FundingManager)
+export {
+  BLOCK_TIME_SECONDS,
+  getBlockTime,
+  calculateCarryPerBlock,
+  projectCarryIndex,
+  calculateCarryPnl,
+  estimateCarryPnl,
+  annualizeCarryRate,
+  getAnnualizedCarryRate,
+  type CarryMarket,
+  type CarryProjection,
+  type CarryEstimate,
+  type CarryEstimateParams,
+} from './funding.js'
+
+// Typed protocol errors (registry keyed by selector)
+export {
+  PROTOCOL_ERROR_ABI,
+  ProtocolError,
+  InsufficientBalanceError,
+  InvalidAmountError,
+  InvalidLeverageError,
+  PositionNotFoundError,
+  PositionNotOpenError,
+  NotPositionOwnerError,
+  NotLiquidatableError,
+  InsufficientLiquidityError,
+  InvalidReservesError,
+  UnauthorizedError,
+  OwnableUnauthorizedAccountError,
+  OwnableInvalidOwnerError,
+  EngineAlreadySetError,
+  InitializationError,
+  FailedDeploymentError,
+  DeploymentBalanceError,
+  ReentrantCallError,
+  TokenTransferFailedError,
+  InsufficientAllowanceError,
+  InsufficientTokenBalanceError,
+  InvalidTokenAddressError,
+  PermitExpiredError,
+  InvalidPermitError,
+  InvalidSignatureError,
+  TokenMetadataError,
+  getProtocolErrorEntry,
+  getProtocolErrorEntries,
+  createProtocolError,
+  decodeProtocolError,
+  toProtocolError,
+  type ProtocolContractName,
+  type ProtocolErrorEntry,
+  type ProtocolErrorClass,
+} from './errors.js'
+
+// EIP-2612 permit flows (one-signature deposits)
+export {
+  DEFAULT_PERMIT_TTL,
+  PERMIT_TYPES,
+  getPermitNonce,
+  getPermitDomain,
+  signPermit,
+  depositWithPermit,
+  depositAndOpenPositionWithPermit,
+  type PermitDomain,
+  type PermitSignature,
+  type SignPermitParams,
+  type DepositWithPermitParams,
+  type DepositAndOpenWithPermitParams,
+  type PermitTransactionResult,
+} from './permit.js'
+
+// Block-pinned market snapshots (multicall with deployless fallback)
+export {
+  MULTICALL3_ADDRESS,
+  readMarketSnapshot,
+  readMarketSnapshots,
+  detectMulticallMode,
+  type MarketSnapshot,
+  type MulticallMode,
+  type ReadMarketSnapshotOptions,
+} from './snapshot.js'
+
+// Typed domain events (one decoder for every protocol log)
+export {
+  PROTOCOL_EVENT_ABI,
+  decodeProtocolEvent,
+  decodeProtocolEvents,
+  findProtocolEvent,
+  type ProtocolLog,
+  type ProtocolEvent,
+  type ProtocolEventName,
+  type ProtocolEventOf,
+  type ProtocolEventMeta,
+  type ProtocolEventContract,
+  type DepositEvent,
+  type WithdrawEvent,
+  type PositionOpenedEvent,
+  type PositionClosedEvent,
+  type PositionLiquidatedEvent,
+  type PositionCreatedEvent,
+  type ReservesUpdatedEvent,
+  type OpenInterestUpdatedEvent,
+  type CarryUpdatedEvent,
+  type MarketCreatedEvent,
+  type MarketCreatorUpdatedEvent,
+} from './events.js'
+
+// Historical backfill (chunked getLogs with a resumable cursor)
+export {
+  DEFAULT_BACKFILL_CHUNK_SIZE,
+  MIN_BACKFILL_CHUNK_SIZE,
+  MAX_BACKFILL_CHUNK_SIZE,
+  backfillProtocolEvents,
+  isRangeTooLargeError,
+  createMemoryCursorStore,
+  createStorageCursorStore,
+  getBackfillCursorKey,
+  encodeBackfillCursor,
+  decodeBackfillCursor,
+  type BackfillCursor,
+  type BackfillCursorStore,
+  type BackfillPage,
+  type BackfillOptions,
+  type BackfillResult,
+} from './backfill.js'
+
+// Live events (confirmation depth + reorg reverts)
+export {
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_REORG_DEPTH,
+  DEFAULT_STREAM_BLOCK_RANGE,
+  watchProtocolEvents,
+  type ProtocolEventUpdate,
+  type WatchProtocolEventsOptions,
+} from './stream.js'
+
+// Transaction manager (per-account nonce queue, fee bumping, replacement)
+export {
+  DEFAULT_FEE_POLICY,
+  DEFAULT_PENDING_TIMEOUT_MS,
+  createTransactionManager,
+  TransactionFailedError,
+  type FeePolicy,
+  type TransactionManager,
+  type TransactionManagerOptions,
+  type ManagedTransaction,
+  type ManagedTransactionRequest,
+  type ManagedTransactionSnapshot,
+  type ManagedTransactionState,
+} from './transactions.js'
+
+// Transaction preview (traced state diff, offline fallback)
+export {
+  previewTransaction,
+  isTracingUnavailableError,
+  type PreviewAction,
+  type PreviewSource,
+  type PreviewTransactionParams,
+  type PreviewState,
+  type PreviewField,
+  type PreviewChanges,
+  type ValueChange,
+  type TransactionPreview,
+} from './preview.js'
+
+// High-level client (market-bound, sibling addresses resolved once)
+export {
+  PerpClient,
+  PerpMarketClient,
+  type PerpClientOptions,
+  type MarketAddresses,
+  type OpenPositionResult,
+  type DepositAndOpenResult,
+  type ClosePositionResult,
+  type PositionAnalytics,
+  type ReadOptions,
+  type QuoteOpenOptions,
+} from './client.js'
+
+// Cross-market portfolio (balances, open positions, PnL per market)
+export {
+  readPortfolio,
+  type ReadPortfolioOptions,
+  type Portfolio,
+  type PortfolioMarket,
+  type PortfolioPosition,
+  type PortfolioTotals,
+} from './portfolio.js'
+
+// Position discovery (indexed user logs, batched status checks)
+export {
+  getUserPositions,
+  getAllOpenPositions,
+  type GetPositionsOptions,
+  type GetUserPositionsOptions,
+  type GetAllOpenPositionsOptions,
+} from './positions.js'
+
+// Amount formatting and strict parsing (signed, rounded, locale-aware)
+export {
+  formatAmount,
+  formatUsd,
+  formatPercent,
+  formatLeverage,
+  parseAmount,
+  ParseAmountError,
+  type RoundingMode,
+  type SignDisplay,
+  type FormatAmountOptions,
+  type ParseAmountOptions,
+  type ParseAmountErrorReason,
+} from './format.js'
+
+// Slippage-protected trades (re-quote before sending, verify the fill after mining)
+export {
+  openPositionWithSlippage,
+  closePositionWithSlippage,
+  getPriceBounds,
+  isWithinPriceBounds,
+  SlippageError,
+  type SlippageOptions,
+  type PriceBounds,
+  type SlippageCheck,
+  type SlippageTransactionResult,
+  type OpenPositionWithSlippageParams,
+  type ClosePositionWithSlippageParams,
+} from './slippage.js'
+
+// Protocol reference model (in-memory engine, market, positions, carry and liquidation)
+export {
+  createProtocolModel,
+  type ProtocolModel,
+  type ProtocolModelOptions,
+  type ModelState,
+  type ModelEvent,
+  type ModelCall,
+} from './model.js'
+
+// In-memory fake chain (viem transport backed by the reference model, for tests without a node)
+export {
+  createFakeChain,
+  type FakeChain,
+  type FakeChainOptions,
+  type FakeChainAddresses,
+  type FakeMarketConfig,
+  type FakeEventParams,
+} from './fakechain.js'
+
+// Market configuration (reserves from price and depth, factory-rule checks, price impact preview)
+export {
+  DEFAULT_DEPTH_IMPACT,
+  DEFAULT_REFERENCE_SIZES,
+  MARKET_PRESETS,
+  buildMarketConfig,
+  validateMarketConfig,
+  assertMarketConfig,
+  getPriceImpacts,
+  getMarketCreatorStatus,
+  assertMarketCreator,
+  type MarketConfig,
+  type MarketConfigIssue,
+  type MarketConfigIssueCode,
+  type MarketConfigPlan,
+  type BuildMarketConfigParams,
+  type TradeImpact,
+  type PriceImpact,
+  type MarketCreatorStatus,
+  type MarketPreset,
+  type MarketPresetName,
+} from './markets.js'
+
+// Position health watcher (per-block re-valuation, margin-ratio threshold crossings)
+export {
+  DEFAULT_HEALTH_THRESHOLDS,
+  watchPositionHealth,
+  type PositionRef,
+  type PositionHealth,
+  type PositionHealthLevel,
+  type PositionHealthEvent,
+  type PositionHealthWatcher,
+  type WatchPositionHealthOptions,
+} from './health.js'
 
 // Re-export viem types
 export type { Address, Hex, Hash, PublicClient, WalletClient, Abi } from 'viem'
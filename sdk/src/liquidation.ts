@@ -0,0 +1,245 @@
+import {
+  PRECISION,
+  LEVERAGE_BUCKET_1_MAX,
+  LEVERAGE_BUCKET_2_MAX,
+  BUFFER_RATIO_1,
+  BUFFER_RATIO_2,
+  BUFFER_RATIO_3,
+  LIQUIDATION_EPSILON,
+  LIQUIDATION_FEE_RATIO,
+} from './constants.js'
+import {
+  VammError,
+  getMarkPrice,
+  simulateCloseLong,
+  simulateCloseShort,
+  executeOpenLong,
+  executeOpenShort,
+  type VammReserves,
+} from './vamm.js'
+import type { Position, PositionEquity, LiquidationInfo } from './types.js'
+
+/**
+ * Offline position health and liquidation price solver
+ * Mirrors PositionManager.simulateEquityIfClosed and LiquidationEngine.getLiquidationInfo
+ */
+
+/**
+ * Position fields that drive equity and liquidation
+ * The SDK Position type satisfies this shape
+ */
+export type LiquidationPosition = Pick<
+  Position,
+  'isLong' | 'baseSize' | 'entryNotional' | 'margin' | 'carrySnapshot'
+> & { openBlock?: bigint }
+
+/**
+ * Market state needed to value a position
+ * MarketData satisfies this shape; currentBlock enables same-block protection
+ */
+export interface LiquidationMarket extends VammReserves {
+  carryIndex: bigint
+  currentBlock?: bigint
+}
+
+export interface LiquidationPriceResult {
+  /** Mark price at which the position first becomes liquidatable (18 decimals) */
+  liquidationPrice: bigint
+  /** Opposing notional (quote, 18 decimals) that must trade to move the mark there */
+  opposingNotional: bigint
+  /** Current mark price (18 decimals) */
+  markPrice: bigint
+  /** |liquidationPrice - markPrice| / markPrice (18 decimals) */
+  distance: bigint
+  /** Liquidation state evaluated at the liquidation price */
+  info: LiquidationInfo
+}
+
+/**
+ * Mirror of PositionManager.getLiquidationBufferRatio
+ */
+export function getLiquidationBufferRatio(leverage: bigint): bigint {
+  if (leverage <= LEVERAGE_BUCKET_1_MAX) return BUFFER_RATIO_1
+  if (leverage <= LEVERAGE_BUCKET_2_MAX) return BUFFER_RATIO_2
+  return BUFFER_RATIO_3
+}
+
+/**
+ * Mirror of PositionManager.simulateEquityIfClosed
+ */
+export function simulateEquityIfClosed(
+  position: LiquidationPosition,
+  market: LiquidationMarket
+): PositionEquity {
+  let closeNotional: bigint
+  let avgClosePrice: bigint
+  let pnlTrade: bigint
+
+  if (position.isLong) {
+    ;({ quoteOut: closeNotional, avgPrice: avgClosePrice } = simulateCloseLong(market, position.baseSize))
+    pnlTrade = closeNotional - position.entryNotional
+  } else {
+    ;({ quoteIn: closeNotional, avgPrice: avgClosePrice } = simulateCloseShort(market, position.baseSize))
+    pnlTrade = position.entryNotional - closeNotional
+  }
+
+  // Carry on current notional; magnitude rounds toward zero like the contract
+  const notionalNow = (position.baseSize * getMarkPrice(market)) / PRECISION
+  const deltaCarry = market.carryIndex - position.carrySnapshot
+  const absCarry = deltaCarry >= 0n ? deltaCarry : -deltaCarry
+  const carryMagnitude = (notionalNow * absCarry) / PRECISION
+  const sideSign = position.isLong ? -1n : 1n
+  const carryPnl = carryMagnitude * sideSign * (deltaCarry >= 0n ? 1n : -1n)
+
+  const totalPnl = pnlTrade + carryPnl
+
+  return {
+    closeNotional,
+    avgClosePrice,
+    pnlTrade,
+    carryPnl,
+    totalPnl,
+    equityIfClosed: position.margin + totalPnl,
+  }
+}
+
+/**
+ * Mirror of LiquidationEngine.getLiquidationInfo for an open position
+ * Same-block protection is applied when both openBlock and currentBlock are known
+ */
+export function getLiquidationInfo(
+  position: LiquidationPosition,
+  market: LiquidationMarket
+): LiquidationInfo {
+  const { equityIfClosed } = simulateEquityIfClosed(position, market)
+
+  const notionalNow = (position.baseSize * getMarkPrice(market)) / PRECISION
+  const leverage = (notionalNow * PRECISION) / position.margin
+  const bufferRatio = getLiquidationBufferRatio(leverage)
+
+  const M = position.margin
+  const currentLoss = M > equityIfClosed ? M - equityIfClosed : 0n
+  const allowedLoss = (M * (PRECISION - bufferRatio)) / PRECISION
+
+  const sameBlock = position.openBlock !== undefined
+    && market.currentBlock !== undefined
+    && position.openBlock === market.currentBlock
+
+  return {
+    isLiquidatable: !sameBlock && currentLoss > allowedLoss + LIQUIDATION_EPSILON,
+    currentLoss,
+    allowedLoss,
+    equity: equityIfClosed,
+    leverage,
+  }
+}
+
+/**
+ * Mirror of LiquidationEngine.calculateLiquidationFee
+ */
+export function calculateLiquidationFee(position: LiquidationPosition, market: VammReserves): bigint {
+  const closeNotional = position.isLong
+    ? simulateCloseLong(market, position.baseSize).quoteOut
+    : simulateCloseShort(market, position.baseSize).quoteIn
+  return (closeNotional * LIQUIDATION_FEE_RATIO) / PRECISION
+}
+
+/**
+ * Solve for the mark price at which a position becomes liquidatable
+ *
+ * Moves the vAMM with an opposing trade (a short against a long, a long against a short),
+ * holding the carry index fixed, and binary-searches the smallest opposing notional for which
+ * currentLoss > allowedLoss + EPSILON. Returns null when no reachable price liquidates the
+ * position (the vAMM runs out of liquidity first).
+ *
+ * Same-block protection is ignored: this answers "at what price", not "right now".
+ * Crossing a leverage bucket can make the loss test non-monotonic by a few wei around the
+ * boundary; the search returns the first crossing it brackets.
+ */
+export function solveLiquidationPrice(
+  position: LiquidationPosition,
+  market: LiquidationMarket
+): LiquidationPriceResult | null {
+  const markPrice = getMarkPrice(market)
+  const priceOnly = { ...position, openBlock: undefined }
+
+  const evaluate = (opposingNotional: bigint) => {
+    try {
+      const reserves = opposingNotional === 0n
+        ? market
+        : position.isLong
+          ? executeOpenShort(market, opposingNotional).reserves
+          : executeOpenLong(market, opposingNotional).reserves
+      const moved = { ...market, ...reserves }
+      return { moved, info: getLiquidationInfo(priceOnly, moved) }
+    } catch (error) {
+      if (error instanceof VammError) return null
+      throw error
+    }
+  }
+
+  const result = (opposingNotional: bigint, state: NonNullable<ReturnType<typeof evaluate>>): LiquidationPriceResult => {
+    const liquidationPrice = getMarkPrice(state.moved)
+    const delta = liquidationPrice >= markPrice ? liquidationPrice - markPrice : markPrice - liquidationPrice
+    return {
+      liquidationPrice,
+      opposingNotional,
+      markPrice,
+      distance: (delta * PRECISION) / markPrice,
+      info: state.info,
+    }
+  }
+
+  const now = evaluate(0n)
+  if (!now) return null
+  if (now.info.isLiquidatable) return result(0n, now)
+
+  // Bracket: lo is known safe, hi is the candidate upper bound
+  let lo = 0n
+  let hi: bigint
+
+  if (position.isLong) {
+    // A short can remove at most quoteReserve - 1 of quote
+    hi = market.quoteReserve - 1n
+  } else {
+    hi = market.quoteReserve / 1000n || 1n
+    for (let i = 0; i < 64; i++) {
+      const state = evaluate(hi)
+      if (!state || state.info.isLiquidatable) break
+      lo = hi
+      hi = hi * 2n
+    }
+  }
+
+  let hiState = evaluate(hi)
+
+  // Upper bound is past the vAMM's valid range: narrow it down
+  while (!hiState && hi - lo > 1n) {
+    const mid = lo + (hi - lo) / 2n
+    const midState = evaluate(mid)
+    if (!midState) {
+      hi = mid
+    } else if (midState.info.isLiquidatable) {
+      hi = mid
+      hiState = midState
+    } else {
+      lo = mid
+    }
+  }
+
+  if (!hiState || !hiState.info.isLiquidatable) return null
+
+  // Binary search the smallest liquidating notional in (lo, hi]
+  while (hi - lo > 1n) {
+    const mid = lo + (hi - lo) / 2n
+    const midState = evaluate(mid)
+    if (midState && midState.info.isLiquidatable) {
+      hi = mid
+      hiState = midState
+    } else {
+      lo = mid
+    }
+  }
+
+  return result(hi, hiState)
+}
@@ -0,0 +1,245 @@
+import type { Address, PublicClient } from 'viem'
+import { perpFactoryAbi } from './generated.js'
+import { PRECISION, MAX_LEVERAGE } from './constants.js'
+import { VammError, executeOpenLong, executeOpenShort, getMarkPrice, type VammReserves } from './vamm.js'
+import { createProtocolError } from './errors.js'
+import type { InternalAmount, Leverage18, Price18 } from './units.js'
+
+/**
+ * Market configuration
+ * Builds PerpFactory.MarketConfig from a target initial price and depth instead of raw reserves,
+ * checks it against the factory's rules before anything is sent and previews the price impact of
+ * reference trade sizes on the fresh vAMM
+ */
+
+/**
+ * Mirror of PerpFactory.MarketConfig
+ * maxLeverage is validated by the factory but not stored; the engine still enforces MAX_LEVERAGE
+ */
+export interface MarketConfig {
+  baseReserve: bigint
+  quoteReserve: bigint
+  maxLeverage: Leverage18
+}
+
+export type MarketConfigIssueCode = 'InvalidReserves' | 'InvalidLeverage' | 'ReservesOverflow'
+
+export interface MarketConfigIssue {
+  code: MarketConfigIssueCode
+  field: keyof MarketConfig
+  message: string
+}
+
+export interface BuildMarketConfigParams {
+  /** Initial mark price (18 decimals) */
+  price: Price18
+  /** Notional (18 decimals) of a long that moves the mark by depthImpact */
+  depth: InternalAmount
+  /** Mark move depth is measured at (18 decimals, 1e18 = 100%); defaults to DEFAULT_DEPTH_IMPACT */
+  depthImpact?: bigint
+  /** Defaults to MAX_LEVERAGE */
+  maxLeverage?: Leverage18
+  /** Notional sizes (18 decimals) to preview; defaults to DEFAULT_REFERENCE_SIZES */
+  referenceSizes?: readonly bigint[]
+}
+
+/**
+ * Effect of one reference trade on the fresh market
+ * priceImpact = |avgPrice - markPrice| / markPrice, markImpact = |markPriceAfter - markPrice| / markPrice (18 decimals)
+ */
+export interface TradeImpact {
+  avgPrice: bigint
+  markPriceAfter: bigint
+  priceImpact: bigint
+  markImpact: bigint
+}
+
+/**
+ * Impact of a reference size on each side; null where the vAMM cannot fill it
+ */
+export interface PriceImpact {
+  size: bigint
+  long: TradeImpact | null
+  short: TradeImpact | null
+}
+
+export interface MarketConfigPlan {
+  config: MarketConfig
+  /** Mark price the reserves actually produce (target price after integer rounding) */
+  markPrice: bigint
+  /** Factory rules the config breaks; empty when createMarket would accept it */
+  issues: MarketConfigIssue[]
+  priceImpacts: PriceImpact[]
+}
+
+export interface MarketCreatorStatus {
+  authorized: boolean
+  isOwner: boolean
+  isMarketCreator: boolean
+}
+
+export type MarketPresetName = 'thin' | 'standard' | 'deep'
+
+export interface MarketPreset {
+  label: string
+  depth: InternalAmount
+}
+
+/** Mark move the depth of a preset is quoted at: 1% */
+export const DEFAULT_DEPTH_IMPACT = PRECISION / 100n
+
+/** Notional sizes previewed by buildMarketConfig: 1k, 10k and 100k */
+export const DEFAULT_REFERENCE_SIZES: readonly bigint[] = [1_000n * PRECISION, 10_000n * PRECISION, 100_000n * PRECISION]
+
+/**
+ * Depth tiers, as the notional that moves the mark by DEFAULT_DEPTH_IMPACT
+ */
+export const MARKET_PRESETS: Readonly<Record<MarketPresetName, MarketPreset>> = {
+  thin: { label: 'Thin', depth: (10_000n * PRECISION) as InternalAmount },
+  standard: { label: 'Standard', depth: (1_000_000n * PRECISION) as InternalAmount },
+  deep: { label: 'Deep', depth: (10_000_000n * PRECISION) as InternalAmount },
+}
+
+const UINT256_MAX = 2n ** 256n - 1n
+
+/**
+ * Derive reserves from a target price and depth, validate them and preview reference trades
+ * A long of quoteIn q moves the mark by ((Q + q) / Q)^2, so Q = depth / (sqrt(1 + depthImpact) - 1)
+ * and B = Q / price. Throws RangeError on non-positive inputs; factory rule breaks land in issues
+ */
+export function buildMarketConfig(params: BuildMarketConfigParams): MarketConfigPlan {
+  const { price, depth, depthImpact = DEFAULT_DEPTH_IMPACT, maxLeverage = MAX_LEVERAGE as Leverage18 } = params
+  if (price <= 0n) throw new RangeError('price must be positive')
+  if (depth <= 0n) throw new RangeError('depth must be positive')
+  if (depthImpact <= 0n) throw new RangeError('depthImpact must be positive')
+
+  const growth = sqrt((PRECISION + depthImpact) * PRECISION) - PRECISION
+  if (growth === 0n) throw new RangeError('depthImpact is below 18-decimal precision')
+
+  const quoteReserve = (depth * PRECISION) / growth
+  const baseReserve = (quoteReserve * PRECISION) / price
+  const config: MarketConfig = { baseReserve, quoteReserve, maxLeverage }
+  const issues = validateMarketConfig(config)
+  const usable = !issues.some((issue) => issue.code !== 'InvalidLeverage')
+
+  return {
+    config,
+    markPrice: usable ? getMarkPrice(config) : 0n,
+    issues,
+    priceImpacts: usable ? getPriceImpacts(config, params.referenceSizes ?? DEFAULT_REFERENCE_SIZES) : [],
+  }
+}
+
+/**
+ * Check a config against PerpFactory.createMarket and PerpMarket.initialize, in the order they revert
+ * The caller is not checked: createMarket reverts with Unauthorized before any of these (see assertMarketCreator)
+ */
+export function validateMarketConfig(config: MarketConfig): MarketConfigIssue[] {
+  const issues: MarketConfigIssue[] = []
+  const { baseReserve, quoteReserve, maxLeverage } = config
+
+  if (baseReserve <= 0n) {
+    issues.push({ code: 'InvalidReserves', field: 'baseReserve', message: 'Base reserve must be greater than zero' })
+  }
+  if (quoteReserve <= 0n) {
+    issues.push({ code: 'InvalidReserves', field: 'quoteReserve', message: 'Quote reserve must be greater than zero' })
+  }
+  if (maxLeverage <= 0n || maxLeverage > MAX_LEVERAGE) {
+    issues.push({ code: 'InvalidLeverage', field: 'maxLeverage', message: `Max leverage must be above 0 and at most ${MAX_LEVERAGE / PRECISION}x` })
+  }
+  if (baseReserve > 0n && quoteReserve > 0n && baseReserve * quoteReserve > UINT256_MAX) {
+    issues.push({ code: 'ReservesOverflow', field: 'baseReserve', message: 'Reserve product overflows uint256 when the market computes k' })
+  }
+
+  return issues
+}
+
+/**
+ * Throw what createMarket would revert with: InvalidReservesError / InvalidLeverageError,
+ * or a RangeError where PerpMarket.initialize would panic on overflow
+ */
+export function assertMarketConfig(config: MarketConfig): void {
+  const [issue] = validateMarketConfig(config)
+  if (!issue) return
+  if (issue.code === 'ReservesOverflow') throw new RangeError(issue.message)
+
+  throw createProtocolError(issue.code)
+}
+
+/**
+ * Price impact of opening each size (quote notional, 18 decimals) long and short against the reserves
+ */
+export function getPriceImpacts(reserves: VammReserves, sizes: readonly bigint[] = DEFAULT_REFERENCE_SIZES): PriceImpact[] {
+  const markPrice = getMarkPrice(reserves)
+
+  return sizes.map((size) => ({
+    size,
+    long: tradeImpact(markPrice, () => executeOpenLong(reserves, size)),
+    short: tradeImpact(markPrice, () => executeOpenShort(reserves, size)),
+  }))
+}
+
+/**
+ * Whether account passes PerpFactory's onlyMarketCreator (owner or allowlisted creator)
+ */
+export async function getMarketCreatorStatus(
+  publicClient: PublicClient,
+  factory: Address,
+  account: Address
+): Promise<MarketCreatorStatus> {
+  const [owner, isMarketCreator] = await Promise.all([
+    publicClient.readContract({ address: factory, abi: perpFactoryAbi, functionName: 'owner' }),
+    publicClient.readContract({ address: factory, abi: perpFactoryAbi, functionName: 'isMarketCreator', args: [account] }),
+  ])
+  const isOwner = owner.toLowerCase() === account.toLowerCase()
+
+  return { authorized: isOwner || isMarketCreator, isOwner, isMarketCreator }
+}
+
+/**
+ * Throw UnauthorizedError, as createMarket would, when account may not create markets
+ */
+export async function assertMarketCreator(publicClient: PublicClient, factory: Address, account: Address): Promise<void> {
+  const { authorized } = await getMarketCreatorStatus(publicClient, factory, account)
+  if (authorized) return
+
+  throw createProtocolError('Unauthorized')
+}
+
+/**
+ * Helpers
+ */
+
+function tradeImpact(
+  markPrice: bigint,
+  execute: () => { avgPrice: bigint; reserves: Required<VammReserves> }
+): TradeImpact | null {
+  try {
+    const { avgPrice, reserves } = execute()
+    const markPriceAfter = getMarkPrice(reserves)
+    return {
+      avgPrice,
+      markPriceAfter,
+      priceImpact: (abs(avgPrice - markPrice) * PRECISION) / markPrice,
+      markImpact: (abs(markPriceAfter - markPrice) * PRECISION) / markPrice,
+    }
+  } catch (error) {
+    if (error instanceof VammError) return null
+    throw error
+  }
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value
+  let x = value
+  let y = (x + 1n) / 2n
+  while (y < x) {
+    x = y
+    y = (x + value / x) / 2n
+  }
+  return x
+}
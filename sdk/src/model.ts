@@ -0,0 +1,607 @@
+import type { Address } from 'viem'
+import { zeroAddress } from 'viem'
+import { PRECISION, USDC_TO_INTERNAL, MAX_LEVERAGE, LIQUIDATION_FEE_RATIO } from './constants.js'
+import {
+  VammError,
+  getMarkPrice,
+  executeOpenLong,
+  executeOpenShort,
+  executeCloseLong,
+  executeCloseShort,
+  simulateCloseLong,
+  simulateCloseShort,
+  type VammReserves,
+} from './vamm.js'
+import { getEffectiveOpenFeeRate } from './orders.js'
+import { calculateCarryPerBlock } from './funding.js'
+import { simulateEquityIfClosed, getLiquidationInfo } from './liquidation.js'
+import { createProtocolError } from './errors.js'
+import { PositionStatus, type Position, type PositionEquity, type LiquidationInfo, type MarketData } from './types.js'
+import { asInternal, type InternalAmount, type UsdcAmount, type Leverage18 } from './units.js'
+
+/**
+ * Protocol reference model
+ * Deterministic in-memory state machine of one market: PerpEngine with its PerpMarket and PositionManager,
+ * plus the shared FundingManager and LiquidationEngine logic. Same order of operations, bigint arithmetic
+ * and rounding as the contracts; a call that would revert throws the typed ProtocolError and leaves the
+ * state untouched.
+ *
+ * Chain blocks play no part: carry steps once per open/close/liquidate, and PerpMarket.currentBlock only
+ * moves through advanceBlocks, which no contract calls. With it at 1 every position is in its opening
+ * block, so liquidate reverts with NotLiquidatable exactly as it does on-chain.
+ */
+
+export interface ProtocolModelOptions {
+  /** Initial vAMM reserves, as in PerpFactory.MarketConfig */
+  baseReserve: bigint
+  quoteReserve: bigint
+  /** Engine address; the sender of collateral transfers (error arguments) */
+  engineAddress?: Address
+  /** Reported as MarketData.marketAddress */
+  marketAddress?: Address
+}
+
+/**
+ * Full model state
+ * getState() returns a copy; wallets are keyed by lowercased address
+ */
+export interface ModelState {
+  // PerpMarket
+  baseReserve: bigint
+  quoteReserve: bigint
+  k: bigint
+  longOI: bigint
+  shortOI: bigint
+  carryIndex: bigint
+  currentBlock: bigint
+  lastFundingBlock: bigint
+  // PositionManager
+  nextPositionId: bigint
+  positions: Map<bigint, Position>
+  // PerpEngine
+  wallets: Map<string, bigint>
+  tradeFund: bigint
+  insuranceFund: bigint
+  protocolFees: bigint
+  /** Collateral token (USDC, 6 decimals) held by the engine */
+  collateralBalance: bigint
+}
+
+/**
+ * Events in emission order, args named as in the contract ABIs (ready for encodeEventTopics)
+ */
+export type ModelEvent =
+  | { contract: 'PerpEngine'; eventName: 'Deposit' | 'Withdraw'; args: { user: Address; amount: bigint } }
+  | {
+    contract: 'PerpEngine'
+    eventName: 'PositionOpened'
+    args: {
+      positionId: bigint
+      user: Address
+      isLong: boolean
+      totalToUse: bigint
+      margin: bigint
+      fee: bigint
+      leverage: bigint
+      baseSize: bigint
+      entryPrice: bigint
+    }
+  }
+  | {
+    contract: 'PerpEngine'
+    eventName: 'PositionClosed'
+    args: { positionId: bigint; user: Address; totalPnl: bigint; avgClosePrice: bigint }
+  }
+  | {
+    contract: 'PerpEngine'
+    eventName: 'PositionLiquidated'
+    args: { positionId: bigint; user: Address; liquidator: Address; liqFee: bigint }
+  }
+  | {
+    contract: 'PositionManager'
+    eventName: 'PositionCreated'
+    args: {
+      positionId: bigint
+      user: Address
+      isLong: boolean
+      baseSize: bigint
+      entryPrice: bigint
+      entryNotional: bigint
+      margin: bigint
+      carrySnapshot: bigint
+      openBlock: bigint
+    }
+  }
+  | {
+    contract: 'PerpMarket'
+    eventName: 'ReservesUpdated'
+    args: { baseReserve: bigint; quoteReserve: bigint; markPrice: bigint }
+  }
+  | {
+    contract: 'PerpMarket'
+    eventName: 'OpenInterestUpdated'
+    args: { longOpenInterest: bigint; shortOpenInterest: bigint }
+  }
+
+/** Outcome of a state-changing call */
+export interface ModelCall<T> {
+  /** The contract function's return value */
+  returnValue: T
+  events: ModelEvent[]
+}
+
+export interface ProtocolModel {
+  // PerpEngine
+  /** amount in USDC (6 decimals); the sender's token balance and allowance are not modeled */
+  deposit(account: Address, amount: UsdcAmount): ModelCall<void>
+  withdraw(account: Address, amount: InternalAmount): ModelCall<void>
+  openPosition(account: Address, isLong: boolean, totalToUse: InternalAmount, leverage: Leverage18): ModelCall<bigint>
+  depositAndOpenPosition(
+    account: Address,
+    depositAmount: UsdcAmount,
+    isLong: boolean,
+    totalToUse: InternalAmount,
+    leverage: Leverage18
+  ): ModelCall<bigint>
+  closePosition(account: Address, positionId: bigint): ModelCall<bigint>
+  liquidate(account: Address, positionId: bigint): ModelCall<void>
+  getWalletBalance(user: Address): InternalAmount
+  getFundBalances(): { trade: InternalAmount; insurance: InternalAmount; protocol: InternalAmount }
+
+  // PerpMarket
+  getMarkPrice(): bigint
+  /** PerpMarket.advanceBlocks: engine-only and never called on-chain; moves the model off the deployed behavior */
+  advanceBlocks(blocks: bigint): void
+
+  // PositionManager
+  getPosition(positionId: bigint): Position
+  isPositionOpen(positionId: bigint): boolean
+  getEffectiveOpenFeeRate(): bigint
+  simulateEquityIfClosed(positionId: bigint): PositionEquity
+
+  // FundingManager
+  calculateUpdatedCarry(): { newCarryIndex: bigint; carryPerBlock: bigint }
+
+  // LiquidationEngine
+  isLiquidatable(positionId: bigint): boolean
+  getLiquidationInfo(positionId: bigint): LiquidationInfo
+  calculateLiquidationFee(positionId: bigint): bigint
+
+  /** Same fields as readMarketSnapshot (timestamp 0: the model has no clock) */
+  getMarketData(): MarketData
+  getState(): ModelState
+  /** Independent copy at the current state */
+  clone(): ProtocolModel
+}
+
+/**
+ * Model of a freshly created market (PerpFactory.createMarket)
+ */
+export function createProtocolModel(options: ProtocolModelOptions): ProtocolModel {
+  const { baseReserve, quoteReserve } = options
+  if (baseReserve <= 0n || quoteReserve <= 0n) throw createProtocolError('InvalidReserves')
+
+  return modelFromState(options, {
+    baseReserve,
+    quoteReserve,
+    k: baseReserve * quoteReserve,
+    longOI: 0n,
+    shortOI: 0n,
+    carryIndex: 0n,
+    currentBlock: 1n,
+    lastFundingBlock: 1n,
+    nextPositionId: 1n,
+    positions: new Map(),
+    wallets: new Map(),
+    tradeFund: 0n,
+    insuranceFund: 0n,
+    protocolFees: 0n,
+    collateralBalance: 0n,
+  })
+}
+
+/**
+ * Model internals
+ */
+
+function modelFromState(options: ProtocolModelOptions, initial: ModelState): ProtocolModel {
+  const engineAddress = options.engineAddress ?? zeroAddress
+  let state = copyState(initial)
+
+  // Runs a state-changing call; a revert restores the state from before the call
+  const transact = <T>(fn: (events: ModelEvent[]) => T): ModelCall<T> => {
+    const saved = copyState(state)
+    const events: ModelEvent[] = []
+    try {
+      return { returnValue: fn(events), events }
+    } catch (error) {
+      state = saved
+      if (error instanceof VammError && error.reason !== 'ArithmeticError') throw createProtocolError(error.reason)
+      throw error
+    }
+  }
+
+  const walletOf = (user: Address) => state.wallets.get(user.toLowerCase()) ?? 0n
+  const credit = (user: Address, amount: bigint) => {
+    state.wallets.set(user.toLowerCase(), walletOf(user) + amount)
+  }
+
+  // Storage slot of a position: unset ids read as zeroed structs, like a Solidity mapping
+  const slot = (positionId: bigint): Position => state.positions.get(positionId) ?? emptyPosition()
+  const isOpen = (positionId: bigint) => {
+    const position = slot(positionId)
+    return position.id !== 0n && position.status === PositionStatus.OPEN
+  }
+  const getPosition = (positionId: bigint): Position => {
+    const position = slot(positionId)
+    if (position.id === 0n) throw createProtocolError('PositionNotFound')
+    return { ...position }
+  }
+
+  const reserves = (): Required<VammReserves> => ({
+    baseReserve: state.baseReserve,
+    quoteReserve: state.quoteReserve,
+    k: state.k,
+  })
+
+  const setReserves = (next: Required<VammReserves>, events: ModelEvent[]) => {
+    state.baseReserve = next.baseReserve
+    state.quoteReserve = next.quoteReserve
+    state.k = next.k
+    events.push({
+      contract: 'PerpMarket',
+      eventName: 'ReservesUpdated',
+      args: { baseReserve: next.baseReserve, quoteReserve: next.quoteReserve, markPrice: getMarkPrice(next) },
+    })
+  }
+
+  const increaseOpenInterest = (isLong: boolean, notional: bigint, events: ModelEvent[]) => {
+    if (isLong) state.longOI += notional
+    else state.shortOI += notional
+    emitOpenInterest(events)
+  }
+
+  const decreaseOpenInterest = (isLong: boolean, notional: bigint, events: ModelEvent[]) => {
+    if (isLong) state.longOI = checkedSub(state.longOI, notional)
+    else state.shortOI = checkedSub(state.shortOI, notional)
+    emitOpenInterest(events)
+  }
+
+  const emitOpenInterest = (events: ModelEvent[]) => {
+    events.push({
+      contract: 'PerpMarket',
+      eventName: 'OpenInterestUpdated',
+      args: { longOpenInterest: state.longOI, shortOpenInterest: state.shortOI },
+    })
+  }
+
+  const calculateUpdatedCarry = () => {
+    const carryPerBlock = calculateCarryPerBlock(state.longOI, state.shortOI)
+    return { newCarryIndex: state.carryIndex + carryPerBlock, carryPerBlock }
+  }
+
+  // fundingManager.calculateUpdatedCarry + market.updateFundingState(newIndex, currentBlock)
+  const updateCarry = () => {
+    state.carryIndex = calculateUpdatedCarry().newCarryIndex
+    state.lastFundingBlock = state.currentBlock
+  }
+
+  const marketView = () => ({ ...reserves(), carryIndex: state.carryIndex })
+
+  const simulateEquity = (positionId: bigint): PositionEquity => {
+    const position = slot(positionId)
+    if (position.status !== PositionStatus.OPEN) throw createProtocolError('PositionNotOpen')
+    return simulateEquityIfClosed(position, marketView())
+  }
+
+  const liquidationInfo = (positionId: bigint): LiquidationInfo => {
+    if (!isOpen(positionId)) {
+      return { isLiquidatable: false, currentLoss: 0n, allowedLoss: 0n, equity: 0n, leverage: 0n }
+    }
+    // LiquidationEngine.getLiquidationInfo has no same-block check; isLiquidatable adds it
+    return getLiquidationInfo({ ...slot(positionId), openBlock: undefined }, marketView())
+  }
+
+  const isLiquidatable = (positionId: bigint): boolean => {
+    if (!isOpen(positionId)) return false
+    if (slot(positionId).openBlock === state.currentBlock) return false
+    return liquidationInfo(positionId).isLiquidatable
+  }
+
+  const deposit = (account: Address, amount: bigint, events: ModelEvent[]) => {
+    if (amount === 0n) throw createProtocolError('InvalidAmount')
+    state.collateralBalance += amount
+    const internalAmount = amount * USDC_TO_INTERNAL
+    credit(account, internalAmount)
+    events.push({ contract: 'PerpEngine', eventName: 'Deposit', args: { user: account, amount: internalAmount } })
+  }
+
+  // PerpEngine._openPosition
+  const openPosition = (
+    account: Address,
+    isLong: boolean,
+    totalToUse: bigint,
+    leverage: bigint,
+    events: ModelEvent[]
+  ): bigint => {
+    if (totalToUse === 0n) throw createProtocolError('InvalidAmount')
+    if (leverage === 0n || leverage > MAX_LEVERAGE) throw createProtocolError('InvalidLeverage')
+    if (walletOf(account) < totalToUse) throw createProtocolError('InsufficientBalance')
+
+    const feeRate = getEffectiveOpenFeeRate(state.longOI, state.shortOI)
+    const denominator = PRECISION + (leverage * feeRate) / PRECISION
+    const margin = (totalToUse * PRECISION) / denominator
+    const notional = (margin * leverage) / PRECISION
+    const fee = (notional * feeRate) / PRECISION
+
+    credit(account, -totalToUse)
+    state.tradeFund += margin
+    const halfFee = fee / 2n
+    state.insuranceFund += halfFee
+    state.protocolFees += fee - halfFee
+
+    let baseSize: bigint
+    let entryPrice: bigint
+    if (isLong) {
+      const execution = executeOpenLong(reserves(), notional)
+      ;({ baseOut: baseSize, avgPrice: entryPrice } = execution)
+      setReserves(execution.reserves, events)
+    } else {
+      const execution = executeOpenShort(reserves(), notional)
+      ;({ baseIn: baseSize, avgPrice: entryPrice } = execution)
+      setReserves(execution.reserves, events)
+    }
+
+    // Carry steps on the open interest from before this position
+    updateCarry()
+
+    const positionId = state.nextPositionId++
+    const entryNotional = (baseSize * entryPrice) / PRECISION
+    const position: Position = {
+      id: positionId,
+      user: account,
+      isLong,
+      baseSize,
+      entryPrice,
+      entryNotional,
+      margin,
+      carrySnapshot: state.carryIndex,
+      openBlock: state.currentBlock,
+      status: PositionStatus.OPEN,
+      realizedPnl: 0n,
+    }
+    state.positions.set(positionId, position)
+    events.push({
+      contract: 'PositionManager',
+      eventName: 'PositionCreated',
+      args: {
+        positionId,
+        user: account,
+        isLong,
+        baseSize,
+        entryPrice,
+        entryNotional,
+        margin,
+        carrySnapshot: position.carrySnapshot,
+        openBlock: position.openBlock,
+      },
+    })
+
+    increaseOpenInterest(isLong, entryNotional, events)
+    events.push({
+      contract: 'PerpEngine',
+      eventName: 'PositionOpened',
+      args: { positionId, user: account, isLong, totalToUse, margin, fee, leverage, baseSize, entryPrice },
+    })
+    return positionId
+  }
+
+  // Shared by closePosition and liquidate: carry step, vAMM close, PnL at the post-trade mark
+  const settle = (position: Position, events: ModelEvent[]) => {
+    updateCarry()
+
+    let closeNotional: bigint
+    let avgClosePrice: bigint
+    if (position.isLong) {
+      const execution = executeCloseLong(reserves(), position.baseSize)
+      ;({ quoteOut: closeNotional, avgPrice: avgClosePrice } = execution)
+      setReserves(execution.reserves, events)
+    } else {
+      const execution = executeCloseShort(reserves(), position.baseSize)
+      ;({ quoteIn: closeNotional, avgPrice: avgClosePrice } = execution)
+      setReserves(execution.reserves, events)
+    }
+
+    const pnlTrade = position.isLong
+      ? closeNotional - position.entryNotional
+      : position.entryNotional - closeNotional
+
+    const notionalNow = (position.baseSize * getMarkPrice(reserves())) / PRECISION
+    const deltaCarry = state.carryIndex - position.carrySnapshot
+    const absCarry = deltaCarry >= 0n ? deltaCarry : -deltaCarry
+    const carryMagnitude = (notionalNow * absCarry) / PRECISION
+    const sideSign = position.isLong ? -1n : 1n
+    const carryPnl = carryMagnitude * sideSign * (deltaCarry >= 0n ? 1n : -1n)
+
+    return { closeNotional, avgClosePrice, totalPnl: pnlTrade + carryPnl }
+  }
+
+  const finalize = (position: Position, status: number, totalPnl: bigint, events: ModelEvent[]) => {
+    decreaseOpenInterest(position.isLong, position.entryNotional, events)
+    const stored = state.positions.get(position.id)!
+    if (stored.status !== PositionStatus.OPEN) throw createProtocolError('PositionNotOpen')
+    state.positions.set(position.id, { ...stored, status, realizedPnl: totalPnl })
+  }
+
+  return {
+    deposit: (account, amount) => transact((events) => deposit(account, uint256(amount), events)),
+
+    withdraw: (account, amount) => transact((events) => {
+      if (uint256(amount) === 0n) throw createProtocolError('InvalidAmount')
+      if (walletOf(account) < amount) throw createProtocolError('InsufficientBalance')
+      credit(account, -amount)
+
+      // safeTransfer reverts when the engine holds less USDC than the wallets claim
+      const usdcAmount = amount / USDC_TO_INTERNAL
+      if (state.collateralBalance < usdcAmount) {
+        throw createProtocolError('ERC20InsufficientBalance(address,uint256,uint256)', [engineAddress, state.collateralBalance, usdcAmount])
+      }
+      state.collateralBalance -= usdcAmount
+      events.push({ contract: 'PerpEngine', eventName: 'Withdraw', args: { user: account, amount } })
+    }),
+
+    openPosition: (account, isLong, totalToUse, leverage) => transact((events) =>
+      openPosition(account, isLong, uint256(totalToUse), uint256(leverage), events)
+    ),
+
+    depositAndOpenPosition: (account, depositAmount, isLong, totalToUse, leverage) => transact((events) => {
+      deposit(account, uint256(depositAmount), events)
+      return openPosition(account, isLong, uint256(totalToUse), uint256(leverage), events)
+    }),
+
+    closePosition: (account, positionId) => transact((events) => {
+      const position = getPosition(positionId)
+      if (position.user.toLowerCase() !== account.toLowerCase()) throw createProtocolError('NotPositionOwner')
+      if (!isOpen(positionId)) throw createProtocolError('PositionNotFound')
+
+      const { avgClosePrice, totalPnl } = settle(position, events)
+
+      const payout = position.margin + totalPnl
+      state.tradeFund = checkedSub(state.tradeFund, position.margin)
+      if (payout > 0n) credit(account, payout)
+
+      finalize(position, PositionStatus.CLOSED, totalPnl, events)
+      events.push({
+        contract: 'PerpEngine',
+        eventName: 'PositionClosed',
+        args: { positionId, user: account, totalPnl, avgClosePrice },
+      })
+      return totalPnl
+    }),
+
+    liquidate: (account, positionId) => transact((events) => {
+      if (!isLiquidatable(positionId)) throw createProtocolError('NotLiquidatable')
+      const position = getPosition(positionId)
+
+      const { closeNotional, totalPnl } = settle(position, events)
+      const equity = position.margin + totalPnl
+      const liqFee = (closeNotional * LIQUIDATION_FEE_RATIO) / PRECISION
+
+      state.tradeFund = checkedSub(state.tradeFund, position.margin)
+
+      if (equity > liqFee) {
+        credit(position.user, equity - liqFee)
+        credit(account, liqFee)
+      } else if (equity > 0n) {
+        credit(account, equity)
+      } else {
+        // Bad debt: insurance covers it and the fee, or pays out what it has
+        const badDebt = -equity
+        if (state.insuranceFund >= badDebt + liqFee) {
+          state.insuranceFund -= badDebt + liqFee
+          credit(account, liqFee)
+        } else if (state.insuranceFund > 0n) {
+          credit(account, state.insuranceFund)
+          state.insuranceFund = 0n
+        }
+      }
+
+      finalize(position, PositionStatus.LIQUIDATED, totalPnl, events)
+      events.push({
+        contract: 'PerpEngine',
+        eventName: 'PositionLiquidated',
+        args: { positionId, user: position.user, liquidator: account, liqFee },
+      })
+    }),
+
+    getWalletBalance: (user) => asInternal(walletOf(user)),
+
+    getFundBalances: () => ({
+      trade: asInternal(state.tradeFund),
+      insurance: asInternal(state.insuranceFund),
+      protocol: asInternal(state.protocolFees),
+    }),
+
+    getMarkPrice: () => getMarkPrice(reserves()),
+
+    advanceBlocks: (blocks) => {
+      state.currentBlock += uint256(blocks)
+    },
+
+    getPosition,
+    isPositionOpen: isOpen,
+    getEffectiveOpenFeeRate: () => getEffectiveOpenFeeRate(state.longOI, state.shortOI),
+    simulateEquityIfClosed: simulateEquity,
+    calculateUpdatedCarry,
+    isLiquidatable,
+    getLiquidationInfo: liquidationInfo,
+
+    calculateLiquidationFee: (positionId) => {
+      const position = getPosition(positionId)
+      const closeNotional = position.isLong
+        ? simulateCloseLong(reserves(), position.baseSize).quoteOut
+        : simulateCloseShort(reserves(), position.baseSize).quoteIn
+      return (closeNotional * LIQUIDATION_FEE_RATIO) / PRECISION
+    },
+
+    getMarketData: () => ({
+      marketAddress: options.marketAddress ?? zeroAddress,
+      baseReserve: state.baseReserve,
+      quoteReserve: state.quoteReserve,
+      markPrice: getMarkPrice(reserves()),
+      longOI: state.longOI,
+      shortOI: state.shortOI,
+      netOI: state.longOI - state.shortOI,
+      carryIndex: state.carryIndex,
+      currentBlock: state.currentBlock,
+      lastFundingBlock: state.lastFundingBlock,
+      tradeFund: state.tradeFund,
+      insuranceFund: state.insuranceFund,
+      protocolFees: state.protocolFees,
+      timestamp: 0,
+    }),
+
+    getState: () => copyState(state),
+    clone: () => modelFromState(options, state),
+  }
+}
+
+/**
+ * Helpers
+ */
+
+function copyState(state: ModelState): ModelState {
+  return {
+    ...state,
+    positions: new Map(Array.from(state.positions, ([id, position]) => [id, { ...position }])),
+    wallets: new Map(state.wallets),
+  }
+}
+
+function emptyPosition(): Position {
+  return {
+    id: 0n,
+    user: zeroAddress,
+    isLong: false,
+    baseSize: 0n,
+    entryPrice: 0n,
+    entryNotional: 0n,
+    margin: 0n,
+    carrySnapshot: 0n,
+    openBlock: 0n,
+    status: PositionStatus.OPEN,
+    realizedPnl: 0n,
+  }
+}
+
+/** Checked uint256 subtraction: underflow reverts (Panic 0x11) instead of going negative */
+function checkedSub(a: bigint, b: bigint): bigint {
+  if (b > a) throw new RangeError(`Arithmetic underflow: ${a} - ${b}`)
+  return a - b
+}
+
+/** Calldata can only carry uint256: negative inputs are rejected like an ABI encoder would */
+function uint256(value: bigint): bigint {
+  if (value < 0n) throw new RangeError(`Expected a uint256, got ${value}`)
+  return value
+}
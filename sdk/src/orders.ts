@@ -0,0 +1,143 @@
+import {
+  PRECISION,
+  MAX_LEVERAGE,
+  BASE_OPEN_FEE_RATE,
+  OI_SKEW_FEE_MULTIPLIER,
+} from './constants.js'
+import { executeOpenLong, executeOpenShort, getMarkPrice, type VammReserves } from './vamm.js'
+
+/**
+ * Pre-trade calculator
+ * Reproduces PositionManager.getEffectiveOpenFeeRate and PerpEngine._openPosition (Mode 3)
+ */
+
+/**
+ * Market state needed to quote an open: reserves plus open interest
+ * MarketData satisfies this shape
+ */
+export interface OpenQuoteMarket extends VammReserves {
+  longOI: bigint
+  shortOI: bigint
+}
+
+export interface OpenQuoteParams {
+  isLong: boolean
+  totalToUse: bigint      // 18 decimals, taken from the engine wallet
+  leverage: bigint        // 18 decimals, e.g. 10e18 = 10x
+  walletBalance?: bigint  // 18 decimals; when set, InsufficientBalance is checked too
+}
+
+export interface OpenQuote {
+  isLong: boolean
+  totalToUse: bigint
+  leverage: bigint
+  feeRate: bigint
+  margin: bigint
+  notional: bigint
+  fee: bigint
+  insuranceFee: bigint    // 50% of fee, rounded down
+  protocolFee: bigint     // fee - insuranceFee
+  unallocated: bigint     // totalToUse - margin - fee (rounding dust kept by the engine)
+  baseSize: bigint
+  entryPrice: bigint
+  entryNotional: bigint   // added to open interest
+  markPriceBefore: bigint
+  markPriceAfter: bigint
+  priceImpact: bigint     // |entryPrice - markPriceBefore| / markPriceBefore (18 decimals)
+  reservesAfter: Required<VammReserves>
+  longOIAfter: bigint
+  shortOIAfter: bigint
+}
+
+/**
+ * Error thrown where PerpEngine.openPosition would revert on validation
+ */
+export class QuoteError extends Error {
+  constructor(public readonly reason: 'InvalidAmount' | 'InvalidLeverage' | 'InsufficientBalance') {
+    super(`Quote ${reason}`)
+    this.name = 'QuoteError'
+  }
+}
+
+/**
+ * Mirror of PositionManager.getEffectiveOpenFeeRate
+ * feeRate = BASE_FEE_RATE * (1 + |imbalanceRatio| * OI_SKEW_MULTIPLIER)
+ */
+export function getEffectiveOpenFeeRate(longOI: bigint, shortOI: bigint): bigint {
+  const totalOI = longOI + shortOI
+  if (totalOI === 0n) return BASE_OPEN_FEE_RATE
+
+  const imbalance = longOI - shortOI
+  const absImbalance = imbalance >= 0n ? imbalance : -imbalance
+  const imbalanceRatio = (absImbalance * PRECISION) / totalOI
+
+  const skewAdjustment = (imbalanceRatio * OI_SKEW_FEE_MULTIPLIER) / PRECISION
+  return (BASE_OPEN_FEE_RATE * (PRECISION + skewAdjustment)) / PRECISION
+}
+
+/**
+ * Quote PerpEngine.openPosition(isLong, totalToUse, leverage) against a market snapshot
+ * Same validation order, rounding and fee split as the contract
+ */
+export function quoteOpenPosition(market: OpenQuoteMarket, params: OpenQuoteParams): OpenQuote {
+  const { isLong, totalToUse, leverage, walletBalance } = params
+
+  if (totalToUse === 0n) throw new QuoteError('InvalidAmount')
+  if (leverage === 0n || leverage > MAX_LEVERAGE) throw new QuoteError('InvalidLeverage')
+  if (walletBalance !== undefined && walletBalance < totalToUse) throw new QuoteError('InsufficientBalance')
+
+  const feeRate = getEffectiveOpenFeeRate(market.longOI, market.shortOI)
+
+  // margin = totalToUse / (1 + leverage * feeRate)
+  const denominator = PRECISION + (leverage * feeRate) / PRECISION
+  const margin = (totalToUse * PRECISION) / denominator
+  const notional = (margin * leverage) / PRECISION
+  const fee = (notional * feeRate) / PRECISION
+
+  const insuranceFee = fee / 2n
+  const protocolFee = fee - insuranceFee
+
+  const markPriceBefore = getMarkPrice(market)
+  let baseSize: bigint
+  let entryPrice: bigint
+  let reservesAfter: Required<VammReserves>
+
+  if (isLong) {
+    const result = executeOpenLong(market, notional)
+    baseSize = result.baseOut
+    entryPrice = result.avgPrice
+    reservesAfter = result.reserves
+  } else {
+    const result = executeOpenShort(market, notional)
+    baseSize = result.baseIn
+    entryPrice = result.avgPrice
+    reservesAfter = result.reserves
+  }
+
+  const entryNotional = (baseSize * entryPrice) / PRECISION
+  const priceDelta = entryPrice >= markPriceBefore
+    ? entryPrice - markPriceBefore
+    : markPriceBefore - entryPrice
+
+  return {
+    isLong,
+    totalToUse,
+    leverage,
+    feeRate,
+    margin,
+    notional,
+    fee,
+    insuranceFee,
+    protocolFee,
+    unallocated: totalToUse - margin - fee,
+    baseSize,
+    entryPrice,
+    entryNotional,
+    markPriceBefore,
+    markPriceAfter: getMarkPrice(reservesAfter),
+    priceImpact: entryPrice === 0n ? 0n : (priceDelta * PRECISION) / markPriceBefore,
+    reservesAfter,
+    longOIAfter: isLong ? market.longOI + entryNotional : market.longOI,
+    shortOIAfter: isLong ? market.shortOI : market.shortOI + entryNotional,
+  }
+}
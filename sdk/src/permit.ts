@@ -0,0 +1,219 @@
+import type { Address, Hex, PublicClient, WalletClient } from 'viem'
+import { parseSignature } from 'viem'
+import { mockUsdcAbi, perpEngineAbi } from './generated.js'
+import { executeTransaction, type TransactionResult } from './utils.js'
+import type { TransactionManager } from './transactions.js'
+import type { UsdcAmount, InternalAmount, Leverage18 } from './units.js'
+
+/**
+ * EIP-2612 permit flows
+ * Sign a USDC permit for the engine and deposit (or deposit + open) in a single transaction
+ */
+
+export interface PermitDomain {
+  name: string
+  version: string
+  chainId: number
+  verifyingContract: Address
+}
+
+export interface PermitSignature {
+  owner: Address
+  spender: Address
+  value: UsdcAmount   // allowance granted
+  nonce: bigint
+  deadline: bigint    // unix seconds
+  v: number
+  r: Hex
+  s: Hex
+}
+
+export interface SignPermitParams {
+  publicClient: PublicClient
+  walletClient: WalletClient
+  token: Address
+  spender: Address
+  value: UsdcAmount
+  deadline?: bigint   // defaults to latest block timestamp + DEFAULT_PERMIT_TTL
+  account?: Address
+}
+
+export interface DepositWithPermitParams {
+  publicClient: PublicClient
+  walletClient: WalletClient
+  engine: Address
+  amount: UsdcAmount          // USDC to deposit
+  // Allowance to sign; defaults to amount. A signature is single-use (the permit nonce increments), but
+  // maxUint256 leaves an unlimited allowance, so later plain deposit calls need no permit
+  permitAmount?: UsdcAmount
+  deadline?: bigint
+  token?: Address             // defaults to engine.collateralToken()
+  account?: Address
+  transactionManager?: TransactionManager
+}
+
+export interface DepositAndOpenWithPermitParams extends DepositWithPermitParams {
+  isLong: boolean
+  totalToUse: InternalAmount  // taken from the engine wallet after the deposit
+  leverage: Leverage18
+}
+
+export interface PermitTransactionResult extends TransactionResult {
+  permit: PermitSignature
+}
+
+/** Seconds a permit stays valid by default */
+export const DEFAULT_PERMIT_TTL = 3600n
+
+/** EIP-2612 Permit typed data */
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const
+
+/**
+ * Current permit nonce of an owner
+ */
+export async function getPermitNonce(publicClient: PublicClient, token: Address, owner: Address): Promise<bigint> {
+  return publicClient.readContract({
+    address: token,
+    abi: mockUsdcAbi,
+    functionName: 'nonces',
+    args: [owner],
+  })
+}
+
+/**
+ * EIP-712 domain of a permit token
+ * Uses EIP-5267 eip712Domain() and falls back to name() + version "1" for tokens without it
+ */
+export async function getPermitDomain(publicClient: PublicClient, token: Address): Promise<PermitDomain> {
+  try {
+    const [, name, version, chainId, verifyingContract] = await publicClient.readContract({
+      address: token,
+      abi: mockUsdcAbi,
+      functionName: 'eip712Domain',
+    })
+    return { name, version, chainId: Number(chainId), verifyingContract }
+  } catch {
+    const [name, chainId] = await Promise.all([
+      publicClient.readContract({ address: token, abi: mockUsdcAbi, functionName: 'name' }),
+      publicClient.getChainId(),
+    ])
+    return { name, version: '1', chainId, verifyingContract: token }
+  }
+}
+
+/**
+ * Sign an EIP-2612 permit with a viem WalletClient
+ */
+export async function signPermit(params: SignPermitParams): Promise<PermitSignature> {
+  const { publicClient, walletClient, token, spender, value } = params
+
+  const account = params.account || walletClient.account?.address
+  if (!account) {
+    throw new Error('No account connected')
+  }
+
+  const [nonce, domain, deadline] = await Promise.all([
+    getPermitNonce(publicClient, token, account),
+    getPermitDomain(publicClient, token),
+    params.deadline ?? publicClient.getBlock().then((block) => block.timestamp + DEFAULT_PERMIT_TTL),
+  ])
+
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account ?? account,
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { owner: account, spender, value, nonce, deadline },
+  })
+
+  const { r, s, v, yParity } = parseSignature(signature)
+
+  return {
+    owner: account,
+    spender,
+    value,
+    nonce,
+    deadline,
+    v: v !== undefined ? Number(v) : yParity + 27,
+    r,
+    s,
+  }
+}
+
+/**
+ * Sign a permit for the engine and call PerpEngine.depositWithPermit
+ */
+export async function depositWithPermit(params: DepositWithPermitParams): Promise<PermitTransactionResult> {
+  const permit = await signEnginePermit(params)
+
+  const result = await executeTransaction({
+    publicClient: params.publicClient,
+    walletClient: params.walletClient,
+    address: params.engine,
+    abi: perpEngineAbi,
+    functionName: 'depositWithPermit',
+    args: [params.amount, permit.value, permit.deadline, permit.v, permit.r, permit.s],
+    account: params.account,
+    transactionManager: params.transactionManager,
+  })
+
+  return { ...result, permit }
+}
+
+/**
+ * Sign a permit for the engine and call PerpEngine.depositAndOpenPositionWithPermit
+ */
+export async function depositAndOpenPositionWithPermit(
+  params: DepositAndOpenWithPermitParams
+): Promise<PermitTransactionResult> {
+  const permit = await signEnginePermit(params)
+
+  const result = await executeTransaction({
+    publicClient: params.publicClient,
+    walletClient: params.walletClient,
+    address: params.engine,
+    abi: perpEngineAbi,
+    functionName: 'depositAndOpenPositionWithPermit',
+    args: [
+      params.amount,
+      permit.value,
+      params.isLong,
+      params.totalToUse,
+      params.leverage,
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s,
+    ],
+    account: params.account,
+    transactionManager: params.transactionManager,
+  })
+
+  return { ...result, permit }
+}
+
+async function signEnginePermit(params: DepositWithPermitParams): Promise<PermitSignature> {
+  const token = params.token ?? await params.publicClient.readContract({
+    address: params.engine,
+    abi: perpEngineAbi,
+    functionName: 'collateralToken',
+  })
+
+  return signPermit({
+    publicClient: params.publicClient,
+    walletClient: params.walletClient,
+    token,
+    spender: params.engine,
+    value: params.permitAmount ?? params.amount,
+    deadline: params.deadline,
+    account: params.account,
+  })
+}
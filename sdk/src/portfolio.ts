@@ -0,0 +1,211 @@
+import type { Address, PublicClient } from 'viem'
+import { perpEngineAbi, perpFactoryAbi, positionManagerAbi } from './generated.js'
+import { batchRead, type ReadMarketSnapshotOptions } from './snapshot.js'
+import { getEngineLogs } from './positions.js'
+import { PositionStatus, type Position, type PositionEquity } from './types.js'
+import { asInternal, type InternalAmount } from './units.js'
+
+/**
+ * Cross-market portfolio
+ * Markets are isolated (one engine wallet per market), so a user's exposure is gathered engine by engine:
+ * markets are discovered from the user's Deposit / PositionOpened logs, then every balance, position
+ * and equity is read in batched calls pinned to one block
+ */
+
+export interface ReadPortfolioOptions extends Pick<ReadMarketSnapshotOptions, 'mode' | 'multicallAddress'> {
+  user: Address
+  /** PerpFactory to list markets from (getAllMarkets) */
+  factory?: Address
+  /** Engines to consider instead of every factory market */
+  engines?: readonly Address[]
+  /** Block to read at; defaults to the latest block */
+  blockNumber?: bigint
+}
+
+export interface PortfolioPosition {
+  engine: Address
+  position: Position
+  /** PositionManager.simulateEquityIfClosed at the portfolio block */
+  equity: PositionEquity
+}
+
+export interface PortfolioTotals {
+  walletBalance: InternalAmount   // engine wallets (free collateral)
+  totalMargin: InternalAmount     // margin locked in open positions
+  tradePnl: bigint                // vAMM PnL if every position closed now
+  carryPnl: bigint                // accrued carry (positive = received)
+  unrealizedPnl: bigint           // tradePnl + carryPnl
+  /** walletBalance + equityIfClosed of every open position */
+  equity: bigint
+}
+
+export interface PortfolioMarket extends PortfolioTotals {
+  engine: Address
+  market: Address
+  positionManager: Address
+  /** Open positions, by id */
+  positions: PortfolioPosition[]
+}
+
+export interface Portfolio {
+  user: Address
+  blockNumber: bigint
+  /** Markets the user has touched (deposited into or traded on), in factory order */
+  markets: PortfolioMarket[]
+  totals: PortfolioTotals
+}
+
+/**
+ * Read a user's balances, open positions and PnL across every market
+ * Markets the user never deposited into or traded on are left out
+ */
+export async function readPortfolio(
+  publicClient: PublicClient,
+  options: ReadPortfolioOptions
+): Promise<Portfolio> {
+  const { user } = options
+  const blockNumber = options.blockNumber ?? await publicClient.getBlockNumber()
+
+  let engines = options.engines
+  if (!engines) {
+    if (!options.factory) throw new Error('readPortfolio needs a factory or an engines list')
+    engines = await publicClient.readContract({
+      address: options.factory,
+      abi: perpFactoryAbi,
+      functionName: 'getAllMarkets',
+      blockNumber,
+    })
+  }
+  if (engines.length === 0) return emptyPortfolio(user, blockNumber)
+
+  // 4 reads per engine
+  const engineReads = await batchRead(
+    publicClient,
+    engines.flatMap((engine) => [
+      { address: engine, abi: perpEngineAbi, functionName: 'market' },
+      { address: engine, abi: perpEngineAbi, functionName: 'positionManager' },
+      { address: engine, abi: perpEngineAbi, functionName: 'deploymentBlock' },
+      { address: engine, abi: perpEngineAbi, functionName: 'getWalletBalance', args: [user] },
+    ] as const),
+    blockNumber,
+    options
+  )
+  const infos = engines.map((engine, i) => {
+    const [market, positionManager, deploymentBlock, walletBalance] =
+      engineReads.slice(i * 4, i * 4 + 4) as [Address, Address, bigint, bigint]
+    return { engine, market, positionManager, deploymentBlock, walletBalance: asInternal(walletBalance) }
+  })
+
+  // Every market the user deposited into or opened a position on, from the indexed user topic
+  const fromBlock = infos.reduce((min, { deploymentBlock }) => (deploymentBlock < min ? deploymentBlock : min), blockNumber)
+  const [deposits, opens] = await Promise.all([
+    getEngineLogs(publicClient, 'Deposit', engines, user, fromBlock, blockNumber),
+    getEngineLogs(publicClient, 'PositionOpened', engines, user, fromBlock, blockNumber),
+  ])
+
+  const touched = new Set<string>()
+  const positionIds = new Map<string, bigint[]>()
+  for (const event of [...deposits, ...opens]) {
+    const key = event.address.toLowerCase()
+    touched.add(key)
+    if (event.eventName !== 'PositionOpened') continue
+    const ids = positionIds.get(key) ?? []
+    if (!ids.includes(event.positionId)) ids.push(event.positionId)
+    positionIds.set(key, ids)
+  }
+
+  const markets = infos.filter(({ engine, walletBalance }) => walletBalance > 0n || touched.has(engine.toLowerCase()))
+
+  // Position + equity for every position the user opened; closed ones are dropped after the read
+  const candidates = markets.flatMap(({ engine, positionManager }) =>
+    (positionIds.get(engine.toLowerCase()) ?? [])
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+      .map((positionId) => ({ engine, positionManager, positionId }))
+  )
+  const positionReads = await batchRead(
+    publicClient,
+    candidates.map(({ positionManager, positionId }) => ({
+      address: positionManager,
+      abi: positionManagerAbi,
+      functionName: 'getPosition',
+      args: [positionId],
+    } as const)),
+    blockNumber,
+    options
+  )
+  const open = candidates
+    .map((candidate, i) => ({ ...candidate, position: positionReads[i] as Position }))
+    .filter(({ position }) => position.status === PositionStatus.OPEN)
+
+  const equityReads = await batchRead(
+    publicClient,
+    open.map(({ positionManager, positionId }) => ({
+      address: positionManager,
+      abi: positionManagerAbi,
+      functionName: 'simulateEquityIfClosed',
+      args: [positionId],
+    } as const)),
+    blockNumber,
+    options
+  )
+  const positions: PortfolioPosition[] = open.map(({ engine, position }, i) => {
+    const [closeNotional, avgClosePrice, pnlTrade, carryPnl, totalPnl, equityIfClosed] =
+      equityReads[i] as [bigint, bigint, bigint, bigint, bigint, bigint]
+    return { engine, position, equity: { closeNotional, avgClosePrice, pnlTrade, carryPnl, totalPnl, equityIfClosed } }
+  })
+
+  const portfolioMarkets = markets.map(({ engine, market, positionManager, walletBalance }) => {
+    const marketPositions = positions.filter((entry) => entry.engine === engine)
+    return { engine, market, positionManager, positions: marketPositions, ...sumPositions(walletBalance, marketPositions) }
+  })
+
+  return {
+    user,
+    blockNumber,
+    markets: portfolioMarkets,
+    totals: sumTotals(portfolioMarkets),
+  }
+}
+
+/**
+ * Helpers
+ */
+
+function sumPositions(walletBalance: InternalAmount, positions: readonly PortfolioPosition[]): PortfolioTotals {
+  let totalMargin = 0n
+  let tradePnl = 0n
+  let carryPnl = 0n
+  let equity: bigint = walletBalance
+
+  for (const { position, equity: positionEquity } of positions) {
+    totalMargin += position.margin
+    tradePnl += positionEquity.pnlTrade
+    carryPnl += positionEquity.carryPnl
+    equity += positionEquity.equityIfClosed
+  }
+
+  return {
+    walletBalance,
+    totalMargin: asInternal(totalMargin),
+    tradePnl,
+    carryPnl,
+    unrealizedPnl: tradePnl + carryPnl,
+    equity,
+  }
+}
+
+function sumTotals(markets: readonly PortfolioTotals[]): PortfolioTotals {
+  const sum = (field: keyof PortfolioTotals) => markets.reduce((total, market) => total + market[field], 0n)
+  return {
+    walletBalance: asInternal(sum('walletBalance')),
+    totalMargin: asInternal(sum('totalMargin')),
+    tradePnl: sum('tradePnl'),
+    carryPnl: sum('carryPnl'),
+    unrealizedPnl: sum('unrealizedPnl'),
+    equity: sum('equity'),
+  }
+}
+
+function emptyPortfolio(user: Address, blockNumber: bigint): Portfolio {
+  return { user, blockNumber, markets: [], totals: sumTotals([]) }
+}
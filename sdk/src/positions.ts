@@ -0,0 +1,238 @@
+import type { Address, Hash, PublicClient } from 'viem'
+import { getAbiItem } from 'viem'
+import { perpEngineAbi, positionManagerAbi } from './generated.js'
+import { batchRead, type ReadMarketSnapshotOptions } from './snapshot.js'
+import { decodeProtocolEvents, type ProtocolEvent } from './events.js'
+import { isRangeTooLargeError } from './backfill.js'
+import type { Position } from './types.js'
+
+/**
+ * Position discovery
+ * PositionManager has no per-user index: ids come from PositionOpened logs (user is an indexed topic),
+ * then status and data are read in batched calls pinned to one block
+ */
+
+export interface GetPositionsOptions extends Pick<ReadMarketSnapshotOptions, 'mode' | 'multicallAddress'> {
+  /** Block to read at; defaults to the latest block */
+  blockNumber?: bigint
+  /** First block to search for opens; defaults to engine.deploymentBlock() */
+  fromBlock?: bigint
+}
+
+export interface GetUserPositionsOptions extends GetPositionsOptions {
+  /** Return closed and liquidated positions too (default: open only) */
+  includeClosed?: boolean
+}
+
+export interface GetAllOpenPositionsOptions extends GetPositionsOptions {
+  /** Reuse the previous scan of this engine (default true); only newer blocks are searched */
+  cache?: boolean
+}
+
+// Engine events with an indexed user topic
+const USER_EVENTS = {
+  Deposit: getAbiItem({ abi: perpEngineAbi, name: 'Deposit' }),
+  PositionOpened: getAbiItem({ abi: perpEngineAbi, name: 'PositionOpened' }),
+}
+
+export type UserEventName = keyof typeof USER_EVENTS
+
+interface OpenPositionsScan {
+  blockNumber: bigint
+  blockHash: Hash
+  positions: Position[]
+}
+
+// Last scan per client and engine; a later block only searches the blocks after it
+const openPositionsCache = new WeakMap<PublicClient, Map<string, OpenPositionsScan>>()
+
+/**
+ * Positions a user opened on one engine, by id
+ * Open only unless includeClosed; status is checked with batched isPositionOpen at one block
+ */
+export async function getUserPositions(
+  publicClient: PublicClient,
+  engine: Address,
+  user: Address,
+  options: GetUserPositionsOptions = {}
+): Promise<Position[]> {
+  const blockNumber = options.blockNumber ?? await publicClient.getBlockNumber()
+  const { positionManager, fromBlock } = await readEngine(publicClient, engine, blockNumber, options)
+
+  const events = await getEngineLogs(publicClient, 'PositionOpened', [engine], user, fromBlock, blockNumber)
+  const ids = uniqueIds(events)
+  const selected = options.includeClosed ? ids : await filterOpen(publicClient, positionManager, ids, blockNumber, options)
+
+  return readPositions(publicClient, positionManager, selected, blockNumber, options)
+}
+
+/**
+ * Every open position of one engine, by id (liquidators)
+ * Results are cached per block: the same block is served from memory, a later block only
+ * searches the logs after the previous scan and re-checks the known ids' status.
+ * A scan whose block was reorged out (hash no longer canonical) is dropped and redone from the start,
+ * and a scan whose block is reorged out while it runs is returned but not cached
+ */
+export async function getAllOpenPositions(
+  publicClient: PublicClient,
+  engine: Address,
+  options: GetAllOpenPositionsOptions = {}
+): Promise<Position[]> {
+  const blockNumber = options.blockNumber ?? await publicClient.getBlockNumber()
+  const useCache = options.cache ?? true
+
+  let engines = openPositionsCache.get(publicClient)
+  if (!engines) {
+    engines = new Map()
+    openPositionsCache.set(publicClient, engines)
+  }
+  const key = engine.toLowerCase()
+  // An older block or a reorged one can't be derived from a previous scan: start over
+  const previous = useCache ? engines.get(key) : undefined
+  const base = previous && previous.blockNumber <= blockNumber && await isCanonical(publicClient, previous)
+    ? previous
+    : undefined
+  if (base?.blockNumber === blockNumber) return base.positions
+
+  // Hash first: the reads below are only cached if this block is still canonical once they are done
+  const { hash: blockHash } = await publicClient.getBlock({ blockNumber })
+  const { positionManager, fromBlock } = await readEngine(publicClient, engine, blockNumber, options)
+  const events = await getEngineLogs(
+    publicClient,
+    'PositionOpened',
+    [engine],
+    undefined,
+    base ? base.blockNumber + 1n : fromBlock,
+    blockNumber
+  )
+
+  // Open positions never change while open: only new ids are read
+  const known = new Map((base?.positions ?? []).map((position) => [position.id, position]))
+  const candidates = [...new Set([...known.keys(), ...uniqueIds(events)])].sort(compareIds)
+  const open = await filterOpen(publicClient, positionManager, candidates, blockNumber, options)
+  const fetched = await readPositions(
+    publicClient,
+    positionManager,
+    open.filter((id) => !known.has(id)),
+    blockNumber,
+    options
+  )
+  fetched.forEach((position) => known.set(position.id, position))
+
+  const positions = open.map((id) => known.get(id)!)
+  const scan = { blockNumber, blockHash, positions }
+  if (await isCanonical(publicClient, scan)) engines.set(key, scan)
+  return positions
+}
+
+/**
+ * Engine logs with an indexed user topic (every user when user is undefined),
+ * halving the range when the RPC rejects it
+ */
+export async function getEngineLogs(
+  publicClient: PublicClient,
+  eventName: UserEventName,
+  engines: readonly Address[],
+  user: Address | undefined,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<ProtocolEvent[]> {
+  if (fromBlock > toBlock) return []
+  try {
+    const logs = await publicClient.getLogs({
+      address: [...engines],
+      event: USER_EVENTS[eventName],
+      args: user ? { user } : undefined,
+      fromBlock,
+      toBlock,
+    })
+    return decodeProtocolEvents(logs)
+  } catch (error) {
+    if (!isRangeTooLargeError(error) || fromBlock >= toBlock) throw error
+    const middle = (fromBlock + toBlock) / 2n
+    const first = await getEngineLogs(publicClient, eventName, engines, user, fromBlock, middle)
+    const second = await getEngineLogs(publicClient, eventName, engines, user, middle + 1n, toBlock)
+    return [...first, ...second]
+  }
+}
+
+/**
+ * Helpers
+ */
+
+async function readEngine(
+  publicClient: PublicClient,
+  engine: Address,
+  blockNumber: bigint,
+  options: GetPositionsOptions
+): Promise<{ positionManager: Address; fromBlock: bigint }> {
+  const [positionManager, deploymentBlock] = await batchRead(
+    publicClient,
+    [
+      { address: engine, abi: perpEngineAbi, functionName: 'positionManager' },
+      { address: engine, abi: perpEngineAbi, functionName: 'deploymentBlock' },
+    ],
+    blockNumber,
+    options
+  ) as [Address, bigint]
+  return { positionManager, fromBlock: options.fromBlock ?? deploymentBlock }
+}
+
+async function filterOpen(
+  publicClient: PublicClient,
+  positionManager: Address,
+  ids: readonly bigint[],
+  blockNumber: bigint,
+  options: GetPositionsOptions
+): Promise<bigint[]> {
+  const isOpen = await batchRead(
+    publicClient,
+    ids.map((id) => ({
+      address: positionManager,
+      abi: positionManagerAbi,
+      functionName: 'isPositionOpen',
+      args: [id],
+    } as const)),
+    blockNumber,
+    options
+  )
+  return ids.filter((_, i) => isOpen[i] === true)
+}
+
+async function readPositions(
+  publicClient: PublicClient,
+  positionManager: Address,
+  ids: readonly bigint[],
+  blockNumber: bigint,
+  options: GetPositionsOptions
+): Promise<Position[]> {
+  const positions = await batchRead(
+    publicClient,
+    ids.map((id) => ({
+      address: positionManager,
+      abi: positionManagerAbi,
+      functionName: 'getPosition',
+      args: [id],
+    } as const)),
+    blockNumber,
+    options
+  )
+  return positions as Position[]
+}
+
+async function isCanonical(publicClient: PublicClient, scan: OpenPositionsScan): Promise<boolean> {
+  const block = await publicClient.getBlock({ blockNumber: scan.blockNumber })
+  return block.hash === scan.blockHash
+}
+
+function uniqueIds(events: readonly ProtocolEvent[]): bigint[] {
+  const ids = new Set<bigint>()
+  for (const event of events) {
+    if (event.eventName === 'PositionOpened') ids.add(event.positionId)
+  }
+  return [...ids].sort(compareIds)
+}
+
+function compareIds(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
@@ -0,0 +1,475 @@
+import type { Address, Hex, PublicClient, StateOverride } from 'viem'
+import { decodeFunctionResult, encodeFunctionData, numberToHex, pad, zeroHash } from 'viem'
+import { perpEngineAbi, positionManagerAbi } from './generated.js'
+import { PRECISION } from './constants.js'
+import { decodeProtocolEvents, type ProtocolEvent, type ProtocolLog } from './events.js'
+import { createProtocolError, decodeProtocolError } from './errors.js'
+import { readMarketSnapshot, type MarketSnapshot } from './snapshot.js'
+import { quoteOpenPosition, QuoteError } from './orders.js'
+import { executeCloseLong, executeCloseShort, getMarkPrice, VammError } from './vamm.js'
+import { calculateCarryPnl, projectCarryIndex } from './funding.js'
+import { asInternal, asPrice, type InternalAmount, type Leverage18, type Price18 } from './units.js'
+import { PositionStatus, type Position } from './types.js'
+
+/**
+ * Transaction preview
+ * Runs openPosition / closePosition / withdraw through debug_traceCall before signing: the call tracer
+ * yields the events, the prestate tracer the storage diff, and state is read before and on top of that diff.
+ * Nodes without debug_traceCall get the same diff from the offline math
+ */
+
+export type PreviewAction =
+  | { type: 'openPosition'; isLong: boolean; totalToUse: InternalAmount; leverage: Leverage18 }
+  | { type: 'closePosition'; positionId: bigint }
+  | { type: 'withdraw'; amount: InternalAmount }
+
+export type PreviewSource = 'trace' | 'offline'
+
+export interface PreviewTransactionParams {
+  engine: Address
+  /** Sender of the previewed call */
+  account: Address
+  action: PreviewAction
+  /** Block to preview on top of; defaults to the latest block */
+  blockNumber?: bigint
+  /** 'auto' traces and falls back to offline when the node cannot trace (default) */
+  mode?: PreviewSource | 'auto'
+}
+
+/** Protocol state a preview compares; amounts in engine units */
+export interface PreviewState {
+  walletBalance: InternalAmount   // account's engine wallet
+  tradeFund: InternalAmount
+  insuranceFund: InternalAmount
+  protocolFees: InternalAmount
+  baseReserve: bigint
+  quoteReserve: InternalAmount
+  markPrice: Price18
+  longOI: InternalAmount
+  shortOI: InternalAmount
+  carryIndex: bigint
+  marketBlock: bigint             // PerpMarket.currentBlock (virtual block used for openBlock)
+  /** Position being opened or closed; null before an open and for withdraw */
+  position: Position | null
+}
+
+export type PreviewField = Exclude<keyof PreviewState, 'position'>
+
+export interface ValueChange<T extends bigint = bigint> {
+  before: T
+  after: T
+  delta: T      // after - before, signed
+}
+
+export type PreviewChanges = { [K in PreviewField]: ValueChange<PreviewState[K]> }
+
+export interface TransactionPreview {
+  action: PreviewAction
+  source: PreviewSource
+  blockNumber: bigint
+  before: PreviewState
+  after: PreviewState
+  changes: PreviewChanges
+  /** Fields whose delta is non-zero, in PreviewState order */
+  changed: PreviewField[]
+  /** Events the call would emit (trace only; empty offline) */
+  events: ProtocolEvent[]
+  /** openPosition: the new position id; closePosition: totalPnl; withdraw: undefined */
+  returnValue?: bigint
+}
+
+const PREVIEW_FIELDS: readonly PreviewField[] = [
+  'walletBalance',
+  'tradeFund',
+  'insuranceFund',
+  'protocolFees',
+  'baseReserve',
+  'quoteReserve',
+  'markPrice',
+  'longOI',
+  'shortOI',
+  'carryIndex',
+  'marketBlock',
+]
+
+/**
+ * Preview an engine call: before/after protocol state, the diff and the decoded events
+ * A call that would revert throws the decoded ProtocolError, in both modes
+ */
+export async function previewTransaction(
+  publicClient: PublicClient,
+  params: PreviewTransactionParams
+): Promise<TransactionPreview> {
+  const mode = params.mode ?? 'auto'
+  const blockNumber = params.blockNumber ?? await publicClient.getBlockNumber({ cacheTime: 0 })
+
+  const positionManager = await publicClient.readContract({
+    address: params.engine,
+    abi: perpEngineAbi,
+    functionName: 'positionManager',
+    blockNumber,
+  })
+  const context: PreviewContext = { ...params, blockNumber, positionManager }
+  const before = await readPreviewState(publicClient, context, positionIdOf(params.action))
+
+  if (mode !== 'offline') {
+    try {
+      return await tracePreview(publicClient, context, before)
+    } catch (error) {
+      if (mode === 'trace' || !isTracingUnavailableError(error)) throw error
+    }
+  }
+
+  return offlinePreview(publicClient, context, before)
+}
+
+/**
+ * True when an RPC error means the node does not offer debug_traceCall (or the tracer)
+ * Covers method not found (-32601), method not supported (-32004) and the messages of common providers
+ */
+export function isTracingUnavailableError(error: unknown): boolean {
+  let current: unknown = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    const { code, message, details, cause } = current as {
+      code?: unknown
+      message?: unknown
+      details?: unknown
+      cause?: unknown
+    }
+    if (code === -32601 || code === -32004) return true
+    for (const text of [message, details]) {
+      if (typeof text === 'string' && TRACE_ERROR_PATTERN.test(text)) return true
+    }
+    current = cause
+  }
+  return false
+}
+
+const TRACE_ERROR_PATTERN =
+  /method .*(not found|does not exist|is not available|not supported)|debug_traceCall.*(not|un)(supported|available)|(unknown|unsupported|invalid) tracer|tracing (is )?(not|un)(supported|available)/i
+
+/**
+ * Trace mode
+ */
+
+interface PreviewContext extends PreviewTransactionParams {
+  blockNumber: bigint
+  positionManager: Address
+}
+
+interface CallFrame {
+  from: Address
+  to?: Address
+  output?: Hex
+  error?: string
+  calls?: CallFrame[]
+  logs?: { address: Address; topics: Hex[]; data: Hex; position?: Hex | number }[]
+}
+
+interface PrestateAccount {
+  storage?: Record<Hex, Hex>
+}
+
+interface PrestateDiff {
+  pre: Record<Address, PrestateAccount>
+  post: Record<Address, PrestateAccount>
+}
+
+async function tracePreview(
+  publicClient: PublicClient,
+  context: PreviewContext,
+  before: PreviewState
+): Promise<TransactionPreview> {
+  const data = encodeAction(context.action)
+  const call = { from: context.account, to: context.engine, data }
+  const block = numberToHex(context.blockNumber)
+
+  // Custom RPC methods are not in the typed public schema
+  const request = publicClient.request as unknown as (args: { method: string; params: unknown[] }) => Promise<unknown>
+
+  const frame = await request({
+    method: 'debug_traceCall',
+    params: [call, block, { tracer: 'callTracer', tracerConfig: { withLog: true } }],
+  }) as CallFrame
+
+  if (frame.error) {
+    throw decodeProtocolError(frame.output ?? frame.error) ?? new Error(`Preview reverted: ${frame.error}`)
+  }
+
+  const diff = await request({
+    method: 'debug_traceCall',
+    params: [call, block, { tracer: 'prestateTracer', tracerConfig: { diffMode: true } }],
+  }) as PrestateDiff
+
+  const returnValue = decodeReturnValue(context.action, frame.output)
+  const after = await readPreviewState(
+    publicClient,
+    context,
+    context.action.type === 'openPosition' ? returnValue : positionIdOf(context.action),
+    toStateOverride(diff)
+  )
+  const events = decodeProtocolEvents(
+    collectLogs(frame).map((log, logIndex): ProtocolLog => ({
+      ...log,
+      blockNumber: context.blockNumber + 1n,
+      blockHash: zeroHash,
+      transactionHash: zeroHash,
+      transactionIndex: 0,
+      logIndex,
+      removed: false,
+    }))
+  )
+
+  return buildPreview(context, 'trace', before, after, events, returnValue)
+}
+
+/** Post-state storage of every touched account; slots the call cleared are absent from post and reset to zero */
+function toStateOverride(diff: PrestateDiff): StateOverride {
+  return Object.entries(diff.post).flatMap(([address, post]) => {
+    const slots = new Map<Hex, Hex>()
+    for (const slot of Object.keys(diff.pre[address as Address]?.storage ?? {}) as Hex[]) {
+      slots.set(slot, zeroHash)
+    }
+    for (const [slot, value] of Object.entries(post.storage ?? {}) as [Hex, Hex][]) {
+      slots.set(slot, value)
+    }
+    if (slots.size === 0) return []
+    return [{
+      address: address as Address,
+      stateDiff: Array.from(slots, ([slot, value]) => ({ slot: pad(slot), value: pad(value) })),
+    }]
+  })
+}
+
+/** Logs in execution order; a log's position is the number of sub-calls made before it */
+function collectLogs(frame: CallFrame): Omit<ProtocolLog, 'blockNumber' | 'blockHash' | 'transactionHash' | 'transactionIndex' | 'logIndex' | 'removed'>[] {
+  if (frame.error) return []
+
+  const calls = frame.calls ?? []
+  const logs = frame.logs ?? []
+  const ordered: ReturnType<typeof collectLogs> = []
+  let next = 0
+
+  for (const log of logs) {
+    const position = log.position === undefined ? 0 : Number(log.position)
+    while (next < calls.length && next < position) ordered.push(...collectLogs(calls[next++]))
+    ordered.push({ address: log.address, topics: log.topics as ProtocolLog['topics'], data: log.data })
+  }
+  while (next < calls.length) ordered.push(...collectLogs(calls[next++]))
+
+  return ordered
+}
+
+function encodeAction(action: PreviewAction): Hex {
+  switch (action.type) {
+    case 'openPosition':
+      return encodeFunctionData({
+        abi: perpEngineAbi,
+        functionName: 'openPosition',
+        args: [action.isLong, action.totalToUse, action.leverage],
+      })
+    case 'closePosition':
+      return encodeFunctionData({ abi: perpEngineAbi, functionName: 'closePosition', args: [action.positionId] })
+    case 'withdraw':
+      return encodeFunctionData({ abi: perpEngineAbi, functionName: 'withdraw', args: [action.amount] })
+  }
+}
+
+function decodeReturnValue(action: PreviewAction, output: Hex | undefined): bigint | undefined {
+  if (action.type === 'withdraw' || !output || output === '0x') return undefined
+  return decodeFunctionResult({ abi: perpEngineAbi, functionName: action.type, data: output }) as bigint
+}
+
+/**
+ * Offline mode
+ * Mirrors PerpEngine._openPosition, closePosition and withdraw on the "before" state
+ */
+
+async function offlinePreview(
+  publicClient: PublicClient,
+  context: PreviewContext,
+  before: PreviewState
+): Promise<TransactionPreview> {
+  const { action } = context
+  const after: PreviewState = { ...before }
+  let returnValue: bigint | undefined
+
+  try {
+    switch (action.type) {
+      case 'openPosition': {
+        const quote = quoteOpenPosition(before, { ...action, walletBalance: before.walletBalance })
+        // Carry steps once on the pre-trade open interest, before the position snapshots it
+        const { carryIndex } = projectCarryIndex(before, 1n)
+        const positionId = await publicClient.readContract({
+          address: context.positionManager,
+          abi: positionManagerAbi,
+          functionName: 'nextPositionId',
+          blockNumber: context.blockNumber,
+        })
+
+        Object.assign(after, {
+          walletBalance: asInternal(before.walletBalance - action.totalToUse),
+          tradeFund: asInternal(before.tradeFund + quote.margin),
+          insuranceFund: asInternal(before.insuranceFund + quote.insuranceFee),
+          protocolFees: asInternal(before.protocolFees + quote.protocolFee),
+          baseReserve: quote.reservesAfter.baseReserve,
+          quoteReserve: asInternal(quote.reservesAfter.quoteReserve),
+          markPrice: asPrice(quote.markPriceAfter),
+          longOI: asInternal(quote.longOIAfter),
+          shortOI: asInternal(quote.shortOIAfter),
+          carryIndex,
+          position: {
+            id: positionId,
+            user: context.account,
+            isLong: action.isLong,
+            baseSize: quote.baseSize,
+            entryPrice: quote.entryPrice,
+            entryNotional: quote.entryNotional,
+            margin: quote.margin,
+            carrySnapshot: carryIndex,
+            openBlock: before.marketBlock,
+            status: PositionStatus.OPEN,
+            realizedPnl: 0n,
+          },
+        })
+        returnValue = positionId
+        break
+      }
+
+      case 'closePosition': {
+        const position = before.position
+        if (!position || position.user.toLowerCase() !== context.account.toLowerCase()) {
+          throw createProtocolError('NotPositionOwner')
+        }
+        if (position.status !== PositionStatus.OPEN) throw createProtocolError('PositionNotFound')
+
+        const { carryIndex } = projectCarryIndex(before, 1n)
+        const execution = position.isLong
+          ? executeCloseLong(before, position.baseSize)
+          : executeCloseShort(before, position.baseSize)
+        const closeNotional = 'quoteOut' in execution ? execution.quoteOut : execution.quoteIn
+        const pnlTrade = position.isLong
+          ? closeNotional - position.entryNotional
+          : position.entryNotional - closeNotional
+
+        // Carry is valued at the mark after the close, like the contract
+        const markPrice = getMarkPrice(execution.reserves)
+        const notionalNow = (position.baseSize * markPrice) / PRECISION
+        const totalPnl = pnlTrade + calculateCarryPnl(position.isLong, notionalNow, carryIndex - position.carrySnapshot)
+        const payout = position.margin + totalPnl
+
+        Object.assign(after, {
+          walletBalance: asInternal(before.walletBalance + (payout > 0n ? payout : 0n)),
+          tradeFund: asInternal(before.tradeFund - position.margin),
+          baseReserve: execution.reserves.baseReserve,
+          quoteReserve: asInternal(execution.reserves.quoteReserve),
+          markPrice: asPrice(markPrice),
+          longOI: asInternal(position.isLong ? before.longOI - position.entryNotional : before.longOI),
+          shortOI: asInternal(position.isLong ? before.shortOI : before.shortOI - position.entryNotional),
+          carryIndex,
+          position: { ...position, status: PositionStatus.CLOSED, realizedPnl: totalPnl },
+        })
+        returnValue = totalPnl
+        break
+      }
+
+      case 'withdraw': {
+        if (action.amount === 0n) throw createProtocolError('InvalidAmount')
+        if (before.walletBalance < action.amount) throw createProtocolError('InsufficientBalance')
+        after.walletBalance = asInternal(before.walletBalance - action.amount)
+        break
+      }
+    }
+  } catch (error) {
+    // Same typed errors as a traced revert
+    if ((error instanceof QuoteError || error instanceof VammError) && error.reason !== 'ArithmeticError') {
+      throw createProtocolError(error.reason)
+    }
+    throw error
+  }
+
+  return buildPreview(context, 'offline', before, after, [], returnValue)
+}
+
+/**
+ * Helpers
+ */
+
+async function readPreviewState(
+  publicClient: PublicClient,
+  context: PreviewContext,
+  positionId: bigint | undefined,
+  stateOverride?: StateOverride
+): Promise<PreviewState> {
+  const { blockNumber } = context
+  const [snapshot, walletBalance, position] = await Promise.all([
+    readMarketSnapshot(publicClient, context.engine, { blockNumber, stateOverride }),
+    publicClient.readContract({
+      address: context.engine,
+      abi: perpEngineAbi,
+      functionName: 'getWalletBalance',
+      args: [context.account],
+      blockNumber,
+      stateOverride,
+    }),
+    positionId === undefined
+      ? null
+      : publicClient.readContract({
+        address: context.positionManager,
+        abi: positionManagerAbi,
+        functionName: 'getPosition',
+        args: [positionId],
+        blockNumber,
+        stateOverride,
+      }),
+  ])
+
+  return toPreviewState(snapshot, walletBalance, position)
+}
+
+function toPreviewState(snapshot: MarketSnapshot, walletBalance: bigint, position: Position | null): PreviewState {
+  return {
+    walletBalance: asInternal(walletBalance),
+    tradeFund: asInternal(snapshot.tradeFund),
+    insuranceFund: asInternal(snapshot.insuranceFund),
+    protocolFees: asInternal(snapshot.protocolFees),
+    baseReserve: snapshot.baseReserve,
+    quoteReserve: asInternal(snapshot.quoteReserve),
+    markPrice: asPrice(snapshot.markPrice),
+    longOI: asInternal(snapshot.longOI),
+    shortOI: asInternal(snapshot.shortOI),
+    carryIndex: snapshot.carryIndex,
+    marketBlock: snapshot.currentBlock,
+    position: position && { ...position },
+  }
+}
+
+function buildPreview(
+  context: PreviewContext,
+  source: PreviewSource,
+  before: PreviewState,
+  after: PreviewState,
+  events: ProtocolEvent[],
+  returnValue: bigint | undefined
+): TransactionPreview {
+  const changes = {} as Record<PreviewField, ValueChange>
+  for (const field of PREVIEW_FIELDS) {
+    changes[field] = { before: before[field], after: after[field], delta: after[field] - before[field] }
+  }
+
+  return {
+    action: context.action,
+    source,
+    blockNumber: context.blockNumber,
+    before,
+    after,
+    changes: changes as PreviewChanges,
+    changed: PREVIEW_FIELDS.filter((field) => changes[field].delta !== 0n),
+    events,
+    returnValue,
+  }
+}
+
+function positionIdOf(action: PreviewAction): bigint | undefined {
+  return action.type === 'closePosition' ? action.positionId : undefined
+}
@@ -0,0 +1,238 @@
+import type { Address, PublicClient, WalletClient } from 'viem'
+import { perpEngineAbi, positionManagerAbi } from './generated.js'
+import { executeTransaction, type TransactionResult } from './utils.js'
+import { readMarketSnapshot } from './snapshot.js'
+import { quoteOpenPosition } from './orders.js'
+import { simulateEquityIfClosed } from './liquidation.js'
+import { findProtocolEvent } from './events.js'
+import { createProtocolError } from './errors.js'
+import type { TransactionManager } from './transactions.js'
+import { PositionStatus, type Position } from './types.js'
+import type { InternalAmount, Leverage18 } from './units.js'
+
+/**
+ * Slippage-protected trades
+ * openPosition/closePosition take no price bound on-chain. The trade is re-quoted offline at the
+ * latest block right before sending and refused if the quote breaks the bound; after mining the
+ * emitted entryPrice/avgClosePrice is checked against the same bound and reported.
+ */
+
+export interface SlippageOptions {
+  /** Worst allowed move from referencePrice, in basis points, in the direction that hurts the trade */
+  maxSlippageBps?: number | bigint
+  /** Price maxSlippageBps is measured from (e.g. the quote shown to the user); defaults to the mark price at the re-quote block */
+  referencePrice?: bigint
+  /** Lowest acceptable average fill price (18 decimals) */
+  minAvgPrice?: bigint
+  /** Highest acceptable average fill price (18 decimals) */
+  maxAvgPrice?: bigint
+}
+
+export interface PriceBounds {
+  minAvgPrice?: bigint
+  maxAvgPrice?: bigint
+}
+
+export interface SlippageCheck {
+  bounds: PriceBounds
+  /** Average price quoted at blockNumber, before sending */
+  quotedPrice: bigint
+  blockNumber: bigint
+  /** Average price from the PositionOpened/PositionClosed event */
+  fillPrice?: bigint
+  /** False when the mined fill broke the bound (the trade went through anyway) */
+  withinBounds: boolean
+}
+
+interface SlippageTradeParams {
+  publicClient: PublicClient
+  walletClient: WalletClient
+  engine: Address
+  slippage: SlippageOptions
+  transactionManager?: TransactionManager
+}
+
+export interface OpenPositionWithSlippageParams extends SlippageTradeParams {
+  isLong: boolean
+  totalToUse: InternalAmount
+  leverage: Leverage18
+}
+
+export interface ClosePositionWithSlippageParams extends SlippageTradeParams {
+  positionId: bigint
+}
+
+export interface SlippageTransactionResult extends TransactionResult {
+  slippage: SlippageCheck
+}
+
+/**
+ * Error thrown before sending when the latest quote breaks the price bound
+ */
+export class SlippageError extends Error {
+  constructor(
+    public readonly quotedPrice: bigint,
+    public readonly bounds: PriceBounds,
+    public readonly blockNumber: bigint
+  ) {
+    super(`Slippage bound exceeded: quoted average price ${quotedPrice} is outside ${describeBounds(bounds)} at block ${blockNumber}`)
+    this.name = 'SlippageError'
+  }
+}
+
+const BPS = 10_000n
+
+/**
+ * Price bounds for a trade that buys base (open long, close short) or sells it (open short, close long)
+ * maxSlippageBps caps the side that hurts: above the reference when buying, below it when selling.
+ * Explicit minAvgPrice/maxAvgPrice are kept; the tighter bound wins.
+ */
+export function getPriceBounds(options: SlippageOptions, isBuy: boolean, referencePrice: bigint): PriceBounds {
+  const bounds: PriceBounds = { minAvgPrice: options.minAvgPrice, maxAvgPrice: options.maxAvgPrice }
+  if (options.maxSlippageBps === undefined) return bounds
+
+  const bps = BigInt(options.maxSlippageBps)
+  if (bps < 0n || bps > BPS) throw new RangeError(`maxSlippageBps must be between 0 and ${BPS}`)
+  const reference = options.referencePrice ?? referencePrice
+
+  if (isBuy) {
+    const max = (reference * (BPS + bps)) / BPS
+    bounds.maxAvgPrice = bounds.maxAvgPrice === undefined || max < bounds.maxAvgPrice ? max : bounds.maxAvgPrice
+  } else {
+    // Rounded up so the bound never allows more than maxSlippageBps
+    const min = (reference * (BPS - bps) + BPS - 1n) / BPS
+    bounds.minAvgPrice = bounds.minAvgPrice === undefined || min > bounds.minAvgPrice ? min : bounds.minAvgPrice
+  }
+  return bounds
+}
+
+/**
+ * Whether an average price is inside the bounds (inclusive)
+ */
+export function isWithinPriceBounds(price: bigint, bounds: PriceBounds): boolean {
+  if (bounds.minAvgPrice !== undefined && price < bounds.minAvgPrice) return false
+  if (bounds.maxAvgPrice !== undefined && price > bounds.maxAvgPrice) return false
+  return true
+}
+
+/**
+ * openPosition with a price bound on the average entry price
+ * Throws SlippageError (nothing sent) when the quote at the latest block breaks the bound
+ */
+export async function openPositionWithSlippage(
+  params: OpenPositionWithSlippageParams
+): Promise<SlippageTransactionResult & { positionId?: bigint }> {
+  const { publicClient, engine, isLong, totalToUse, leverage, slippage } = params
+
+  const blockNumber = await publicClient.getBlockNumber({ cacheTime: 0 })
+  const snapshot = await readMarketSnapshot(publicClient, engine, { blockNumber })
+  const quote = quoteOpenPosition(snapshot, { isLong, totalToUse, leverage })
+
+  const bounds = getPriceBounds(slippage, isLong, quote.markPriceBefore)
+  if (!isWithinPriceBounds(quote.entryPrice, bounds)) throw new SlippageError(quote.entryPrice, bounds, blockNumber)
+
+  const result = await executeTransaction({
+    publicClient,
+    walletClient: params.walletClient,
+    transactionManager: params.transactionManager,
+    address: engine,
+    abi: perpEngineAbi,
+    functionName: 'openPosition',
+    args: [isLong, totalToUse, leverage],
+  })
+
+  const event = findProtocolEvent(result.receipt.logs, 'PositionOpened')
+  return {
+    ...result,
+    positionId: event?.positionId,
+    slippage: toCheck(bounds, quote.entryPrice, blockNumber, event?.entryPrice),
+  }
+}
+
+/**
+ * closePosition with a price bound on the average close price
+ * Throws SlippageError (nothing sent) when the quote at the latest block breaks the bound
+ */
+export async function closePositionWithSlippage(
+  params: ClosePositionWithSlippageParams
+): Promise<SlippageTransactionResult & { totalPnl?: bigint }> {
+  const { publicClient, engine, positionId, slippage } = params
+  const account = params.walletClient.account?.address
+  if (!account) throw new Error('No account connected')
+
+  const blockNumber = await publicClient.getBlockNumber({ cacheTime: 0 })
+  const [snapshot, position] = await Promise.all([
+    readMarketSnapshot(publicClient, engine, { blockNumber }),
+    readPosition(publicClient, engine, positionId, account, blockNumber),
+  ])
+  const { avgClosePrice } = simulateEquityIfClosed(position, snapshot)
+
+  // Closing a long sells base, closing a short buys it back
+  const bounds = getPriceBounds(slippage, !position.isLong, snapshot.markPrice)
+  if (!isWithinPriceBounds(avgClosePrice, bounds)) throw new SlippageError(avgClosePrice, bounds, blockNumber)
+
+  const result = await executeTransaction({
+    publicClient,
+    walletClient: params.walletClient,
+    transactionManager: params.transactionManager,
+    address: engine,
+    abi: perpEngineAbi,
+    functionName: 'closePosition',
+    args: [positionId],
+  })
+
+  const event = findProtocolEvent(result.receipt.logs, 'PositionClosed')
+  return {
+    ...result,
+    totalPnl: event?.totalPnl,
+    slippage: toCheck(bounds, avgClosePrice, blockNumber, event?.avgClosePrice),
+  }
+}
+
+/**
+ * Helpers
+ */
+
+async function readPosition(
+  publicClient: PublicClient,
+  engine: Address,
+  positionId: bigint,
+  account: Address,
+  blockNumber: bigint
+): Promise<Position> {
+  const positionManager = await publicClient.readContract({
+    address: engine,
+    abi: perpEngineAbi,
+    functionName: 'positionManager',
+    blockNumber,
+  })
+  const position = await publicClient.readContract({
+    address: positionManager,
+    abi: positionManagerAbi,
+    functionName: 'getPosition',
+    args: [positionId],
+    blockNumber,
+  }) as Position
+
+  // Same typed errors, in the same order, the close would revert with; there is no close price to bound
+  if (position.user.toLowerCase() !== account.toLowerCase()) throw createProtocolError('NotPositionOwner')
+  if (position.status !== PositionStatus.OPEN) throw createProtocolError('PositionNotFound')
+  return position
+}
+
+function toCheck(bounds: PriceBounds, quotedPrice: bigint, blockNumber: bigint, fillPrice?: bigint): SlippageCheck {
+  return {
+    bounds,
+    quotedPrice,
+    blockNumber,
+    fillPrice,
+    withinBounds: fillPrice === undefined || isWithinPriceBounds(fillPrice, bounds),
+  }
+}
+
+function describeBounds(bounds: PriceBounds): string {
+  const parts = []
+  if (bounds.minAvgPrice !== undefined) parts.push(`min ${bounds.minAvgPrice}`)
+  if (bounds.maxAvgPrice !== undefined) parts.push(`max ${bounds.maxAvgPrice}`)
+  return parts.length ? `[${parts.join(', ')}]` : 'no bounds'
+}
@@ -0,0 +1,204 @@
+import type { Address, ContractFunctionParameters, PublicClient, StateOverride } from 'viem'
+import { perpEngineAbi, perpMarketAbi } from './generated.js'
+import type { MarketData } from './types.js'
+
+/**
+ * Market snapshot reader
+ * Reads the full MarketData of one or many engines in a single multicall pinned to one block
+ */
+
+/** Canonical Multicall3 address (same on every chain that has it) */
+export const MULTICALL3_ADDRESS: Address = '0xcA11bde05977b3631167028862bE2a173976CA11'
+
+/**
+ * How calls are batched
+ * - multicall3: Multicall3 is deployed on the chain
+ * - deployless: Multicall3 bytecode is executed inside eth_call (fresh Anvil, custom chains)
+ * - sequential: one eth_call per read, all pinned to the same block
+ */
+export type MulticallMode = 'multicall3' | 'deployless' | 'sequential'
+
+export interface MarketSnapshot extends MarketData {
+  engineAddress: Address
+  blockNumber: bigint
+}
+
+export interface ReadMarketSnapshotOptions {
+  /** Block to read at; defaults to the latest block */
+  blockNumber?: bigint
+  /** Known engine -> market addresses; skips the market() lookup round */
+  marketAddresses?: Partial<Record<Address, Address>>
+  /** Multicall3 address override */
+  multicallAddress?: Address
+  /** Force a batching mode instead of detecting it */
+  mode?: MulticallMode
+  /** Read on top of overridden storage (e.g. the post-state of a traced call) */
+  stateOverride?: StateOverride
+}
+
+// Detected mode per client, so the getCode probe runs once
+const modeCache = new WeakMap<PublicClient, MulticallMode>()
+
+/**
+ * Read the full MarketData of one engine at a pinned block
+ */
+export async function readMarketSnapshot(
+  publicClient: PublicClient,
+  engineAddress: Address,
+  options: ReadMarketSnapshotOptions = {}
+): Promise<MarketSnapshot> {
+  const [snapshot] = await readMarketSnapshots(publicClient, [engineAddress], options)
+  return snapshot
+}
+
+/**
+ * Read the full MarketData of many engines at the same pinned block
+ * One multicall for all fields; a second (pinned to the same block) resolves unknown market addresses first
+ */
+export async function readMarketSnapshots(
+  publicClient: PublicClient,
+  engineAddresses: readonly Address[],
+  options: ReadMarketSnapshotOptions = {}
+): Promise<MarketSnapshot[]> {
+  if (engineAddresses.length === 0) return []
+
+  const blockNumber = options.blockNumber ?? await publicClient.getBlockNumber()
+
+  // Resolve market addresses
+  const known = options.marketAddresses ?? {}
+  const missing = engineAddresses.filter((engine) => !known[engine])
+  const resolved = await batchRead(
+    publicClient,
+    missing.map((engine) => ({ address: engine, abi: perpEngineAbi, functionName: 'market' })),
+    blockNumber,
+    options
+  )
+  const markets = new Map<Address, Address>()
+  missing.forEach((engine, i) => markets.set(engine, resolved[i] as Address))
+  engineAddresses.forEach((engine) => {
+    const market = known[engine]
+    if (market) markets.set(engine, market)
+  })
+
+  // 9 reads per engine
+  const calls = engineAddresses.flatMap((engine) => {
+    const market = markets.get(engine)!
+    return [
+      { address: market, abi: perpMarketAbi, functionName: 'baseReserve' },
+      { address: market, abi: perpMarketAbi, functionName: 'quoteReserve' },
+      { address: market, abi: perpMarketAbi, functionName: 'getMarkPrice' },
+      { address: market, abi: perpMarketAbi, functionName: 'longOpenInterest' },
+      { address: market, abi: perpMarketAbi, functionName: 'shortOpenInterest' },
+      { address: market, abi: perpMarketAbi, functionName: 'cumulativeCarryIndex' },
+      { address: market, abi: perpMarketAbi, functionName: 'currentBlock' },
+      { address: market, abi: perpMarketAbi, functionName: 'lastFundingBlock' },
+      { address: engine, abi: perpEngineAbi, functionName: 'getFundBalances' },
+    ] as const
+  })
+
+  const results = await batchRead(publicClient, calls, blockNumber, options)
+  const timestamp = Date.now()
+
+  return engineAddresses.map((engineAddress, i) => {
+    const [
+      baseReserve,
+      quoteReserve,
+      markPrice,
+      longOI,
+      shortOI,
+      carryIndex,
+      currentBlock,
+      lastFundingBlock,
+      fundBalances,
+    ] = results.slice(i * 9, i * 9 + 9) as [
+      bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint,
+      readonly [bigint, bigint, bigint],
+    ]
+
+    return {
+      engineAddress,
+      blockNumber,
+      marketAddress: markets.get(engineAddress)!,
+      baseReserve,
+      quoteReserve,
+      markPrice,
+      longOI,
+      shortOI,
+      netOI: longOI - shortOI,
+      carryIndex,
+      currentBlock,
+      lastFundingBlock,
+      tradeFund: fundBalances[0],
+      insuranceFund: fundBalances[1],
+      protocolFees: fundBalances[2],
+      timestamp,
+    }
+  })
+}
+
+/**
+ * Detect how reads can be batched on this client's chain
+ * Multicall3 is used when it has code at the pinned block, otherwise it is emulated deployless
+ */
+export async function detectMulticallMode(
+  publicClient: PublicClient,
+  options: Pick<ReadMarketSnapshotOptions, 'blockNumber' | 'multicallAddress'> = {}
+): Promise<MulticallMode> {
+  const cached = modeCache.get(publicClient)
+  if (cached) return cached
+
+  const code = await publicClient.getCode({
+    address: getMulticallAddress(publicClient, options.multicallAddress),
+    blockNumber: options.blockNumber,
+  })
+  const mode: MulticallMode = code && code !== '0x' ? 'multicall3' : 'deployless'
+
+  modeCache.set(publicClient, mode)
+  return mode
+}
+
+/**
+ * Multicall helpers
+ */
+
+function getMulticallAddress(publicClient: PublicClient, override?: Address): Address {
+  return override ?? publicClient.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS
+}
+
+/** Batched reads pinned to one block; also used by the portfolio and position readers (not re-exported) */
+export async function batchRead(
+  publicClient: PublicClient,
+  contracts: readonly ContractFunctionParameters[],
+  blockNumber: bigint,
+  options: Pick<ReadMarketSnapshotOptions, 'mode' | 'multicallAddress' | 'stateOverride'> = {}
+): Promise<unknown[]> {
+  if (contracts.length === 0) return []
+
+  const mode = options.mode ?? await detectMulticallMode(publicClient, { ...options, blockNumber })
+
+  const { stateOverride } = options
+
+  if (mode === 'sequential') {
+    return Promise.all(contracts.map((call) => publicClient.readContract({ ...call, blockNumber, stateOverride })))
+  }
+
+  try {
+    return await publicClient.multicall({
+      contracts,
+      blockNumber,
+      stateOverride,
+      allowFailure: false,
+      ...(mode === 'multicall3'
+        ? { multicallAddress: getMulticallAddress(publicClient, options.multicallAddress) }
+        : { deployless: true }),
+    })
+  } catch (error) {
+    // Some nodes reject deployless calls: remember and fall back to sequential reads
+    if (mode !== 'deployless' || options.mode) throw error
+    const sequential = await Promise.all(
+      contracts.map((call) => publicClient.readContract({ ...call, blockNumber, stateOverride }))
+    )
+    modeCache.set(publicClient, 'sequential')
+    return sequential
+  }
+}
@@ -0,0 +1,193 @@
+import type { Address, Hash, PublicClient } from 'viem'
+import { BlockNotFoundError } from 'viem'
+import { decodeProtocolEvents, type ProtocolEvent } from './events.js'
+import type { BackfillCursor, BackfillCursorStore } from './backfill.js'
+
+/**
+ * Reorg-aware live event stream
+ * Polls getLogs up to head - confirmations, remembers the hashes of the blocks it applied
+ * and reverts their events (newest first) when the chain no longer contains them
+ */
+
+export const DEFAULT_CONFIRMATIONS = 2
+export const DEFAULT_REORG_DEPTH = 64
+export const DEFAULT_STREAM_BLOCK_RANGE = 1_000n
+
+export type ProtocolEventUpdate =
+  | { type: 'apply'; event: ProtocolEvent }
+  | { type: 'revert'; event: ProtocolEvent }   // orphaned by a reorg; undo what 'apply' did
+
+export interface WatchProtocolEventsOptions {
+  /** Contracts to watch */
+  addresses: readonly Address[]
+  /** Blocks an event must be buried under before it is applied (0 = apply at head) */
+  confirmations?: number
+  /** How many applied blocks are remembered for reorg detection */
+  reorgDepth?: number
+  /** First block to apply; defaults to the first confirmed block after the current head */
+  fromBlock?: bigint
+  /** Max blocks per getLogs call; a long gap is caught up over several polls */
+  maxBlockRange?: bigint
+  /** Defaults to the client's pollingInterval */
+  pollingInterval?: number
+  /** Progress is saved here after every poll that advanced (e.g. the store a backfill used) */
+  store?: BackfillCursorStore
+  /** Applies or reverts of one poll, in the order they must be applied; errors go to onError and are not retried */
+  onUpdates: (updates: ProtocolEventUpdate[]) => void | Promise<void>
+  onError?: (error: unknown) => void
+}
+
+interface TrackedBlock {
+  number: bigint
+  hash: Hash
+  events: ProtocolEvent[]
+}
+
+/**
+ * Watch protocol events with a confirmation depth and explicit revert notifications
+ * Returns an unwatch function
+ */
+export function watchProtocolEvents(
+  publicClient: PublicClient,
+  options: WatchProtocolEventsOptions
+): () => void {
+  const confirmations = BigInt(options.confirmations ?? DEFAULT_CONFIRMATIONS)
+  const reorgDepth = BigInt(options.reorgDepth ?? DEFAULT_REORG_DEPTH)
+  const maxBlockRange = options.maxBlockRange ?? DEFAULT_STREAM_BLOCK_RANGE
+  const pollingInterval = options.pollingInterval ?? publicClient.pollingInterval
+
+  // Applied blocks that carried events, oldest first, plus the last applied block
+  const blocks: TrackedBlock[] = []
+  let tip: { number: bigint; hash: Hash } | null = null
+  let nextBlock: bigint | null = options.fromBlock ?? null
+  // Blocks below floor are treated as final
+  let floor = nextBlock ?? 0n
+
+  let active = true
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const poll = async () => {
+    const head = await publicClient.getBlockNumber()
+    // A chain younger than the confirmation depth has only genesis to offer
+    const safe = max(head - confirmations, 0n)
+    if (nextBlock === null) {
+      nextBlock = safe + 1n
+      floor = nextBlock
+    }
+
+    // Reorg check: the last applied block must still be canonical
+    if (tip && !(await isCanonical(tip.number, tip.hash))) {
+      let ancestor: TrackedBlock | undefined
+      for (let i = blocks.length - 1; i >= 0; i--) {
+        if (await isCanonical(blocks[i].number, blocks[i].hash)) {
+          ancestor = blocks[i]
+          break
+        }
+      }
+
+      const reverts: ProtocolEventUpdate[] = []
+      while (blocks.length > 0 && blocks[blocks.length - 1] !== ancestor) {
+        const orphaned = blocks.pop()!
+        for (let i = orphaned.events.length - 1; i >= 0; i--) {
+          reverts.push({ type: 'revert', event: orphaned.events[i] })
+        }
+      }
+
+      nextBlock = ancestor ? ancestor.number + 1n : floor
+      tip = ancestor ? { number: ancestor.number, hash: ancestor.hash } : null
+
+      // Reverts go out before anything else can fail
+      if (reverts.length > 0) await emit(reverts)
+    }
+
+    if (safe >= nextBlock) {
+      const fromBlock = nextBlock
+      const toBlock = min(safe, fromBlock + maxBlockRange - 1n)
+
+      const logs = await publicClient.getLogs({ address: [...options.addresses], fromBlock, toBlock })
+      const block = await publicClient.getBlock({ blockNumber: toBlock })
+      const events = decodeProtocolEvents(logs).filter((event) => !event.removed)
+
+      // Every block the logs came from must still be canonical, or logs and blocks span forks: retry next poll
+      const eventBlocks = new Map<bigint, Hash>()
+      for (const event of events) {
+        if ((eventBlocks.get(event.blockNumber) ?? event.blockHash) !== event.blockHash) return
+        eventBlocks.set(event.blockNumber, event.blockHash)
+      }
+      for (const [number, hash] of eventBlocks) {
+        if (number === toBlock ? hash !== block.hash : !(await isCanonical(number, hash))) return
+      }
+
+      const updates: ProtocolEventUpdate[] = []
+      for (const event of events) {
+        let tracked = blocks[blocks.length - 1]
+        if (!tracked || tracked.number !== event.blockNumber) {
+          tracked = { number: event.blockNumber, hash: event.blockHash, events: [] }
+          blocks.push(tracked)
+        }
+        tracked.events.push(event)
+        updates.push({ type: 'apply', event })
+      }
+
+      tip = { number: toBlock, hash: block.hash }
+      nextBlock = toBlock + 1n
+
+      // Forget blocks deeper than reorgDepth
+      const keepFrom = toBlock - reorgDepth + 1n
+      if (keepFrom > floor) floor = keepFrom
+      while (blocks.length > 0 && blocks[0].number < floor) blocks.shift()
+
+      await emit(updates)
+    }
+  }
+
+  // Backfill fields the stream keeps as they were, read once
+  let stored: BackfillCursor | null | undefined
+
+  const emit = async (updates: ProtocolEventUpdate[]) => {
+    if (updates.length > 0) await options.onUpdates(updates)
+    if (options.store && nextBlock !== null) {
+      if (stored === undefined) stored = await options.store.load()
+      await options.store.save({
+        fromBlock: stored?.fromBlock ?? floor,
+        nextBlock,
+        chunkSize: stored?.chunkSize ?? maxBlockRange,
+      })
+    }
+  }
+
+  const isCanonical = async (blockNumber: bigint, hash: Hash): Promise<boolean> => {
+    try {
+      const block = await publicClient.getBlock({ blockNumber })
+      return block.hash === hash
+    } catch (error) {
+      // Block no longer exists (shorter fork)
+      if (error instanceof BlockNotFoundError) return false
+      throw error
+    }
+  }
+
+  const loop = async () => {
+    try {
+      await poll()
+    } catch (error) {
+      options.onError?.(error)
+    }
+    if (active) timer = setTimeout(loop, pollingInterval)
+  }
+
+  loop()
+
+  return () => {
+    active = false
+    clearTimeout(timer)
+  }
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
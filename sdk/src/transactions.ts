@@ -0,0 +1,438 @@
+import type {
+  Abi,
+  Account,
+  Address,
+  Chain,
+  Hash,
+  PublicClient,
+  SendTransactionParameters,
+  SimulateContractParameters,
+  TransactionReceipt,
+  WalletClient,
+  WriteContractParameters,
+} from 'viem'
+import { TransactionReceiptNotFoundError } from 'viem'
+import type { TransactionResult } from './utils.js'
+
+/**
+ * Transaction manager
+ * Queues transactions per account, assigns nonces locally, and speeds up transactions that stay
+ * pending longer than the fee policy allows by resending them with the same nonce and a higher fee.
+ * A queued transaction is simulated against the pending block once the one before it is broadcast, so
+ * approve -> deposit style sequences work on nodes whose pending block holds the account's own transactions
+ * (Anvil, Geth); elsewhere, only queue transactions that do not depend on each other.
+ */
+
+export type ManagedTransactionState =
+  | 'queued'      // waiting for its turn in the account queue
+  | 'sent'        // broadcast, waiting to be mined
+  | 'replaced'    // resent with the same nonce (speed-up or cancel); hash is the newest attempt
+  | 'mined'       // included with status success
+  | 'reverted'    // included with status reverted
+  | 'cancelled'   // the cancel replacement was mined instead
+  | 'failed'      // never mined: simulation/send failed, the nonce was used elsewhere, or it timed out pending
+
+export interface FeePolicy {
+  /** Resend a pending transaction after this long (ms); 0 disables automatic speed-ups */
+  bumpAfterMs?: number
+  /** Fee increase per resend, in percent (nodes require at least 10) */
+  bumpPercent?: number
+  /** Automatic speed-ups per transaction */
+  maxBumps?: number
+  /** Never pay more than this per gas (gas price on chains without EIP-1559) */
+  maxFeePerGas?: bigint
+}
+
+export const DEFAULT_FEE_POLICY: Required<Omit<FeePolicy, 'maxFeePerGas'>> = {
+  bumpAfterMs: 30_000,
+  bumpPercent: 15,
+  maxBumps: 3,
+}
+
+export const DEFAULT_PENDING_TIMEOUT_MS = 10 * 60_000
+
+export interface TransactionManagerOptions {
+  publicClient: PublicClient
+  feePolicy?: FeePolicy
+  /** Receipt polling interval (ms); defaults to the client's pollingInterval */
+  pollingInterval?: number
+  /**
+   * Fail a transaction still pending this long after its first send (ms; default DEFAULT_PENDING_TIMEOUT_MS,
+   * 0 never). The account's nonce is then re-read from the chain, so a dropped transaction does not stall the queue
+   */
+  pendingTimeoutMs?: number
+  /** Every state change of every transaction */
+  onUpdate?: (tx: ManagedTransactionSnapshot) => void
+}
+
+export interface ManagedTransactionRequest {
+  walletClient: WalletClient
+  address: Address
+  abi: Abi
+  functionName: string
+  args?: readonly unknown[]
+  value?: bigint
+  account?: Address
+}
+
+export interface ManagedTransactionSnapshot {
+  id: number
+  account: Address
+  functionName: string
+  state: ManagedTransactionState
+  nonce?: number
+  hash?: Hash           // latest attempt, or the mined one
+  hashes: Hash[]        // every attempt, oldest first
+  bumps: number
+  receipt?: TransactionReceipt
+  error?: unknown
+}
+
+export interface ManagedTransaction {
+  readonly id: number
+  snapshot(): ManagedTransactionSnapshot
+  /** Resolves once mined; rejects with TransactionFailedError when reverted, cancelled or failed */
+  wait(): Promise<TransactionResult>
+  /** Resend now with bumped fees */
+  speedUp(): Promise<void>
+  /** Replace with a 0-value self transfer at bumped fees */
+  cancel(): Promise<void>
+}
+
+export interface TransactionManager {
+  submit(request: ManagedTransactionRequest): ManagedTransaction
+  /** Transactions that are not final yet */
+  pending(account?: Address): ManagedTransactionSnapshot[]
+  /** Forget the local nonce of an account; the next send reads it from the chain */
+  resetNonce(account: Address): void
+}
+
+/**
+ * Thrown by ManagedTransaction.wait() when the transaction did not end up mined successfully
+ */
+export class TransactionFailedError extends Error {
+  readonly state: ManagedTransactionState
+  readonly hashes: readonly Hash[]
+  readonly receipt?: TransactionReceipt
+  readonly cause?: unknown
+
+  constructor(tx: ManagedTransactionSnapshot) {
+    super(
+      tx.state === 'reverted' ? `Transaction ${tx.hash} reverted` :
+      tx.state === 'cancelled' ? `Transaction ${tx.functionName} was cancelled` :
+      `Transaction ${tx.functionName} failed: ${describe(tx.error)}`
+    )
+    this.name = 'TransactionFailedError'
+    this.state = tx.state
+    this.hashes = tx.hashes
+    this.receipt = tx.receipt
+    this.cause = tx.error
+  }
+}
+
+/** EIP-1559 fees, or a gas price on chains without them (sent as legacy transactions) */
+type Fees =
+  | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { gasPrice: bigint }
+
+type ContractSimulation = SimulateContractParameters<
+  Abi, string, readonly unknown[], Chain | undefined, Chain | undefined, Account | Address
+>
+// Fee-less request shapes; fees are spread in per attempt
+type ContractWrite = WriteContractParameters<Abi, string, readonly unknown[], Chain | undefined, Account | undefined>
+
+interface AccountQueue {
+  tail: Promise<unknown>      // serializes nonce assignment + broadcast
+  nextNonce: number | null    // null: read from the chain on next send
+}
+
+const FINAL_STATES: ReadonlySet<ManagedTransactionState> = new Set(['mined', 'reverted', 'cancelled', 'failed'])
+
+export function createTransactionManager(options: TransactionManagerOptions): TransactionManager {
+  const { publicClient } = options
+  const policy = { ...DEFAULT_FEE_POLICY, ...options.feePolicy }
+  const pollingInterval = options.pollingInterval ?? publicClient.pollingInterval
+  const pendingTimeoutMs = options.pendingTimeoutMs ?? DEFAULT_PENDING_TIMEOUT_MS
+
+  const queues = new Map<Address, AccountQueue>()
+  const live = new Set<ManagedTransactionSnapshot>()
+  let nextId = 1
+
+  const queueOf = (account: Address): AccountQueue => {
+    const key = account.toLowerCase() as Address
+    let queue = queues.get(key)
+    if (!queue) {
+      queue = { tail: Promise.resolve(), nextNonce: null }
+      queues.set(key, queue)
+    }
+    return queue
+  }
+
+  // Run fn after everything already queued for the account
+  const enqueue = <T>(queue: AccountQueue, fn: () => Promise<T>): Promise<T> => {
+    const run = queue.tail.then(fn, fn)
+    queue.tail = run.catch(() => undefined)
+    return run
+  }
+
+  const submit = (request: ManagedTransactionRequest): ManagedTransaction => {
+    const account = request.account ?? request.walletClient.account?.address
+    if (!account) {
+      throw new Error('No account connected')
+    }
+
+    // Local accounts sign in-process; a bare address goes through the wallet's RPC
+    const signer = request.walletClient.account ?? account
+    const queue = queueOf(account)
+    const tx: ManagedTransactionSnapshot = {
+      id: nextId++,
+      account,
+      functionName: request.functionName,
+      state: 'queued',
+      hashes: [],
+      bumps: 0,
+    }
+    let fees: Fees | undefined
+    let firstSentAt = 0
+    let lastSentAt = 0
+    let cancelHash: Hash | undefined
+    let settle: { resolve: (r: TransactionResult) => void; reject: (e: unknown) => void }
+    const done = new Promise<TransactionResult>((resolve, reject) => {
+      settle = { resolve, reject }
+    })
+    // wait() is optional: a rejection nobody awaits must not crash the process
+    done.catch(() => undefined)
+
+    const update = (changes: Partial<ManagedTransactionSnapshot>) => {
+      Object.assign(tx, changes)
+      if (FINAL_STATES.has(tx.state)) live.delete(tx)
+      options.onUpdate?.({ ...tx, hashes: [...tx.hashes] })
+    }
+
+    const finish = (changes: Partial<ManagedTransactionSnapshot>) => {
+      update(changes)
+      if (tx.state === 'mined') {
+        settle.resolve({ hash: tx.hash!, receipt: tx.receipt! })
+      } else {
+        settle.reject(new TransactionFailedError(tx))
+      }
+    }
+
+    const write = {
+      account: signer,
+      chain: request.walletClient.chain,
+      address: request.address,
+      abi: request.abi,
+      functionName: request.functionName,
+      args: request.args ?? [],
+      value: request.value,
+    } satisfies ContractWrite
+
+    // Simulate on top of the account's earlier transactions, then broadcast with the next local nonce
+    const send = async () => {
+      const simulation: ContractSimulation = {
+        address: request.address,
+        abi: request.abi,
+        functionName: request.functionName,
+        args: request.args ?? [],
+        value: request.value,
+        account: signer,
+        blockTag: 'pending',
+      }
+      await publicClient.simulateContract(simulation)
+
+      fees = await estimateFees()
+      for (let attempt = 0; ; attempt++) {
+        if (queue.nextNonce === null) {
+          queue.nextNonce = await publicClient.getTransactionCount({ address: account, blockTag: 'pending' })
+        }
+        const nonce = queue.nextNonce
+        try {
+          const hash = await request.walletClient.writeContract({ ...write, nonce, ...fees })
+          queue.nextNonce = nonce + 1
+          firstSentAt = lastSentAt = Date.now()
+          update({ state: 'sent', nonce, hash, hashes: [hash] })
+          return
+        } catch (error) {
+          // Someone else used the nonce (another wallet instance, a manual tx): resync once
+          queue.nextNonce = null
+          if (attempt > 0 || !isNonceError(error)) throw error
+        }
+      }
+    }
+
+    const resend = async (cancel: boolean) => {
+      if (tx.nonce === undefined || FINAL_STATES.has(tx.state) || !fees) return
+      const bumped = capFees(fees, bumpFees(fees, await estimateFees()))
+      if (!bumped) return
+
+      const transfer = {
+        account: signer,
+        chain: request.walletClient.chain,
+        to: account,
+        value: 0n,
+      } satisfies SendTransactionParameters<Chain | undefined, Account | undefined>
+      const hash = cancel
+        ? await request.walletClient.sendTransaction({ ...transfer, nonce: tx.nonce, ...bumped })
+        : await request.walletClient.writeContract({ ...write, nonce: tx.nonce, ...bumped })
+
+      fees = bumped
+      lastSentAt = Date.now()
+      if (cancel) cancelHash = hash
+      update({ state: 'replaced', hash, hashes: [...tx.hashes, hash], bumps: tx.bumps + 1 })
+    }
+
+    // Settle from the first attempt that has a receipt, newest first
+    const settleFromReceipts = async (): Promise<boolean> => {
+      for (const hash of [...tx.hashes].reverse()) {
+        const receipt = await getReceipt(hash)
+        if (!receipt) continue
+        const state = hash === cancelHash ? 'cancelled' : receipt.status === 'success' ? 'mined' : 'reverted'
+        finish({ state, hash, receipt })
+        return true
+      }
+      return false
+    }
+
+    // Poll receipts of every attempt until one is mined or the nonce is used elsewhere
+    const monitor = async () => {
+      while (!FINAL_STATES.has(tx.state)) {
+        await sleep(pollingInterval)
+        if (await settleFromReceipts()) return
+
+        const mined = await publicClient.getTransactionCount({ address: account, blockTag: 'latest' })
+        if (mined > tx.nonce!) {
+          // One last look: the receipt may have landed between the two reads
+          if (await settleFromReceipts()) return
+          finish({ state: 'failed', error: new Error(`Nonce ${tx.nonce} was used by another transaction`) })
+          return
+        }
+
+        // Dropped, or stuck behind a dropped nonce: give up and let the next send re-read the nonce
+        if (pendingTimeoutMs > 0 && Date.now() - firstSentAt >= pendingTimeoutMs) {
+          if (await settleFromReceipts()) return
+          queue.nextNonce = null
+          finish({ state: 'failed', error: new Error(`Transaction was not mined within ${pendingTimeoutMs}ms`) })
+          return
+        }
+
+        if (policy.bumpAfterMs > 0 && tx.bumps < policy.maxBumps && Date.now() - lastSentAt >= policy.bumpAfterMs) {
+          await resend(false).catch(() => {
+            // Underpriced or already mined: the next poll decides
+            lastSentAt = Date.now()
+          })
+        }
+      }
+    }
+
+    const getReceipt = async (hash: Hash): Promise<TransactionReceipt | null> => {
+      try {
+        return await publicClient.getTransactionReceipt({ hash })
+      } catch (error) {
+        if (error instanceof TransactionReceiptNotFoundError) return null
+        throw error
+      }
+    }
+
+    live.add(tx)
+    update({})
+
+    enqueue(queue, send).then(
+      () => monitor().catch((error) => finish({ state: 'failed', error })),
+      (error) => finish({ state: 'failed', error })
+    )
+
+    return {
+      id: tx.id,
+      snapshot: () => ({ ...tx, hashes: [...tx.hashes] }),
+      wait: () => done,
+      speedUp: () => resend(false),
+      cancel: () => resend(true),
+    }
+  }
+
+  const estimateFees = async (): Promise<Fees> => {
+    try {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas()
+      return { maxFeePerGas, maxPriorityFeePerGas }
+    } catch {
+      // Pre-EIP-1559 chain: legacy transactions at the gas price
+      return { gasPrice: await publicClient.getGasPrice() }
+    }
+  }
+
+  // Replacement must beat the previous attempt by bumpPercent, and never undercut the network
+  const bumpFees = (previous: Fees, network: Fees): Fees => {
+    const factor = BigInt(Math.round(policy.bumpPercent * 100))
+    const bump = (fee: bigint) => fee + (fee * factor + 9_999n) / 10_000n
+    if ('gasPrice' in previous) {
+      return { gasPrice: max(bump(previous.gasPrice), feeCap(network)) }
+    }
+    return {
+      maxFeePerGas: max(bump(previous.maxFeePerGas), feeCap(network)),
+      maxPriorityFeePerGas: max(
+        bump(previous.maxPriorityFeePerGas),
+        'gasPrice' in network ? 0n : network.maxPriorityFeePerGas
+      ),
+    }
+  }
+
+  // Held at policy.maxFeePerGas; null when the previous attempt already paid it
+  const capFees = (previous: Fees, bumped: Fees): Fees | null => {
+    const cap = policy.maxFeePerGas
+    if (cap === undefined || feeCap(bumped) <= cap) return bumped
+    if (feeCap(previous) >= cap) return null
+    if ('gasPrice' in bumped) return { gasPrice: cap }
+    return { maxFeePerGas: cap, maxPriorityFeePerGas: min(bumped.maxPriorityFeePerGas, cap) }
+  }
+
+  return {
+    submit,
+    pending: (account) =>
+      Array.from(live)
+        .filter((tx) => !account || tx.account.toLowerCase() === account.toLowerCase())
+        .map((tx) => ({ ...tx, hashes: [...tx.hashes] })),
+    resetNonce: (account) => {
+      queueOf(account).nextNonce = null
+    },
+  }
+}
+
+/**
+ * Helpers
+ */
+
+const NONCE_ERROR_PATTERN = /nonce too low|nonce has already been used|replacement transaction underpriced|invalid nonce/i
+
+function isNonceError(error: unknown): boolean {
+  let current: unknown = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    const { message, details, cause } = current as { message?: unknown; details?: unknown; cause?: unknown }
+    for (const text of [message, details]) {
+      if (typeof text === 'string' && NONCE_ERROR_PATTERN.test(text)) return true
+    }
+    current = cause
+  }
+  return false
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message.split('\n')[0] : String(error)
+}
+
+/** Most a transaction pays per gas */
+function feeCap(fees: Fees): bigint {
+  return 'gasPrice' in fees ? fees.gasPrice : fees.maxFeePerGas
+}
+
+function min(a: bigint, b: bigint): bigint {
+  return a < b ? a : b
+}
+
+function max(a: bigint, b: bigint): bigint {
+  return a > b ? a : b
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
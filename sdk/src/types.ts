@@ -11,6 +11,15 @@ export interface ContractError {
   rawError?: any
 }
 
+/** PositionManager.PositionStatus, the values Position.status takes */
+export const PositionStatus = {
+  OPEN: 0,
+  CLOSED: 1,
+  LIQUIDATED: 2,
+} as const
+
+export type PositionStatus = (typeof PositionStatus)[keyof typeof PositionStatus]
+
 export interface Position {
   id: bigint
   user: Address
@@ -0,0 +1,100 @@
+import { parseUnits, formatUnits } from 'viem'
+import { USDC_TO_INTERNAL } from './constants.js'
+
+/**
+ * Branded amount types
+ * PerpEngine takes USDC in 6 decimals (deposit) and engine amounts in 18 decimals (openPosition, withdraw).
+ * Brands make a mix-up a compile error instead of a 10^12 mistake; convert explicitly with usdcToInternal/internalToUsdc.
+ * Brands are type-only: at runtime every value is a plain bigint.
+ */
+
+declare const unit: unique symbol
+
+type Branded<B extends string> = bigint & { readonly [unit]: B }
+
+/** USDC token units (6 decimals): deposit, approve, permit, balanceOf */
+export type UsdcAmount = Branded<'UsdcAmount'>
+
+/** Engine accounting units (18 decimals): wallet balances, totalToUse, margin, withdraw */
+export type InternalAmount = Branded<'InternalAmount'>
+
+/** Price in quote per base (18 decimals) */
+export type Price18 = Branded<'Price18'>
+
+/** Leverage (18 decimals, 10e18 = 10x) */
+export type Leverage18 = Branded<'Leverage18'>
+
+export const USDC_DECIMALS = 6
+export const INTERNAL_DECIMALS = 18
+
+/**
+ * Tag raw on-chain values
+ * Use at ABI boundaries where the unit is known from the contract
+ */
+
+export function asUsdc(raw: bigint): UsdcAmount {
+  return raw as UsdcAmount
+}
+
+export function asInternal(raw: bigint): InternalAmount {
+  return raw as InternalAmount
+}
+
+export function asPrice(raw: bigint): Price18 {
+  return raw as Price18
+}
+
+export function asLeverage(raw: bigint): Leverage18 {
+  return raw as Leverage18
+}
+
+/**
+ * Parse human-readable decimal strings ("100.5", "10")
+ */
+
+export function parseUsdcAmount(value: string): UsdcAmount {
+  return parseUnits(value, USDC_DECIMALS) as UsdcAmount
+}
+
+export function parseInternalAmount(value: string): InternalAmount {
+  return parseUnits(value, INTERNAL_DECIMALS) as InternalAmount
+}
+
+export function parsePrice18(value: string): Price18 {
+  return parseUnits(value, INTERNAL_DECIMALS) as Price18
+}
+
+export function parseLeverage18(value: string | number): Leverage18 {
+  return parseUnits(value.toString(), INTERNAL_DECIMALS) as Leverage18
+}
+
+/**
+ * Conversions (same factor as PerpEngine.USDC_TO_INTERNAL)
+ */
+
+export function usdcToInternal(amount: UsdcAmount): InternalAmount {
+  return (amount * USDC_TO_INTERNAL) as InternalAmount
+}
+
+/**
+ * Internal -> USDC, rounding down like PerpEngine.withdraw
+ */
+export function internalToUsdc(amount: InternalAmount): UsdcAmount {
+  return (amount / USDC_TO_INTERNAL) as UsdcAmount
+}
+
+/**
+ * Full-precision decimal strings
+ */
+
+export function formatUsdcAmount(amount: UsdcAmount): string {
+  return formatUnits(amount, USDC_DECIMALS)
+}
+
+export function formatInternalAmount(amount: InternalAmount): string {
+  return formatUnits(amount, INTERNAL_DECIMALS)
+}
+
+export function formatLeverage18(leverage: Leverage18): string {
+  return formatUnits(leverage, INTERNAL_DECIMALS)
+}
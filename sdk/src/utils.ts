@@ -1,6 +1,8 @@
 import type { PublicClient, WalletClient, Address, Abi, Hash, TransactionReceipt } from 'viem'
 import { decodeErrorResult } from 'viem'
-import type { ContractError } from './types'
+import type { ContractError } from './types.js'
+import type { TransactionManager } from './transactions.js'
+import { ParseAmountError, formatAmount, parseAmount } from './format.js'
 
 /**
  * Transaction execution utilities
@@ -14,6 +16,8 @@ export interface ExecuteTransactionParams {
   functionName: string
   args?: readonly unknown[]
   account?: Address
+  /** Send through a transaction manager (queued nonces, fee bumping) instead of a plain write */
+  transactionManager?: TransactionManager
 }
 
 export interface TransactionResult {
@@ -28,7 +32,11 @@ export interface TransactionResult {
 export async function executeTransaction(
   params: ExecuteTransactionParams
 ): Promise<TransactionResult> {
-  const { publicClient, walletClient, address, abi, functionName, args = [], account } = params
+  const { publicClient, walletClient, address, abi, functionName, args = [], account, transactionManager } = params
+
+  if (transactionManager) {
+    return transactionManager.submit({ walletClient, address, abi, functionName, args, account }).wait()
+  }
 
   const accountAddress = account || walletClient.account?.address
   if (!accountAddress) {
@@ -125,52 +133,28 @@ export function decodeContractError(error: any, abi: Abi): ContractError {
 
 /**
  * Format USDC amount (6 decimals) to human-readable string
+ * Signed, rounded half away from zero, no grouping; see formatAmount for other options
  */
 export function formatUsdc(amount: bigint, decimals: number = 2): string {
-  const usdcDecimals = 6
-  const divisor = 10n ** BigInt(usdcDecimals)
-  const wholePart = amount / divisor
-  const fractionalPart = amount % divisor
-
-  if (decimals === 0) {
-    return wholePart.toString()
-  }
-
-  const fractionalStr = fractionalPart.toString().padStart(usdcDecimals, '0')
-  const trimmedFractional = fractionalStr.slice(0, decimals)
-
-  return `${wholePart}.${trimmedFractional}`
+  return formatAmount(amount, { decimals: 6, digits: decimals, grouping: false })
 }
 
 /**
  * Parse USDC amount from string to bigint (6 decimals)
+ * Throws ParseAmountError on malformed input, a sign or more than 6 decimals
  */
 export function parseUsdc(amount: string): bigint {
-  const usdcDecimals = 6
-  const parts = amount.split('.')
-  const wholePart = parts[0] || '0'
-  const fractionalPart = (parts[1] || '').padEnd(usdcDecimals, '0').slice(0, usdcDecimals)
-
-  return BigInt(wholePart) * 10n ** BigInt(usdcDecimals) + BigInt(fractionalPart)
+  // parseAmount takes a leading '+'; a USDC amount has no sign at all
+  if (amount.trim().startsWith('+')) throw new ParseAmountError('invalid', amount)
+  return parseAmount(amount, 6)
 }
 
 /**
  * Format price with 18 decimals precision
+ * Signed, rounded half away from zero, no grouping
  */
 export function formatPrice(price: bigint, decimals: number = 4): string {
-  const priceDecimals = 18
-  const divisor = 10n ** BigInt(priceDecimals)
-  const wholePart = price / divisor
-  const fractionalPart = price % divisor
-
-  if (decimals === 0) {
-    return wholePart.toString()
-  }
-
-  const fractionalStr = fractionalPart.toString().padStart(priceDecimals, '0')
-  const trimmedFractional = fractionalStr.slice(0, decimals)
-
-  return `${wholePart}.${trimmedFractional}`
+  return formatAmount(price, { decimals: 18, digits: decimals, grouping: false })
 }
 
 /**
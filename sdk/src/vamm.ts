@@ -0,0 +1,206 @@
+import { PRECISION } from './constants.js'
+import type { MarketData } from './types.js'
+
+/**
+ * Offline vAMM math
+ * Bit-for-bit port of PerpMarket simulate and execute functions
+ */
+
+/**
+ * Reserve snapshot of a PerpMarket
+ * k defaults to baseReserve * quoteReserve, which is what the contract caches after every trade
+ */
+export interface VammReserves {
+  baseReserve: bigint
+  quoteReserve: bigint
+  k?: bigint
+}
+
+export interface OpenLongQuote {
+  baseOut: bigint
+  avgPrice: bigint
+}
+
+export interface OpenShortQuote {
+  baseIn: bigint
+  avgPrice: bigint
+}
+
+export interface CloseLongQuote {
+  quoteOut: bigint
+  avgPrice: bigint
+}
+
+export interface CloseShortQuote {
+  quoteIn: bigint
+  avgPrice: bigint
+}
+
+/**
+ * Result of executing a trade: the simulate output plus the reserves the market ends up with
+ */
+export type VammExecution<T> = T & { reserves: Required<VammReserves> }
+
+/**
+ * Error thrown where PerpMarket would revert
+ */
+export class VammError extends Error {
+  constructor(public readonly reason: 'InsufficientLiquidity' | 'InvalidReserves' | 'ArithmeticError') {
+    super(`vAMM ${reason}`)
+    this.name = 'VammError'
+  }
+}
+
+/**
+ * Build a reserve snapshot from market data
+ */
+export function reservesFromMarketData(data: Pick<MarketData, 'baseReserve' | 'quoteReserve'>): VammReserves {
+  return { baseReserve: data.baseReserve, quoteReserve: data.quoteReserve }
+}
+
+/**
+ * Mark price = quoteReserve / baseReserve (18 decimals)
+ */
+export function getMarkPrice(reserves: VammReserves): bigint {
+  const { baseReserve, quoteReserve } = checkedReserves(reserves)
+  return (quoteReserve * PRECISION) / baseReserve
+}
+
+/**
+ * Mirror of PerpMarket.simulateOpenLong (buy base with quote)
+ */
+export function simulateOpenLong(reserves: VammReserves, quoteIn: bigint): OpenLongQuote {
+  if (quoteIn === 0n) return { baseOut: 0n, avgPrice: 0n }
+  const { baseReserve, quoteReserve, k } = checkedReserves(reserves)
+
+  const newQuoteReserve = quoteReserve + quoteIn
+  const newBaseReserve = ceilDiv(k, newQuoteReserve)
+  const baseOut = sub(baseReserve, newBaseReserve)
+  const avgPrice = div(quoteIn * PRECISION, baseOut)
+
+  return { baseOut, avgPrice }
+}
+
+/**
+ * Mirror of PerpMarket.simulateOpenShort (sell base for quote)
+ */
+export function simulateOpenShort(reserves: VammReserves, quoteOut: bigint): OpenShortQuote {
+  if (quoteOut === 0n) return { baseIn: 0n, avgPrice: 0n }
+  const { baseReserve, quoteReserve, k } = checkedReserves(reserves)
+  if (quoteOut >= quoteReserve) throw new VammError('InsufficientLiquidity')
+
+  const newQuoteReserve = quoteReserve - quoteOut
+  const newBaseReserve = ceilDiv(k, newQuoteReserve)
+  const baseIn = sub(newBaseReserve, baseReserve)
+  const avgPrice = div(quoteOut * PRECISION, baseIn)
+
+  return { baseIn, avgPrice }
+}
+
+/**
+ * Mirror of PerpMarket.simulateCloseLong (sell base for quote)
+ */
+export function simulateCloseLong(reserves: VammReserves, baseSize: bigint): CloseLongQuote {
+  if (baseSize === 0n) return { quoteOut: 0n, avgPrice: 0n }
+  const { baseReserve, quoteReserve, k } = checkedReserves(reserves)
+
+  const newBaseReserve = baseReserve + baseSize
+  const newQuoteReserve = ceilDiv(k, newBaseReserve)
+  const quoteOut = sub(quoteReserve, newQuoteReserve)
+  const avgPrice = div(quoteOut * PRECISION, baseSize)
+
+  return { quoteOut, avgPrice }
+}
+
+/**
+ * Mirror of PerpMarket.simulateCloseShort (buy base with quote)
+ */
+export function simulateCloseShort(reserves: VammReserves, baseSize: bigint): CloseShortQuote {
+  if (baseSize === 0n) return { quoteIn: 0n, avgPrice: 0n }
+  const { baseReserve, quoteReserve, k } = checkedReserves(reserves)
+  if (baseSize >= baseReserve) throw new VammError('InsufficientLiquidity')
+
+  const newBaseReserve = baseReserve - baseSize
+  const newQuoteReserve = ceilDiv(k, newBaseReserve)
+  const quoteIn = sub(newQuoteReserve, quoteReserve)
+  const avgPrice = div(quoteIn * PRECISION, baseSize)
+
+  return { quoteIn, avgPrice }
+}
+
+/**
+ * Mirror of PerpMarket.executeOpenLong, including the k recomputation
+ */
+export function executeOpenLong(reserves: VammReserves, quoteIn: bigint): VammExecution<OpenLongQuote> {
+  const quote = simulateOpenLong(reserves, quoteIn)
+  const { k } = checkedReserves(reserves)
+
+  const quoteReserve = reserves.quoteReserve + quoteIn
+  const baseReserve = ceilDiv(k, quoteReserve)
+
+  return { ...quote, reserves: { baseReserve, quoteReserve, k: baseReserve * quoteReserve } }
+}
+
+/**
+ * Mirror of PerpMarket.executeOpenShort, including the k recomputation
+ */
+export function executeOpenShort(reserves: VammReserves, quoteOut: bigint): VammExecution<OpenShortQuote> {
+  const quote = simulateOpenShort(reserves, quoteOut)
+  const { k } = checkedReserves(reserves)
+
+  const quoteReserve = sub(reserves.quoteReserve, quoteOut)
+  const baseReserve = ceilDiv(k, quoteReserve)
+
+  return { ...quote, reserves: { baseReserve, quoteReserve, k: baseReserve * quoteReserve } }
+}
+
+/**
+ * Mirror of PerpMarket.executeCloseLong, including the k recomputation
+ */
+export function executeCloseLong(reserves: VammReserves, baseSize: bigint): VammExecution<CloseLongQuote> {
+  const quote = simulateCloseLong(reserves, baseSize)
+  const { k } = checkedReserves(reserves)
+
+  const baseReserve = reserves.baseReserve + baseSize
+  const quoteReserve = ceilDiv(k, baseReserve)
+
+  return { ...quote, reserves: { baseReserve, quoteReserve, k: baseReserve * quoteReserve } }
+}
+
+/**
+ * Mirror of PerpMarket.executeCloseShort, including the k recomputation
+ */
+export function executeCloseShort(reserves: VammReserves, baseSize: bigint): VammExecution<CloseShortQuote> {
+  const quote = simulateCloseShort(reserves, baseSize)
+  const { k } = checkedReserves(reserves)
+
+  const baseReserve = sub(reserves.baseReserve, baseSize)
+  const quoteReserve = ceilDiv(k, baseReserve)
+
+  return { ...quote, reserves: { baseReserve, quoteReserve, k: baseReserve * quoteReserve } }
+}
+
+/**
+ * Solidity-style helpers
+ * Reverts (underflow, division by zero) surface as VammError instead of silently going negative
+ */
+
+function checkedReserves(reserves: VammReserves): Required<VammReserves> {
+  const { baseReserve, quoteReserve } = reserves
+  if (baseReserve <= 0n || quoteReserve <= 0n) throw new VammError('InvalidReserves')
+  return { baseReserve, quoteReserve, k: reserves.k ?? baseReserve * quoteReserve }
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return div(a + b - 1n, b)
+}
+
+function div(a: bigint, b: bigint): bigint {
+  if (b === 0n) throw new VammError('ArithmeticError')
+  return a / b
+}
+
+function sub(a: bigint, b: bigint): bigint {
+  if (b > a) throw new VammError('ArithmeticError')
+  return a - b
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  InvalidDeploymentError,
+  getDeployment,
+  getDeploymentDiagnostics,
+  getDeploymentNames,
+  registerDeployment,
+  type DeploymentConfig,
+} from '../src/deployments.js'
+
+// deployments.json as the deploy script could leave it: one good chain, one half-written, one bad named entry
+vi.mock('../../deployments.json', () => ({
+  default: {
+    '31337': {
+      factory: '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707',
+      liquidationEngine: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+      fundingManager: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9',
+      deployer: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      timestamp: 1765914149,
+    },
+    '84532': {
+      factory: '0xE0Bfa341Ef912FF15569B69c4cbEfE9CF8837e11',
+      liquidationEngine: '0x0e0BED8DF7185cE8B5286C08d934A298091f3793',
+    },
+    '11155111': {
+      prod: {
+        factory: '0xE0Bfa341Ef912FF15569B69c4cbEfE9CF8837e11',
+        liquidationEngine: '0x0e0BED8DF7185cE8B5286C08d934A298091f3793',
+        fundingManager: '0x40019F9b7Ad27C019da556f956aa24039fC5dA26',
+        deployer: '0x731D7B95b83cb09b699BdF522D1C2Cfba5CA3f5a',
+        timestamp: 1765900356,
+      },
+      staging: { factory: 'not an address', timestamp: 1 },
+    },
+  },
+}))
+
+describe('deployments.json', () => {
+  it('registers the valid entries and skips the rest', () => {
+    expect(getDeployment(31337)?.factory).toBe('0x5FC8d32690cc91D4c39d9d3abcBD16989F875707')
+    expect(getDeployment(84532)).toBeNull()
+    expect(getDeploymentNames(11155111)).toEqual(['prod'])
+  })
+
+  it('reports what it skipped', () => {
+    const skipped = getDeploymentDiagnostics()
+    expect(skipped.map(({ chainKey, name }) => [chainKey, name])).toEqual([
+      ['84532', 'default'],
+      ['11155111', 'staging'],
+    ])
+    expect(skipped[0].diagnostics.map((d) => d.field)).toEqual(['fundingManager', 'deployer', 'timestamp'])
+    expect(skipped[1].diagnostics[0]).toMatchObject({ code: 'INVALID_FIELD', field: 'factory' })
+  })
+
+  it('still throws on an explicit registration', () => {
+    const config: DeploymentConfig = { ...getDeployment(31337)!, timestamp: -1 }
+    expect(() => registerDeployment(84532, config)).toThrow(InvalidDeploymentError)
+  })
+})
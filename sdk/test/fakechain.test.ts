@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { createPublicClient, createTestClient, createWalletClient, parseEventLogs, type Address, type PublicClient } from 'viem'
+import { createFakeChain, type FakeChain } from '../src/fakechain.js'
+import { PerpClient, type MarketAddresses, type PerpMarketClient } from '../src/client.js'
+import { getAllOpenPositions } from '../src/positions.js'
+import { detectMulticallMode, readMarketSnapshot } from '../src/snapshot.js'
+import { perpEngineAbi } from '../src/generated.js'
+import { NotPositionOwnerError } from '../src/errors.js'
+import { PRECISION, alice, bob, internal, leverage, usdc } from './fixtures.js'
+
+/**
+ * The fake chain driven the way services and keepers use it: through viem clients and the SDK,
+ * with the reference model's numbers (see model.test.ts) coming back over JSON-RPC
+ */
+
+interface Setup {
+  fakeChain: FakeChain
+  publicClient: PublicClient
+  addresses: MarketAddresses
+  clientOf(account: Address): PerpMarketClient
+}
+
+// Integration.t.sol market (1M base, 2B quote); every account gets 10,000 USDC deposited
+async function setup(accounts: readonly Address[] = [alice]): Promise<Setup> {
+  const fakeChain = createFakeChain()
+  const { chain, transport } = fakeChain
+  // Blocks are mined faster than viem's default block number cache expires
+  const publicClient = createPublicClient({ chain, transport, cacheTime: 0 }) as PublicClient
+  const addresses = await fakeChain.createMarket({
+    baseReserve: 1_000_000n * PRECISION,
+    quoteReserve: 2_000_000_000n * PRECISION,
+  })
+
+  const clientOf = (account: Address) => {
+    const walletClient = createWalletClient({ account, chain, transport })
+    return new PerpClient({ publicClient, walletClient }).market(addresses.engine)
+  }
+
+  for (const account of accounts) {
+    await fakeChain.mint(account, usdc(10_000n))
+    await clientOf(account).approve(usdc(10_000n))
+    await clientOf(account).deposit(usdc(10_000n))
+  }
+
+  return { fakeChain, publicClient, addresses, clientOf }
+}
+
+describe('createFakeChain', () => {
+  it('deposits into the engine wallet', async () => {
+    const { fakeChain, addresses, clientOf } = await setup()
+    const client = clientOf(alice)
+
+    expect(await client.getWalletBalance()).toBe(10_000n * PRECISION)
+    expect(await client.getCollateralBalance()).toBe(0n)
+    expect(fakeChain.getModel(addresses.engine).getWalletBalance(alice)).toBe(10_000n * PRECISION)
+  })
+
+  it('opens and closes a 10x long at the contract prices', async () => {
+    const { clientOf } = await setup()
+    const client = clientOf(alice)
+
+    const { positionId, receipt } = await client.openPosition(true, internal(1_000n), leverage(10n))
+    expect(receipt.status).toBe('success')
+    expect(positionId).toBe(1n)
+    expect(await client.getPosition(1n)).toMatchObject({
+      user: alice,
+      isLong: true,
+      margin: 990_099009900990099009n,
+      baseSize: 4_950470542225038489n,
+      entryPrice: 2_000_009900990099010266n,
+    })
+
+    const { totalPnl } = await client.closePosition(1n)
+    expect(totalPnl).toBe(-990094108445009504n)
+    expect(await client.isPositionOpen(1n)).toBe(false)
+    expect(await client.getWalletBalance()).toBe(9_989_108915792545089505n)
+  })
+
+  it('reverts with the protocol error', async () => {
+    const { clientOf } = await setup([alice, bob])
+    const { positionId } = await clientOf(alice).openPosition(true, internal(1_000n), leverage(10n))
+
+    await expect(clientOf(bob).closePosition(positionId!)).rejects.toThrow(NotPositionOwnerError)
+    expect(await clientOf(alice).isPositionOpen(positionId!)).toBe(true)
+  })
+
+  it('serves the emitted logs to eth_getLogs', async () => {
+    const { publicClient, addresses, clientOf } = await setup([alice, bob])
+    const opened = await clientOf(alice).openPosition(true, internal(1_000n), leverage(10n))
+    await clientOf(bob).openPosition(false, internal(500n), leverage(5n))
+
+    const logs = await publicClient.getContractEvents({
+      address: addresses.engine,
+      abi: perpEngineAbi,
+      eventName: 'PositionOpened',
+      args: { user: alice },
+      fromBlock: 0n,
+    })
+    expect(logs).toHaveLength(1)
+    expect(logs[0].args).toMatchObject({ positionId: 1n, user: alice, isLong: true })
+    expect(logs[0].transactionHash).toBe(opened.hash)
+    expect(parseEventLogs({ abi: perpEngineAbi, logs: opened.receipt.logs, eventName: 'PositionOpened' }))
+      .toHaveLength(1)
+  })
+
+  it('rolls state, blocks and logs back on evm_revert', async () => {
+    const { fakeChain, publicClient, addresses, clientOf } = await setup([alice, bob])
+    await clientOf(alice).openPosition(true, internal(1_000n), leverage(10n))
+    expect(await getAllOpenPositions(publicClient, addresses.engine)).toHaveLength(1)
+
+    const testClient = createTestClient({ mode: 'anvil', chain: fakeChain.chain, transport: fakeChain.transport })
+    const head = await publicClient.getBlock()
+    const id = await testClient.snapshot()
+    await clientOf(bob).openPosition(false, internal(500n), leverage(5n))
+    expect((await getAllOpenPositions(publicClient, addresses.engine)).map((position) => position.user))
+      .toEqual([alice, bob])
+
+    await testClient.revert({ id })
+    expect(fakeChain.getBlockNumber()).toBe(head.number)
+    expect(await clientOf(bob).getNextPositionId()).toBe(2n)
+
+    // Same height mined again: a new hash, so the cached scan is dropped and the reorged-out open disappears
+    await fakeChain.mine()
+    const reorged = await publicClient.getBlock({ blockNumber: head.number + 1n })
+    const rescanned = await getAllOpenPositions(publicClient, addresses.engine)
+    expect(reorged.transactions).toHaveLength(0)
+    expect(rescanned.map((position) => position.user)).toEqual([alice])
+  })
+
+  it('batches reads through Multicall3', async () => {
+    const { fakeChain, publicClient, addresses, clientOf } = await setup()
+    await clientOf(alice).openPosition(true, internal(1_000n), leverage(10n))
+
+    expect(await detectMulticallMode(publicClient)).toBe('multicall3')
+    const snapshot = await readMarketSnapshot(publicClient, addresses.engine, { mode: 'multicall3' })
+    const state = fakeChain.getModel(addresses.engine).getState()
+    expect(snapshot).toMatchObject({
+      marketAddress: addresses.market,
+      baseReserve: state.baseReserve,
+      quoteReserve: state.quoteReserve,
+      longOI: state.longOI,
+      tradeFund: 990_099009900990099009n,
+      blockNumber: fakeChain.getBlockNumber(),
+    })
+  })
+})
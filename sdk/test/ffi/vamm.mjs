@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+import { decodeAbiParameters, encodeAbiParameters, parseAbiParameters } from 'viem'
+import {
+  VammError,
+  reservesFromMarketData,
+  getMarkPrice,
+  simulateOpenLong,
+  simulateOpenShort,
+  simulateCloseLong,
+  simulateCloseShort,
+  executeOpenLong,
+  executeOpenShort,
+  executeCloseLong,
+  executeCloseShort,
+} from '../../dist/index.js'
+
+/**
+ * vAMM oracle for test/VammDifferential.t.sol (vm.ffi)
+ * Takes abi-encoded (fn, baseReserve, quoteReserve, k, size)[] cases as the only argument and prints the
+ * abi-encoded (ok, out0, out1, baseReserve, quoteReserve, k)[] the built SDK computes for them.
+ * fn follows the test's order: getMarkPrice, the four simulate functions, then the four execute functions
+ */
+
+const CASES = parseAbiParameters('(uint8 fn, uint256 baseReserve, uint256 quoteReserve, uint256 k, uint256 size)[]')
+const RESULTS = parseAbiParameters(
+  '(bool ok, uint256 out0, uint256 out1, uint256 baseReserve, uint256 quoteReserve, uint256 k)[]'
+)
+
+const FUNCTIONS = [
+  (reserves) => [getMarkPrice(reserves), 0n],
+  (reserves, size) => Object.values(simulateOpenLong(reserves, size)),
+  (reserves, size) => Object.values(simulateOpenShort(reserves, size)),
+  (reserves, size) => Object.values(simulateCloseLong(reserves, size)),
+  (reserves, size) => Object.values(simulateCloseShort(reserves, size)),
+  (reserves, size) => executed(executeOpenLong(reserves, size), 'baseOut'),
+  (reserves, size) => executed(executeOpenShort(reserves, size), 'baseIn'),
+  (reserves, size) => executed(executeCloseLong(reserves, size), 'quoteOut'),
+  (reserves, size) => executed(executeCloseShort(reserves, size), 'quoteIn'),
+]
+
+const [cases] = decodeAbiParameters(CASES, process.argv[2])
+
+const results = cases.map(({ fn, baseReserve, quoteReserve, k, size }) => {
+  const reserves = { ...reservesFromMarketData({ baseReserve, quoteReserve }), k }
+  try {
+    const [out0, out1, after = reserves] = FUNCTIONS[fn](reserves, size)
+    return { ok: true, out0, out1, baseReserve: after.baseReserve, quoteReserve: after.quoteReserve, k: after.k }
+  } catch (error) {
+    if (!(error instanceof VammError)) throw error
+    return { ok: false, out0: 0n, out1: 0n, baseReserve, quoteReserve, k }
+  }
+})
+
+process.stdout.write(encodeAbiParameters(RESULTS, [results]))
+
+/**
+ * Helpers
+ */
+
+function executed(execution, amount) {
+  return [execution[amount], execution.avgPrice, execution.reserves]
+}
@@ -0,0 +1,18 @@
+import type { Address } from 'viem'
+import { asInternal, asLeverage, asUsdc } from '../src/units.js'
+
+/**
+ * Accounts and whole-unit amounts shared by the SDK tests
+ */
+
+export const PRECISION = 10n ** 18n
+export const USDC = 10n ** 6n
+
+// Checksummed, as a chain returns them
+export const alice: Address = '0x000000000000000000000000000000000000a11c'
+export const bob: Address = '0x0000000000000000000000000000000000000B0b'
+export const liquidator: Address = '0x000000000000000000000000000000000000dEaD'
+
+export const usdc = (amount: bigint) => asUsdc(amount * USDC)
+export const internal = (amount: bigint) => asInternal(amount * PRECISION)
+export const leverage = (amount: bigint) => asLeverage(amount * PRECISION)
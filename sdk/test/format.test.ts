@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import { ParseAmountError, formatAmount, formatUsd, parseAmount, type RoundingMode } from '../src/format.js'
+import { parseUsdc } from '../src/utils.js'
+
+function parseError(input: string, decimals: number, locale: string): string | undefined {
+  try {
+    parseAmount(input, decimals, { locale })
+  } catch (error) {
+    if (error instanceof ParseAmountError) return error.reason
+    throw error
+  }
+  return undefined
+}
+
+// One decimal in, no fraction digits out: the rounding mode alone decides the integer
+function rounded(tenths: bigint, rounding: RoundingMode): string {
+  return formatAmount(tenths, { decimals: 1, digits: 0, rounding })
+}
+
+function parseUsdcError(input: string): string | undefined {
+  try {
+    parseUsdc(input)
+  } catch (error) {
+    if (error instanceof ParseAmountError) return error.reason
+    throw error
+  }
+  return undefined
+}
+
+describe('formatAmount', () => {
+  it('keeps the sign of negative values, before the prefix', () => {
+    expect(formatAmount(-1_234_567_890_000_000_000_000n)).toBe('-1,234.57')
+    expect(formatAmount(-5_000_000_000_000_000n, { digits: 3 })).toBe('-0.005')
+    expect(formatUsd(-420_000_000_000_000_000n)).toBe('-$0.42')
+  })
+
+  it('drops the sign of a negative value that rounds to zero', () => {
+    expect(formatAmount(-4_000_000_000_000_000n)).toBe('0.00')
+  })
+
+  it('rounds half away from zero by default', () => {
+    expect(formatAmount(25n, { decimals: 1, digits: 0 })).toBe('3')
+    expect(rounded(25n, 'halfExpand')).toBe('3')
+    expect(rounded(-25n, 'halfExpand')).toBe('-3')
+    expect(rounded(24n, 'halfExpand')).toBe('2')
+  })
+
+  it('rounds ties to even with halfEven', () => {
+    expect(rounded(25n, 'halfEven')).toBe('2')
+    expect(rounded(35n, 'halfEven')).toBe('4')
+    expect(rounded(-25n, 'halfEven')).toBe('-2')
+    expect(rounded(-35n, 'halfEven')).toBe('-4')
+    expect(rounded(26n, 'halfEven')).toBe('3')
+  })
+
+  it('truncates toward zero with trunc', () => {
+    expect(rounded(27n, 'trunc')).toBe('2')
+    expect(rounded(-27n, 'trunc')).toBe('-2')
+  })
+
+  it('rounds toward negative infinity with floor and positive infinity with ceil', () => {
+    expect(rounded(21n, 'floor')).toBe('2')
+    expect(rounded(-21n, 'floor')).toBe('-3')
+    expect(rounded(21n, 'ceil')).toBe('3')
+    expect(rounded(-27n, 'ceil')).toBe('-2')
+  })
+
+  it('shows the sign as signDisplay asks', () => {
+    const one = 10n ** 18n
+    expect(formatAmount(one, { signDisplay: 'always' })).toBe('+1.00')
+    expect(formatAmount(0n, { signDisplay: 'always' })).toBe('+0.00')
+    expect(formatAmount(one, { signDisplay: 'exceptZero' })).toBe('+1.00')
+    expect(formatAmount(-one, { signDisplay: 'exceptZero' })).toBe('-1.00')
+    expect(formatAmount(0n, { signDisplay: 'exceptZero' })).toBe('0.00')
+    expect(formatAmount(-one, { signDisplay: 'never' })).toBe('1.00')
+    expect(formatUsd(one, { signDisplay: 'always' })).toBe('+$1.00')
+  })
+
+  it('abbreviates from a thousand up in compact notation', () => {
+    expect(formatAmount(1_234_567n * 10n ** 18n, { notation: 'compact' })).toBe('1.23M')
+    expect(formatAmount(-1_500n * 10n ** 18n, { notation: 'compact', minDigits: 0 })).toBe('-1.5K')
+    expect(formatAmount(999n * 10n ** 18n, { notation: 'compact' })).toBe('999.00')
+  })
+})
+
+describe('parseUsdc', () => {
+  it('parses up to 6 decimals', () => {
+    expect(parseUsdc('1234.567891')).toBe(1_234_567_891n)
+    expect(parseUsdc(' .5 ')).toBe(500_000n)
+  })
+
+  it('rejects signs', () => {
+    expect(parseUsdcError('-1')).toBe('negative')
+    expect(parseUsdcError('+1')).toBe('invalid')
+  })
+
+  it('rejects more than 6 decimals', () => {
+    expect(parseUsdcError('1.1234567')).toBe('tooManyDecimals')
+    expect(parseUsdcError('0.0000001')).toBe('tooManyDecimals')
+  })
+})
+
+describe('parseAmount with a locale', () => {
+  it('accepts input grouped the way the locale groups it', () => {
+    expect(parseAmount('1,234.5', 6, { locale: 'en-US' })).toBe(1_234_500_000n)
+    expect(parseAmount('12,34,567.5', 2, { locale: 'en-IN' })).toBe(123_456_750n)
+    expect(parseAmount('1.234,5', 2, { locale: 'de-DE' })).toBe(123_450n)
+    expect(parseAmount('1\u202f234,5', 2, { locale: 'fr-FR' })).toBe(123_450n)
+    expect(parseAmount('1 234,5', 2, { locale: 'fr-FR' })).toBe(123_450n)
+  })
+
+  it('accepts ungrouped input', () => {
+    expect(parseAmount('1234.5', 6, { locale: 'en-US' })).toBe(1_234_500_000n)
+    expect(parseAmount('1234,5', 2, { locale: 'de-DE' })).toBe(123_450n)
+  })
+
+  it('rejects misplaced group separators', () => {
+    expect(parseError('1,2,3', 6, 'en-US')).toBe('invalid')
+    expect(parseError('1,23.4', 2, 'en-US')).toBe('invalid')
+    expect(parseError('1,234,567', 2, 'en-IN')).toBe('invalid')
+    expect(parseError('1.5', 2, 'de-DE')).toBe('invalid')
+    expect(parseError('1.234,5.6', 2, 'de-DE')).toBe('invalid')
+  })
+
+  it('rejects a "." that is not the decimal separator', () => {
+    expect(parseError('1.5', 2, 'fr-FR')).toBe('invalid')
+  })
+
+  it('reads back what formatAmount writes, locale digits included', () => {
+    const value = 1_234_567_890_000_000_000_000_000n
+    for (const locale of ['en-US', 'de-DE', 'fr-FR', 'en-IN', 'ar-EG', 'hi-IN-u-nu-deva']) {
+      expect(parseAmount(formatAmount(value, { locale }), 18, { locale })).toBe(value)
+    }
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import { createProtocolModel, type ProtocolModel } from '../src/model.js'
+import {
+  InsufficientBalanceError,
+  InvalidAmountError,
+  InvalidLeverageError,
+  InvalidReservesError,
+  NotLiquidatableError,
+  NotPositionOwnerError,
+} from '../src/errors.js'
+import { PRECISION, USDC, alice, bob, internal, leverage, liquidator, usdc } from './fixtures.js'
+
+/**
+ * Expected values are the contracts' outputs for the flows of test/Integration.t.sol and test/PerpMarket.t.sol,
+ * worked through the integer math of PerpEngine, PerpMarket, PositionManager and FundingManager
+ */
+
+// Integration.t.sol market: 1M base, 2B quote
+function integrationModel(): ProtocolModel {
+  return createProtocolModel({ baseReserve: 1_000_000n * PRECISION, quoteReserve: 2_000_000_000n * PRECISION })
+}
+
+describe('createProtocolModel', () => {
+  it('starts where PerpMarket.initialize leaves the market', () => {
+    const model = createProtocolModel({ baseReserve: 100_000n * PRECISION, quoteReserve: 100_000n * PRECISION })
+    const state = model.getState()
+
+    expect(state.baseReserve).toBe(100_000n * PRECISION)
+    expect(state.quoteReserve).toBe(100_000n * PRECISION)
+    expect(state.k).toBe(100_000n * PRECISION * 100_000n * PRECISION)
+    expect(state.longOI).toBe(0n)
+    expect(state.shortOI).toBe(0n)
+    expect(state.currentBlock).toBe(1n)
+    expect(model.getMarkPrice()).toBe(PRECISION)
+  })
+
+  it('prices the production reserves at 2000', () => {
+    expect(integrationModel().getMarkPrice()).toBe(2_000n * PRECISION)
+  })
+
+  it('rejects zero reserves', () => {
+    expect(() => createProtocolModel({ baseReserve: 0n, quoteReserve: PRECISION })).toThrow(InvalidReservesError)
+  })
+})
+
+describe('deposit and withdraw', () => {
+  it('scales USDC to 18 decimals and back', () => {
+    const model = integrationModel()
+
+    model.deposit(alice, usdc(1_000n))
+    expect(model.getWalletBalance(alice)).toBe(1_000n * PRECISION)
+
+    model.withdraw(alice, internal(500n))
+    expect(model.getWalletBalance(alice)).toBe(500n * PRECISION)
+    expect(model.getState().collateralBalance).toBe(500n * USDC)
+  })
+
+  it('reverts on a zero deposit', () => {
+    expect(() => integrationModel().deposit(alice, usdc(0n))).toThrow(InvalidAmountError)
+  })
+})
+
+describe('open and close', () => {
+  it('opens and closes a 10x long', () => {
+    const model = integrationModel()
+    model.deposit(alice, usdc(10_000n))
+
+    const { returnValue: positionId } = model.openPosition(alice, true, internal(1_000n), leverage(10n))
+    expect(positionId).toBe(1n)
+    expect(model.getWalletBalance(alice)).toBe(9_000n * PRECISION)
+
+    const position = model.getPosition(positionId)
+    expect(position.margin).toBe(990_099009900990099009n)
+    expect(position.baseSize).toBe(4_950470542225038489n)
+    expect(position.entryPrice).toBe(2_000_009900990099010266n)
+    expect(position.entryNotional).toBe(9_900_990099009900990089n)
+    expect(model.getFundBalances()).toEqual({
+      trade: 990_099009900990099009n,
+      insurance: 4_950495049504950495n,
+      protocol: 4_950495049504950495n,
+    })
+
+    const { returnValue: totalPnl, events } = model.closePosition(alice, positionId)
+    // Slippage on both legs plus one carry step against the long side
+    expect(totalPnl).toBe(-990094108445009504n)
+    expect(events.find((event) => event.eventName === 'PositionClosed')?.args).toMatchObject({
+      avgClosePrice: 2_000_009900990099009900n,
+    })
+    expect(model.getWalletBalance(alice)).toBe(9_989_108915792545089505n)
+    expect(model.getState()).toMatchObject({
+      baseReserve: 1_000_000n * PRECISION,
+      quoteReserve: 2_000_000_000_000000000000001808n,
+      carryIndex: 100000000000000n,
+      longOI: 0n,
+      tradeFund: 0n,
+    })
+    expect(model.isPositionOpen(positionId)).toBe(false)
+  })
+
+  it('opens and closes a 5x short', () => {
+    const model = integrationModel()
+    model.deposit(bob, usdc(10_000n))
+
+    const { returnValue: positionId } = model.openPosition(bob, false, internal(1_000n), leverage(5n))
+    const position = model.getPosition(positionId)
+    expect(position.margin).toBe(995_024875621890547263n)
+    expect(position.baseSize).toBe(2_487568377035763771n)
+    expect(position.entryPrice).toBe(1_999_995024875621890189n)
+    expect(position.entryNotional).toBe(4_975_124378109452736313n)
+
+    const { returnValue: totalPnl } = model.closePosition(bob, positionId)
+    expect(totalPnl).toBe(-497513675407153647n)
+    expect(model.getWalletBalance(bob)).toBe(9_994_527361946483393616n)
+    expect(model.getState().quoteReserve).toBe(2_000_000_000_000000000000000891n)
+  })
+
+  it('numbers positions from 1 and closes them all', () => {
+    const model = integrationModel()
+    model.deposit(alice, usdc(10_000n))
+
+    const ids = [
+      model.openPosition(alice, true, internal(500n), leverage(10n)).returnValue,
+      model.openPosition(alice, false, internal(500n), leverage(5n)).returnValue,
+      model.openPosition(alice, true, internal(500n), leverage(15n)).returnValue,
+    ]
+    expect(ids).toEqual([1n, 2n, 3n])
+
+    for (const id of ids) model.closePosition(alice, id)
+    expect(ids.map((id) => model.isPositionOpen(id))).toEqual([false, false, false])
+    expect(model.getState()).toMatchObject({ longOI: 0n, shortOI: 0n, tradeFund: 0n })
+  })
+})
+
+describe('reverts', () => {
+  it('checks amount, leverage and balance before opening', () => {
+    const model = integrationModel()
+    model.deposit(alice, usdc(1_000n))
+
+    expect(() => model.openPosition(alice, true, internal(0n), leverage(10n))).toThrow(InvalidAmountError)
+    expect(() => model.openPosition(alice, true, internal(1_000n), leverage(31n))).toThrow(InvalidLeverageError)
+    expect(() => model.openPosition(alice, true, internal(2_000n), leverage(10n))).toThrow(InsufficientBalanceError)
+  })
+
+  it("refuses to close another account's position", () => {
+    const model = integrationModel()
+    model.deposit(alice, usdc(10_000n))
+    const { returnValue: positionId } = model.openPosition(alice, true, internal(1_000n), leverage(10n))
+
+    expect(() => model.closePosition(bob, positionId)).toThrow(NotPositionOwnerError)
+    expect(model.isPositionOpen(positionId)).toBe(true)
+  })
+
+  it('refuses to liquidate in the opening block, even underwater', () => {
+    const model = integrationModel()
+    model.deposit(alice, usdc(10_000n))
+    model.deposit(bob, usdc(100_000n))
+    const { returnValue: positionId } = model.openPosition(alice, true, internal(100n), leverage(30n))
+    model.openPosition(bob, false, internal(8_000n), leverage(10n))
+
+    expect(() => model.liquidate(liquidator, positionId)).toThrow(NotLiquidatableError)
+  })
+
+  it('leaves the state untouched when a call reverts', () => {
+    const model = integrationModel()
+    model.deposit(alice, usdc(1_000n))
+    const before = model.getState()
+
+    expect(() => model.withdraw(alice, internal(2_000n))).toThrow(InsufficientBalanceError)
+    expect(model.getState()).toEqual(before)
+  })
+})
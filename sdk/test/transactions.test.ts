@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { createPublicClient, createTestClient, createWalletClient, custom, type Chain, type EIP1193RequestFn, type PublicClient } from 'viem'
+import { createFakeChain } from '../src/fakechain.js'
+import { createTransactionManager, TransactionFailedError } from '../src/transactions.js'
+import { mockUsdcAbi } from '../src/generated.js'
+import { alice, bob, usdc } from './fixtures.js'
+
+/**
+ * Transaction manager against the fake chain, with the sent transactions recorded
+ */
+
+interface SentTransaction {
+  nonce?: string
+  gasPrice?: string
+  maxFeePerGas?: string
+}
+
+function setup(options: { automine?: boolean; eip1559?: boolean } = {}) {
+  const fakeChain = createFakeChain({ automine: options.automine })
+  const sent: SentTransaction[] = []
+  const request = fakeChain.transport({}).request as EIP1193RequestFn
+  const transport = custom({
+    request: ({ method, params }) => {
+      if (method === 'eth_sendTransaction') sent.push((params as SentTransaction[])[0])
+      return request({ method, params } as Parameters<EIP1193RequestFn>[0])
+    },
+  })
+  const chain: Chain = options.eip1559 === false
+    ? {
+      ...fakeChain.chain,
+      fees: {
+        estimateFeesPerGas: () => {
+          throw new Error('EIP-1559 is not supported')
+        },
+      },
+    }
+    : fakeChain.chain
+
+  const publicClient = createPublicClient({ chain, transport, cacheTime: 0 }) as PublicClient
+  const walletClient = createWalletClient({ account: alice, chain, transport })
+  const testClient = createTestClient({ mode: 'anvil', chain, transport })
+  const approve = (amount: bigint) => ({
+    walletClient,
+    address: fakeChain.addresses.usdc,
+    abi: mockUsdcAbi,
+    functionName: 'approve',
+    args: [bob, amount],
+  })
+
+  return { fakeChain, publicClient, testClient, sent, approve }
+}
+
+describe('createTransactionManager', () => {
+  it('sends EIP-1559 transactions with local nonces', async () => {
+    const { publicClient, sent, approve } = setup()
+    const manager = createTransactionManager({ publicClient, pollingInterval: 10 })
+
+    const first = manager.submit(approve(usdc(1n)))
+    const second = manager.submit(approve(usdc(2n)))
+    await Promise.all([first.wait(), second.wait()])
+
+    expect(sent.map((tx) => tx.nonce)).toEqual(['0x0', '0x1'])
+    expect(sent.every((tx) => tx.maxFeePerGas !== undefined && tx.gasPrice === undefined)).toBe(true)
+  })
+
+  it('sends legacy transactions when the chain has no EIP-1559 fees', async () => {
+    const { publicClient, sent, approve } = setup({ eip1559: false })
+    const manager = createTransactionManager({ publicClient, pollingInterval: 10 })
+
+    const { receipt } = await manager.submit(approve(usdc(1n))).wait()
+    expect(receipt.status).toBe('success')
+    expect(sent).toHaveLength(1)
+    expect(sent[0].gasPrice).toBeDefined()
+    expect(sent[0].maxFeePerGas).toBeUndefined()
+  })
+
+  it('bumps the gas price of a pending legacy transaction', async () => {
+    const { fakeChain, publicClient, sent, approve } = setup({ automine: false, eip1559: false })
+    const manager = createTransactionManager({ publicClient, pollingInterval: 10 })
+
+    const tx = manager.submit(approve(usdc(1n)))
+    await until(() => tx.snapshot().state === 'sent')
+    await tx.speedUp()
+    await fakeChain.mine()
+    await tx.wait()
+
+    expect(sent).toHaveLength(2)
+    expect(sent[1].nonce).toBe(sent[0].nonce)
+    expect(BigInt(sent[1].gasPrice!)).toBeGreaterThan(BigInt(sent[0].gasPrice!))
+    expect(sent[1].maxFeePerGas).toBeUndefined()
+  })
+
+  it('fails a transaction that stays pending past the timeout and re-reads the nonce', async () => {
+    const { fakeChain, publicClient, testClient, sent, approve } = setup({ automine: false })
+    const beforeSend = await testClient.snapshot()
+    const manager = createTransactionManager({
+      publicClient,
+      pollingInterval: 10,
+      pendingTimeoutMs: 50,
+      feePolicy: { bumpAfterMs: 0 },
+    })
+
+    const stuck = manager.submit(approve(usdc(1n)))
+    await expect(stuck.wait()).rejects.toThrow(TransactionFailedError)
+    expect(stuck.snapshot().state).toBe('failed')
+
+    // The node drops it: the next transaction takes its nonce from the chain instead of queueing behind it
+    await testClient.revert({ id: beforeSend })
+    fakeChain.setAutomine(true)
+    sent.length = 0
+    await manager.submit(approve(usdc(2n))).wait()
+    expect(sent[0].nonce).toBe('0x0')
+  })
+})
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) await new Promise((resolve) => setTimeout(resolve, 5))
+}
@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+import "forge-std/Test.sol";
+import "../src/PerpMarket.sol";
+
+/**
+ * @title VammDifferentialTest
+ * @notice Differential test of the SDK's offline vAMM math (sdk/src/vamm.ts) against PerpMarket
+ * @dev Runs every view, simulate and execute function over a grid of reserves and sizes, then hands the
+ * inputs to sdk/test/ffi/vamm.mjs in one ffi call. Outputs, reverts and post-trade reserves/k must match exactly.
+ * Runs only under the differential profile, the one profile with ffi enabled (task test:differential,
+ * which builds the SDK first); skipped under every other profile
+ */
+contract VammDifferentialTest is Test {
+    uint256 constant PRECISION = 1e18;
+
+    // Function ids shared with sdk/test/ffi/vamm.mjs
+    uint8 constant MARK_PRICE = 0;
+    uint8 constant SIMULATE_OPEN_LONG = 1;
+    uint8 constant SIMULATE_OPEN_SHORT = 2;
+    uint8 constant SIMULATE_CLOSE_LONG = 3;
+    uint8 constant SIMULATE_CLOSE_SHORT = 4;
+    uint8 constant EXECUTE_OPEN_LONG = 5;
+    uint8 constant EXECUTE_OPEN_SHORT = 6;
+    uint8 constant EXECUTE_CLOSE_LONG = 7;
+    uint8 constant EXECUTE_CLOSE_SHORT = 8;
+
+    struct Case {
+        uint8 fn;
+        uint256 baseReserve;
+        uint256 quoteReserve;
+        uint256 k;
+        uint256 size;
+    }
+
+    struct Result {
+        bool ok;
+        uint256 out0;
+        uint256 out1;
+        uint256 baseReserve;
+        uint256 quoteReserve;
+        uint256 k;
+    }
+
+    Case[] internal cases;
+    Result[] internal expected;
+
+    // ============ Grid ============
+
+    function _reserveGrid() internal pure returns (uint256[2][] memory grid) {
+        grid = new uint256[2][](5);
+        grid[0] = [uint256(1 * PRECISION), 1 * PRECISION];
+        grid[1] = [uint256(100_000 * PRECISION), 100_000 * PRECISION];
+        grid[2] = [uint256(1_000_000 * PRECISION), 2_000_000_000 * PRECISION];
+        grid[3] = [uint256(3 * PRECISION + 7), 1_000_000 * PRECISION + 13];
+        grid[4] = [uint256(1e30), 1e27];
+    }
+
+    function _sizeGrid() internal pure returns (uint256[] memory sizes) {
+        // Kept small: the encoded cases go through argv, which caps one argument at 128 KiB
+        sizes = new uint256[](6);
+        sizes[0] = 0;
+        sizes[1] = 1;
+        sizes[2] = 1e15 + 1;
+        sizes[3] = 1_000 * PRECISION;
+        sizes[4] = 75_000 * PRECISION;
+        sizes[5] = 1e27;
+    }
+
+    // ============ Differential Test ============
+
+    function test_VammMatchesSdk() public {
+        vm.skip(keccak256(bytes(vm.envOr("FOUNDRY_PROFILE", string("")))) != keccak256("differential"));
+
+        uint256[2][] memory reserveGrid = _reserveGrid();
+        uint256[] memory sizes = _sizeGrid();
+
+        for (uint256 i = 0; i < reserveGrid.length; i++) {
+            PerpMarket market = new PerpMarket();
+            market.initialize(reserveGrid[i][0], reserveGrid[i][1], address(this));
+            market.setEngine(address(this));
+
+            _run(market, MARK_PRICE, 0);
+            for (uint256 j = 0; j < sizes.length; j++) {
+                for (uint8 fn = SIMULATE_OPEN_LONG; fn <= SIMULATE_CLOSE_SHORT; fn++) {
+                    _run(market, fn, sizes[j]);
+                }
+            }
+
+            // Executes move the reserves and recompute k, so later cases start from drifted state
+            for (uint256 j = 0; j < sizes.length; j++) {
+                for (uint8 fn = EXECUTE_OPEN_LONG; fn <= EXECUTE_CLOSE_SHORT; fn++) {
+                    _run(market, fn, sizes[j]);
+                }
+            }
+            _run(market, MARK_PRICE, 0);
+        }
+
+        Result[] memory actual = _sdk();
+        assertEq(actual.length, expected.length, "result count");
+
+        for (uint256 i = 0; i < expected.length; i++) {
+            Case memory c = cases[i];
+            string memory label = string.concat(
+                "case ", vm.toString(i), " fn ", vm.toString(c.fn), " size ", vm.toString(c.size)
+            );
+            assertEq(actual[i].ok, expected[i].ok, string.concat(label, ": reverts"));
+            assertEq(actual[i].out0, expected[i].out0, string.concat(label, ": out0"));
+            assertEq(actual[i].out1, expected[i].out1, string.concat(label, ": out1"));
+            assertEq(actual[i].baseReserve, expected[i].baseReserve, string.concat(label, ": baseReserve"));
+            assertEq(actual[i].quoteReserve, expected[i].quoteReserve, string.concat(label, ": quoteReserve"));
+            assertEq(actual[i].k, expected[i].k, string.concat(label, ": k"));
+        }
+    }
+
+    // ============ Helper Functions ============
+
+    /// @dev Record the market state before the call and the contract's outputs and state after it
+    function _run(PerpMarket market, uint8 fn, uint256 size) internal {
+        cases.push(Case(fn, market.baseReserve(), market.quoteReserve(), market.k(), size));
+
+        (bool ok, uint256 out0, uint256 out1) = _call(market, fn, size);
+        if (!ok) (out0, out1) = (0, 0);
+        expected.push(Result(ok, out0, out1, market.baseReserve(), market.quoteReserve(), market.k()));
+    }
+
+    function _call(PerpMarket market, uint8 fn, uint256 size) internal returns (bool, uint256, uint256) {
+        if (fn == MARK_PRICE) {
+            try market.getMarkPrice() returns (uint256 price) {
+                return (true, price, 0);
+            } catch {}
+        } else if (fn == SIMULATE_OPEN_LONG) {
+            try market.simulateOpenLong(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == SIMULATE_OPEN_SHORT) {
+            try market.simulateOpenShort(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == SIMULATE_CLOSE_LONG) {
+            try market.simulateCloseLong(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == SIMULATE_CLOSE_SHORT) {
+            try market.simulateCloseShort(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == EXECUTE_OPEN_LONG) {
+            try market.executeOpenLong(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == EXECUTE_OPEN_SHORT) {
+            try market.executeOpenShort(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == EXECUTE_CLOSE_LONG) {
+            try market.executeCloseLong(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        } else if (fn == EXECUTE_CLOSE_SHORT) {
+            try market.executeCloseShort(size) returns (uint256 a, uint256 b) {
+                return (true, a, b);
+            } catch {}
+        }
+        return (false, 0, 0);
+    }
+
+    function _sdk() internal returns (Result[] memory) {
+        string[] memory command = new string[](3);
+        command[0] = "node";
+        command[1] = "sdk/test/ffi/vamm.mjs";
+        command[2] = vm.toString(abi.encode(cases));
+        return abi.decode(vm.ffi(command), (Result[]));
+    }
+}
@@ -7,6 +7,7 @@ import { DepositWithdraw } from './components/DepositWithdraw';
 import { OpenPosition } from './components/OpenPosition';
 import { PositionList } from './components/PositionList';
 import { LiquidationPanel } from './components/LiquidationPanel';
+import { Portfolio } from './components/Portfolio';
 import { MarketCharts } from './components/MarketCharts';
 import { SimulationControls } from './components/simulation/SimulationControls';
 import { TradeFeed } from './components/TradeFeed';
@@ -20,7 +21,7 @@ function App() {
   const chainId = useChainId();
   const isAnvil = chainId === ANVIL_CHAIN_ID;
 
-  const [sidebarTab, setSidebarTab] = useState<'simulation' | 'trading' | 'liquidations'>(
+  const [sidebarTab, setSidebarTab] = useState<'simulation' | 'trading' | 'portfolio' | 'liquidations'>(
     isAnvil ? 'simulation' : 'trading'
   );
 
@@ -81,6 +82,13 @@ function App() {
             >
               📈 Trading
             </button>
+            <button
+              className={sidebarTab === 'portfolio' ? 'active' : ''}
+              onClick={() => setSidebarTab('portfolio')}
+              title="Balances and PnL across all markets"
+            >
+              💼 Portfolio
+            </button>
             <button
               className={sidebarTab === 'liquidations' ? 'active' : ''}
               onClick={() => setSidebarTab('liquidations')}
@@ -100,6 +108,8 @@ function App() {
               </div>
             )}
 
+            {sidebarTab === 'portfolio' && <Portfolio />}
+
             {sidebarTab === 'liquidations' && <LiquidationPanel />}
           </div>
         </aside>
@@ -1,12 +1,28 @@
-import { useState, useEffect } from 'react';
-import { useAccount, useChainId, usePublicClient, useWalletClient, useReadContract } from 'wagmi';
-import { parseUnits } from 'viem';
-import { ContractService, getContractAddresses, ABIS } from '../contract-api';
+import { useState, useEffect, useMemo } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import {
+  buildMarketConfig,
+  parseAmount,
+  formatAmount,
+  formatUsd,
+  formatPercent,
+  asInternal,
+  asPrice,
+  asLeverage,
+  MARKET_PRESETS,
+  type MarketConfigPlan,
+  type MarketCreatorStatus,
+  type MarketPresetName,
+  type TradeImpact,
+} from '@velto/contracts';
+import { ContractService, getContractAddresses } from '../contract-api';
 
-// Default values that create a market with ~$2000 mark price
-const DEFAULT_BASE_RESERVE = '1000000';     // 1M base tokens
-const DEFAULT_QUOTE_RESERVE = '2000000000'; // 2B quote tokens ($2000 price)
-const DEFAULT_MAX_LEVERAGE = '30';          // 30x max
+// Defaults create a ~$2000 market where a $1M long moves the mark by 1%
+const DEFAULT_PRICE = '2000';
+const DEFAULT_PRESET: MarketPresetName = 'standard';
+const DEFAULT_MAX_LEVERAGE = '30'; // 30x max
+
+const PRESET_NAMES = Object.keys(MARKET_PRESETS) as MarketPresetName[];
 
 export function CreateMarket() {
   const { address } = useAccount();
@@ -16,55 +32,63 @@ export function CreateMarket() {
   const addresses = getContractAddresses(chainId);
 
   const [isOpen, setIsOpen] = useState(false);
-  const [baseReserve, setBaseReserve] = useState(DEFAULT_BASE_RESERVE);
-  const [quoteReserve, setQuoteReserve] = useState(DEFAULT_QUOTE_RESERVE);
+  const [price, setPrice] = useState(DEFAULT_PRICE);
+  const [preset, setPreset] = useState<MarketPresetName | 'custom'>(DEFAULT_PRESET);
+  const [depth, setDepth] = useState(depthInput(DEFAULT_PRESET));
   const [maxLeverage, setMaxLeverage] = useState(DEFAULT_MAX_LEVERAGE);
+  const [creator, setCreator] = useState<{ key: string; status: MarketCreatorStatus } | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Check authorization using wagmi hooks
-  const { data: isMarketCreator } = useReadContract({
-    address: addresses.factory,
-    abi: ABIS.PerpFactory,
-    functionName: 'isMarketCreator',
-    args: address ? [address] : undefined,
-    query: { enabled: !!address && !!addresses.factory },
-  });
-
-  const { data: owner } = useReadContract({
-    address: addresses.factory,
-    abi: ABIS.PerpFactory,
-    functionName: 'owner',
-    query: { enabled: !!addresses.factory },
-  });
-
-  const isAuthorized = address && (isMarketCreator || address === owner);
-
-  const calculateMarkPrice = () => {
+  // Owner or allowlisted creator, same check as the factory's onlyMarketCreator
+  const creatorKey = address ? `${chainId}:${address}` : null;
+  useEffect(() => {
+    if (!address || !publicClient || !isOpen || !creatorKey) return;
+
+    let cancelled = false;
+    new ContractService(chainId, publicClient).factory
+      .getMarketCreatorStatus(address)
+      .then((status) => !cancelled && setCreator({ key: creatorKey, status }))
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to read market creator status:', err);
+        setError(err instanceof Error && err.message ? err.message : 'Failed to read market creator status');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chainId, publicClient, isOpen, creatorKey]);
+
+  const creatorStatus = creator && creator.key === creatorKey ? creator.status : null;
+  const isAuthorized = creatorStatus?.authorized ?? false;
+
+  // Reserves derived from price and depth, checked against the factory's rules offline
+  const plan = useMemo((): { value?: MarketConfigPlan; error?: string } => {
+    if (!price || !depth || !maxLeverage) return {};
     try {
-      const base = parseFloat(baseReserve);
-      const quote = parseFloat(quoteReserve);
-      if (base > 0) {
-        return (quote / base).toFixed(2);
-      }
-    } catch (e) {
-      return '0';
+      return {
+        value: buildMarketConfig({
+          price: asPrice(parseAmount(price, 18)),
+          depth: asInternal(parseAmount(depth, 18)),
+          maxLeverage: asLeverage(parseAmount(maxLeverage, 18)),
+        }),
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
     }
-    return '0';
+  }, [price, depth, maxLeverage]);
+
+  const canCreate = !!plan.value && plan.value.issues.length === 0 && isAuthorized;
+
+  const handlePresetChange = (value: string) => {
+    const name = value as MarketPresetName | 'custom';
+    setPreset(name);
+    if (name !== 'custom') setDepth(depthInput(name));
   };
 
   const handleCreate = async () => {
-    if (!baseReserve || !quoteReserve || !maxLeverage) {
-      alert('Please fill in all fields');
-      return;
-    }
-
-    const leverage = parseFloat(maxLeverage);
-    if (leverage <= 0 || leverage > 30) {
-      alert('Max leverage must be between 0 and 30');
-      return;
-    }
+    if (!plan.value || plan.value.issues.length > 0) return; // Shown in the form
 
     if (!publicClient || !walletClient) {
       alert('Please connect your wallet');
@@ -78,26 +102,22 @@ export function CreateMarket() {
     try {
       const contractService = new ContractService(chainId, publicClient, walletClient);
 
-      const result = await contractService.factory.createMarket(
-        addresses.usdc,
-        parseUnits(baseReserve, 18),
-        parseUnits(quoteReserve, 18),
-        parseUnits(maxLeverage, 18)
-      );
+      const result = await contractService.factory.createMarket(addresses.usdc, plan.value.config);
 
       console.log('Market created:', result);
       setIsSuccess(true);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Failed to create market:', err);
-      setError(err.message || 'Failed to create market');
+      setError(err instanceof Error && err.message ? err.message : 'Failed to create market');
     } finally {
       setIsCreating(false);
     }
   };
 
   const handleReset = () => {
-    setBaseReserve(DEFAULT_BASE_RESERVE);
-    setQuoteReserve(DEFAULT_QUOTE_RESERVE);
+    setPrice(DEFAULT_PRICE);
+    setPreset(DEFAULT_PRESET);
+    setDepth(depthInput(DEFAULT_PRESET));
     setMaxLeverage(DEFAULT_MAX_LEVERAGE);
   };
 
@@ -130,7 +150,7 @@ export function CreateMarket() {
             </div>
 
             <div className="modal-body">
-              {!isAuthorized && address && (
+              {creatorStatus && !isAuthorized && (
                 <div className="warning-message">
                   ⚠️ You are not authorized to create markets. Only the factory owner or authorized market creators can create new markets.
                 </div>
@@ -139,28 +159,38 @@ export function CreateMarket() {
               <div className="form-section">
                 <div className="form-row">
                   <label>
-                    Base Reserve
-                    <span className="label-hint">Initial vAMM base token reserve (18 decimals)</span>
+                    Initial Price (USD)
+                    <span className="label-hint">Mark price the market opens at</span>
                   </label>
                   <input
                     type="text"
-                    value={baseReserve}
-                    onChange={(e) => setBaseReserve(e.target.value)}
-                    placeholder="1000000"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder="2000"
                   />
                 </div>
 
                 <div className="form-row">
                   <label>
-                    Quote Reserve (USDC)
-                    <span className="label-hint">Initial vAMM quote token reserve (18 decimals)</span>
+                    Depth
+                    <span className="label-hint">Long notional (USD) that moves the mark by 1%</span>
                   </label>
-                  <input
-                    type="text"
-                    value={quoteReserve}
-                    onChange={(e) => setQuoteReserve(e.target.value)}
-                    placeholder="2000000000"
-                  />
+                  <select value={preset} onChange={(e) => handlePresetChange(e.target.value)}>
+                    {PRESET_NAMES.map((name) => (
+                      <option key={name} value={name}>
+                        {MARKET_PRESETS[name].label} ({formatUsd(MARKET_PRESETS[name].depth, { notation: 'compact' })})
+                      </option>
+                    ))}
+                    <option value="custom">Custom</option>
+                  </select>
+                  {preset === 'custom' && (
+                    <input
+                      type="text"
+                      value={depth}
+                      onChange={(e) => setDepth(e.target.value)}
+                      placeholder="1000000"
+                    />
+                  )}
                 </div>
 
                 <div className="form-row">
@@ -176,16 +206,40 @@ export function CreateMarket() {
                   />
                 </div>
 
-                <div className="form-info">
-                  <div className="info-row">
-                    <span>Initial Mark Price:</span>
-                    <span className="info-value">${calculateMarkPrice()}</span>
+                {plan.error && <div className="error-message">{plan.error}</div>}
+                {plan.value?.issues.map((issue) => (
+                  <div key={`${issue.code}-${issue.field}`} className="error-message">
+                    {issue.message}
                   </div>
-                  <div className="info-row">
-                    <span>Collateral Token:</span>
-                    <span className="info-value">USDC</span>
+                ))}
+
+                {plan.value && (
+                  <div className="form-info">
+                    <div className="info-row">
+                      <span>Initial Mark Price:</span>
+                      <span className="info-value">{formatUsd(plan.value.markPrice)}</span>
+                    </div>
+                    <div className="info-row">
+                      <span>Base / Quote Reserve:</span>
+                      <span className="info-value">
+                        {formatAmount(plan.value.config.baseReserve, { notation: 'compact' })} /{' '}
+                        {formatUsd(plan.value.config.quoteReserve, { notation: 'compact' })}
+                      </span>
+                    </div>
+                    {plan.value.priceImpacts.map((row) => (
+                      <div key={row.size.toString()} className="info-row">
+                        <span>{formatUsd(row.size, { digits: 0 })} long / short impact:</span>
+                        <span className="info-value">
+                          {formatImpact(row.long)} / {formatImpact(row.short)}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="info-row">
+                      <span>Collateral Token:</span>
+                      <span className="info-value">USDC</span>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
 
@@ -196,7 +250,7 @@ export function CreateMarket() {
               <button
                 className="button-primary"
                 onClick={handleCreate}
-                disabled={isCreating || !isAuthorized}
+                disabled={isCreating || !canCreate}
                 title={!isAuthorized ? 'You are not authorized to create markets' : ''}
               >
                 {isCreating ? 'Creating...' : 'Create Market'}
@@ -222,3 +276,12 @@ export function CreateMarket() {
     </>
   );
 }
+
+function depthInput(preset: MarketPresetName): string {
+  return formatAmount(MARKET_PRESETS[preset].depth, { grouping: false, minDigits: 0 });
+}
+
+// Average fill vs mark; '—' where the vAMM cannot fill the size
+function formatImpact(impact: TradeImpact | null): string {
+  return impact ? formatPercent(impact.priceImpact, { digits: 3 }) : '—';
+}
@@ -1,9 +1,11 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useChainId } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { parseUnits } from 'viem';
+import { asInternal, parseAmount, type PreviewAction } from '@velto/contracts';
 import { useMarketStore } from '../store/marketStore';
 import { ABIS, getContractAddresses } from '../contract-api';
+import { useTransactionPreview } from '../hooks/useTransactionPreview';
+import { TransactionPreview } from './TransactionPreview';
 import { formatBigInt } from '../utils/format';
 
 export function DepositWithdraw() {
@@ -36,14 +38,31 @@ export function DepositWithdraw() {
     args: address ? [address] : undefined,
   });
 
+  // Deposits are USDC (6 decimals), withdrawals internal (18 decimals)
+  const parsed = useMemo((): { value?: bigint; error?: string } => {
+    if (!amount) return {};
+    try {
+      return { value: parseAmount(amount, isDeposit ? 6 : 18) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [isDeposit, amount]);
+
+  // Withdrawals are previewed before signing
+  const withdrawAction = useMemo((): PreviewAction | null => {
+    if (isDeposit || parsed.value === undefined) return null;
+    return { type: 'withdraw', amount: asInternal(parsed.value) };
+  }, [isDeposit, parsed.value]);
+  const withdrawPreview = useTransactionPreview(withdrawAction);
+
   const { writeContract, data: txHash } = useWriteContract();
   const { isLoading: isTxPending } = useWaitForTransactionReceipt({ hash: txHash });
 
   const handleDeposit = async () => {
-    if (!amount || !selectedMarket || !address) return;
+    if (parsed.value === undefined || !selectedMarket || !address) return;
 
     try {
-      const usdcAmount = parseUnits(amount, 6); // USDC has 6 decimals
+      const usdcAmount = parsed.value;
 
       // Check if approval is needed
       const currentAllowance = allowance || 0n;
@@ -98,9 +117,9 @@ export function DepositWithdraw() {
   };
 
   const handleWithdraw = () => {
-    if (!amount || !selectedMarket) return;
+    if (parsed.value === undefined || !selectedMarket) return;
     setStatus('Withdrawing...');
-    const internalAmount = parseUnits(amount, 18); // Internal uses 18 decimals
+    const internalAmount = parsed.value;
     writeContract(
       {
         address: selectedMarket as `0x${string}`,
@@ -170,14 +189,18 @@ export function DepositWithdraw() {
           step="0.01"
         />
 
+        {parsed.error && <p className="negative">{parsed.error}</p>}
+
         {status && <div className="status-message">{status}</div>}
 
+        {!isDeposit && <TransactionPreview {...withdrawPreview} />}
+
         {isDeposit ? (
-          <button onClick={handleDeposit} disabled={isTxPending || !amount}>
+          <button onClick={handleDeposit} disabled={isTxPending || parsed.value === undefined}>
             {isTxPending ? 'Processing...' : 'Deposit'}
           </button>
         ) : (
-          <button onClick={handleWithdraw} disabled={isTxPending || !amount}>
+          <button onClick={handleWithdraw} disabled={isTxPending || parsed.value === undefined}>
             {isTxPending ? 'Processing...' : 'Withdraw'}
           </button>
         )}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi';
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContract, usePublicClient } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import type { Address } from 'viem';
+import { getAllOpenPositions, getLiquidationInfo, readMarketSnapshot } from '@velto/contracts';
 import { useMarketStore } from '../store/marketStore';
 import { ABIS } from '../contract-api';
 import { formatBigInt } from '../utils/format';
@@ -16,7 +18,9 @@ interface LiquidatablePosition {
 export function LiquidationPanel() {
   const { isConnected } = useAccount();
   const { selectedMarket } = useMarketStore();
+  const publicClient = usePublicClient();
   const [liquidatablePositions, setLiquidatablePositions] = useState<LiquidatablePosition[]>([]);
+  const [openPositionCount, setOpenPositionCount] = useState<number | null>(null);
   const [scanning, setScanning] = useState(false);
   const [liquidatingId, setLiquidatingId] = useState<bigint | null>(null);
 
@@ -49,50 +53,31 @@ export function LiquidationPanel() {
   });
 
   const scanForLiquidations = async () => {
-    if (!nextPositionId || !positionManagerAddress || !liquidationEngineAddress) return;
+    if (!selectedMarket || !publicClient) return;
 
     setScanning(true);
-    const liquidatable: LiquidatablePosition[] = [];
-
-    // Scan all positions (in a real app, you'd use events or subgraph)
-    for (let i = 1n; i < nextPositionId; i++) {
-      try {
-        // This is simplified - in reality you'd batch these calls
-        const position = await window.ethereum?.request({
-          method: 'eth_call',
-          params: [{
-            to: positionManagerAddress,
-            data: `0x46d5c678${i.toString(16).padStart(64, '0')}`, // getPosition(uint256)
-          }, 'latest'],
-        });
-
-        // Check if liquidatable
-        const isLiq = await window.ethereum?.request({
-          method: 'eth_call',
-          params: [{
-            to: liquidationEngineAddress,
-            data: `0x91c3ddca${i.toString(16).padStart(64, '0')}`, // isLiquidatable(uint256)
-          }, 'latest'],
-        });
-
-        if (isLiq && isLiq !== '0x0000000000000000000000000000000000000000000000000000000000000000') {
-          // Position is liquidatable - add to list
-          // For demo, we'll just add position ID
-          liquidatable.push({
-            id: i,
-            user: '0x...',
-            isLong: true,
-            margin: 0n,
-            entryNotional: 0n,
-          });
-        }
-      } catch (error) {
-        console.error(`Error checking position ${i}:`, error);
-      }
-    }
 
-    setLiquidatablePositions(liquidatable);
-    setScanning(false);
+    try {
+      const engine = selectedMarket as Address;
+      // Open positions from PositionOpened logs (status checked in one batch), valued against
+      // a snapshot of the same block with the LiquidationEngine math
+      const blockNumber = await publicClient.getBlockNumber();
+      const [positions, snapshot] = await Promise.all([
+        getAllOpenPositions(publicClient, engine, { blockNumber }),
+        readMarketSnapshot(publicClient, engine, { blockNumber }),
+      ]);
+
+      setOpenPositionCount(positions.length);
+      setLiquidatablePositions(
+        positions
+          .filter((position) => getLiquidationInfo(position, snapshot).isLiquidatable)
+          .map(({ id, user, isLong, margin, entryNotional }) => ({ id, user, isLong, margin, entryNotional }))
+      );
+    } catch (error) {
+      console.error('Failed to scan positions:', error);
+    } finally {
+      setScanning(false);
+    }
   };
 
   const handleLiquidate = (positionId: bigint) => {
@@ -137,6 +122,12 @@ export function LiquidationPanel() {
           <span>Total Positions:</span>
           <span>{nextPositionId ? (nextPositionId - 1n).toString() : '0'}</span>
         </div>
+        {openPositionCount !== null && (
+          <div className="info-row">
+            <span>Open Positions:</span>
+            <span>{openPositionCount}</span>
+          </div>
+        )}
       </div>
 
       {liquidatablePositions.length === 0 ? (
@@ -40,13 +40,13 @@ export function MarketSelector() {
       const service = new ContractService(chainId, publicClient);
       const sizes: Record<string, number> = {};
 
-      for (const marketAddress of markets as string[]) {
-        try {
-          const marketData = await service.engine.getFullMarketData(marketAddress as `0x${string}`);
-          sizes[marketAddress] = Number(marketData.quoteReserve) / 1e18;
-        } catch (err) {
-          console.error(`Failed to fetch pool size for ${marketAddress}:`, err);
+      try {
+        const snapshots = await service.engine.getFullMarketDataBatch(markets as `0x${string}`[]);
+        for (const snapshot of snapshots) {
+          sizes[snapshot.engineAddress] = Number(snapshot.quoteReserve) / 1e18;
         }
+      } catch (err) {
+        console.error('Failed to fetch pool sizes:', err);
       }
 
       setPoolSizes(sizes);
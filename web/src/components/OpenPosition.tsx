@@ -1,8 +1,23 @@
-import { useState } from 'react';
-import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useMemo, useState } from 'react';
+import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
-import { parseUnits } from 'viem';
+import {
+  quoteOpenPosition,
+  estimateCarryPnl,
+  annualizeCarryRate,
+  getBlockTime,
+  asInternal,
+  asLeverage,
+  parseAmount,
+  formatPercent,
+  type OpenQuote,
+  type PreviewAction,
+} from '@velto/contracts';
 import { useMarketStore } from '../store/marketStore';
+import { useMarketData } from '../hooks/useMarketData';
+import { useTransactionPreview } from '../hooks/useTransactionPreview';
+import { TransactionPreview } from './TransactionPreview';
+import { formatBigInt } from '../utils/format';
 
 // Placeholder ABI - will be replaced after abi:export
 const ENGINE_ABI = [
@@ -26,14 +41,71 @@ export function OpenPosition() {
   const [amount, setAmount] = useState('');
   const [leverage, setLeverage] = useState('10');
 
+  const chainId = useChainId();
+  const marketData = useMarketData();
+
   const { writeContract, data: hash } = useWriteContract();
   const { isLoading } = useWaitForTransactionReceipt({ hash });
 
+  // Offline pre-trade quote (same math as PerpEngine.openPosition)
+  const quote = useMemo((): { value?: OpenQuote; error?: string } => {
+    if (!marketData || !amount || !leverage) return {};
+    try {
+      return {
+        value: quoteOpenPosition(marketData, {
+          isLong,
+          totalToUse: parseAmount(amount, 18),
+          leverage: parseAmount(leverage, 18),
+        }),
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [marketData, isLong, amount, leverage]);
+
+  // Full state diff once the quote is valid (traced on Anvil, offline math elsewhere)
+  const previewAction = useMemo((): PreviewAction | null => {
+    if (!quote.value) return null;
+    return {
+      type: 'openPosition',
+      isLong,
+      totalToUse: asInternal(quote.value.totalToUse),
+      leverage: asLeverage(quote.value.leverage),
+    };
+  }, [quote.value, isLong]);
+  const preview = useTransactionPreview(previewAction);
+
+  // Holding cost at the post-trade skew: 1 hour of carry and the annualized rate for this side
+  const carry = useMemo(() => {
+    const blockTime = getBlockTime(chainId);
+    if (!marketData || !quote.value || blockTime === null) return null;
+
+    const market = {
+      carryIndex: marketData.carryIndex,
+      longOI: quote.value.longOIAfter,
+      shortOI: quote.value.shortOIAfter,
+    };
+    const estimate = estimateCarryPnl(market, {
+      isLong,
+      notional: quote.value.entryNotional,
+      blocks: BigInt(Math.round(3600 / blockTime)),
+    });
+    // Positive rate = longs pay; flip so positive means this side receives
+    const annualRate = annualizeCarryRate(estimate.carryPerBlock, blockTime);
+    return { hourlyPnl: estimate.carryPnl, annualRate: isLong ? -annualRate : annualRate };
+  }, [chainId, marketData, quote.value, isLong]);
+
   const handleOpenPosition = () => {
     if (!amount || !leverage || !selectedMarket) return;
 
-    const totalToUse = parseUnits(amount, 18); // Internal 18 decimals
-    const leverageAmount = parseUnits(leverage, 18);
+    let totalToUse: bigint;
+    let leverageAmount: bigint;
+    try {
+      totalToUse = parseAmount(amount, 18); // Internal 18 decimals
+      leverageAmount = parseAmount(leverage, 18);
+    } catch {
+      return; // Shown by the quote
+    }
 
     writeContract({
       address: selectedMarket as `0x${string}`,
@@ -104,11 +176,33 @@ export function OpenPosition() {
         </div>
 
         <div className="position-info">
-          <p>
-            Notional: {amount && leverage ? (parseFloat(amount) * parseFloat(leverage)).toFixed(2) : '0'} USDC
-          </p>
+          {quote.value ? (
+            <>
+              <p>Margin: {formatBigInt(quote.value.margin, 18, 2)} USDC</p>
+              <p>Notional: {formatBigInt(quote.value.notional, 18, 2)} USDC</p>
+              <p>
+                Fee: {formatBigInt(quote.value.fee, 18, 4)} USDC ({formatPercent(quote.value.feeRate, { digits: 3 })})
+              </p>
+              <p>Size: {formatBigInt(quote.value.baseSize, 18, 4)}</p>
+              <p>Est. Entry Price: ${formatBigInt(quote.value.entryPrice, 18, 2)}</p>
+              <p>Price Impact: {formatPercent(quote.value.priceImpact, { digits: 3 })}</p>
+              {carry && (
+                <p className={carry.hourlyPnl < 0n ? 'negative' : 'positive'}>
+                  Est. Carry (1h): {formatBigInt(carry.hourlyPnl, 18, 4)} USDC ({formatPercent(carry.annualRate, { signDisplay: 'exceptZero' })} APR)
+                </p>
+              )}
+            </>
+          ) : quote.error ? (
+            <p className="negative">{quote.error}</p>
+          ) : (
+            <p>
+              Notional: {amount && leverage ? (parseFloat(amount) * parseFloat(leverage)).toFixed(2) : '0'} USDC
+            </p>
+          )}
         </div>
 
+        <TransactionPreview {...preview} />
+
         <button
           className="open-position-button"
           onClick={handleOpenPosition}
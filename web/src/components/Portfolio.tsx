@@ -0,0 +1,94 @@
+import { useAccount } from 'wagmi';
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { formatAmount, type PortfolioTotals } from '@velto/contracts';
+import { usePortfolio } from '../hooks/usePortfolio';
+import { useMarketStore } from '../store/marketStore';
+import { formatAddress, formatBigInt } from '../utils/format';
+
+function signed(value: bigint): string {
+  return formatAmount(value, { signDisplay: 'exceptZero' });
+}
+
+function TotalsRows({ totals }: { totals: PortfolioTotals }) {
+  return (
+    <>
+      <div className="detail-row">
+        <span>Engine Balance:</span>
+        <span>{formatBigInt(totals.walletBalance, 18, 2)} USDC</span>
+      </div>
+      <div className="detail-row">
+        <span>Margin in Positions:</span>
+        <span>{formatBigInt(totals.totalMargin, 18, 2)} USDC</span>
+      </div>
+      <div className="detail-row">
+        <span>Unrealized PnL:</span>
+        <span className={totals.unrealizedPnl < 0n ? 'negative' : 'positive'}>{signed(totals.unrealizedPnl)} USDC</span>
+      </div>
+      <div className="detail-row">
+        <span>Carry:</span>
+        <span className={totals.carryPnl < 0n ? 'negative' : 'positive'}>{signed(totals.carryPnl)} USDC</span>
+      </div>
+      <div className="detail-row">
+        <span>Equity:</span>
+        <span>{formatBigInt(totals.equity, 18, 2)} USDC</span>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Balances, margin and PnL of the connected account across every market
+ * Clicking a market selects it for trading
+ */
+export function Portfolio() {
+  const { isConnected } = useAccount();
+  const { selectedMarket, setSelectedMarket } = useMarketStore();
+  const { portfolio, error } = usePortfolio();
+
+  if (!isConnected) {
+    return (
+      <div className="portfolio-panel">
+        <h3>Portfolio</h3>
+        <p>Connect your wallet to see your portfolio</p>
+        <ConnectButton />
+      </div>
+    );
+  }
+
+  return (
+    <div className="portfolio-panel">
+      <h3>Portfolio</h3>
+
+      {error && <p className="negative">{error}</p>}
+      {!portfolio && !error && <p className="no-positions">Loading...</p>}
+
+      {portfolio && (
+        <>
+          <div className="portfolio-totals">
+            <TotalsRows totals={portfolio.totals} />
+          </div>
+
+          {portfolio.markets.length === 0 && <p className="no-positions">No markets traded yet</p>}
+
+          {portfolio.markets.map((market) => (
+            <div
+              key={market.engine}
+              className={`portfolio-market${market.engine.toLowerCase() === selectedMarket?.toLowerCase() ? ' selected' : ''}`}
+              onClick={() => setSelectedMarket(market.engine)}
+            >
+              <div className="position-header">
+                <span className="position-id">{formatAddress(market.engine)}</span>
+                <span className="position-id">
+                  {market.positions.length} open position{market.positions.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <TotalsRows totals={market} />
+            </div>
+          ))}
+
+          <p className="portfolio-block">As of block {portfolio.blockNumber.toString()}</p>
+        </>
+      )}
+    </div>
+  );
+}
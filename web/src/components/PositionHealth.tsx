@@ -1,40 +1,43 @@
-import { usePositionHealth } from '../hooks/usePositionHealth';
+import { DEFAULT_HEALTH_THRESHOLDS, formatPercent, type PositionHealthLevel } from '@velto/contracts';
+import type { PositionHealthState } from '../hooks/usePositionHealth';
 import { formatBigInt } from '../utils/format';
 
 interface PositionHealthProps {
-  positionId: bigint;
-  margin: bigint;
-  leverage: bigint;
+  state?: PositionHealthState;
 }
 
-export function PositionHealth({ positionId, margin, leverage }: PositionHealthProps) {
-  const health = usePositionHealth(positionId);
+const DANGER_THRESHOLD = DEFAULT_HEALTH_THRESHOLDS[DEFAULT_HEALTH_THRESHOLDS.length - 1];
 
-  if (!health) {
+function formatLevel(level: PositionHealthLevel): string {
+  if (level === null) return 'healthy';
+  if (level === 'liquidatable') return 'liquidatable';
+  return `${formatPercent(level, { minDigits: 0 })} of allowed loss`;
+}
+
+export function PositionHealth({ state }: PositionHealthProps) {
+  if (!state) {
     return <div className="position-health loading">Loading health...</div>;
   }
 
-  const { healthRatio, totalPnl, isLiquidatable } = health;
+  const { health, lastCrossing } = state;
+  const { level, marginRatio, liquidationPrice, liquidationDistance } = health;
+  const { totalPnl, equityIfClosed } = health.equity;
+  const isLiquidatable = level === 'liquidatable';
 
-  // Determine health status
+  // Remaining equity as a share of margin, for the bar
+  const margin = health.position.margin;
+  const healthRatio = margin > 0n && equityIfClosed > 0n ? Number((equityIfClosed * 10000n) / margin) / 100 : 0;
+
+  // Status follows the watcher's threshold level
   let healthStatus: 'healthy' | 'warning' | 'danger';
-  if (healthRatio >= 50) {
+  if (level === null) {
     healthStatus = 'healthy';
-  } else if (healthRatio >= 30) {
+  } else if (level !== 'liquidatable' && level < DANGER_THRESHOLD) {
     healthStatus = 'warning';
   } else {
     healthStatus = 'danger';
   }
 
-  // Calculate liquidation threshold based on leverage
-  const leverageNum = Number(leverage) / 1e18;
-  let liqThreshold = 10; // 10% for low leverage
-  if (leverageNum > 20) {
-    liqThreshold = 30; // 30% for >20x
-  } else if (leverageNum > 10) {
-    liqThreshold = 20; // 20% for >10x
-  }
-
   return (
     <div className={`position-health ${healthStatus}`}>
       <div className="health-header">
@@ -61,14 +64,22 @@ export function PositionHealth({ positionId, margin, leverage }: PositionHealthP
           </span>
         </div>
         <div className="health-row">
-          <span>Liq. Threshold:</span>
-          <span className="threshold">{liqThreshold}%</span>
+          <span>Margin Used:</span>
+          <span className="threshold">{formatPercent(marginRatio)} of allowed loss</span>
+        </div>
+        <div className="health-row">
+          <span>Liq. Price:</span>
+          <span className="threshold">
+            {liquidationPrice !== null && liquidationDistance !== null
+              ? `$${formatBigInt(liquidationPrice, 18, 2)} (${formatPercent(liquidationDistance)} away)`
+              : 'None'}
+          </span>
         </div>
       </div>
 
-      {healthRatio < 40 && (
+      {lastCrossing?.worsened && !isLiquidatable && (
         <div className="health-warning">
-          ⚠️ Position at risk of liquidation
+          ⚠️ Position crossed {formatLevel(lastCrossing.to)}
         </div>
       )}
     </div>
@@ -3,9 +3,14 @@ import { useState, useEffect } from 'react';
 import { useMarketStore } from '../store/marketStore';
 import { usePositionStore } from '../store/positionStore';
 import { PositionHealth } from './PositionHealth';
+import { TransactionPreview } from './TransactionPreview';
 import { useSimulationStore } from '../simulation/store/simulationStore';
+import { usePositionHealth } from '../hooks/usePositionHealth';
+import { useTransactionPreview } from '../hooks/useTransactionPreview';
 import { ABIS } from '../contract-api';
 import { formatBigInt } from '../utils/format';
+import type { Address } from 'viem';
+import type { Position } from '../store/positionStore';
 
 export function PositionList() {
   const { address, isConnected } = useAccount();
@@ -13,6 +18,11 @@ export function PositionList() {
   const { botWallets } = useSimulationStore();
   const { getUserPositions, getPositionsByMarket } = usePositionStore();
   const [closingPositionId, setClosingPositionId] = useState<bigint | null>(null);
+  // Position whose close is being previewed; the close is sent on confirm
+  const [reviewPositionId, setReviewPositionId] = useState<bigint | null>(null);
+  const closePreview = useTransactionPreview(
+    reviewPositionId !== null ? { type: 'closePosition', positionId: reviewPositionId } : null
+  );
 
   // Helper to check if an address belongs to a bot
   const isBotAddress = (addr: `0x${string}`): boolean => {
@@ -34,8 +44,22 @@ export function PositionList() {
 
   const botPositions = marketPositions.filter(pos => isBotAddress(pos.user));
 
+  // One watcher re-values every displayed position at each new block
+  const healthById = usePositionHealth(
+    (selectedMarket as Address) || null,
+    [...userPositions, ...botPositions].map((pos) => pos.id)
+  );
+
+  // Liquidation price from the watcher's latest valuation (offline solver)
+  const formatLiquidationPrice = (position: Position): string => {
+    const health = healthById[position.id.toString()]?.health;
+    if (!health) return '-';
+    return health.liquidationPrice !== null ? `$${formatBigInt(health.liquidationPrice, 18, 2)}` : 'None';
+  };
+
   const handleClosePosition = (positionId: bigint) => {
     if (!selectedMarket) return;
+    setReviewPositionId(null);
     setClosingPositionId(positionId);
     writeContract({
       address: selectedMarket as `0x${string}`,
@@ -97,21 +121,37 @@ export function PositionList() {
                       <span>Size:</span>
                       <span>{formatBigInt(position.baseSize, 18, 4)}</span>
                     </div>
+                    <div className="detail-row">
+                      <span>Liq. Price:</span>
+                      <span>{formatLiquidationPrice(position)}</span>
+                    </div>
                   </div>
 
-                  <PositionHealth
-                    positionId={position.id}
-                    margin={position.margin}
-                    leverage={position.leverage}
-                  />
-
-                  <button
-                    className="close-position-button"
-                    onClick={() => handleClosePosition(position.id)}
-                    disabled={isClosing && closingPositionId === position.id}
-                  >
-                    {isClosing && closingPositionId === position.id ? 'Closing...' : 'Close Position'}
-                  </button>
+                  <PositionHealth state={healthById[position.id.toString()]} />
+
+                  {reviewPositionId === position.id ? (
+                    <>
+                      <TransactionPreview {...closePreview} />
+                      <button
+                        className="close-position-button"
+                        onClick={() => handleClosePosition(position.id)}
+                        disabled={!!closePreview.error}
+                      >
+                        Confirm Close
+                      </button>
+                      <button className="cancel-button" onClick={() => setReviewPositionId(null)}>
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      className="close-position-button"
+                      onClick={() => setReviewPositionId(position.id)}
+                      disabled={isClosing && closingPositionId === position.id}
+                    >
+                      {isClosing && closingPositionId === position.id ? 'Closing...' : 'Close Position'}
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -147,13 +187,13 @@ export function PositionList() {
                       <span>Size:</span>
                       <span>{formatBigInt(position.baseSize, 18, 4)}</span>
                     </div>
+                    <div className="detail-row">
+                      <span>Liq. Price:</span>
+                      <span>{formatLiquidationPrice(position)}</span>
+                    </div>
                   </div>
 
-                  <PositionHealth
-                    positionId={position.id}
-                    margin={position.margin}
-                    leverage={position.leverage}
-                  />
+                  <PositionHealth state={healthById[position.id.toString()]} />
                 </div>
               ))}
             </div>
@@ -0,0 +1,83 @@
+import type { PreviewField, TransactionPreview as Preview } from '@velto/contracts';
+import { formatBigInt } from '../utils/format';
+
+interface TransactionPreviewProps {
+  preview: Preview | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+// Label and display decimals per previewed field (all 18-decimal values)
+const FIELDS: Partial<Record<PreviewField, { label: string; digits: number; prefix?: string }>> = {
+  walletBalance: { label: 'Engine Balance', digits: 2 },
+  tradeFund: { label: 'Trade Fund', digits: 2 },
+  insuranceFund: { label: 'Insurance Fund', digits: 4 },
+  protocolFees: { label: 'Protocol Fees', digits: 4 },
+  baseReserve: { label: 'Base Reserve', digits: 4 },
+  quoteReserve: { label: 'Quote Reserve', digits: 2 },
+  markPrice: { label: 'Mark Price', digits: 4, prefix: '$' },
+  longOI: { label: 'Long OI', digits: 2 },
+  shortOI: { label: 'Short OI', digits: 2 },
+  carryIndex: { label: 'Carry Index', digits: 8 },
+};
+
+/**
+ * Before/after state of a previewed transaction
+ * "Simulated" when the node traced the call, "Estimated" when the offline math was used
+ */
+export function TransactionPreview({ preview, error, isLoading }: TransactionPreviewProps) {
+  if (error) {
+    return <div className="transaction-preview"><p className="negative">Would revert: {error}</p></div>;
+  }
+  if (!preview) {
+    return isLoading ? <div className="transaction-preview loading">Previewing...</div> : null;
+  }
+
+  const { changes, after, action } = preview;
+
+  return (
+    <div className={`transaction-preview${isLoading ? ' loading' : ''}`}>
+      <div className="preview-header">
+        <span>What changes</span>
+        <span className="preview-source">{preview.source === 'trace' ? 'Simulated' : 'Estimated'}</span>
+      </div>
+
+      {preview.changed.map((field) => {
+        const display = FIELDS[field];
+        if (!display) return null;
+        const { before, after: next, delta } = changes[field];
+        const prefix = display.prefix ?? '';
+        return (
+          <div key={field} className="detail-row">
+            <span>{display.label}:</span>
+            <span>
+              {prefix}{formatBigInt(before, 18, display.digits)} → {prefix}{formatBigInt(next, 18, display.digits)}{' '}
+              <span className={delta < 0n ? 'negative' : 'positive'}>
+                ({delta < 0n ? '' : '+'}{formatBigInt(delta, 18, display.digits)})
+              </span>
+            </span>
+          </div>
+        );
+      })}
+
+      {action.type === 'openPosition' && after.position && (
+        <div className="detail-row">
+          <span>New Position #{after.position.id.toString()}:</span>
+          <span>
+            {formatBigInt(after.position.baseSize, 18, 4)} @ ${formatBigInt(after.position.entryPrice, 18, 2)},
+            margin {formatBigInt(after.position.margin, 18, 2)} USDC
+          </span>
+        </div>
+      )}
+
+      {action.type === 'closePosition' && after.position && (
+        <div className="detail-row">
+          <span>Realized PnL:</span>
+          <span className={after.position.realizedPnl < 0n ? 'negative' : 'positive'}>
+            {formatBigInt(after.position.realizedPnl, 18, 2)} USDC
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,9 @@
  * Known USDC addresses are hardcoded, deployed addresses come from SDK
  */
 
+import type { Address } from 'viem';
 import { getDeployment, isChainSupported as sdkIsChainSupported } from '@velto/contracts';
+import { DEPLOYMENT_NAME } from '../contract-api/abis';
 
 // Known USDC addresses on public networks (fallback for chains without deployment)
 const KNOWN_USDC: Record<number, string> = {
@@ -23,14 +25,18 @@ const KNOWN_USDC: Record<number, string> = {
 
 /**
  * Get contract addresses for a given chain
+ * Returns null when the chain has no deployment (or no USDC for it)
  */
-export function getAddresses(chainId: number) {
-  const deployment = getDeployment(chainId);
+export function getAddresses(chainId: number, name = DEPLOYMENT_NAME) {
+  const deployment = getDeployment(chainId, name);
+  const usdc = deployment?.usdc || KNOWN_USDC[chainId];
+  if (!deployment || !usdc) return null;
+
   return {
-    usdc: deployment?.usdc || KNOWN_USDC[chainId] || '',
-    factory: deployment?.factory || '',
-    liquidationEngine: deployment?.liquidationEngine || '',
-    fundingManager: deployment?.fundingManager || '',
+    usdc: usdc as Address,
+    factory: deployment.factory,
+    liquidationEngine: deployment.liquidationEngine,
+    fundingManager: deployment.fundingManager,
   };
 }
 
@@ -1,6 +1,6 @@
 import type { PublicClient, Address } from 'viem';
 import { ABIS } from './abis';
-import { decodeContractError } from './errors';
+import { toProtocolError } from '@velto/contracts';
 
 /**
  * FundingManager Service
@@ -23,9 +23,8 @@ export class FundingManagerService {
 
       const [newCarryIndex, carryPerBlock] = result as [bigint, bigint];
       return { newCarryIndex, carryPerBlock };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.FundingManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -39,9 +38,8 @@ export class FundingManagerService {
       });
 
       return carryIndex as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.FundingManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -61,9 +59,8 @@ export class FundingManagerService {
       });
 
       return carryPnl as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.FundingManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
@@ -1,6 +1,6 @@
 import type { PublicClient, Address } from 'viem';
 import { ABIS, getContractAddresses } from './abis';
-import { decodeContractError } from './errors';
+import { toProtocolError } from '@velto/contracts';
 import type { LiquidationInfo } from './types';
 
 /**
@@ -31,9 +31,8 @@ export class LiquidationEngineService {
       });
 
       return result as boolean;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.LiquidationEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -62,9 +61,8 @@ export class LiquidationEngineService {
         equity,
         leverage,
       };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.LiquidationEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -85,9 +83,8 @@ export class LiquidationEngineService {
       });
 
       return fee as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.LiquidationEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
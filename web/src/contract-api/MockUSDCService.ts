@@ -1,6 +1,6 @@
 import type { PublicClient, WalletClient, Address } from 'viem';
 import { ABIS, getContractAddresses } from './abis';
-import { executeTransaction, decodeContractError } from '@velto/contracts';
+import { executeTransaction, toProtocolError, asUsdc, type UsdcAmount, type TransactionManager } from '@velto/contracts';
 
 /**
  * MockUSDC Service
@@ -10,7 +10,8 @@ export class MockUSDCService {
   constructor(
     private chainId: number,
     private publicClient: PublicClient,
-    private walletClient?: WalletClient
+    private walletClient?: WalletClient,
+    private transactionManager?: TransactionManager
   ) {}
 
   async decimals(): Promise<number> {
@@ -23,7 +24,7 @@ export class MockUSDCService {
     return Number(decimals);
   }
 
-  async balanceOf(address: Address): Promise<bigint> {
+  async balanceOf(address: Address): Promise<UsdcAmount> {
     const addresses = getContractAddresses(this.chainId);
     const balance = await this.publicClient.readContract({
       address: addresses.usdc,
@@ -31,10 +32,10 @@ export class MockUSDCService {
       functionName: 'balanceOf',
       args: [address],
     });
-    return balance as bigint;
+    return asUsdc(balance as bigint);
   }
 
-  async mint(to: Address, amount: bigint): Promise<{ txHash: string }> {
+  async mint(to: Address, amount: UsdcAmount): Promise<{ txHash: string }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
@@ -42,6 +43,7 @@ export class MockUSDCService {
       const { hash } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: addresses.usdc,
         abi: ABIS.MockUSDC,
         functionName: 'mint',
@@ -49,9 +51,8 @@ export class MockUSDCService {
       });
 
       return { txHash: hash };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.MockUSDC);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -63,19 +64,19 @@ export class MockUSDCService {
       const { hash } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: addresses.usdc,
         abi: ABIS.MockUSDC,
         functionName: 'faucet',
       });
 
       return { txHash: hash };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.MockUSDC);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
-  async approve(spender: Address, amount: bigint): Promise<{ txHash: string }> {
+  async approve(spender: Address, amount: UsdcAmount): Promise<{ txHash: string }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
@@ -83,6 +84,7 @@ export class MockUSDCService {
       const { hash } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: addresses.usdc,
         abi: ABIS.MockUSDC,
         functionName: 'approve',
@@ -90,9 +92,8 @@ export class MockUSDCService {
       });
 
       return { txHash: hash };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.MockUSDC);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
@@ -1,7 +1,24 @@
 import type { PublicClient, WalletClient, Address } from 'viem';
-import { parseEventLogs } from 'viem';
 import { ABIS } from './abis';
-import { executeTransaction, decodeContractError, type MarketData } from '@velto/contracts';
+import {
+  executeTransaction,
+  toProtocolError,
+  findProtocolEvent,
+  depositWithPermit,
+  depositAndOpenPositionWithPermit,
+  openPositionWithSlippage,
+  closePositionWithSlippage,
+  asInternal,
+  type UsdcAmount,
+  type InternalAmount,
+  type Leverage18,
+  readMarketSnapshot,
+  readMarketSnapshots,
+  type MarketSnapshot,
+  type TransactionManager,
+  type SlippageOptions,
+  type SlippageCheck,
+} from '@velto/contracts';
 
 /**
  * PerpEngine Service
@@ -10,16 +27,18 @@ import { executeTransaction, decodeContractError, type MarketData } from '@velto
 export class PerpEngineService {
   constructor(
     private publicClient: PublicClient,
-    private walletClient?: WalletClient
+    private walletClient?: WalletClient,
+    private transactionManager?: TransactionManager
   ) {}
 
-  async deposit(engineAddress: Address, amount: bigint): Promise<{ txHash: string }> {
+  async deposit(engineAddress: Address, amount: UsdcAmount): Promise<{ txHash: string }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
       const { hash } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: engineAddress,
         abi: ABIS.PerpEngine,
         functionName: 'deposit',
@@ -27,19 +46,19 @@ export class PerpEngineService {
       });
 
       return { txHash: hash };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
-  async withdraw(engineAddress: Address, amount: bigint): Promise<{ txHash: string }> {
+  async withdraw(engineAddress: Address, amount: InternalAmount): Promise<{ txHash: string }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
       const { hash } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: engineAddress,
         abi: ABIS.PerpEngine,
         functionName: 'withdraw',
@@ -47,72 +66,160 @@ export class PerpEngineService {
       });
 
       return { txHash: hash };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
-  async openPosition(
+  /**
+   * Deposit with an EIP-2612 permit: one signature, one transaction, no separate approve
+   * permitAmount defaults to amount
+   */
+  async depositWithPermit(
+    engineAddress: Address,
+    amount: UsdcAmount,
+    permitAmount?: UsdcAmount
+  ): Promise<{ txHash: string }> {
+    if (!this.walletClient) throw new Error('Wallet client required');
+
+    try {
+      const { hash } = await depositWithPermit({
+        publicClient: this.publicClient,
+        walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
+        engine: engineAddress,
+        amount,
+        permitAmount,
+      });
+
+      return { txHash: hash };
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  /**
+   * Deposit with an EIP-2612 permit and open a position in the same transaction
+   */
+  async depositAndOpenPositionWithPermit(
     engineAddress: Address,
+    depositAmount: UsdcAmount,
     isLong: boolean,
-    totalToUse: bigint,
-    leverage: bigint
+    totalToUse: InternalAmount,
+    leverage: Leverage18,
+    permitAmount?: UsdcAmount
   ): Promise<{ txHash: string; positionId?: bigint }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
+      const { hash, receipt } = await depositAndOpenPositionWithPermit({
+        publicClient: this.publicClient,
+        walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
+        engine: engineAddress,
+        amount: depositAmount,
+        permitAmount,
+        isLong,
+        totalToUse,
+        leverage,
+      });
+
+      const positionId = findProtocolEvent(receipt.logs, 'PositionOpened')?.positionId;
+
+      return { txHash: hash, positionId };
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  /**
+   * With slippage options the open is re-quoted at the latest block and refused (SlippageError)
+   * when the entry price breaks the bound; the mined entry price is checked in `slippage`
+   */
+  async openPosition(
+    engineAddress: Address,
+    isLong: boolean,
+    totalToUse: InternalAmount,
+    leverage: Leverage18,
+    slippage?: SlippageOptions
+  ): Promise<{ txHash: string; positionId?: bigint; slippage?: SlippageCheck }> {
+    if (!this.walletClient) throw new Error('Wallet client required');
+
+    try {
+      if (slippage) {
+        const result = await openPositionWithSlippage({
+          publicClient: this.publicClient,
+          walletClient: this.walletClient,
+          transactionManager: this.transactionManager,
+          engine: engineAddress,
+          isLong,
+          totalToUse,
+          leverage,
+          slippage,
+        });
+
+        return { txHash: result.hash, positionId: result.positionId, slippage: result.slippage };
+      }
+
       const { hash, receipt } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: engineAddress,
         abi: ABIS.PerpEngine,
         functionName: 'openPosition',
         args: [isLong, totalToUse, leverage],
       });
 
-      // Parse PositionOpened event to get position ID
-      const logs = parseEventLogs({
-        abi: ABIS.PerpEngine,
-        eventName: 'PositionOpened',
-        logs: receipt.logs,
-      });
-
-      const positionId = logs[0]?.args?.positionId as bigint | undefined;
+      // Position ID from the PositionOpened event
+      const positionId = findProtocolEvent(receipt.logs, 'PositionOpened')?.positionId;
 
       return { txHash: hash, positionId };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
-  async closePosition(engineAddress: Address, positionId: bigint): Promise<{ txHash: string; totalPnl?: bigint }> {
+  /**
+   * With slippage options the close is re-quoted at the latest block and refused (SlippageError)
+   * when the close price breaks the bound; the mined close price is checked in `slippage`
+   */
+  async closePosition(
+    engineAddress: Address,
+    positionId: bigint,
+    slippage?: SlippageOptions
+  ): Promise<{ txHash: string; totalPnl?: bigint; slippage?: SlippageCheck }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
+      if (slippage) {
+        const result = await closePositionWithSlippage({
+          publicClient: this.publicClient,
+          walletClient: this.walletClient,
+          transactionManager: this.transactionManager,
+          engine: engineAddress,
+          positionId,
+          slippage,
+        });
+
+        return { txHash: result.hash, totalPnl: result.totalPnl, slippage: result.slippage };
+      }
+
       const { hash, receipt } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: engineAddress,
         abi: ABIS.PerpEngine,
         functionName: 'closePosition',
         args: [positionId],
       });
 
-      // Parse PositionClosed event
-      const logs = parseEventLogs({
-        abi: ABIS.PerpEngine,
-        eventName: 'PositionClosed',
-        logs: receipt.logs,
-      });
-
-      const totalPnl = logs[0]?.args?.totalPnl as bigint | undefined;
+      const totalPnl = findProtocolEvent(receipt.logs, 'PositionClosed')?.totalPnl;
 
       return { txHash: hash, totalPnl };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -123,6 +230,7 @@ export class PerpEngineService {
       const { hash } = await executeTransaction({
         publicClient: this.publicClient,
         walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: engineAddress,
         abi: ABIS.PerpEngine,
         functionName: 'liquidate',
@@ -130,13 +238,12 @@ export class PerpEngineService {
       });
 
       return { txHash: hash };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
-  async getWalletBalance(engineAddress: Address, userAddress: Address): Promise<bigint> {
+  async getWalletBalance(engineAddress: Address, userAddress: Address): Promise<InternalAmount> {
     try {
       const balance = await this.publicClient.readContract({
         address: engineAddress,
@@ -145,14 +252,15 @@ export class PerpEngineService {
         args: [userAddress],
       });
 
-      return balance as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+      return asInternal(balance as bigint);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
-  async getFundBalances(engineAddress: Address): Promise<{ trade: bigint; insurance: bigint; protocol: bigint }> {
+  async getFundBalances(
+    engineAddress: Address
+  ): Promise<{ trade: InternalAmount; insurance: InternalAmount; protocol: InternalAmount }> {
     try {
       const result = await this.publicClient.readContract({
         address: engineAddress,
@@ -161,10 +269,9 @@ export class PerpEngineService {
       });
 
       const [trade, insurance, protocol] = result as [bigint, bigint, bigint];
-      return { trade, insurance, protocol };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+      return { trade: asInternal(trade), insurance: asInternal(insurance), protocol: asInternal(protocol) };
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -177,9 +284,8 @@ export class PerpEngineService {
       });
 
       return marketAddress as Address;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -192,94 +298,31 @@ export class PerpEngineService {
       });
 
       return positionManagerAddress as Address;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
   /**
    * Aggregated market data helper
+   * Single multicall, every field read at the same block
+   */
+  async getFullMarketData(engineAddress: Address, blockNumber?: bigint): Promise<MarketSnapshot> {
+    try {
+      return await readMarketSnapshot(this.publicClient, engineAddress, { blockNumber });
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  /**
+   * Aggregated market data for many engines at the same block
    */
-  async getFullMarketData(engineAddress: Address): Promise<MarketData> {
+  async getFullMarketDataBatch(engineAddresses: Address[], blockNumber?: bigint): Promise<MarketSnapshot[]> {
     try {
-      const marketAddress = await this.getMarketAddress(engineAddress);
-
-      const [
-        baseReserve,
-        quoteReserve,
-        markPrice,
-        longOI,
-        shortOI,
-        carryIndex,
-        lastFundingBlock,
-        currentBlock,
-        fundBalances,
-      ] = await Promise.all([
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'baseReserve',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'quoteReserve',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'getMarkPrice',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'longOpenInterest',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'shortOpenInterest',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'cumulativeCarryIndex',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'lastFundingBlock',
-        }),
-        this.publicClient.readContract({
-          address: marketAddress,
-          abi: ABIS.PerpMarket,
-          functionName: 'currentBlock',
-        }),
-        this.getFundBalances(engineAddress),
-      ]);
-
-      const netOI = (longOI as bigint) - (shortOI as bigint);
-
-      return {
-        marketAddress,
-        baseReserve: baseReserve as bigint,
-        quoteReserve: quoteReserve as bigint,
-        markPrice: markPrice as bigint,
-        longOI: longOI as bigint,
-        shortOI: shortOI as bigint,
-        netOI,
-        carryIndex: carryIndex as bigint,
-        currentBlock: currentBlock as bigint,
-        lastFundingBlock: lastFundingBlock as bigint,
-        tradeFund: fundBalances.trade,
-        insuranceFund: fundBalances.insurance,
-        protocolFees: fundBalances.protocol,
-        timestamp: Date.now(),
-      };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpEngine);
-      throw new Error(contractError.message);
+      return await readMarketSnapshots(this.publicClient, engineAddresses, { blockNumber });
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
@@ -1,7 +1,16 @@
 import type { PublicClient, WalletClient, Address } from 'viem';
-import { parseEventLogs } from 'viem';
 import { ABIS, getContractAddresses } from './abis';
-import { decodeContractError } from './errors';
+import {
+  executeTransaction,
+  toProtocolError,
+  findProtocolEvent,
+  assertMarketConfig,
+  assertMarketCreator,
+  getMarketCreatorStatus,
+  type MarketConfig,
+  type MarketCreatorStatus,
+  type TransactionManager,
+} from '@velto/contracts';
 
 /**
  * PerpFactory Service
@@ -11,46 +20,52 @@ export class PerpFactoryService {
   constructor(
     private chainId: number,
     private publicClient: PublicClient,
-    private walletClient?: WalletClient
+    private walletClient?: WalletClient,
+    private transactionManager?: TransactionManager
   ) {}
 
+  /**
+   * Deploy a market from a config built with buildMarketConfig
+   * Factory rules and creator rights are checked before sending, so InvalidReserves,
+   * InvalidLeverage and Unauthorized surface without a failed simulation
+   */
   async createMarket(
     collateralToken: Address,
-    baseReserve: bigint,
-    quoteReserve: bigint,
-    maxLeverage?: bigint
+    config: MarketConfig
   ): Promise<{ txHash: string; engineAddress?: Address }> {
     if (!this.walletClient) throw new Error('Wallet client required');
 
     try {
       const addresses = getContractAddresses(this.chainId);
-      const account = this.walletClient.account;
-      if (!account) throw new Error('No account connected');
+      assertMarketConfig(config);
+      if (this.walletClient.account) {
+        await assertMarketCreator(this.publicClient, addresses.factory, this.walletClient.account.address);
+      }
 
-      const { request } = await this.publicClient.simulateContract({
+      const { hash, receipt } = await executeTransaction({
+        publicClient: this.publicClient,
+        walletClient: this.walletClient,
+        transactionManager: this.transactionManager,
         address: addresses.factory,
         abi: ABIS.PerpFactory,
         functionName: 'createMarket',
-        args: [collateralToken, { baseReserve, quoteReserve, maxLeverage: maxLeverage || 30n * 10n ** 18n }],
-        account: account.address,
+        args: [collateralToken, config],
       });
 
-      const hash = await this.walletClient.writeContract(request);
-      const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
-
-      // Parse MarketCreated event
-      const logs = parseEventLogs({
-        abi: ABIS.PerpFactory,
-        eventName: 'MarketCreated',
-        logs: receipt.logs,
-      });
-
-      const engineAddress = logs[0]?.args?.engine as Address | undefined;
+      const engineAddress = findProtocolEvent(receipt.logs, 'MarketCreated')?.engine;
 
       return { txHash: hash, engineAddress };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpFactory);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
+    }
+  }
+
+  async getMarketCreatorStatus(account: Address): Promise<MarketCreatorStatus> {
+    try {
+      const addresses = getContractAddresses(this.chainId);
+      return await getMarketCreatorStatus(this.publicClient, addresses.factory, account);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -64,9 +79,8 @@ export class PerpFactoryService {
       });
 
       return count as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpFactory);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -81,9 +95,8 @@ export class PerpFactoryService {
       });
 
       return engineAddress as Address;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpFactory);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -97,9 +110,8 @@ export class PerpFactoryService {
       });
 
       return markets as Address[];
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpFactory);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
@@ -1,6 +1,6 @@
 import type { PublicClient, Address } from 'viem';
 import { ABIS } from './abis';
-import { decodeContractError } from './errors';
+import { toProtocolError } from '@velto/contracts';
 
 /**
  * PerpMarket Service
@@ -18,9 +18,8 @@ export class PerpMarketService {
       });
 
       return price as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -35,9 +34,8 @@ export class PerpMarketService {
 
       const [baseOut, avgPrice] = result as [bigint, bigint];
       return { baseOut, avgPrice };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -52,9 +50,8 @@ export class PerpMarketService {
 
       const [baseIn, avgPrice] = result as [bigint, bigint];
       return { baseIn, avgPrice };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -69,9 +66,8 @@ export class PerpMarketService {
 
       const [quoteOut, avgPrice] = result as [bigint, bigint];
       return { quoteOut, avgPrice };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -86,9 +82,8 @@ export class PerpMarketService {
 
       const [quoteIn, avgPrice] = result as [bigint, bigint];
       return { quoteIn, avgPrice };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -117,9 +112,8 @@ export class PerpMarketService {
         quoteReserve: quoteReserve as bigint,
         k: k as bigint,
       };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -142,9 +136,8 @@ export class PerpMarketService {
         longOI: longOI as bigint,
         shortOI: shortOI as bigint,
       };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -173,9 +166,8 @@ export class PerpMarketService {
         lastFundingBlock: lastFundingBlock as bigint,
         currentBlock: currentBlock as bigint,
       };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PerpMarket);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
@@ -1,6 +1,6 @@
 import type { PublicClient, Address } from 'viem';
 import { ABIS } from './abis';
-import { decodeContractError } from './errors';
+import { toProtocolError } from '@velto/contracts';
 import type { Position, PositionEquity } from './types';
 
 /**
@@ -20,9 +20,8 @@ export class PositionManagerService {
       });
 
       return position as Position;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PositionManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -36,9 +35,8 @@ export class PositionManagerService {
       });
 
       return isOpen as boolean;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PositionManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -61,9 +59,8 @@ export class PositionManagerService {
         totalPnl,
         equityIfClosed,
       };
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PositionManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -76,9 +73,8 @@ export class PositionManagerService {
       });
 
       return feeRate as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PositionManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 
@@ -92,9 +88,8 @@ export class PositionManagerService {
       });
 
       return bufferRatio as bigint;
-    } catch (error: any) {
-      const contractError = decodeContractError(error, ABIS.PositionManager);
-      throw new Error(contractError.message);
+    } catch (error) {
+      throw toProtocolError(error);
     }
   }
 }
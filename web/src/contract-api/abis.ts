@@ -7,7 +7,8 @@ import {
   fundingManagerAbi,
   liquidationEngineAbi,
   mockUsdcAbi,
-  getDeployment,
+  requireDeployment,
+  DEFAULT_DEPLOYMENT_NAME,
 } from '@velto/contracts';
 
 export const ABIS = {
@@ -33,16 +34,17 @@ const KNOWN_USDC: Record<number, string> = {
   421614: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',   // Arbitrum Sepolia
 };
 
+// Named deployment to use on every chain (e.g. "staging"); VITE_DEPLOYMENT overrides
+export const DEPLOYMENT_NAME = import.meta.env.VITE_DEPLOYMENT || DEFAULT_DEPLOYMENT_NAME;
+
 /**
  * Get contract addresses for current chain
  * @param chainId Chain ID to get addresses for
- * @returns Contract addresses from deployments.json
+ * @param name Deployment name, defaults to DEPLOYMENT_NAME
+ * @returns Contract addresses from the SDK deployment registry
  */
-export const getContractAddresses = (chainId: number) => {
-  const deployment = getDeployment(chainId);
-  if (!deployment) {
-    throw new Error(`No deployment found for chain ${chainId}`);
-  }
+export const getContractAddresses = (chainId: number, name = DEPLOYMENT_NAME) => {
+  const deployment = requireDeployment(chainId, name);
   return {
     factory: deployment.factory,
     usdc: (deployment.usdc || KNOWN_USDC[chainId]) as `0x${string}`,
@@ -1,9 +1,8 @@
-import type { PublicClient, WalletClient, Address } from 'viem';
+import type { WalletClient, Address } from 'viem';
 import { MockUSDCService } from './MockUSDCService';
 import { PerpEngineService } from './PerpEngineService';
-import { PositionManagerService } from './PositionManagerService';
-import { LiquidationEngineService } from './LiquidationEngineService';
-import type { Position, PositionEquity, LiquidationInfo } from '@velto/contracts';
+import { parseUsdcAmount } from '@velto/contracts';
+import type { PerpClient, PositionAnalytics, UsdcAmount, InternalAmount } from '@velto/contracts';
 
 /**
  * Helper Service
@@ -11,7 +10,7 @@ import type { Position, PositionEquity, LiquidationInfo } from '@velto/contracts
  */
 export class HelperService {
   constructor(
-    private publicClient: PublicClient,
+    private client: PerpClient,
     private walletClient?: WalletClient,
     private usdc?: MockUSDCService,
     private engine?: PerpEngineService
@@ -20,7 +19,7 @@ export class HelperService {
   /**
    * Approve and deposit USDC in one call
    */
-  async approveAndDeposit(engineAddress: Address, amount: bigint): Promise<{ txHash: string }> {
+  async approveAndDeposit(engineAddress: Address, amount: UsdcAmount): Promise<{ txHash: string }> {
     if (!this.walletClient) throw new Error('Wallet client required');
     if (!this.usdc || !this.engine) throw new Error('Services not initialized');
 
@@ -31,7 +30,7 @@ export class HelperService {
   /**
    * Fund a bot with USDC from faucet and deposit to engine
    */
-  async fundBot(engineAddress: Address): Promise<{ txHash: string; balance: bigint }> {
+  async fundBot(engineAddress: Address): Promise<{ txHash: string; balance: InternalAmount }> {
     if (!this.walletClient) throw new Error('Wallet client required');
     if (!this.usdc || !this.engine) throw new Error('Services not initialized');
 
@@ -40,8 +39,8 @@ export class HelperService {
 
     await this.usdc.faucet();
 
-    const amount = 10_000n * 10n ** 6n; // 10k USDC in 6 decimals
-    const result = await this.approveAndDeposit(engineAddress, amount);
+    const amount = parseUsdcAmount('10000');
+    const result = await this.engine.depositWithPermit(engineAddress, amount);
 
     const balance = await this.engine.getWalletBalance(engineAddress, account.address);
 
@@ -50,31 +49,9 @@ export class HelperService {
 
   /**
    * Get comprehensive position analytics
+   * Sibling contracts are resolved once per market; every field is read at the same block
    */
-  async getPositionAnalytics(
-    engineAddress: Address,
-    positionId: bigint
-  ): Promise<{
-    position: Position;
-    equity: PositionEquity;
-    liquidationInfo: LiquidationInfo;
-    isOpen: boolean;
-  }> {
-    if (!this.engine) throw new Error('Engine service not initialized');
-
-    const positionManagerAddress = await this.engine.getPositionManagerAddress(engineAddress);
-    const marketAddress = await this.engine.getMarketAddress(engineAddress);
-
-    const positionManagerService = new PositionManagerService(this.publicClient);
-    const liquidationEngineService = new LiquidationEngineService(this.publicClient);
-
-    const [position, equity, liquidationInfo, isOpen] = await Promise.all([
-      positionManagerService.getPosition(positionManagerAddress, positionId),
-      positionManagerService.simulateEquityIfClosed(positionManagerAddress, positionId),
-      liquidationEngineService.getLiquidationInfo(positionManagerAddress, marketAddress, positionId),
-      positionManagerService.isPositionOpen(positionManagerAddress, positionId),
-    ]);
-
-    return { position, equity, liquidationInfo, isOpen };
+  async getPositionAnalytics(engineAddress: Address, positionId: bigint): Promise<PositionAnalytics> {
+    return this.client.market(engineAddress).getPositionAnalytics(positionId);
   }
 }
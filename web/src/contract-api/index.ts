@@ -1,4 +1,5 @@
 import type { PublicClient, WalletClient } from 'viem';
+import { PerpClient, type TransactionManager } from '@velto/contracts';
 import { MockUSDCService } from './MockUSDCService';
 import { LiquidationEngineService } from './LiquidationEngineService';
 import { PerpMarketService } from './PerpMarketService';
@@ -22,22 +23,30 @@ export class ContractService {
   engine: PerpEngineService;
   factory: PerpFactoryService;
   helpers: HelperService;
+  /** Market-bound SDK client sharing this service's clients and transaction manager */
+  client: PerpClient;
   chainId: number;
 
+  /**
+   * Pass a transactionManager to queue writes per account (local nonces, fee bumping);
+   * share one manager between every service that signs with the same account
+   */
   constructor(
     chainId: number,
     publicClient: PublicClient,
-    walletClient?: WalletClient
+    walletClient?: WalletClient,
+    options: { transactionManager?: TransactionManager } = {}
   ) {
     this.chainId = chainId;
-    this.usdc = new MockUSDCService(chainId, publicClient, walletClient);
+    this.usdc = new MockUSDCService(chainId, publicClient, walletClient, options.transactionManager);
     this.liquidationEngine = new LiquidationEngineService(chainId, publicClient);
     this.market = new PerpMarketService(publicClient);
     this.positionManager = new PositionManagerService(publicClient);
     this.fundingManager = new FundingManagerService(publicClient);
-    this.engine = new PerpEngineService(publicClient, walletClient);
-    this.factory = new PerpFactoryService(chainId, publicClient, walletClient);
-    this.helpers = new HelperService(publicClient, walletClient, this.usdc, this.engine);
+    this.engine = new PerpEngineService(publicClient, walletClient, options.transactionManager);
+    this.factory = new PerpFactoryService(chainId, publicClient, walletClient, options.transactionManager);
+    this.client = new PerpClient({ publicClient, walletClient, transactionManager: options.transactionManager });
+    this.helpers = new HelperService(this.client, walletClient, this.usdc, this.engine);
   }
 }
 
@@ -50,6 +59,13 @@ export type {
   PositionEquity
 } from '@velto/contracts';
 
+// Re-export typed protocol errors thrown by the services
+export {
+  ProtocolError,
+  decodeProtocolError,
+  getProtocolErrorEntry,
+} from '@velto/contracts';
+
 // Re-export contract addresses helper
 export * from './abis';
 
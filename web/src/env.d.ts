@@ -8,6 +8,7 @@ interface ImportMetaEnv {
   readonly VITE_SOL_ENGINE_ADDRESS: string;
   readonly VITE_CHAIN_ID: string;
   readonly VITE_RPC_URL: string;
+  readonly VITE_DEPLOYMENT?: string;
 }
 
 interface ImportMeta {
@@ -1,7 +1,8 @@
-import { useReadContract } from 'wagmi';
+import { usePublicClient } from 'wagmi';
 import { useMarketStore } from '../store/marketStore';
 import { useEffect, useState } from 'react';
-import { ABIS } from '../contract-api';
+import type { Address } from 'viem';
+import { readMarketSnapshot } from '@velto/contracts';
 
 export interface MarketData {
   // Reserves
@@ -25,182 +26,66 @@ export interface MarketData {
   insuranceFund: bigint;
   protocolFees: bigint;
 
+  // Block every field was read at
+  blockNumber: bigint;
+
   // Timestamp
   timestamp: number;
 }
 
+/**
+ * Poll the selected market's state
+ * One multicall per refresh, so every field is consistent to the same block
+ */
 export function useMarketData(refreshInterval = 2000): MarketData | null {
   const { selectedMarket } = useMarketStore();
+  const publicClient = usePublicClient();
   const [data, setData] = useState<MarketData | null>(null);
 
-  // Get market address
-  const {
-    data: marketAddress,
-    error: marketAddressError,
-    isError: isMarketAddressError
-  } = useReadContract({
-    address: selectedMarket as `0x${string}`,
-    abi: ABIS.PerpEngine,
-    functionName: 'market',
-  });
-
-  // Get base reserve
-  const {
-    data: baseReserve,
-    refetch: refetchBaseReserve,
-    error: baseReserveError,
-    isError: isBaseReserveError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'baseReserve',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get quote reserve
-  const {
-    data: quoteReserve,
-    refetch: refetchQuoteReserve,
-    error: quoteReserveError,
-    isError: isQuoteReserveError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'quoteReserve',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get mark price
-  const {
-    data: markPrice,
-    refetch: refetchMarkPrice,
-    error: markPriceError,
-    isError: isMarkPriceError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'getMarkPrice',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get long open interest
-  const {
-    data: longOI,
-    refetch: refetchLongOI,
-    error: longOIError,
-    isError: isLongOIError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'longOpenInterest',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get short open interest
-  const {
-    data: shortOI,
-    refetch: refetchShortOI,
-    error: shortOIError,
-    isError: isShortOIError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'shortOpenInterest',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get carry index
-  const {
-    data: carryIndex,
-    refetch: refetchCarry,
-    error: carryIndexError,
-    isError: isCarryIndexError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'cumulativeCarryIndex',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get last funding block
-  const {
-    data: lastUpdateBlock,
-    error: lastUpdateBlockError,
-    isError: isLastUpdateBlockError
-  } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'lastFundingBlock',
-    query: {
-      enabled: !!marketAddress,
-    },
-  });
-
-  // Get fund balances
-  const {
-    data: fundBalances,
-    refetch: refetchFunds,
-    error: fundBalancesError,
-    isError: isFundBalancesError
-  } = useReadContract({
-    address: selectedMarket as `0x${string}`,
-    abi: ABIS.PerpEngine,
-    functionName: 'getFundBalances',
-  });
-
-  // Refresh data on interval
   useEffect(() => {
-    if (!selectedMarket) return;
-
-    const interval = setInterval(() => {
-      refetchBaseReserve();
-      refetchQuoteReserve();
-      refetchMarkPrice();
-      refetchLongOI();
-      refetchShortOI();
-      refetchCarry();
-      refetchFunds();
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [selectedMarket, refreshInterval, refetchBaseReserve, refetchQuoteReserve, refetchMarkPrice, refetchLongOI, refetchShortOI, refetchCarry, refetchFunds]);
+    if (!selectedMarket || !publicClient) return;
+
+    const engineAddress = selectedMarket as Address;
+    let marketAddress: Address | undefined;
+    let cancelled = false;
+
+    const fetchMarketData = async () => {
+      try {
+        const snapshot = await readMarketSnapshot(publicClient, engineAddress, {
+          // Market address never changes for an engine: skip the lookup after the first read
+          marketAddresses: marketAddress ? { [engineAddress]: marketAddress } : undefined,
+        });
+        marketAddress = snapshot.marketAddress;
+        if (cancelled) return;
+
+        setData({
+          baseReserve: snapshot.baseReserve,
+          quoteReserve: snapshot.quoteReserve,
+          markPrice: snapshot.markPrice,
+          longOI: snapshot.longOI,
+          shortOI: snapshot.shortOI,
+          netOI: snapshot.netOI,
+          carryIndex: snapshot.carryIndex,
+          lastUpdateBlock: snapshot.lastFundingBlock,
+          tradeFund: snapshot.tradeFund,
+          insuranceFund: snapshot.insuranceFund,
+          protocolFees: snapshot.protocolFees,
+          blockNumber: snapshot.blockNumber,
+          timestamp: snapshot.timestamp,
+        });
+      } catch (error) {
+        console.error('Failed to fetch market data:', error);
+      }
+    };
 
-  // Combine all data
-  useEffect(() => {
-    if (!baseReserve || !quoteReserve || !markPrice || !longOI || !shortOI || !carryIndex || !fundBalances) {
-      return;
-    }
+    fetchMarketData();
+    const interval = setInterval(fetchMarketData, refreshInterval);
 
-    const netOI = BigInt(longOI) - BigInt(shortOI);
-    const newData = {
-      baseReserve,
-      quoteReserve,
-      markPrice,
-      longOI,
-      shortOI,
-      netOI,
-      carryIndex,
-      lastUpdateBlock: lastUpdateBlock || 0n,
-      tradeFund: fundBalances[0],
-      insuranceFund: fundBalances[1],
-      protocolFees: fundBalances[2],
-      timestamp: Date.now(),
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
     };
-
-    setData(newData);
-  }, [baseReserve, quoteReserve, markPrice, longOI, shortOI, carryIndex, lastUpdateBlock, fundBalances]);
+  }, [selectedMarket, publicClient, refreshInterval]);
 
   return data;
 }
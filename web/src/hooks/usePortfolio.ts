@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { readPortfolio, toProtocolError, type Portfolio } from '@velto/contracts';
+import { getContractAddresses } from '../contract-api';
+
+interface PortfolioState {
+  portfolio: Portfolio | null;
+  error: string | null;
+}
+
+/**
+ * Poll the connected account's portfolio across every factory market
+ * Balances, positions and equity are read at one block per refresh
+ */
+export function usePortfolio(refreshInterval = 10000): PortfolioState {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const [state, setState] = useState<PortfolioState>({ portfolio: null, error: null });
+
+  useEffect(() => {
+    const factory = getContractAddresses(chainId).factory;
+    if (!address || !publicClient || !factory) return;
+
+    let cancelled = false;
+
+    const fetchPortfolio = async () => {
+      try {
+        const portfolio = await readPortfolio(publicClient, { factory, user: address });
+        if (!cancelled) setState({ portfolio, error: null });
+      } catch (error) {
+        if (!cancelled) setState((prev) => ({ ...prev, error: toProtocolError(error).message }));
+      }
+    };
+
+    fetchPortfolio();
+    const interval = setInterval(fetchPortfolio, refreshInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [address, chainId, publicClient, refreshInterval]);
+
+  // A portfolio read for another account is never shown
+  const portfolio = state.portfolio?.user === address ? state.portfolio : null;
+  return { portfolio, error: state.error };
+}
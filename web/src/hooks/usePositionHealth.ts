@@ -1,119 +1,84 @@
-import { useReadContract } from 'wagmi';
-import { useMarketStore } from '../store/marketStore';
-import { ABIS } from '../contract-api';
+import { useEffect, useRef, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import {
+  watchPositionHealth,
+  type PositionHealth,
+  type PositionHealthEvent,
+  type PositionHealthLevel,
+  type PositionHealthWatcher,
+} from '@velto/contracts';
 
-interface PositionHealth {
-  markPrice: bigint;
-  notionalNow: bigint;
-  pnlTrade: bigint;
-  carryPnl: bigint;
-  totalPnl: bigint;
-  equityIfClosed: bigint;
-  isLiquidatable: boolean;
-  healthRatio: number; // 0-100 percentage
+export interface PositionHealthState {
+  health: PositionHealth;
+  // Latest threshold crossing, kept until the next one
+  lastCrossing: { from: PositionHealthLevel; to: PositionHealthLevel; worsened: boolean } | null;
 }
 
-export function usePositionHealth(positionId: bigint | null): PositionHealth | null {
-  const { selectedMarket } = useMarketStore();
-
-  // Get PositionManager address
-  const { data: positionManagerAddress } = useReadContract({
-    address: selectedMarket as `0x${string}`,
-    abi: ABIS.PerpEngine,
-    functionName: 'positionManager',
-    query: { enabled: !!selectedMarket },
-  });
-
-  // Get PerpMarket address
-  const { data: marketAddress } = useReadContract({
-    address: selectedMarket as `0x${string}`,
-    abi: ABIS.PerpEngine,
-    functionName: 'market',
-    query: { enabled: !!selectedMarket },
-  });
-
-  // Get LiquidationEngine address
-  const { data: liquidationEngineAddress } = useReadContract({
-    address: selectedMarket as `0x${string}`,
-    abi: ABIS.PerpEngine,
-    functionName: 'liquidationEngine',
-    query: { enabled: !!selectedMarket },
-  });
-
-  // Get position data
-  const { data: position } = useReadContract({
-    address: positionManagerAddress as `0x${string}`,
-    abi: ABIS.PositionManager,
-    functionName: 'getPosition',
-    args: positionId ? [positionId] : undefined,
-    query: { enabled: !!positionManagerAddress && !!positionId },
-  });
-
-  // Get health metrics from simulateEquityIfClosed
-  const { data: healthData } = useReadContract({
-    address: positionManagerAddress as `0x${string}`,
-    abi: ABIS.PositionManager,
-    functionName: 'simulateEquityIfClosed',
-    args: positionId ? [positionId] : undefined,
-    query: { enabled: !!positionManagerAddress && !!positionId },
+/**
+ * Health of many positions of one engine, re-valued at each new block by a single SDK watcher
+ * Keyed by position id; positions drop out once closed or liquidated
+ */
+export function usePositionHealth(
+  engine: Address | null,
+  positionIds: readonly bigint[],
+  refreshInterval = 2000
+): Record<string, PositionHealthState> {
+  const publicClient = usePublicClient();
+  const watcherRef = useRef<PositionHealthWatcher | null>(null);
+  const [state, setState] = useState<{ engine: Address | null; health: Record<string, PositionHealthState> }>({
+    engine: null,
+    health: {},
   });
 
-  // Get mark price from market
-  const { data: markPrice } = useReadContract({
-    address: marketAddress as `0x${string}`,
-    abi: ABIS.PerpMarket,
-    functionName: 'getMarkPrice',
-    query: { enabled: !!marketAddress },
-  });
-
-  // Check if liquidatable (requires all three addresses)
-  const { data: isLiquidatableResult } = useReadContract({
-    address: liquidationEngineAddress as `0x${string}`,
-    abi: ABIS.LiquidationEngine,
-    functionName: 'isLiquidatable',
-    args: positionManagerAddress && marketAddress && positionId
-      ? [positionManagerAddress, marketAddress, positionId]
-      : undefined,
-    query: {
-      enabled: !!liquidationEngineAddress && !!positionManagerAddress && !!marketAddress && !!positionId
-    },
-  });
+  useEffect(() => {
+    if (!engine || !publicClient) return;
 
-  if (!healthData || !position || !markPrice) return null;
+    let cancelled = false;
+    const crossings: Record<string, PositionHealthState['lastCrossing']> = {};
 
-  // healthData from simulateEquityIfClosed returns:
-  // [closeNotional, avgClosePrice, pnlTrade, carryPnl, totalPnl, equityIfClosed]
-  const [closeNotional, avgClosePrice, pnlTrade, carryPnl, totalPnl, equityIfClosed] = healthData as readonly [
-    bigint, bigint, bigint, bigint, bigint, bigint
-  ];
+    const handleEvents = (events: PositionHealthEvent[]) => {
+      for (const event of events) {
+        const id = (event.type === 'closed' ? event.positionId : event.health.positionId).toString();
+        if (event.type === 'closed') {
+          delete crossings[id];
+        } else {
+          crossings[id] = { from: event.from, to: event.to, worsened: event.worsened };
+        }
+      }
+    };
 
-  // Calculate notionalNow = baseSize * markPrice / PRECISION
-  const notionalNow = (position.baseSize * markPrice) / 1_000_000_000_000_000_000n;
+    const watcher = watchPositionHealth(publicClient, {
+      pollingInterval: refreshInterval,
+      onEvents: handleEvents,
+      onHealth: (health) => {
+        if (cancelled) return;
+        const next: Record<string, PositionHealthState> = {};
+        for (const entry of health) {
+          const id = entry.positionId.toString();
+          next[id] = { health: entry, lastCrossing: crossings[id] ?? null };
+        }
+        setState({ engine, health: next });
+      },
+      onError: (error) => console.error('Position health watcher error:', error),
+    });
+    watcherRef.current = watcher;
 
-  // Calculate health ratio (equity / margin)
-  // 100% = healthy, <20% = liquidatable for high leverage
-  const margin = position.margin;
-  const equity = equityIfClosed;
+    return () => {
+      cancelled = true;
+      watcher.unwatch();
+      watcherRef.current = null;
+    };
+  }, [engine, publicClient, refreshInterval]);
 
-  let healthRatio = 100;
-  if (margin > 0n) {
-    // Convert to percentage: (equity / margin) * 100
-    // Handle negative equity
-    if (equity <= 0n) {
-      healthRatio = 0;
-    } else {
-      healthRatio = Number((equity * 100n) / margin);
-    }
-  }
+  // Follow the displayed positions without restarting the watcher
+  const idsKey = positionIds.map(String).join(',');
+  useEffect(() => {
+    if (!engine) return;
+    const ids = idsKey ? idsKey.split(',') : [];
+    watcherRef.current?.setPositions(ids.map((id) => ({ engine, positionId: BigInt(id) })));
+  }, [engine, idsKey, publicClient, refreshInterval]);
 
-  return {
-    markPrice,
-    notionalNow,
-    pnlTrade,
-    carryPnl,
-    totalPnl,
-    equityIfClosed,
-    isLiquidatable: isLiquidatableResult || false,
-    healthRatio,
-  };
+  // Health read for another market is never shown
+  return state.engine === engine ? state.health : {};
 }
@@ -1,16 +1,102 @@
 import { useEffect, useRef, useCallback } from 'react';
-import { useAccount, usePublicClient, useWatchContractEvent } from 'wagmi';
+import { useAccount, usePublicClient } from 'wagmi';
 import { usePositionStore } from '../store/positionStore';
 import { useTradeStore } from '../store/tradeStore';
 import { useBlockStore } from '../store/blockStore';
 import { useMarketStore } from '../store/marketStore';
-import { ABIS } from '../contract-api';
+import type { Position } from '../store/positionStore';
+import type { Trade } from '../store/tradeStore';
+import {
+  DEFAULT_CONFIRMATIONS,
+  backfillProtocolEvents,
+  watchProtocolEvents,
+  getUserPositions,
+  createStorageCursorStore,
+  getBackfillCursorKey,
+  type ProtocolEvent,
+  type PositionOpenedEvent,
+  type PositionClosedEvent,
+  type PositionLiquidatedEvent,
+  type Position as ContractPosition,
+} from '@velto/contracts';
 import type { Address } from 'viem';
 
+function toPosition(event: PositionOpenedEvent, engine: Address): Position {
+  return {
+    id: event.positionId,
+    user: event.user,
+    engine,
+    isLong: event.isLong,
+    baseSize: event.baseSize,
+    entryPrice: event.entryPrice,
+    entryNotional: event.baseSize * event.entryPrice / 10n ** 18n,
+    margin: event.margin,
+    leverage: event.leverage,
+    carrySnapshot: 0n,
+    openBlock: event.blockNumber,
+    status: 0,
+    realizedPnl: 0n,
+  };
+}
+
+function fromContractPosition(position: ContractPosition, engine: Address): Position {
+  return {
+    ...position,
+    engine,
+    leverage: position.margin > 0n ? position.entryNotional * 10n ** 18n / position.margin : 0n,
+  };
+}
+
+function toTrade(
+  event: PositionOpenedEvent | PositionClosedEvent | PositionLiquidatedEvent,
+  engine: Address
+): Trade {
+  const base = {
+    timestamp: Date.now(), // Use current time since we don't have block timestamp
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    positionId: event.positionId,
+    user: event.user,
+    engine,
+  };
+
+  switch (event.eventName) {
+    case 'PositionOpened':
+      return {
+        ...base,
+        id: `open-${event.positionId}-${event.transactionHash}`,
+        type: 'open',
+        isLong: event.isLong,
+        margin: event.margin,
+        leverage: event.leverage,
+        baseSize: event.baseSize,
+        entryPrice: event.entryPrice,
+        fee: event.fee,
+      };
+    case 'PositionClosed':
+      return {
+        ...base,
+        id: `close-${event.positionId}-${event.transactionHash}`,
+        type: 'close',
+        totalPnl: event.totalPnl,
+        avgClosePrice: event.avgClosePrice,
+      };
+    case 'PositionLiquidated':
+      return {
+        ...base,
+        id: `liq-${event.positionId}-${event.transactionHash}`,
+        type: 'liquidation',
+        liquidator: event.liquidator,
+        liquidatorReward: event.liquidationFee,
+      };
+  }
+}
+
 /**
  * Hook to sync positions from contract and listen to events
- * - Fetches user's open positions on mount
- * - Listens to PositionOpened/Closed/Liquidated events
+ * - Reconciles the connected user's stored positions with the chain (getUserPositions)
+ * - Backfills position history from the engine's deployment block (resumable)
+ * - Applies PositionOpened/Closed/Liquidated after DEFAULT_CONFIRMATIONS blocks, reverting reorged ones
  * - Updates stores accordingly
  */
 export function usePositionSync() {
@@ -22,6 +108,8 @@ export function usePositionSync() {
   const addPositionRef = useRef(usePositionStore.getState().addPosition);
   const removePositionRef = useRef(usePositionStore.getState().removePosition);
   const addTradeRef = useRef(useTradeStore.getState().addTrade);
+  const removeTradeRef = useRef(useTradeStore.getState().removeTrade);
+  const updatePositionRef = useRef(usePositionStore.getState().updatePosition);
   const updateBlockNumberRef = useRef(useBlockStore.getState().updateBlockNumber);
 
   // Update refs when store functions change (they shouldn't, but just in case)
@@ -29,253 +117,129 @@ export function usePositionSync() {
     addPositionRef.current = usePositionStore.getState().addPosition;
     removePositionRef.current = usePositionStore.getState().removePosition;
     addTradeRef.current = useTradeStore.getState().addTrade;
+    removeTradeRef.current = useTradeStore.getState().removeTrade;
+    updatePositionRef.current = usePositionStore.getState().updatePosition;
     updateBlockNumberRef.current = useBlockStore.getState().updateBlockNumber;
   });
 
-  // Fetch historical positions from events on mount
-  const hasFetchedHistory = useRef(false);
+  // Backfill position history from the engine's deployment block (resuming from the stored cursor),
+  // then follow confirmed events and undo any that a reorg orphans
   useEffect(() => {
     if (!address || !selectedMarket || !publicClient) return;
 
-    const key = `${address}-${selectedMarket}`;
-    if (hasFetchedHistory.current === key) return;
-
-    const fetchHistoricalPositions = async () => {
-      try {
-        // Get current block
-        const currentBlock = await publicClient.getBlockNumber();
-
-        // Fetch PositionOpened events (last 10000 blocks)
-        const fromBlock = currentBlock > 10000n ? currentBlock - 10000n : 0n;
-
-        const openLogs = await publicClient.getLogs({
-          address: selectedMarket as Address,
-          event: {
-            type: 'event',
-            name: 'PositionOpened',
-            inputs: [
-              { type: 'uint256', indexed: true, name: 'positionId' },
-              { type: 'address', indexed: true, name: 'user' },
-              { type: 'bool', indexed: true, name: 'isLong' },
-              { type: 'uint256', indexed: false, name: 'totalToUse' },
-              { type: 'uint256', indexed: false, name: 'margin' },
-              { type: 'uint256', indexed: false, name: 'fee' },
-              { type: 'uint256', indexed: false, name: 'leverage' },
-              { type: 'uint256', indexed: false, name: 'baseSize' },
-              { type: 'uint256', indexed: false, name: 'entryPrice' },
-            ],
-          },
-          fromBlock,
-          toBlock: 'latest',
-        });
-
-        // Fetch PositionClosed events
-        const closeLogs = await publicClient.getLogs({
-          address: selectedMarket as Address,
-          event: {
-            type: 'event',
-            name: 'PositionClosed',
-            inputs: [
-              { type: 'uint256', indexed: true, name: 'positionId' },
-              { type: 'address', indexed: true, name: 'user' },
-              { type: 'int256', indexed: false, name: 'totalPnl' },
-              { type: 'uint256', indexed: false, name: 'avgClosePrice' },
-            ],
-          },
-          fromBlock,
-          toBlock: 'latest',
-        });
-
-        // Build set of closed position IDs
-        const closedPositionIds = new Set(
-          closeLogs.map(log => (log.args as any).positionId.toString())
-        );
-
-        // Add open positions to store
-        for (const log of openLogs) {
-          const args = log.args as any;
-
-          // Skip if position was closed
-          if (closedPositionIds.has(args.positionId.toString())) continue;
-
-          // Add to position store
-          addPositionRef.current({
-            id: args.positionId,
-            user: args.user,
-            engine: selectedMarket as Address,
-            isLong: args.isLong,
-            baseSize: args.baseSize,
-            entryPrice: args.entryPrice,
-            entryNotional: args.baseSize * args.entryPrice / 10n ** 18n,
-            margin: args.margin,
-            leverage: args.leverage,
-            carrySnapshot: 0n,
-            openBlock: BigInt(log.blockNumber),
-            status: 0,
-            realizedPnl: 0n,
-          });
-
-          // Add to trade history
-          addTradeRef.current({
-            id: `open-${args.positionId}-${log.transactionHash}`,
-            type: 'open' as const,
-            timestamp: Date.now(), // Use current time since we don't have block timestamp
-            blockNumber: BigInt(log.blockNumber),
-            transactionHash: log.transactionHash as string,
-            positionId: args.positionId,
-            user: args.user,
-            engine: selectedMarket as Address,
-            isLong: args.isLong,
-            margin: args.margin,
-            leverage: args.leverage,
-            baseSize: args.baseSize,
-            entryPrice: args.entryPrice,
-            fee: args.fee,
-          });
+    const engine = selectedMarket as Address;
+    const store = createStorageCursorStore(localStorage, getBackfillCursorKey(publicClient.chain.id, engine));
+    const controller = new AbortController();
+    let unwatch: (() => void) | undefined;
+
+    // Positions removed by a close/liquidation, kept so a revert can restore them
+    const closedPositions = new Map<string, Position>();
+
+    const apply = (event: ProtocolEvent) => {
+      switch (event.eventName) {
+        case 'PositionOpened':
+          addPositionRef.current(toPosition(event, engine));
+          addTradeRef.current(toTrade(event, engine));
+          break;
+        case 'PositionClosed':
+        case 'PositionLiquidated': {
+          const position = usePositionStore.getState().positions[event.positionId.toString()];
+          if (position) closedPositions.set(event.positionId.toString(), position);
+          removePositionRef.current(event.positionId);
+          addTradeRef.current(toTrade(event, engine));
+          break;
         }
+      }
+    };
 
-        // Add close trades to history
-        for (const log of closeLogs) {
-          const args = log.args as any;
-
-          addTradeRef.current({
-            id: `close-${args.positionId}-${log.transactionHash}`,
-            type: 'close' as const,
-            timestamp: Date.now(),
-            blockNumber: BigInt(log.blockNumber),
-            transactionHash: log.transactionHash as string,
-            positionId: args.positionId,
-            user: args.user,
-            engine: selectedMarket as Address,
-            totalPnl: args.totalPnl,
-            avgClosePrice: args.avgClosePrice,
-          });
+    const revert = (event: ProtocolEvent) => {
+      switch (event.eventName) {
+        case 'PositionOpened':
+          removePositionRef.current(event.positionId);
+          removeTradeRef.current(toTrade(event, engine).id);
+          break;
+        case 'PositionClosed':
+        case 'PositionLiquidated': {
+          const position = closedPositions.get(event.positionId.toString());
+          if (position) addPositionRef.current(position);
+          removeTradeRef.current(toTrade(event, engine).id);
+          break;
         }
-
-        hasFetchedHistory.current = key;
-      } catch (error) {
-        console.error('Failed to fetch historical positions:', error);
       }
     };
 
-    fetchHistoricalPositions();
-  }, [address, selectedMarket, publicClient]);
+    // The persisted store may hold positions closed while the app was away, or miss ones opened
+    // before the backfill cursor: align the user's positions with the chain first
+    const reconcile = async (blockNumber: bigint) => {
+      const open = await getUserPositions(publicClient, engine, address, { blockNumber });
+      if (controller.signal.aborted) return;
 
-  // Listen for PositionOpened events
-  useWatchContractEvent({
-    address: selectedMarket as Address,
-    abi: ABIS.PerpEngine,
-    eventName: 'PositionOpened',
-    enabled: !!selectedMarket,
-    onLogs(logs) {
-      logs.forEach((log) => {
-        const args = log.args as any;
-
-        // Update block number
-        updateBlockNumberRef.current(BigInt(log.blockNumber));
-
-        // Add position to store
-        addPositionRef.current({
-          id: args.positionId,
-          user: args.user,
-          engine: selectedMarket as Address,
-          isLong: args.isLong,
-          baseSize: args.baseSize,
-          entryPrice: args.entryPrice,
-          entryNotional: args.baseSize * args.entryPrice / 10n ** 18n,
-          margin: args.margin,
-          leverage: args.leverage,
-          carrySnapshot: 0n,
-          openBlock: BigInt(log.blockNumber),
-          status: 0,
-          realizedPnl: 0n,
-        });
+      const openIds = new Set(open.map((position) => position.id.toString()));
+      for (const stored of usePositionStore.getState().getPositionsByMarket(engine)) {
+        if (stored.user.toLowerCase() === address.toLowerCase() && !openIds.has(stored.id.toString())) {
+          removePositionRef.current(stored.id);
+        }
+      }
+      for (const position of open) {
+        const existing = usePositionStore.getState().positions[position.id.toString()];
+        if (existing) {
+          // Event-built entries lack the carry snapshot and the real entry notional
+          updatePositionRef.current(position.id, fromContractPosition(position, engine));
+        } else {
+          addPositionRef.current(fromContractPosition(position, engine));
+        }
+      }
+    };
 
-        // Add trade to history
-        addTradeRef.current({
-          id: `open-${args.positionId}-${log.transactionHash}`,
-          type: 'open' as const,
-          timestamp: Date.now(),
-          blockNumber: BigInt(log.blockNumber),
-          transactionHash: log.transactionHash,
-          positionId: args.positionId,
-          user: args.user,
-          engine: selectedMarket as Address,
-          isLong: args.isLong,
-          margin: args.margin,
-          leverage: args.leverage,
-          baseSize: args.baseSize,
-          entryPrice: args.entryPrice,
-          fee: args.fee,
+    const sync = async () => {
+      try {
+        const head = await publicClient.getBlockNumber();
+        const confirmations = BigInt(DEFAULT_CONFIRMATIONS);
+        // Clamped at genesis on a chain younger than the confirmation depth
+        const toBlock = head > confirmations ? head - confirmations : 0n;
+        await reconcile(toBlock);
+        if (controller.signal.aborted) return;
+
+        const { cursor } = await backfillProtocolEvents(publicClient, {
+          engine,
+          store,
+          toBlock,
+          signal: controller.signal,
+          // Pages arrive in block order: opens add, closes and liquidations remove
+          onPage: ({ events }) => events.forEach(apply),
         });
-      });
-    },
-  });
-
-  // Listen for PositionClosed events
-  useWatchContractEvent({
-    address: selectedMarket as Address,
-    abi: ABIS.PerpEngine,
-    eventName: 'PositionClosed',
-    enabled: !!selectedMarket,
-    onLogs(logs) {
-      logs.forEach((log) => {
-        const args = log.args as any;
-
-        // Update block number
-        updateBlockNumberRef.current(BigInt(log.blockNumber));
-
-        // Remove position from store
-        removePositionRef.current(args.positionId);
-
-        // Add trade to history
-        addTradeRef.current({
-          id: `close-${args.positionId}-${log.transactionHash}`,
-          type: 'close' as const,
-          timestamp: Date.now(),
-          blockNumber: BigInt(log.blockNumber),
-          transactionHash: log.transactionHash,
-          positionId: args.positionId,
-          user: args.user,
-          engine: selectedMarket as Address,
-          totalPnl: args.totalPnl,
-          avgClosePrice: args.avgClosePrice,
+        if (controller.signal.aborted) return;
+
+        unwatch = watchProtocolEvents(publicClient, {
+          addresses: [engine],
+          fromBlock: cursor.nextBlock,
+          store,
+          onUpdates: (updates) => {
+            for (const update of updates) {
+              if (update.type === 'apply') {
+                apply(update.event);
+                updateBlockNumberRef.current(update.event.blockNumber);
+              } else {
+                revert(update.event);
+              }
+            }
+          },
+          onError: (error) => console.error('Position event stream error:', error),
         });
-      });
-    },
-  });
-
-  // Listen for PositionLiquidated events
-  useWatchContractEvent({
-    address: selectedMarket as Address,
-    abi: ABIS.PerpEngine,
-    eventName: 'PositionLiquidated',
-    enabled: !!selectedMarket,
-    onLogs(logs) {
-      logs.forEach((log) => {
-        const args = log.args as any;
-
-        // Update block number
-        updateBlockNumberRef.current(BigInt(log.blockNumber));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to backfill position history:', error);
+        }
+      }
+    };
 
-        // Remove position from store
-        removePositionRef.current(args.positionId);
+    sync();
 
-        // Add trade to history
-        addTradeRef.current({
-          id: `liq-${args.positionId}-${log.transactionHash}`,
-          type: 'liquidation' as const,
-          timestamp: Date.now(),
-          blockNumber: BigInt(log.blockNumber),
-          transactionHash: log.transactionHash,
-          positionId: args.positionId,
-          user: args.user,
-          liquidator: args.liquidator,
-          liquidatorReward: args.liqFee,
-        });
-      });
-    },
-  });
+    return () => {
+      controller.abort();
+      unwatch?.();
+    };
+  }, [address, selectedMarket, publicClient]);
 
   // Update block number periodically
   useEffect(() => {
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi';
+import type { Address } from 'viem';
+import {
+  previewTransaction,
+  toProtocolError,
+  type PreviewAction,
+  type TransactionPreview,
+} from '@velto/contracts';
+import { useMarketStore } from '../store/marketStore';
+
+interface TransactionPreviewState {
+  preview: TransactionPreview | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Preview an engine call for the connected account before it is signed
+ * Traced on nodes with debug_traceCall (Anvil), offline math elsewhere; re-runs when the action changes and on each new block
+ */
+export function useTransactionPreview(action: PreviewAction | null, debounceMs = 300): TransactionPreviewState {
+  const { selectedMarket } = useMarketStore();
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+  const [result, setResult] = useState<{ key: string; preview: TransactionPreview | null; error: string | null } | null>(null);
+
+  // Actions are rebuilt every render; compare by value
+  const requestKey = action && selectedMarket && address
+    ? `${selectedMarket}:${address}:${JSON.stringify(action, (_, value) => (typeof value === 'bigint' ? value.toString() : value))}`
+    : null;
+
+  // Latest action for the effect below, which only re-runs when requestKey changes
+  const actionRef = useRef(action);
+  useEffect(() => {
+    actionRef.current = action;
+  });
+
+  useEffect(() => {
+    const current = actionRef.current;
+    if (!requestKey || !current || !selectedMarket || !address || !publicClient) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const preview = await previewTransaction(publicClient, {
+          engine: selectedMarket as Address,
+          account: address,
+          action: current,
+          blockNumber,
+        });
+        if (!cancelled) setResult({ key: requestKey, preview, error: null });
+      } catch (error) {
+        if (!cancelled) setResult({ key: requestKey, preview: null, error: toProtocolError(error).message });
+      }
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [requestKey, selectedMarket, address, publicClient, blockNumber, debounceMs]);
+
+  if (!requestKey) return { preview: null, error: null, isLoading: false };
+
+  // Keep showing the previous preview while the new one loads
+  const isLoading = result?.key !== requestKey;
+  return {
+    preview: result?.preview ?? null,
+    error: isLoading ? null : result.error,
+    isLoading,
+  };
+}
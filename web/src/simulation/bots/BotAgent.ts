@@ -1,4 +1,12 @@
-import { parseUnits, type PublicClient, type WalletClient, type Address } from 'viem';
+import type { PublicClient, WalletClient, Address } from 'viem';
+import {
+  quoteOpenPosition,
+  formatPrice,
+  parseInternalAmount,
+  parseLeverage18,
+  type OpenQuoteMarket,
+  type TransactionManager,
+} from '@velto/contracts';
 import { ContractService } from '../../contract-api';
 import { TradingStrategy, type MarketState, type BotState } from '../strategies/TradingStrategy';
 import { RandomStrategy } from '../strategies/RandomStrategy';
@@ -31,14 +39,15 @@ export class BotAgent {
     strategyType: StrategyType,
     walletClient: WalletClient,
     publicClient: PublicClient,
-    chainId: number = 31337 // Default to Anvil
+    chainId: number = 31337, // Default to Anvil
+    transactionManager?: TransactionManager
   ) {
     this.id = id;
     this.walletAddress = walletAddress;
     this.accountIndex = accountIndex;
 
     // Initialize ContractService for this bot
-    this.service = new ContractService(chainId, publicClient, walletClient);
+    this.service = new ContractService(chainId, publicClient, walletClient, { transactionManager });
 
     // Initialize strategy based on type
     switch (strategyType) {
@@ -92,17 +101,33 @@ export class BotAgent {
 
   /**
    * Execute open position action
+   * When a market snapshot is given, the order is quoted offline first and
+   * skipped without sending a transaction if the engine would reject it
    */
   async executeOpen(
     engineAddress: Address,
     isLong: boolean,
     size: number, // USDC amount
-    leverage: number
+    leverage: number,
+    market?: OpenQuoteMarket,
+    walletBalance?: bigint
   ): Promise<{ success: boolean; positionId?: bigint; error?: string }> {
     try {
-      // Convert to contract parameters (18 decimals)
-      const totalToUse = parseUnits(size.toString(), 18);
-      const leverageAmount = parseUnits(leverage.toString(), 18);
+      // Convert to contract parameters (engine units, 18 decimals)
+      const totalToUse = parseInternalAmount(size.toString());
+      const leverageAmount = parseLeverage18(leverage);
+
+      if (market) {
+        const quote = quoteOpenPosition(market, {
+          isLong,
+          totalToUse,
+          leverage: leverageAmount,
+          walletBalance,
+        });
+        console.log(
+          `📐 Bot ${this.id} quote: ${isLong ? 'LONG' : 'SHORT'} size ${formatPrice(quote.baseSize)} @ ~${formatPrice(quote.entryPrice, 2)}`
+        );
+      }
 
       // Execute via ContractService (includes simulation)
       const result = await this.service.engine.openPosition(
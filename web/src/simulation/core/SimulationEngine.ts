@@ -1,6 +1,7 @@
 import { createWalletClient, createPublicClient, http, type PublicClient, type Address } from 'viem';
 import { anvil } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
+import { parseUsdcAmount, asUsdc, createTransactionManager, type TransactionManager } from '@velto/contracts';
 import { ContractService } from '../../contract-api';
 import { BotAgent } from '../bots/BotAgent';
 import { useSimulationStore, type BotWallet } from '../store/simulationStore';
@@ -49,6 +50,7 @@ export class SimulationEngine {
   private bots: BotAgent[] = [];
   private publicClient: PublicClient | null = null;
   private contractService: ContractService | null = null;
+  private transactionManager: TransactionManager | null = null;
   private intervalId: ReturnType<typeof setInterval> | null = null;
   private currentBlock: number = 0;
   private priceHistory: number[] = [];
@@ -73,6 +75,14 @@ export class SimulationEngine {
         transport: http('http://127.0.0.1:8545'),
       });
 
+      // Shared by all bots: writes are queued per account with local nonces, so a bot's
+      // back-to-back trades don't race for the same nonce; anything pending 5s gets a fee bump
+      this.transactionManager = createTransactionManager({
+        publicClient: this.publicClient,
+        feePolicy: { bumpAfterMs: 5_000 },
+        pollingInterval: 250,
+      });
+
       // Get scenario config
       const { config } = useSimulationStore.getState();
       const scenario = SCENARIOS[config.scenario];
@@ -102,7 +112,8 @@ export class SimulationEngine {
           strategyType,
           botWalletClient,
           this.publicClient,
-          31337 // Anvil chainId
+          31337, // Anvil chainId
+          this.transactionManager
         );
         this.bots.push(bot);
 
@@ -135,14 +146,14 @@ export class SimulationEngine {
   }
 
   /**
-   * Fund all bot wallets: mint USDC, approve, and deposit to engine
+   * Fund all bot wallets: mint USDC, then deposit to engine with a permit
    */
   private async fundBots(): Promise<void> {
     if (!this.publicClient) return;
 
     console.log('💰 Funding bot wallets...');
 
-    const initialUSDC = 10_000n * 10n ** 6n; // 10k USDC in 6 decimals
+    const initialUSDC = parseUsdcAmount('10000');
 
     for (const bot of this.bots) {
       try {
@@ -150,17 +161,12 @@ export class SimulationEngine {
 
         // Step 1: Mint USDC to bot wallet
         console.log(`    - Minting ${initialUSDC} USDC...`);
-        const mintResult = await bot.service.usdc.mint(bot.walletAddress, initialUSDC * 2n);
+        const mintResult = await bot.service.usdc.mint(bot.walletAddress, asUsdc(initialUSDC * 2n));
         console.log(`    ✓ Minted USDC (tx: ${mintResult.txHash})`);
 
-        // Step 2: Approve engine to spend USDC
-        console.log(`    - Approving engine...`);
-        const approveResult = await bot.service.usdc.approve(this.engineAddress, initialUSDC);
-        console.log(`    ✓ Approved (tx: ${approveResult.txHash})`);
-
-        // Step 3: Deposit USDC to engine
-        console.log(`    - Depositing to engine...`);
-        const depositResult = await bot.service.engine.deposit(this.engineAddress, initialUSDC);
+        // Step 2: Deposit USDC to engine (permit signature replaces the approve tx)
+        console.log(`    - Depositing to engine with permit...`);
+        const depositResult = await bot.service.engine.depositWithPermit(this.engineAddress, initialUSDC);
         console.log(`    ✓ Deposited (tx: ${depositResult.txHash})`);
 
         // Update bot balance in store
@@ -312,7 +318,9 @@ export class SimulationEngine {
           this.engineAddress,
           decision.isLong!,
           decision.size!,
-          decision.leverage!
+          decision.leverage!,
+          marketData,
+          botBalance
         );
 
         if (result.success) {
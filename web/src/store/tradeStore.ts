@@ -37,6 +37,7 @@ interface TradeStore {
   // Actions
   addTrade: (trade: Trade) => void;
   addTrades: (trades: Trade[]) => void;
+  removeTrade: (tradeId: string) => void;
   getTradesByUser: (userAddress: Address) => Trade[];
   getTradesByPosition: (positionId: bigint) => Trade[];
   getTradesByMarket: (engineAddress: Address) => Trade[];
@@ -69,6 +70,11 @@ export const useTradeStore = create<TradeStore>()(
           };
         }),
 
+      removeTrade: (tradeId) =>
+        set((state) => ({
+          trades: state.trades.filter((t) => t.id !== tradeId),
+        })),
+
       getTradesByUser: (userAddress) => {
         const state = get();
         const userKey = userAddress.toLowerCase();
@@ -1,3 +1,5 @@
+import { formatAmount, formatUsd } from '@velto/contracts';
+
 /**
  * Format a number with proper thousands separators and decimals
  */
@@ -15,40 +17,21 @@ export function formatNumber(value: number | string, decimals: number = 2): stri
 
 /**
  * Format a BigInt value with decimals
- * Handles precision loss for very large numbers by using string arithmetic
+ * Exact (no float round-trip), signed and rounded half away from zero
  */
 export function formatBigInt(
   value: bigint,
   decimals: number = 18,
   displayDecimals: number = 2
 ): string {
-  const isNegative = value < 0n;
-  const absValue = isNegative ? -value : value;
-
-  // Convert to string and pad with zeros
-  const valueStr = absValue.toString().padStart(decimals + 1, '0');
-
-  // Split into integer and fractional parts
-  const integerPart = valueStr.slice(0, -decimals) || '0';
-  const fractionalPart = valueStr.slice(-decimals);
-
-  // Build the number with desired decimals
-  const num = parseFloat(`${integerPart}.${fractionalPart}`);
-
-  const formatted = num.toLocaleString('en-US', {
-    minimumFractionDigits: displayDecimals,
-    maximumFractionDigits: displayDecimals,
-    useGrouping: true,
-  });
-
-  return isNegative ? `-${formatted}` : formatted;
+  return formatAmount(value, { decimals, digits: displayDecimals });
 }
 
 /**
- * Format BigInt as USD
+ * Format BigInt as USD ("-$1,234.56")
  */
 export function formatBigIntUSD(value: bigint, decimals: number = 18): string {
-  return `$${formatBigInt(value, decimals, 2)}`;
+  return formatUsd(value, { decimals });
 }
 
 /**